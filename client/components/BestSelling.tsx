@@ -1,10 +1,14 @@
 import React, { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { ProductRow } from "./ui/product-card";
-import { useProducts, Product } from "@/hooks/useProducts";
+import { apiFetch } from "@/lib/api";
 import { useCart } from "@/hooks/useCart";
+import { useWishlist } from "@/hooks/useWishlist";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
+import type { ProductListingResponse, ProductSummary } from "@shared/api";
+
+const BEST_SELLING_COUNT = 8;
 
 interface BestSellingProps {
   onAddToCart?: (product: {
@@ -21,22 +25,26 @@ export default function BestSelling({
   onAddToCart,
   onQuickView,
 }: BestSellingProps) {
-  const [bestSellingProducts, setBestSellingProducts] = useState<Product[]>([]);
+  const [bestSellingProducts, setBestSellingProducts] = useState<
+    ProductSummary[]
+  >([]);
   const [loading, setLoading] = useState(true);
   const navigate = useNavigate();
-  const { getHotSaleProducts } = useProducts();
   const { addToCart: addToDbCart } = useCart();
+  const { isWishlisted, toggleWishlist } = useWishlist();
   const { user } = useAuth();
   const { toast } = useToast();
 
   useEffect(() => {
     const fetchBestSelling = async () => {
       try {
-        const hotSaleProducts = await getHotSaleProducts();
-        setBestSellingProducts(hotSaleProducts);
+        const response = await apiFetch<ProductListingResponse>(
+          `/api/products?sort=popularity&page=1&pageSize=${BEST_SELLING_COUNT}`,
+        );
+        setBestSellingProducts(response.products);
       } catch (error) {
         console.error(
-          "Error fetching hot sale products:",
+          "Error fetching best selling products:",
           error instanceof Error ? error.message : String(error),
         );
       } finally {
@@ -45,36 +53,29 @@ export default function BestSelling({
     };
 
     fetchBestSelling();
-  }, [getHotSaleProducts]);
+  }, []);
 
-  // Convert database products to the format expected by ProductRow
-  const products = bestSellingProducts.map((product) => ({
-    id: parseInt(product.id), // Convert to number for ProductCard compatibility
+  // ProductRow keys products by number, so use each one's position
+  const products = bestSellingProducts.map((product, index) => ({
+    id: index,
     name: product.name,
     price: `Rs. ${product.price.toLocaleString()}.00`,
-    image: product.images?.[0]?.image_url || "/placeholder.svg",
+    image: product.imageUrl || "/placeholder.svg",
     rating: product.rating || 4,
-    colors: product.variants
-      ?.filter((v) => v.color_code)
-      .map((v) => ({
-        name: v.color_name || "Color",
-        color: v.color_code || "#000000",
-      })) || [
-      { name: "Black", color: "#000000" },
-      { name: "White", color: "#ffffff" },
-      { name: "Gray", color: "#808080" },
-    ],
-    sizes: product.variants
-      ?.filter((v) => v.size)
-      .map((v) => v.size!)
-      .filter(Boolean) || ["S", "M", "L", "XL"],
+    colors: product.colors.length
+      ? product.colors.map((c) => ({ name: c.name, color: c.code }))
+      : [
+          { name: "Black", color: "#000000" },
+          { name: "White", color: "#ffffff" },
+          { name: "Gray", color: "#808080" },
+        ],
+    sizes: product.sizes.length ? product.sizes : ["S", "M", "L", "XL"],
     category: product.category?.name || "General",
+    isWishlisted: isWishlisted(product.id),
   }));
 
   const handleQuickView = (productId: number) => {
-    const product = bestSellingProducts.find(
-      (p) => parseInt(p.id) === productId,
-    );
+    const product = bestSellingProducts[productId];
     if (onQuickView && product) {
       onQuickView(product.id);
     } else if (product) {
@@ -83,22 +84,38 @@ export default function BestSelling({
     }
   };
 
+  const handleToggleWishlist = async (productId: number) => {
+    const product = bestSellingProducts[productId];
+    if (!product) return;
+
+    try {
+      const saved = await toggleWishlist(product.id);
+      toast({
+        title: saved ? "Saved to wishlist" : "Removed from wishlist",
+        description: `${product.name} ${saved ? "saved to" : "removed from"} your wishlist`,
+      });
+    } catch (error) {
+      console.error("Error updating wishlist:", error);
+      toast({
+        title: "Error",
+        description: "Error updating your wishlist. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleAddToCart = async (productId: number) => {
-    const product = bestSellingProducts.find(
-      (p) => parseInt(p.id) === productId,
-    );
+    const product = bestSellingProducts[productId];
     if (!product) return;
 
     // If parent component has custom add to cart logic, use it
     if (onAddToCart) {
-      const primaryImage =
-        product.images.find((img) => img.is_primary) || product.images[0];
       onAddToCart({
         id: product.id,
         name: product.name,
         price: product.price,
-        size: product.variants?.[0]?.size || "M",
-        image: primaryImage?.image_url || "/placeholder.svg",
+        size: product.defaultVariant?.size || product.sizes[0] || "M",
+        image: product.imageUrl || "/placeholder.svg",
       });
       return;
     }
@@ -114,15 +131,12 @@ export default function BestSelling({
     }
 
     try {
-      // Get the first available variant or null if no variants
-      const firstVariant = product.variants?.find(
-        (v) => v.is_active && v.stock_quantity > 0,
-      );
+      const firstVariant = product.defaultVariant;
 
       await addToDbCart(product.id, firstVariant?.id || null, 1);
 
       const variantInfo = firstVariant
-        ? ` (${firstVariant.size || "Standard"} - ${firstVariant.color_name || "Default"})`
+        ? ` (${firstVariant.size || "Standard"} - ${firstVariant.colorName || "Default"})`
         : "";
 
       toast({
@@ -177,9 +191,6 @@ export default function BestSelling({
             <p className="text-gray-600 text-lg">
               No best selling products available at the moment.
             </p>
-            <p className="text-gray-500 text-sm mt-2">
-              Admin can mark products as "Hot Sale" to display them here.
-            </p>
           </div>
         </div>
       </section>
@@ -207,6 +218,7 @@ export default function BestSelling({
             onQuickView={handleQuickView}
             onAddToCart={handleAddToCart}
             onColorSelect={handleColorSelect}
+            onToggleWishlist={handleToggleWishlist}
           />
         </div>
       </div>
@@ -25,9 +25,10 @@ export default function CategoryShowcase() {
           .from('categories')
           .select(`
             *,
-            products!inner(id)
+            products!products_category_id_fkey!inner(id)
           `)
           .eq('is_active', true)
+          .is('parent_id', null)
           .limit(6);
 
         if (error) {
@@ -22,6 +22,7 @@ export default function FeaturedArticle() {
           .from("categories")
           .select("name, slug")
           .eq("is_active", true)
+          .is("parent_id", null)
           .limit(3);
 
         if (error) {
@@ -4,7 +4,22 @@ import { Link } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
 import { useAdmin } from "@/hooks/useAdmin";
 import { useCart } from "@/hooks/useCart";
+import { useCategoryMenu } from "@/hooks/useCategory";
 import LoginPage from "../pages/LoginPage";
+import SearchBox from "./SearchBox";
+
+interface NavigationItem {
+  name: string;
+  hasDropdown: boolean;
+  isNew?: boolean;
+  link: string;
+  items?: {
+    name: string;
+    slug: string;
+    hasSubItems: boolean;
+    subItems: { name: string; slug: string }[];
+  }[];
+}
 
 interface HeaderProps {
   cartItemsCount?: number;
@@ -31,7 +46,6 @@ export default function Header({
   const [activeDropdown, setActiveDropdown] = useState<string | null>(null);
   const [dropdownTimeout, setDropdownTimeout] = useState<NodeJS.Timeout | null>(null);
   const [isSearchOpen, setIsSearchOpen] = useState(false);
-  const [searchQuery, setSearchQuery] = useState("");
   const [isLoginModalOpen, setIsLoginModalOpen] = useState(false);
   const [showUserDropdown, setShowUserDropdown] = useState(false);
   const userDropdownRef = useRef<HTMLDivElement>(null);
@@ -96,16 +110,6 @@ export default function Header({
     };
   }, [dropdownTimeout]);
 
-  const handleSearch = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (searchQuery.trim()) {
-      console.log("Searching for:", searchQuery);
-      alert(`Searching for: ${searchQuery}`);
-      setIsSearchOpen(false);
-      setSearchQuery("");
-    }
-  };
-
   const handleSignOut = async () => {
     try {
       await signOut();
@@ -115,77 +119,21 @@ export default function Header({
     }
   };
 
-  const navigationItems = [
-    {
-      name: "Men",
-      hasDropdown: true,
-      items: [
-        {
-          name: "T-Shirts",
-          hasSubItems: true,
-          subItems: [
-            "Round Neck T-Shirts",
-            "V-Neck T-Shirts", 
-            "Polo T-Shirts",
-            "Long Sleeve T-Shirts",
-            "Sleeveless T-Shirts",
-            "Full Hand T-Shirts"
-          ]
-        },
-        {
-          name: "Bottom Wear",
-          hasSubItems: true,
-          subItems: [
-            "Track Pants",
-            "Shorts"
-          ]
-        }
-      ],
-    },
-    {
-      name: "Women",
-      hasDropdown: true,
-      items: [
-        {
-          name: "Leggings",
-          hasSubItems: true,
-          subItems: [
-            "Flat Ankle Leggings",
-            "Flat Full Length Leggings",
-            "Churidhar Ankle Leggings",
-            "Churidhar Full Length Leggings",
-            "Shimmer Leggings",
-            "3/4 Leggings"
-          ]
-        },
-        {
-          name: "Saree Shapewear",
-          hasSubItems: true,
-          subItems: [
-            "Lycra Cotton Shapewear",
-            "Polyester Shapewear",
-            "Shimmer Shapewear"
-          ]
-        },
-        {
-          name: "Night Wear",
-          hasSubItems: true,
-          subItems: [
-            "Night T-Shirts"
-          ]
-        },
-        {
-          name: "Inner Wear",
-          hasSubItems: true,
-          subItems: [
-            "Shorts",
-            "Basic Slips", 
-            "Adjustment Slips",
-            "Panties"
-          ]
-        }
-      ],
-    },
+  // Category entries come from the categories table, so one added or
+  // renamed in the admin shows up here; each is served by /category/:slug
+  const categoryMenu = useCategoryMenu();
+  const navigationItems: NavigationItem[] = [
+    ...categoryMenu.map((section) => ({
+      name: section.name,
+      hasDropdown: section.categories.length > 0,
+      link: section.link,
+      items: section.categories.map((category) => ({
+        name: category.name,
+        slug: category.slug,
+        hasSubItems: category.subcategories.length > 0,
+        subItems: category.subcategories,
+      })),
+    })),
     {
       name: "Shop All",
       hasDropdown: false,
@@ -278,32 +226,11 @@ export default function Header({
                            onMouseLeave={handleDropdownContentLeave}
                       >
                         {item.items.map((mainCategory: any, mainIndex: number) => {
-                          // Create URL for category pages
-                          const getCategoryUrl = (categoryName: string, parentCategory?: string) => {
-                            let categorySlug = categoryName.toLowerCase()
-                              .replace(/\//g, '-') // Replace forward slashes with hyphens (for "3/4 Leggings" -> "3-4-leggings")
-                              .replace(/[^a-z0-9\s-]/g, '') // Remove special characters but keep hyphens and spaces
-                              .replace(/\s+/g, '-') // Replace spaces with dashes
-                              .replace(/--+/g, '-') // Replace multiple consecutive dashes with single dash
-                              .replace(/^-+|-+$/g, ''); // Remove leading/trailing dashes
-                            
-                            // Handle specific routing for shorts to differentiate men's and women's
-                            if (categorySlug === 'shorts') {
-                              if (parentCategory === 'Bottom Wear' || item.name === 'Men') {
-                                return `/category/shorts`; // Men's shorts
-                              } else if (parentCategory === 'Inner Wear' || item.name === 'Women') {
-                                return `/category/women-shorts`; // Women's inner wear shorts
-                              }
-                            }
-                            
-                            return `/category/${categorySlug}`;
-                          };
-                          
                           return (
                             <div key={mainIndex} className="mb-3 last:mb-0">
                               {/* Main Category */}
                               <Link
-                                to={getCategoryUrl(mainCategory.name, mainCategory.name)}
+                                to={`/category/${mainCategory.slug}`}
                                 className="block px-4 py-2 text-[15px] font-semibold text-[#7C3AED] hover:bg-gray-50 transition-all duration-200 ease-in-out"
                                 onClick={() => setActiveDropdown(null)}
                               >
@@ -313,14 +240,14 @@ export default function Header({
                               {/* Sub Categories */}
                               {mainCategory.hasSubItems && mainCategory.subItems && (
                                 <div className="ml-4 border-l-2 border-gray-100 pl-2">
-                                  {mainCategory.subItems.map((subItem: string, subIndex: number) => (
+                                  {mainCategory.subItems.map((subItem: any, subIndex: number) => (
                                     <Link
                                       key={subIndex}
-                                      to={getCategoryUrl(subItem, mainCategory.name)}
+                                      to={`/category/${subItem.slug}`}
                                       className="block px-3 py-1.5 text-[13px] text-[#666] hover:text-[#7C3AED] hover:bg-gray-50 transition-all duration-200 ease-in-out transform hover:translate-x-1"
                                       onClick={() => setActiveDropdown(null)}
                                     >
-                                      {subItem}
+                                      {subItem.name}
                                     </Link>
                                   ))}
                                 </div>
@@ -543,31 +470,11 @@ export default function Header({
                         activeDropdown === item.name && (
                           <div className="pl-4 py-2 bg-gray-50">
                             {item.items.map((mainCategory: any, mainIndex: number) => {
-                              const getCategoryUrl = (categoryName: string, parentCategory?: string) => {
-                                let categorySlug = categoryName.toLowerCase()
-                                  .replace(/\//g, '-') // Replace forward slashes with hyphens (for "3/4 Leggings" -> "3-4-leggings")
-                                  .replace(/[^a-z0-9\s-]/g, '') // Remove special characters but keep hyphens and spaces
-                                  .replace(/\s+/g, '-') // Replace spaces with dashes
-                                  .replace(/--+/g, '-') // Replace multiple consecutive dashes with single dash
-                                  .replace(/^-+|-+$/g, ''); // Remove leading/trailing dashes
-                                
-                                // Handle specific routing for shorts to differentiate men's and women's
-                                if (categorySlug === 'shorts') {
-                                  if (parentCategory === 'Bottom Wear' || item.name === 'Men') {
-                                    return `/category/shorts`; // Men's shorts
-                                  } else if (parentCategory === 'Inner Wear' || item.name === 'Women') {
-                                    return `/category/women-shorts`; // Women's inner wear shorts
-                                  }
-                                }
-                                
-                                return `/category/${categorySlug}`;
-                              };
-                              
                               return (
                                 <div key={mainIndex} className="mb-2">
                                   {/* Main Category */}
                                   <Link
-                                    to={getCategoryUrl(mainCategory.name, mainCategory.name)}
+                                    to={`/category/${mainCategory.slug}`}
                                     className="block py-2 text-[14px] font-semibold text-[#7C3AED] hover:text-[#5B21B6] transition-colors"
                                     onClick={() => setIsMobileMenuOpen(false)}
                                   >
@@ -577,14 +484,14 @@ export default function Header({
                                   {/* Sub Categories */}
                                   {mainCategory.hasSubItems && mainCategory.subItems && (
                                     <div className="ml-3 border-l-2 border-gray-200 pl-2">
-                                      {mainCategory.subItems.map((subItem: string, subIndex: number) => (
+                                      {mainCategory.subItems.map((subItem: any, subIndex: number) => (
                                         <Link
                                           key={subIndex}
-                                          to={getCategoryUrl(subItem, mainCategory.name)}
+                                          to={`/category/${subItem.slug}`}
                                           className="block py-1.5 text-[12px] text-[#666] hover:text-[#7C3AED] transition-colors"
                                           onClick={() => setIsMobileMenuOpen(false)}
                                         >
-                                          {subItem}
+                                          {subItem.name}
                                         </Link>
                                       ))}
                                     </div>
@@ -605,66 +512,19 @@ export default function Header({
 
       {/* Search Modal */}
       {isSearchOpen && (
-        <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-start justify-center pt-20">
-          <div className="bg-white rounded-lg shadow-lg w-full max-w-2xl mx-4">
-            <form onSubmit={handleSearch} className="p-6">
-              <div className="flex items-center space-x-4">
-                <div className="flex-1 relative">
-                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
-                  <input
-                    type="text"
-                    value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
-                    placeholder="Search for products..."
-                    className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#7C3AED] focus:border-transparent"
-                    autoFocus
-                  />
-                </div>
-                <button
-                  type="submit"
-                  className="px-6 py-3 bg-[#7C3AED] text-white rounded-lg hover:bg-[#6D28D9] transition-colors"
-                >
-                  Search
-                </button>
-                <button
-                  type="button"
-                  onClick={() => {
-                    setIsSearchOpen(false);
-                    setSearchQuery("");
-                  }}
-                  className="px-4 py-3 text-gray-500 hover:text-gray-700 transition-colors"
-                >
-                  Cancel
-                </button>
-              </div>
-
-              {/* Quick suggestions */}
-              <div className="mt-4">
-                <p className="text-sm text-gray-500 mb-2">Popular searches:</p>
-                <div className="flex flex-wrap gap-2">
-                  {[
-                    "t-shirts",
-                    "leggings", 
-                    "track pants",
-                    "shapewear",
-                    "night wear",
-                    "shorts"
-                  ].map((term) => (
-                    <button
-                      key={term}
-                      type="button"
-                      onClick={() => {
-                        setSearchQuery(term);
-                        handleSearch(new Event("submit") as any);
-                      }}
-                      className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded-full hover:bg-gray-200 transition-colors"
-                    >
-                      {term}
-                    </button>
-                  ))}
-                </div>
-              </div>
-            </form>
+        <div
+          className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-start justify-center pt-20"
+          onClick={() => setIsSearchOpen(false)}
+        >
+          <div
+            className="bg-white rounded-lg shadow-lg w-full max-w-2xl mx-4 p-6"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <SearchBox
+              autoFocus
+              onDone={() => setIsSearchOpen(false)}
+              onCancel={() => setIsSearchOpen(false)}
+            />
           </div>
         </div>
       )}
@@ -19,7 +19,7 @@ export default function InstagramFeed() {
         // Try to fetch from a testimonials table, or create mock data based on actual products
         const { data: products, error } = await supabase
           .from("products")
-          .select("name, category:categories(name)")
+          .select("name, category:categories!products_category_id_fkey(name)")
           .eq("is_active", true)
           .limit(8);
 
@@ -1,7 +1,16 @@
 import React, { useState, useEffect } from "react";
-import { Home, User, Building2, ShoppingCart, ChevronUp } from "lucide-react";
+import {
+  Home,
+  User,
+  Building2,
+  Search,
+  ShoppingCart,
+  ChevronUp,
+  X,
+} from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useCart } from "@/hooks/useCart";
+import SearchBox from "./SearchBox";
 
 interface MobileBottomNavigationProps {
   className?: string;
@@ -16,6 +25,7 @@ export default function MobileBottomNavigation({
   const [isVisible, setIsVisible] = useState(true);
   const [showScrollTop, setShowScrollTop] = useState(false);
   const [lastScrollY, setLastScrollY] = useState(0);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
 
   useEffect(() => {
     const handleScroll = () => {
@@ -66,6 +76,12 @@ export default function MobileBottomNavigation({
       href: "#shop",
       active: false,
     },
+    {
+      name: "Search",
+      icon: Search,
+      href: "#search",
+      active: false,
+    },
     {
       name: "Cart",
       icon: ShoppingCart,
@@ -91,6 +107,12 @@ export default function MobileBottomNavigation({
               <a
                 key={index}
                 href={item.href}
+                onClick={(e) => {
+                  if (item.name === "Search") {
+                    e.preventDefault();
+                    setIsSearchOpen(true);
+                  }
+                }}
                 className={cn(
                   "flex flex-col items-center justify-center py-2 px-3 min-w-[60px] transition-colors duration-200 relative",
                   item.active
@@ -119,6 +141,29 @@ export default function MobileBottomNavigation({
         </div>
       </nav>
 
+      {/* Search Sheet */}
+      {isSearchOpen && (
+        <div className="md:hidden fixed inset-0 bg-white z-[60] flex flex-col">
+          <div className="flex items-center justify-between px-4 pt-4">
+            <span className="text-lg font-semibold text-gray-900">Search</span>
+            <button
+              onClick={() => setIsSearchOpen(false)}
+              className="p-2 text-gray-500 hover:text-gray-700"
+              aria-label="Close search"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+          <div className="flex-1 overflow-y-auto p-4">
+            <SearchBox
+              autoFocus
+              onDone={() => setIsSearchOpen(false)}
+              onCancel={() => setIsSearchOpen(false)}
+            />
+          </div>
+        </div>
+      )}
+
       {/* Scroll to Top Button */}
       <button
         onClick={scrollToTop}
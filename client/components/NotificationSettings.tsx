@@ -0,0 +1,186 @@
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Bell } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useAuth } from "@/hooks/useAuth";
+import { useStockAlerts } from "@/hooks/useStockAlerts";
+import { toast } from "@/hooks/use-toast";
+import { supabase } from "@/lib/supabase";
+import type { AlertKind } from "@shared/api";
+
+type Preferences = Record<AlertKind, boolean>;
+
+const PREFERENCE_OPTIONS: {
+  kind: AlertKind;
+  label: string;
+  description: string;
+}[] = [
+  {
+    kind: "back_in_stock",
+    label: "Back in stock",
+    description: "Email me when a sold-out size I asked about is back",
+  },
+  {
+    kind: "price_drop",
+    label: "Price drops",
+    description: "Email me when something on my wishlist gets cheaper",
+  },
+];
+
+/**
+ * The Notifications tab on the profile page: which alert emails to get
+ * and the sold-out sizes the customer is waiting on
+ */
+export default function NotificationSettings() {
+  const { user } = useAuth();
+  const { alerts, loading, unsubscribe } = useStockAlerts();
+  const [preferences, setPreferences] = useState<Preferences>({
+    back_in_stock: true,
+    price_drop: true,
+  });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    supabase
+      .from("notification_preferences")
+      .select("back_in_stock, price_drop")
+      .eq("user_id", user.id)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) {
+          console.error("Error loading notification preferences:", error);
+          return;
+        }
+        // No row yet means every alert is on
+        if (data) setPreferences(data);
+      });
+  }, [user]);
+
+  const handleToggle = async (kind: AlertKind, enabled: boolean) => {
+    if (!user) return;
+
+    const previous = preferences;
+    const next = { ...preferences, [kind]: enabled };
+    setPreferences(next);
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from("notification_preferences")
+        .upsert({ user_id: user.id, ...next }, { onConflict: "user_id" });
+      if (error) throw error;
+    } catch (error) {
+      console.error("Error saving notification preferences:", error);
+      setPreferences(previous);
+      toast({
+        title: "Error",
+        description: "Failed to save your preferences",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancelAlert = async (variantId: string) => {
+    try {
+      await unsubscribe(variantId);
+    } catch (error) {
+      console.error("Error cancelling stock alert:", error);
+      toast({
+        title: "Error",
+        description: "Failed to cancel the alert",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Email Alerts</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {PREFERENCE_OPTIONS.map((option) => (
+            <div
+              key={option.kind}
+              className="flex items-center justify-between gap-4"
+            >
+              <div>
+                <Label htmlFor={`alert-${option.kind}`}>{option.label}</Label>
+                <p className="text-sm text-gray-500">{option.description}</p>
+              </div>
+              <Switch
+                id={`alert-${option.kind}`}
+                checked={preferences[option.kind]}
+                onCheckedChange={(checked) =>
+                  handleToggle(option.kind, checked)
+                }
+                disabled={saving}
+              />
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Waiting for Stock</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? null : alerts.length === 0 ? (
+            <div className="text-center py-8">
+              <Bell className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-500">
+                Tap "Notify Me" on a sold-out size to hear when it's back
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {alerts.map((alert) => (
+                <div
+                  key={alert.id}
+                  className="flex items-center justify-between gap-4 p-4 border border-gray-200 rounded-lg"
+                >
+                  <div>
+                    {alert.productId ? (
+                      <Link
+                        to={`/product/${alert.productId}`}
+                        className="font-medium text-gray-900 hover:text-[#7C3AED]"
+                      >
+                        {alert.productName || "Product"}
+                      </Link>
+                    ) : (
+                      <span className="font-medium text-gray-900">
+                        No longer available
+                      </span>
+                    )}
+                    {(alert.size || alert.colorName) && (
+                      <p className="text-sm text-gray-600">
+                        {[alert.size, alert.colorName]
+                          .filter(Boolean)
+                          .join(" · ")}
+                      </p>
+                    )}
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleCancelAlert(alert.variantId)}
+                  >
+                    Cancel
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
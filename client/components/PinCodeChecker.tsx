@@ -0,0 +1,112 @@
+import React, { useState } from "react";
+import { Loader2, MapPin } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { apiFetch } from "@/lib/api";
+import {
+  formatDeliveryEstimate,
+  getSavedPinCode,
+  isValidPinCode,
+  savePinCode,
+} from "@/lib/shipping";
+import type { ShippingEstimateRequest, ShippingQuote } from "@shared/api";
+
+interface PinCodeCheckerProps {
+  productId: string;
+  variantId?: string;
+  quantity: number;
+}
+
+/**
+ * Shipping fee and delivery dates for a product at the shopper's PIN code
+ */
+export default function PinCodeChecker({
+  productId,
+  variantId,
+  quantity,
+}: PinCodeCheckerProps) {
+  const [pinCode, setPinCode] = useState(getSavedPinCode);
+  const [estimate, setEstimate] = useState<ShippingQuote | null>(null);
+  const [error, setError] = useState("");
+  const [checking, setChecking] = useState(false);
+
+  const handleCheck = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValidPinCode(pinCode)) {
+      setEstimate(null);
+      setError("Enter a valid 6-digit PIN code");
+      return;
+    }
+
+    setChecking(true);
+    try {
+      const request: ShippingEstimateRequest = {
+        pinCode: pinCode.trim(),
+        productId,
+        variantId,
+        quantity,
+      };
+      const response = await apiFetch<ShippingQuote>("/api/shipping/estimate", {
+        method: "POST",
+        body: JSON.stringify(request),
+      });
+      setEstimate(response);
+      setError("");
+      savePinCode(pinCode);
+    } catch (error) {
+      setEstimate(null);
+      setError(
+        error instanceof Error ? error.message : "Couldn't check delivery",
+      );
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">
+        Check delivery
+      </label>
+      <form onSubmit={handleCheck} className="flex gap-2">
+        <div className="relative flex-1">
+          <MapPin className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            inputMode="numeric"
+            maxLength={6}
+            value={pinCode}
+            onChange={(e) => setPinCode(e.target.value)}
+            placeholder="Enter PIN code"
+            className="pl-9"
+          />
+        </div>
+        <Button type="submit" variant="outline" disabled={checking}>
+          {checking ? <Loader2 className="h-4 w-4 animate-spin" /> : "Check"}
+        </Button>
+      </form>
+
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+
+      {estimate &&
+        (estimate.serviceable ? (
+          <div className="mt-2 text-sm text-gray-600">
+            {estimate.delivery && (
+              <p className="font-medium text-gray-900">
+                {formatDeliveryEstimate(estimate.delivery)}
+              </p>
+            )}
+            <p>
+              {estimate.fee > 0
+                ? `Shipping ₹${estimate.fee.toLocaleString()}`
+                : "Free shipping"}
+              {estimate.fee > 0 &&
+                estimate.amountToFreeShipping !== null &&
+                ` · Add ₹${estimate.amountToFreeShipping.toLocaleString()} more for free shipping`}
+            </p>
+          </div>
+        ) : (
+          <p className="mt-2 text-sm text-red-600">{estimate.message}</p>
+        ))}
+    </div>
+  );
+}
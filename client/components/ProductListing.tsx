@@ -0,0 +1,509 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { Grid, List, Search, SlidersHorizontal, X } from "lucide-react";
+import {
+  PRICE_BANDS,
+  ProductFacetValue,
+  ProductSort,
+  ProductSummary,
+} from "@shared/api";
+import { ProductCard } from "@/components/ui/product-card";
+import { useCart } from "@/hooks/useCart";
+import { useWishlist } from "@/hooks/useWishlist";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useProductListing } from "@/hooks/useProductListing";
+import {
+  LIST_FILTER_PARAMS,
+  ListFilter,
+  readListingQuery,
+  withListFilter,
+} from "@/lib/listing";
+import { cn } from "@/lib/utils";
+
+interface ProductListingProps {
+  /** Category slug; lists every category when omitted */
+  category?: string;
+  /** Only products on sale, for the Hot Sales page */
+  onSale?: boolean;
+  /** Hides the box that narrows the listing by name, for pages with their own */
+  hideSearch?: boolean;
+  emptyTitle: string;
+  emptyMessage: string;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const FACET_TITLES: Record<ListFilter, string> = {
+  sizes: "Size",
+  colors: "Colour",
+  subcategories: "Type",
+  priceBands: "Price",
+};
+
+/**
+ * Product grid with the sort, facet and view controls shared by the
+ * category, all-products, search and hot sales pages. Filters live in the
+ * URL so filtered views can be shared and survive a reload; further pages
+ * load as the shopper scrolls.
+ */
+export default function ProductListing({
+  category,
+  onSale,
+  hideSearch = false,
+  emptyTitle,
+  emptyMessage,
+}: ProductListingProps) {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { addToCart } = useCart();
+  const { isWishlisted, toggleWishlist } = useWishlist();
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const query = useMemo(
+    () => readListingQuery(searchParams, { category, onSale }),
+    [searchParams, category, onSale],
+  );
+  const {
+    products,
+    facets,
+    total,
+    hasMore,
+    loaded,
+    loading,
+    loadingMore,
+    error,
+    loadMore,
+  } = useProductListing(query);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  const activeFilterCount = (Object.keys(LIST_FILTER_PARAMS) as ListFilter[])
+    .map((filter) => query[filter].length)
+    .reduce((total, count) => total + count, 0);
+
+  const [viewMode, setViewMode] = useState<"grid" | "list">("grid");
+  const [showFilters, setShowFilters] = useState(activeFilterCount > 0);
+  const [searchInput, setSearchInput] = useState(query.q);
+
+  // Follow the URL when it changes from elsewhere, e.g. the back button
+  useEffect(() => {
+    setSearchInput((current) =>
+      current.trim() === query.q ? current : query.q,
+    );
+  }, [query.q]);
+
+  useEffect(() => {
+    if (hideSearch || searchInput.trim() === query.q) return;
+
+    const timer = setTimeout(() => {
+      const next = new URLSearchParams(searchParams);
+      if (searchInput.trim()) {
+        next.set("q", searchInput.trim());
+      } else {
+        next.delete("q");
+      }
+      setSearchParams(next, { replace: true });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [hideSearch, searchInput, query.q, searchParams, setSearchParams]);
+
+  // Load the next page as the end of the list scrolls into view. After a
+  // failed page the button stays for a manual retry.
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMore || error) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) loadMore();
+      },
+      { rootMargin: "400px" },
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, error, loadMore]);
+
+  const toggleFilter = (filter: ListFilter, value: string) => {
+    const values = query[filter];
+    setSearchParams(
+      withListFilter(
+        searchParams,
+        filter,
+        values.includes(value)
+          ? values.filter((v) => v !== value)
+          : [...values, value],
+      ),
+    );
+  };
+
+  const handleSortChange = (sort: ProductSort) => {
+    const next = new URLSearchParams(searchParams);
+    next.set("sort", sort);
+    setSearchParams(next);
+  };
+
+  const clearFilters = () => {
+    const next = new URLSearchParams(searchParams);
+    for (const key of Object.values(LIST_FILTER_PARAMS)) next.delete(key);
+    next.delete("sort");
+    if (!hideSearch) next.delete("q");
+    setSearchParams(next);
+  };
+
+  const facetLabel = (filter: ListFilter, value: string) => {
+    if (filter === "priceBands") {
+      return PRICE_BANDS.find((band) => band.value === value)?.label || value;
+    }
+    return (
+      facets?.[filter].find((facet) => facet.value === value)?.label || value
+    );
+  };
+
+  const handleQuickView = (productId: string) => {
+    navigate(`/all-products?product=${productId}`);
+  };
+
+  const handleAddToCart = async (product: ProductSummary) => {
+    if (!user) {
+      toast({
+        title: "Login Required",
+        description: "Please login to add items to cart",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const variant = product.defaultVariant;
+      await addToCart(product.id, variant?.id || null, 1);
+
+      const variantInfo = variant
+        ? ` (${variant.size || "Standard"} - ${variant.colorName || "Default"})`
+        : "";
+
+      toast({
+        title: "Added to Cart!",
+        description: `${product.name}${variantInfo} added to cart`,
+      });
+    } catch (error) {
+      console.error("Error adding to cart:", error);
+      toast({
+        title: "Error",
+        description: "Error adding to cart. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleToggleWishlist = async (product: ProductSummary) => {
+    try {
+      const saved = await toggleWishlist(product.id);
+      toast({
+        title: saved ? "Saved to wishlist" : "Removed from wishlist",
+        description: `${product.name} ${saved ? "saved to" : "removed from"} your wishlist`,
+      });
+    } catch (error) {
+      console.error("Error updating wishlist:", error);
+      toast({
+        title: "Error",
+        description: "Error updating your wishlist. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const renderFacet = (filter: ListFilter, values: ProductFacetValue[]) => {
+    // Nothing to choose between, unless a stale URL already picked something
+    if (values.length < 2 && query[filter].length === 0) return null;
+
+    return (
+      <div key={filter}>
+        <h4 className="block text-sm font-medium text-gray-700 mb-2">
+          {FACET_TITLES[filter]}
+        </h4>
+        <div
+          className={cn(
+            "flex gap-2",
+            filter === "sizes" ? "flex-wrap" : "flex-col",
+          )}
+        >
+          {values.map((facet) => {
+            const selected = query[filter].includes(facet.value);
+            return filter === "sizes" ? (
+              <button
+                key={facet.value}
+                onClick={() => toggleFilter(filter, facet.value)}
+                aria-pressed={selected}
+                className={cn(
+                  "px-3 py-1 border rounded-md text-sm transition-colors",
+                  selected
+                    ? "border-[#7C3AED] bg-[#7C3AED] text-white"
+                    : "border-gray-300 text-gray-700 hover:border-[#7C3AED]",
+                )}
+              >
+                {facet.label}{" "}
+                <span className={selected ? "text-white/80" : "text-gray-400"}>
+                  ({facet.count})
+                </span>
+              </button>
+            ) : (
+              <label
+                key={facet.value}
+                className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer"
+              >
+                <input
+                  type="checkbox"
+                  checked={selected}
+                  onChange={() => toggleFilter(filter, facet.value)}
+                  className="rounded border-gray-300 text-[#7C3AED] focus:ring-[#7C3AED]"
+                />
+                {filter === "colors" && (
+                  <span
+                    className="w-4 h-4 rounded-full border border-gray-300"
+                    style={{ backgroundColor: facet.swatch || "#ccc" }}
+                  />
+                )}
+                <span className="flex-1">{facet.label}</span>
+                <span className="text-gray-400">{facet.count}</span>
+              </label>
+            );
+          })}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <>
+      {/* Filters and Search Bar */}
+      <div className="mb-8">
+        <div className="flex flex-col lg:flex-row gap-4 items-center justify-between mb-6">
+          {/* Search Bar */}
+          {hideSearch ? (
+            <div className="flex-1" />
+          ) : (
+            <div className="relative flex-1 max-w-md">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+              <input
+                type="text"
+                placeholder="Search products..."
+                value={searchInput}
+                maxLength={100}
+                onChange={(e) => setSearchInput(e.target.value)}
+                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#7C3AED] focus:border-transparent"
+              />
+            </div>
+          )}
+
+          {/* View Controls */}
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => setShowFilters(!showFilters)}
+              className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              <SlidersHorizontal className="w-4 h-4" />
+              Filters
+              {activeFilterCount > 0 && (
+                <span className="bg-[#7C3AED] text-white text-xs rounded-full px-2">
+                  {activeFilterCount}
+                </span>
+              )}
+            </button>
+
+            <div className="flex border border-gray-300 rounded-lg overflow-hidden">
+              <button
+                onClick={() => setViewMode("grid")}
+                className={`p-2 ${viewMode === "grid" ? "bg-[#7C3AED] text-white" : "bg-white text-gray-600 hover:bg-gray-50"} transition-colors`}
+              >
+                <Grid className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setViewMode("list")}
+                className={`p-2 ${viewMode === "list" ? "bg-[#7C3AED] text-white" : "bg-white text-gray-600 hover:bg-gray-50"} transition-colors`}
+              >
+                <List className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* Filters Panel */}
+        {showFilters && (
+          <div className="bg-gray-50 p-6 rounded-lg mb-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-6">
+              {/* Sort Filter */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Sort By
+                </label>
+                <select
+                  value={query.sort}
+                  onChange={(e) =>
+                    handleSortChange(e.target.value as ProductSort)
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#7C3AED]"
+                >
+                  {query.q && <option value="relevance">Relevance</option>}
+                  <option value="name">Name (A-Z)</option>
+                  <option value="price-low">Price (Low to High)</option>
+                  <option value="price-high">Price (High to Low)</option>
+                  <option value="rating">Rating</option>
+                  <option value="newest">Newest</option>
+                  <option value="popularity">Best Selling</option>
+                </select>
+              </div>
+
+              {facets &&
+                (Object.keys(FACET_TITLES) as ListFilter[]).map((filter) =>
+                  renderFacet(filter, facets[filter]),
+                )}
+            </div>
+          </div>
+        )}
+
+        {/* Active Filters */}
+        {activeFilterCount > 0 && (
+          <div className="flex flex-wrap items-center gap-2 mb-6">
+            {(Object.keys(LIST_FILTER_PARAMS) as ListFilter[]).flatMap(
+              (filter) =>
+                query[filter].map((value) => (
+                  <button
+                    key={`${filter}-${value}`}
+                    onClick={() => toggleFilter(filter, value)}
+                    className="flex items-center gap-1 px-3 py-1 bg-purple-50 text-[#7C3AED] rounded-full text-sm hover:bg-purple-100 transition-colors"
+                  >
+                    {facetLabel(filter, value)}
+                    <X className="w-3 h-3" />
+                  </button>
+                )),
+            )}
+            <button
+              onClick={clearFilters}
+              className="text-sm text-gray-600 hover:text-[#7C3AED] underline"
+            >
+              Clear all
+            </button>
+          </div>
+        )}
+
+        {/* Results Summary */}
+        <div className="flex items-center justify-between mb-6">
+          <p className="text-gray-600">
+            {products.length < total
+              ? `Showing ${products.length} of ${total} products`
+              : `Showing ${total} products`}
+          </p>
+        </div>
+      </div>
+
+      {/* Products Grid/List */}
+      {!loaded && loading ? (
+        <div className="flex items-center justify-center min-h-[400px]">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[#7C3AED]"></div>
+        </div>
+      ) : error && products.length === 0 ? (
+        <div className="text-center py-16">
+          <h3 className="text-xl font-semibold text-gray-900 mb-2">
+            Couldn't load products
+          </h3>
+          <p className="text-gray-600">{error}</p>
+        </div>
+      ) : products.length > 0 ? (
+        <>
+          <div
+            className={cn(
+              viewMode === "grid"
+                ? "grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6"
+                : "space-y-4",
+              loading && "opacity-60 transition-opacity",
+            )}
+          >
+            {products.map((product) => (
+              <div
+                key={product.id}
+                className={
+                  viewMode === "list" ? "border-b border-gray-200 pb-4" : ""
+                }
+              >
+                <ProductCard
+                  id={parseInt(product.id)}
+                  name={product.name}
+                  price={`₹${product.price.toLocaleString()}`}
+                  image={product.imageUrl || "/placeholder.svg"}
+                  rating={product.rating || 4}
+                  colors={
+                    product.colors.length > 0
+                      ? product.colors.map((c) => ({
+                          name: c.name,
+                          color: c.code,
+                        }))
+                      : [
+                          { name: "Black", color: "#000000" },
+                          { name: "White", color: "#ffffff" },
+                          { name: "Purple", color: "#7C3AED" },
+                        ]
+                  }
+                  isWishlisted={isWishlisted(product.id)}
+                  onAddToCart={() => handleAddToCart(product)}
+                  onToggleWishlist={() => handleToggleWishlist(product)}
+                  onQuickView={() => handleQuickView(product.id)}
+                  className={
+                    viewMode === "list" ? "flex gap-4 items-center" : ""
+                  }
+                />
+              </div>
+            ))}
+          </div>
+
+          {/* Next Page */}
+          {hasMore && (
+            <div
+              ref={loadMoreRef}
+              className="flex flex-col items-center gap-2 py-8"
+            >
+              {error && <p className="text-sm text-red-600">{error}</p>}
+              <button
+                onClick={loadMore}
+                disabled={loadingMore}
+                className="px-6 py-2 border border-[#7C3AED] text-[#7C3AED] rounded-lg hover:bg-purple-50 disabled:opacity-60 transition-colors"
+              >
+                {loadingMore ? "Loading..." : "Load More"}
+              </button>
+            </div>
+          )}
+        </>
+      ) : (
+        <div className="text-center py-16">
+          <div className="text-6xl mb-4">🛍️</div>
+          <h3 className="text-xl font-semibold text-gray-900 mb-2">
+            {activeFilterCount > 0
+              ? "No products match these filters"
+              : emptyTitle}
+          </h3>
+          <p className="text-gray-600 mb-6">
+            {activeFilterCount > 0
+              ? "Try removing a filter to see more"
+              : emptyMessage}
+          </p>
+          {activeFilterCount > 0 ? (
+            <button
+              onClick={clearFilters}
+              className="px-6 py-2 bg-[#7C3AED] text-white rounded-lg hover:bg-[#6D28D9] transition-colors"
+            >
+              Clear All Filters
+            </button>
+          ) : (
+            <button
+              onClick={() => navigate("/all-products")}
+              className="px-6 py-2 bg-[#7C3AED] text-white rounded-lg hover:bg-[#6D28D9] transition-colors"
+            >
+              Browse All Products
+            </button>
+          )}
+        </div>
+      )}
+    </>
+  );
+}
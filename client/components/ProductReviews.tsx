@@ -0,0 +1,729 @@
+import React, { useEffect, useRef, useState } from "react";
+import { BadgeCheck, ImagePlus, Loader2, Star, X } from "lucide-react";
+import {
+  MAX_REVIEW_PHOTOS,
+  MyProductReviewResponse,
+  ProductReviewSummary,
+  REVIEW_FITS,
+  REVIEW_PHOTO_BUCKET,
+  REVIEW_PHOTO_MAX_DIMENSION,
+  ReviewFit,
+  ReviewPhoto,
+  ReviewSort,
+  SubmitReviewRequest,
+} from "@shared/api";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useProductReviews } from "@/hooks/useProductReviews";
+import { apiFetch } from "@/lib/api";
+import { resizeImage } from "@/lib/images";
+import { supabase } from "@/lib/supabase";
+import { cn } from "@/lib/utils";
+
+interface ProductReviewsProps {
+  productId: string;
+  /** Sizes the product comes in, offered as "size purchased" */
+  sizes: string[];
+  /** Called with fresh totals, so the page can update its rating line */
+  onSummary?: (summary: ProductReviewSummary) => void;
+}
+
+const SORT_LABELS: Record<ReviewSort, string> = {
+  newest: "Newest",
+  oldest: "Oldest",
+  highest: "Highest Rated",
+  lowest: "Lowest Rated",
+};
+
+const NO_SIZE = "none";
+
+/** A photo in the review form: already on the review, or just uploaded */
+type FormPhoto = Pick<ReviewPhoto, "path" | "url" | "approved">;
+
+const EMPTY_FORM = {
+  rating: 0,
+  title: "",
+  body: "",
+  sizePurchased: NO_SIZE,
+  fit: null as ReviewFit | null,
+  photos: [] as FormPhoto[],
+};
+
+function fitLabel(fit: ReviewFit): string {
+  return REVIEW_FITS.find((f) => f.value === fit)?.label || fit;
+}
+
+function Stars({
+  rating,
+  className = "w-4 h-4",
+}: {
+  rating: number;
+  className?: string;
+}) {
+  return (
+    <div className="flex" aria-label={`${rating} out of 5 stars`}>
+      {[1, 2, 3, 4, 5].map((star) => (
+        <Star
+          key={star}
+          className={cn(
+            className,
+            star <= Math.round(rating)
+              ? "fill-yellow-400 text-yellow-400"
+              : "text-gray-300",
+          )}
+        />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Reviews tab of the product page: the star and fit breakdown, the
+ * shopper's own review form and the paged list of reviews
+ */
+export default function ProductReviews({
+  productId,
+  sizes,
+  onSummary,
+}: ProductReviewsProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [sort, setSort] = useState<ReviewSort>("newest");
+  const {
+    reviews,
+    summary,
+    gallery,
+    total,
+    hasMore,
+    loading,
+    loadingMore,
+    error,
+    loadMore,
+    reload,
+  } = useProductReviews(productId, sort);
+
+  const [formOpen, setFormOpen] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [editing, setEditing] = useState(false);
+  const [pending, setPending] = useState(false);
+  const [verifiedPurchase, setVerifiedPurchase] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [viewing, setViewing] = useState<ReviewPhoto | null>(null);
+  // Uploaded while the form was open and not saved on the review yet
+  const unsaved = useRef<string[]>([]);
+
+  useEffect(() => {
+    if (summary && onSummary) onSummary(summary);
+  }, [summary, onSummary]);
+
+  const openForm = async () => {
+    if (!user) {
+      toast({
+        title: "Login Required",
+        description: "Please login to write a review",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const mine = await apiFetch<MyProductReviewResponse>(
+        `/api/products/${productId}/reviews/mine`,
+      );
+      setVerifiedPurchase(mine.verifiedPurchase);
+      setEditing(!!mine.review);
+      setPending(mine.review?.status === "pending");
+      setForm(
+        mine.review
+          ? {
+              rating: mine.review.rating,
+              title: mine.review.title,
+              body: mine.review.body,
+              sizePurchased: mine.review.sizePurchased || NO_SIZE,
+              fit: mine.review.fit,
+              photos: mine.review.photos,
+            }
+          : EMPTY_FORM,
+      );
+      setFormOpen(true);
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "An error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const removeUploads = async (paths: string[]) => {
+    if (paths.length === 0) return;
+    unsaved.current = unsaved.current.filter((path) => !paths.includes(path));
+    const { error } = await supabase.storage
+      .from(REVIEW_PHOTO_BUCKET)
+      .remove(paths);
+    if (error) console.error("Error removing review photos:", error);
+  };
+
+  const handlePhotoSelect = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = "";
+    if (!user || files.length === 0) return;
+
+    const room = MAX_REVIEW_PHOTOS - form.photos.length;
+    if (files.length > room) {
+      toast({
+        title: `You can add up to ${MAX_REVIEW_PHOTOS} photos`,
+        variant: "destructive",
+      });
+    }
+
+    setUploading(true);
+    const uploaded: FormPhoto[] = [];
+    try {
+      for (const file of files.slice(0, Math.max(room, 0))) {
+        if (!file.type.startsWith("image/")) {
+          throw new Error(`${file.name} is not an image`);
+        }
+
+        const blob = await resizeImage(file, REVIEW_PHOTO_MAX_DIMENSION);
+        const path = `${user.id}/${crypto.randomUUID()}.jpg`;
+        const { error } = await supabase.storage
+          .from(REVIEW_PHOTO_BUCKET)
+          .upload(path, blob, { contentType: "image/jpeg", upsert: false });
+        if (error) throw error;
+
+        // The bucket is private; preview the upload from the local copy
+        unsaved.current.push(path);
+        uploaded.push({
+          path,
+          url: URL.createObjectURL(blob),
+          approved: false,
+        });
+      }
+    } catch (err) {
+      console.error("Error uploading review photo:", err);
+      toast({
+        title: "Couldn't upload your photo",
+        description: err instanceof Error ? err.message : "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setForm((current) => ({
+        ...current,
+        photos: [...current.photos, ...uploaded],
+      }));
+      setUploading(false);
+    }
+  };
+
+  const removePhoto = (path: string) => {
+    setForm({
+      ...form,
+      photos: form.photos.filter((photo) => photo.path !== path),
+    });
+    // Photos already on the review are removed by the server on save
+    if (unsaved.current.includes(path)) removeUploads([path]);
+  };
+
+  const closeForm = () => {
+    removeUploads(unsaved.current);
+    setFormOpen(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (form.rating === 0) {
+      toast({
+        title: "Choose a star rating",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const request: SubmitReviewRequest = {
+      rating: form.rating,
+      title: form.title,
+      body: form.body,
+      sizePurchased: form.sizePurchased === NO_SIZE ? null : form.sizePurchased,
+      fit: form.fit,
+      photos: form.photos.map((photo) => photo.path),
+    };
+
+    setSaving(true);
+    try {
+      const { review } = await apiFetch<MyProductReviewResponse>(
+        `/api/products/${productId}/reviews`,
+        { method: "POST", body: JSON.stringify(request) },
+      );
+      const photosPending = review?.photos.some((photo) => !photo.approved);
+      toast({
+        title: editing ? "Review updated" : "Thanks for your review!",
+        description:
+          review?.status === "pending"
+            ? "It will appear once our team has checked it."
+            : photosPending
+              ? "Your photos will appear once our team has checked them."
+              : undefined,
+      });
+      unsaved.current = [];
+      setFormOpen(false);
+      reload();
+    } catch (err) {
+      toast({
+        title: "Couldn't save your review",
+        description: err instanceof Error ? err.message : "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const topFit =
+    summary && summary.fits.some((f) => f.count > 0)
+      ? summary.fits.reduce((best, f) => (f.count > best.count ? f : best))
+      : null;
+  const fitTotal = summary?.fits.reduce((sum, f) => sum + f.count, 0) || 0;
+
+  return (
+    <div className="space-y-8">
+      {/* Summary */}
+      {summary && summary.count > 0 && (
+        <div className="grid gap-8 md:grid-cols-[200px_1fr_1fr]">
+          <div>
+            <div className="text-4xl font-bold text-gray-900">
+              {summary.average.toFixed(1)}
+            </div>
+            <Stars rating={summary.average} className="w-5 h-5" />
+            <p className="mt-1 text-sm text-gray-600">
+              Based on {summary.count} review{summary.count !== 1 ? "s" : ""}
+            </p>
+          </div>
+          <div className="space-y-1">
+            {summary.ratings.map(({ stars, count }) => (
+              <div key={stars} className="flex items-center gap-2 text-sm">
+                <span className="w-10 text-gray-600">{stars} star</span>
+                <div className="h-2 flex-1 rounded-full bg-gray-200">
+                  <div
+                    className="h-2 rounded-full bg-yellow-400"
+                    style={{ width: `${(count / summary.count) * 100}%` }}
+                  />
+                </div>
+                <span className="w-8 text-right text-gray-500">{count}</span>
+              </div>
+            ))}
+          </div>
+          {topFit && (
+            <div>
+              <h4 className="mb-2 text-sm font-semibold text-gray-900">Fit</h4>
+              <p className="mb-2 text-sm text-gray-600">
+                Most reviewers say:{" "}
+                <span className="font-medium text-gray-900">
+                  {fitLabel(topFit.value)}
+                </span>
+              </p>
+              <div className="space-y-1">
+                {summary.fits.map((fit) => (
+                  <div
+                    key={fit.value}
+                    className="flex justify-between text-sm text-gray-600"
+                  >
+                    <span>{fitLabel(fit.value)}</span>
+                    <span>{Math.round((fit.count / fitTotal) * 100)}%</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {gallery.length > 0 && (
+        <div>
+          <h4 className="mb-3 text-sm font-semibold text-gray-900">
+            Customer Photos
+          </h4>
+          <div className="flex gap-3 overflow-x-auto pb-2">
+            {gallery.map((photo) => (
+              <button
+                key={photo.id}
+                type="button"
+                onClick={() => setViewing(photo)}
+                className="shrink-0"
+              >
+                <img
+                  src={photo.url}
+                  alt="Customer photo"
+                  loading="lazy"
+                  className="h-24 w-24 rounded-md object-cover hover:opacity-80"
+                />
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h3 className="text-lg font-semibold">Customer Reviews</h3>
+        <div className="flex items-center gap-3">
+          {total > 1 && (
+            <Select
+              value={sort}
+              onValueChange={(value) => setSort(value as ReviewSort)}
+            >
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(SORT_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {!formOpen && (
+            <Button variant="outline" onClick={openForm}>
+              Write a Review
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Review form */}
+      {formOpen && (
+        <form
+          onSubmit={handleSubmit}
+          className="space-y-4 rounded-lg border border-gray-200 p-6"
+        >
+          <div className="flex items-center justify-between">
+            <h4 className="font-semibold text-gray-900">
+              {editing ? "Edit your review" : "Write a review"}
+            </h4>
+            {verifiedPurchase && (
+              <span className="flex items-center gap-1 text-sm text-green-700">
+                <BadgeCheck className="w-4 h-4" />
+                Verified purchase
+              </span>
+            )}
+          </div>
+          {pending && (
+            <p className="rounded-md bg-yellow-50 px-3 py-2 text-sm text-yellow-800">
+              Your review is waiting to be checked by our team.
+            </p>
+          )}
+
+          <div>
+            <label className="mb-1 block text-sm font-medium text-gray-700">
+              Rating
+            </label>
+            <div className="flex gap-1">
+              {[1, 2, 3, 4, 5].map((star) => (
+                <button
+                  key={star}
+                  type="button"
+                  onClick={() => setForm({ ...form, rating: star })}
+                  aria-label={`${star} star${star !== 1 ? "s" : ""}`}
+                  aria-pressed={form.rating === star}
+                >
+                  <Star
+                    className={cn(
+                      "w-7 h-7",
+                      star <= form.rating
+                        ? "fill-yellow-400 text-yellow-400"
+                        : "text-gray-300 hover:text-yellow-400",
+                    )}
+                  />
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label
+              htmlFor="review-title"
+              className="mb-1 block text-sm font-medium text-gray-700"
+            >
+              Title
+            </label>
+            <Input
+              id="review-title"
+              value={form.title}
+              maxLength={120}
+              onChange={(e) => setForm({ ...form, title: e.target.value })}
+              placeholder="Sum up your review"
+              required
+            />
+          </div>
+
+          <div>
+            <label
+              htmlFor="review-body"
+              className="mb-1 block text-sm font-medium text-gray-700"
+            >
+              Review
+            </label>
+            <Textarea
+              id="review-body"
+              value={form.body}
+              maxLength={2000}
+              rows={5}
+              onChange={(e) => setForm({ ...form, body: e.target.value })}
+              placeholder="How was the quality, comfort and fabric?"
+              required
+            />
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            {sizes.length > 0 && (
+              <div>
+                <label className="mb-1 block text-sm font-medium text-gray-700">
+                  Size purchased
+                </label>
+                <Select
+                  value={form.sizePurchased}
+                  onValueChange={(value) =>
+                    setForm({ ...form, sizePurchased: value })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_SIZE}>Prefer not to say</SelectItem>
+                    {sizes.map((size) => (
+                      <SelectItem key={size} value={size}>
+                        {size}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div>
+              <span className="mb-1 block text-sm font-medium text-gray-700">
+                How does it fit?
+              </span>
+              <div className="flex flex-wrap gap-2">
+                {REVIEW_FITS.map((fit) => (
+                  <button
+                    key={fit.value}
+                    type="button"
+                    onClick={() =>
+                      setForm({
+                        ...form,
+                        fit: form.fit === fit.value ? null : fit.value,
+                      })
+                    }
+                    aria-pressed={form.fit === fit.value}
+                    className={cn(
+                      "rounded-full border px-3 py-1.5 text-sm transition-colors",
+                      form.fit === fit.value
+                        ? "border-[#7C3AED] bg-[#7C3AED] text-white"
+                        : "border-gray-300 text-gray-700 hover:border-[#7C3AED]",
+                    )}
+                  >
+                    {fit.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <span className="mb-1 block text-sm font-medium text-gray-700">
+              Photos (up to {MAX_REVIEW_PHOTOS})
+            </span>
+            <div className="flex flex-wrap gap-3">
+              {form.photos.map((photo) => (
+                <div key={photo.path} className="relative">
+                  <img
+                    src={photo.url}
+                    alt=""
+                    className="h-20 w-20 rounded-md border object-cover"
+                  />
+                  {!photo.approved && (
+                    <span className="absolute inset-x-0 bottom-0 rounded-b-md bg-black/60 text-center text-[10px] text-white">
+                      Pending approval
+                    </span>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => removePhoto(photo.path)}
+                    className="absolute -right-2 -top-2 rounded-full bg-white p-0.5 shadow"
+                    aria-label="Remove photo"
+                  >
+                    <X className="w-4 h-4 text-gray-600" />
+                  </button>
+                </div>
+              ))}
+              {form.photos.length < MAX_REVIEW_PHOTOS && (
+                <label className="flex h-20 w-20 cursor-pointer flex-col items-center justify-center rounded-md border-2 border-dashed border-gray-300 text-xs text-gray-500 hover:border-[#7C3AED]">
+                  {uploading ? (
+                    <Loader2 className="w-5 h-5 animate-spin" />
+                  ) : (
+                    <>
+                      <ImagePlus className="mb-1 w-5 h-5" />
+                      Add photo
+                    </>
+                  )}
+                  <input
+                    type="file"
+                    accept="image/*"
+                    multiple
+                    className="hidden"
+                    disabled={uploading}
+                    onChange={handlePhotoSelect}
+                  />
+                </label>
+              )}
+            </div>
+            <p className="mt-1 text-xs text-gray-500">
+              Photos appear on the page once our team has approved them.
+            </p>
+          </div>
+
+          <div className="flex gap-3">
+            <Button
+              type="submit"
+              disabled={saving || uploading}
+              className="bg-[#7C3AED] hover:bg-[#6D28D9] text-white"
+            >
+              {saving ? "Saving..." : editing ? "Update Review" : "Post Review"}
+            </Button>
+            <Button type="button" variant="outline" onClick={closeForm}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {/* Reviews */}
+      {loading && reviews.length === 0 ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#7C3AED]"></div>
+        </div>
+      ) : error && reviews.length === 0 ? (
+        <div className="py-8 text-center">
+          <p className="mb-4 text-gray-600">{error}</p>
+          <Button variant="outline" onClick={reload}>
+            Try Again
+          </Button>
+        </div>
+      ) : reviews.length === 0 ? (
+        <p className="py-8 text-center text-gray-600">
+          No reviews yet. Be the first to review this product.
+        </p>
+      ) : (
+        <div className={cn("space-y-6", loading && "opacity-60")}>
+          {reviews.map((review) => (
+            <div key={review.id} className="border-b pb-6">
+              <div className="mb-2 flex flex-wrap items-center gap-2">
+                <Stars rating={review.rating} />
+                <span className="font-semibold text-gray-900">
+                  {review.title}
+                </span>
+              </div>
+              <div className="mb-3 flex flex-wrap items-center gap-x-3 gap-y-1 text-sm text-gray-500">
+                <span className="font-medium text-gray-700">
+                  {review.reviewerName}
+                </span>
+                {review.verifiedPurchase && (
+                  <span className="flex items-center gap-1 text-green-700">
+                    <BadgeCheck className="w-4 h-4" />
+                    Verified Purchase
+                  </span>
+                )}
+                <span>{new Date(review.createdAt).toLocaleDateString()}</span>
+              </div>
+              <p className="whitespace-pre-line text-gray-600">{review.body}</p>
+              {(review.sizePurchased || review.fit) && (
+                <p className="mt-2 text-sm text-gray-500">
+                  {[
+                    review.sizePurchased &&
+                      `Size bought: ${review.sizePurchased}`,
+                    review.fit && `Fit: ${fitLabel(review.fit)}`,
+                  ]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </p>
+              )}
+              {review.photos.length > 0 && (
+                <div className="mt-3 flex flex-wrap gap-2">
+                  {review.photos.map((photo) => (
+                    <button
+                      key={photo.id}
+                      type="button"
+                      onClick={() => setViewing(photo)}
+                    >
+                      <img
+                        src={photo.url}
+                        alt="Photo from the review"
+                        loading="lazy"
+                        className="h-16 w-16 rounded-md object-cover hover:opacity-80"
+                      />
+                    </button>
+                  ))}
+                </div>
+              )}
+              {review.reply && (
+                <div className="mt-3 rounded-md bg-gray-50 p-3 text-sm">
+                  <p className="mb-1 font-medium text-gray-900">
+                    Response from the store
+                  </p>
+                  <p className="whitespace-pre-line text-gray-600">
+                    {review.reply.body}
+                  </p>
+                </div>
+              )}
+            </div>
+          ))}
+
+          {hasMore && (
+            <div className="text-center">
+              <Button
+                variant="outline"
+                onClick={loadMore}
+                disabled={loadingMore}
+              >
+                {loadingMore ? "Loading..." : "Show More Reviews"}
+              </Button>
+              {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+            </div>
+          )}
+        </div>
+      )}
+
+      <Dialog
+        open={!!viewing}
+        onOpenChange={(open) => !open && setViewing(null)}
+      >
+        <DialogContent className="max-w-3xl p-2">
+          <DialogTitle className="sr-only">Customer photo</DialogTitle>
+          {viewing && (
+            <img
+              src={viewing.url}
+              alt="Customer photo"
+              className="max-h-[80vh] w-full rounded object-contain"
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+import React, { useEffect, useId, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Folder, Loader2, Search, TrendingUp } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useSearchSuggestions } from "@/hooks/useSearchSuggestions";
+
+interface SearchBoxProps {
+  /** Called after the box navigates somewhere, e.g. to close an overlay */
+  onDone?: () => void;
+  /** Called on Escape when no suggestion is highlighted */
+  onCancel?: () => void;
+  autoFocus?: boolean;
+}
+
+interface SuggestionOption {
+  key: string;
+  to: string;
+  section: "products" | "categories" | "popular";
+  label: string;
+  detail?: string;
+  imageUrl?: string | null;
+}
+
+const SECTION_TITLES = {
+  products: "Products",
+  categories: "Categories",
+  popular: "Popular searches",
+};
+
+/**
+ * Search input with suggestions as you type. Arrow keys move through the
+ * suggestions, Enter opens the highlighted one or searches for the text.
+ */
+export default function SearchBox({
+  onDone,
+  onCancel,
+  autoFocus,
+}: SearchBoxProps) {
+  const navigate = useNavigate();
+  const listboxId = useId();
+  const [query, setQuery] = useState("");
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const { suggestions, loading } = useSearchSuggestions(query);
+
+  const options = useMemo<SuggestionOption[]>(() => {
+    if (!suggestions) return [];
+    return [
+      ...suggestions.products.map((product) => ({
+        key: `product-${product.id}`,
+        to: `/product/${product.id}`,
+        section: "products" as const,
+        label: product.name,
+        detail: `₹${product.price.toLocaleString()}`,
+        imageUrl: product.imageUrl,
+      })),
+      ...suggestions.categories.map((category) => ({
+        key: `category-${category.slug}`,
+        to: `/category/${category.slug}`,
+        section: "categories" as const,
+        label: category.name,
+        detail: category.parentName || undefined,
+      })),
+      ...suggestions.popularQueries.map((popular) => ({
+        key: `popular-${popular}`,
+        to: `/search?q=${encodeURIComponent(popular)}`,
+        section: "popular" as const,
+        label: popular,
+      })),
+    ];
+  }, [suggestions]);
+
+  // A new set of suggestions invalidates the highlighted position
+  useEffect(() => {
+    setActiveIndex(-1);
+  }, [options]);
+
+  const go = (to: string) => {
+    navigate(to);
+    setQuery("");
+    onDone?.();
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const option = options[activeIndex];
+    if (option) {
+      go(option.to);
+    } else if (query.trim()) {
+      go(`/search?q=${encodeURIComponent(query.trim())}`);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" && options.length > 0) {
+      e.preventDefault();
+      setActiveIndex((index) => (index + 1) % options.length);
+    } else if (e.key === "ArrowUp" && options.length > 0) {
+      e.preventDefault();
+      setActiveIndex((index) => (index <= 0 ? options.length - 1 : index - 1));
+    } else if (e.key === "Escape") {
+      if (activeIndex >= 0) {
+        setActiveIndex(-1);
+      } else {
+        onCancel?.();
+      }
+    }
+  };
+
+  const activeOption = options[activeIndex];
+
+  return (
+    <form onSubmit={handleSubmit} role="search">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search for products..."
+          maxLength={100}
+          role="combobox"
+          aria-expanded={options.length > 0}
+          aria-controls={listboxId}
+          aria-autocomplete="list"
+          aria-activedescendant={
+            activeOption ? `${listboxId}-${activeOption.key}` : undefined
+          }
+          className="w-full pl-10 pr-10 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#7C3AED] focus:border-transparent"
+          autoFocus={autoFocus}
+        />
+        {loading && (
+          <Loader2 className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4 animate-spin" />
+        )}
+      </div>
+
+      <ul
+        id={listboxId}
+        role="listbox"
+        className="mt-3 max-h-[60vh] overflow-y-auto"
+      >
+        {options.map((option, index) => (
+          <React.Fragment key={option.key}>
+            {options[index - 1]?.section !== option.section && (
+              <li
+                role="presentation"
+                className="px-3 pt-3 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-500"
+              >
+                {SECTION_TITLES[option.section]}
+              </li>
+            )}
+            <li
+              id={`${listboxId}-${option.key}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => go(option.to)}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={cn(
+                "flex items-center gap-3 px-3 py-2 rounded-md cursor-pointer",
+                index === activeIndex ? "bg-purple-50" : "hover:bg-gray-50",
+              )}
+            >
+              {option.section === "products" ? (
+                <img
+                  src={option.imageUrl || "/placeholder.svg"}
+                  alt=""
+                  className="w-10 h-10 rounded object-cover bg-gray-100 flex-shrink-0"
+                />
+              ) : option.section === "categories" ? (
+                <Folder className="w-4 h-4 text-gray-400 flex-shrink-0" />
+              ) : (
+                <TrendingUp className="w-4 h-4 text-gray-400 flex-shrink-0" />
+              )}
+              <span className="flex-1 min-w-0 truncate text-sm text-gray-900">
+                {option.label}
+              </span>
+              {option.detail && (
+                <span
+                  className={cn(
+                    "text-sm flex-shrink-0",
+                    option.section === "products"
+                      ? "font-semibold text-gray-900"
+                      : "text-gray-500",
+                  )}
+                >
+                  {option.detail}
+                </span>
+              )}
+            </li>
+          </React.Fragment>
+        ))}
+      </ul>
+    </form>
+  );
+}
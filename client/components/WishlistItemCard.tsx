@@ -0,0 +1,67 @@
+import React from "react";
+import { Link } from "react-router-dom";
+import type { WishlistProduct } from "@shared/api";
+
+interface WishlistItemCardProps {
+  item: WishlistProduct;
+  /** Buttons under the product, e.g. move to cart */
+  children?: React.ReactNode;
+}
+
+/**
+ * A saved product on the wishlist page or a shared wishlist, with the
+ * chosen size and colour and whether it can still be bought
+ */
+export default function WishlistItemCard({
+  item,
+  children,
+}: WishlistItemCardProps) {
+  const { product, variant } = item;
+  const inStock = variant ? variant.inStock : !!product.defaultVariant;
+  const hasVariants = product.sizes.length > 0 || product.colors.length > 0;
+
+  return (
+    <div className="flex flex-col">
+      <Link
+        to={`/product/${product.id}`}
+        className="block aspect-[3/4] overflow-hidden rounded-lg bg-gray-100"
+      >
+        <img
+          src={product.imageUrl || "/placeholder.svg"}
+          alt={product.name}
+          loading="lazy"
+          className="h-full w-full object-cover transition-transform duration-500 hover:scale-105"
+        />
+      </Link>
+      <div className="flex flex-1 flex-col pt-3">
+        <Link
+          to={`/product/${product.id}`}
+          className="font-medium text-gray-900 hover:text-[#7C3AED]"
+        >
+          {product.name}
+        </Link>
+        <div className="mt-1 flex items-baseline gap-2">
+          <span className="font-semibold text-gray-900">
+            ₹{product.price.toLocaleString()}
+          </span>
+          {product.originalPrice && product.originalPrice > product.price && (
+            <span className="text-sm text-gray-500 line-through">
+              ₹{product.originalPrice.toLocaleString()}
+            </span>
+          )}
+        </div>
+        {variant && (variant.size || variant.colorName) && (
+          <p className="mt-1 text-sm text-gray-600">
+            {[variant.size, variant.colorName].filter(Boolean).join(" · ")}
+          </p>
+        )}
+        {hasVariants && !inStock && (
+          <p className="mt-1 text-sm font-medium text-red-600">
+            {variant ? "This size is out of stock" : "Out of stock"}
+          </p>
+        )}
+        {children && <div className="mt-3 flex gap-2">{children}</div>}
+      </div>
+    </div>
+  );
+}
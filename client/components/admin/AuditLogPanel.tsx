@@ -0,0 +1,402 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  ChevronDown,
+  ChevronLeft,
+  ChevronRight,
+  Loader2,
+  Search,
+} from "lucide-react";
+import { supabase } from "@/lib/supabase";
+
+type AuditAction = "insert" | "update" | "delete";
+
+interface AuditEntry {
+  id: string;
+  actor_id: string | null;
+  actor_email: string | null;
+  action: AuditAction;
+  entity_type: string;
+  entity_id: string | null;
+  entity_label: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  ip_address: string | null;
+  created_at: string;
+}
+
+interface AuditFilters {
+  entityType: string;
+  entity: string;
+  actor: string;
+  from: string;
+  to: string;
+}
+
+const PAGE_SIZE = 50;
+
+// The tables record_audit_log is attached to
+const ENTITY_LABELS: Record<string, string> = {
+  products: "Product",
+  product_variants: "Product variant",
+  product_images: "Product image",
+  categories: "Category",
+  orders: "Order",
+  coupons: "Coupon",
+  admin_users: "Admin access",
+  cod_settings: "COD settings",
+  tax_settings: "Tax settings",
+  shipping_settings: "Shipping settings",
+  shipping_zones: "Shipping zone",
+  shipping_rate_slabs: "Shipping rate",
+};
+
+const ACTION_STYLES: Record<AuditAction, string> = {
+  insert: "bg-green-100 text-green-800",
+  update: "bg-blue-100 text-blue-800",
+  delete: "bg-red-100 text-red-800",
+};
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  insert: "Created",
+  update: "Updated",
+  delete: "Deleted",
+};
+
+const EMPTY_FILTERS: AuditFilters = {
+  entityType: "",
+  entity: "",
+  actor: "",
+  from: "",
+  to: "",
+};
+
+// PostgREST's or() filter uses commas and brackets as syntax
+function toSearchTerm(value: string) {
+  return value.replace(/[^\w@.+\- ]/g, "").trim();
+}
+
+// Date inputs are local dates; the range covers the whole of the last day
+function startOfDay(date: string) {
+  return new Date(`${date}T00:00:00`).toISOString();
+}
+
+function endOfDay(date: string) {
+  return new Date(`${date}T23:59:59.999`).toISOString();
+}
+
+function formatValue(value: unknown) {
+  if (value === undefined || value === null || value === "") return "—";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+export default function AuditLogPanel() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [entityInput, setEntityInput] = useState("");
+  const [actorInput, setActorInput] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const fetchEntries = useCallback(async () => {
+    setLoading(true);
+    try {
+      let query = supabase
+        .from("audit_log")
+        .select("*", { count: "exact" })
+        .order("created_at", { ascending: false })
+        .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+
+      if (filters.entityType) {
+        query = query.eq("entity_type", filters.entityType);
+      }
+      if (filters.from)
+        query = query.gte("created_at", startOfDay(filters.from));
+      if (filters.to) query = query.lte("created_at", endOfDay(filters.to));
+
+      const actor = toSearchTerm(filters.actor);
+      if (actor) query = query.ilike("actor_email", `%${actor}%`);
+
+      const entity = toSearchTerm(filters.entity.replace(/^#/, ""));
+      if (entity) {
+        query = query.or(
+          `entity_label.ilike.%${entity}%,entity_id.ilike.%${entity}%`,
+        );
+      }
+
+      const { data, error, count } = await query;
+
+      if (error) throw error;
+      setEntries(data || []);
+      setTotal(count || 0);
+    } catch (error) {
+      console.error("Error fetching audit log:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, page]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const updateFilter = (field: keyof AuditFilters, value: string) => {
+    setFilters((current) => ({ ...current, [field]: value }));
+    setPage(0);
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFilters((current) => ({
+      ...current,
+      entity: entityInput,
+      actor: actorInput,
+    }));
+    setPage(0);
+  };
+
+  const handleClearFilters = () => {
+    setFilters(EMPTY_FILTERS);
+    setEntityInput("");
+    setActorInput("");
+    setPage(0);
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const hasFilters =
+    JSON.stringify(filters) !== JSON.stringify(EMPTY_FILTERS) ||
+    entityInput ||
+    actorInput;
+  const inputClass =
+    "px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#7C3AED] text-sm";
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white p-4 rounded-lg shadow flex flex-wrap items-end gap-3">
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">
+            Type
+          </label>
+          <select
+            value={filters.entityType}
+            onChange={(e) => updateFilter("entityType", e.target.value)}
+            className={inputClass}
+          >
+            <option value="">All</option>
+            {Object.entries(ENTITY_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <form
+          onSubmit={handleSearch}
+          className="flex flex-1 flex-wrap items-end gap-3 min-w-[20rem]"
+        >
+          <div className="flex-1">
+            <label className="block text-xs font-medium text-gray-500 mb-1">
+              Item
+            </label>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+              <input
+                type="text"
+                value={entityInput}
+                onChange={(e) => setEntityInput(e.target.value)}
+                placeholder="Name, order number, code or ID"
+                className={`${inputClass} w-full pl-9`}
+              />
+            </div>
+          </div>
+          <div className="flex-1">
+            <label className="block text-xs font-medium text-gray-500 mb-1">
+              Admin
+            </label>
+            <input
+              type="text"
+              value={actorInput}
+              onChange={(e) => setActorInput(e.target.value)}
+              placeholder="Email"
+              className={`${inputClass} w-full`}
+            />
+          </div>
+          <button
+            type="submit"
+            className="bg-[#7C3AED] text-white px-4 py-2 rounded-lg hover:bg-[#6D28D9] transition-colors text-sm"
+          >
+            Search
+          </button>
+        </form>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">
+            From
+          </label>
+          <input
+            type="date"
+            value={filters.from}
+            max={filters.to || undefined}
+            onChange={(e) => updateFilter("from", e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">
+            To
+          </label>
+          <input
+            type="date"
+            value={filters.to}
+            min={filters.from || undefined}
+            onChange={(e) => updateFilter("to", e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        {hasFilters && (
+          <button
+            onClick={handleClearFilters}
+            className="px-3 py-2 text-sm text-gray-600 hover:text-gray-900"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="bg-white p-8 rounded-lg shadow text-center">
+          <Loader2 className="w-6 h-6 animate-spin text-[#7C3AED] mx-auto" />
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="bg-white p-8 rounded-lg shadow text-center">
+          <p className="text-gray-600">
+            {hasFilters
+              ? "No changes match these filters."
+              : "No changes recorded yet."}
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <div className="divide-y divide-gray-200">
+            {entries.map((entry) => (
+              <AuditEntryRow
+                key={entry.id}
+                entry={entry}
+                expanded={expandedId === entry.id}
+                onToggle={() =>
+                  setExpandedId(expandedId === entry.id ? null : entry.id)
+                }
+              />
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between px-6 py-3 border-t border-gray-200 text-sm text-gray-600">
+            <span>
+              {page * PAGE_SIZE + 1}–{Math.min((page + 1) * PAGE_SIZE, total)}{" "}
+              of {total}
+            </span>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={page === 0}
+                className="p-1 rounded hover:bg-gray-100 disabled:opacity-40"
+                title="Previous page"
+              >
+                <ChevronLeft className="w-5 h-5" />
+              </button>
+              <span>
+                Page {page + 1} of {pageCount}
+              </span>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={page + 1 >= pageCount}
+                className="p-1 rounded hover:bg-gray-100 disabled:opacity-40"
+                title="Next page"
+              >
+                <ChevronRight className="w-5 h-5" />
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface AuditEntryRowProps {
+  entry: AuditEntry;
+  expanded: boolean;
+  onToggle: () => void;
+}
+
+function AuditEntryRow({ entry, expanded, onToggle }: AuditEntryRowProps) {
+  const fields = Object.keys({ ...entry.before, ...entry.after }).sort();
+
+  return (
+    <div>
+      <button
+        onClick={onToggle}
+        className="w-full flex items-center px-6 py-3 text-left hover:bg-gray-50"
+      >
+        <span
+          className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full mr-3 ${ACTION_STYLES[entry.action]}`}
+        >
+          {ACTION_LABELS[entry.action]}
+        </span>
+        <div className="flex-1 min-w-0">
+          <div className="text-sm text-gray-900 truncate">
+            {ENTITY_LABELS[entry.entity_type] || entry.entity_type}
+            {entry.entity_label && (
+              <span className="font-medium"> {entry.entity_label}</span>
+            )}
+          </div>
+          <div className="text-xs text-gray-500">
+            {entry.actor_email || "System"}
+            {entry.ip_address && ` · ${entry.ip_address}`} ·{" "}
+            {new Date(entry.created_at).toLocaleString()}
+          </div>
+        </div>
+        <ChevronDown
+          className={`w-4 h-4 text-gray-400 transition-transform ${
+            expanded ? "rotate-180" : ""
+          }`}
+        />
+      </button>
+
+      {expanded && (
+        <div className="px-6 pb-4">
+          {entry.entity_id && (
+            <p className="text-xs text-gray-500 mb-2">ID {entry.entity_id}</p>
+          )}
+          <table className="w-full text-sm border border-gray-200 rounded">
+            <thead className="bg-gray-50">
+              <tr>
+                {["Field", "Before", "After"].map((label) => (
+                  <th
+                    key={label}
+                    className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                  >
+                    {label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {fields.map((field) => (
+                <tr key={field}>
+                  <td className="px-3 py-2 text-gray-600 align-top">{field}</td>
+                  <td className="px-3 py-2 text-red-700 align-top break-all">
+                    {formatValue(entry.before?.[field])}
+                  </td>
+                  <td className="px-3 py-2 text-green-700 align-top break-all">
+                    {formatValue(entry.after?.[field])}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,801 @@
+import React, { useEffect, useState } from "react";
+import {
+  Edit,
+  GripVertical,
+  Image as ImageIcon,
+  Loader2,
+  Plus,
+  Save,
+  Trash2,
+  Upload,
+  X,
+} from "lucide-react";
+import { supabase } from "@/lib/supabase";
+
+interface AdminCategory {
+  id: string;
+  name: string;
+  slug: string;
+  description: string | null;
+  image_url: string | null;
+  parent_id: string | null;
+  menu_section: string | null;
+  hsn_code: string | null;
+  default_sizes: string[];
+  is_active: boolean;
+  sort_order: number;
+  products: { count: number }[];
+  subcategory_products: { count: number }[];
+}
+
+interface CategoryForm {
+  name: string;
+  slug: string;
+  description: string;
+  image_url: string;
+  parent_id: string;
+  menu_section: string;
+  hsn_code: string;
+  default_sizes: string[];
+  is_active: boolean;
+}
+
+interface CategoriesPanelProps {
+  /** Called after any change, so the product editor sees fresh categories */
+  onChange?: () => void;
+  /** Show the categories without edit, reorder or delete controls */
+  readOnly?: boolean;
+}
+
+const SIZE_OPTIONS = [
+  "XS",
+  "S",
+  "M",
+  "L",
+  "XL",
+  "XXL",
+  "3XL",
+  "4XL",
+  "5XL",
+  "Free Size",
+];
+
+const EMPTY_FORM: CategoryForm = {
+  name: "",
+  slug: "",
+  description: "",
+  image_url: "",
+  parent_id: "",
+  menu_section: "",
+  hsn_code: "",
+  default_sizes: [],
+  is_active: true,
+};
+
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/(^-|-$)/g, "");
+}
+
+function toForm(category: AdminCategory): CategoryForm {
+  return {
+    name: category.name,
+    slug: category.slug,
+    description: category.description || "",
+    image_url: category.image_url || "",
+    parent_id: category.parent_id || "",
+    menu_section: category.menu_section || "",
+    hsn_code: category.hsn_code || "",
+    default_sizes: category.default_sizes,
+    is_active: category.is_active,
+  };
+}
+
+function productCount(category: AdminCategory): number {
+  const counts = category.parent_id
+    ? category.subcategory_products
+    : category.products;
+  return counts[0]?.count ?? 0;
+}
+
+// Moves `draggedId` into `targetId`'s place; only the order among siblings
+// matters, as rows are grouped by parent when rendered
+function moveCategory(
+  list: AdminCategory[],
+  draggedId: string,
+  targetId: string,
+): AdminCategory[] {
+  const next = [...list];
+  const [moved] = next.splice(
+    list.findIndex((c) => c.id === draggedId),
+    1,
+  );
+  next.splice(
+    list.findIndex((c) => c.id === targetId),
+    0,
+    moved,
+  );
+  return next;
+}
+
+export default function CategoriesPanel({
+  onChange,
+  readOnly = false,
+}: CategoriesPanelProps) {
+  const [categories, setCategories] = useState<AdminCategory[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<AdminCategory | null>(null);
+  const [newParentId, setNewParentId] = useState("");
+  const [showModal, setShowModal] = useState(false);
+  const [dragging, setDragging] = useState<AdminCategory | null>(null);
+
+  const fetchCategories = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("categories")
+        .select(
+          "*, products:products!products_category_id_fkey(count), subcategory_products:products!products_subcategory_id_fkey(count)",
+        )
+        .order("sort_order")
+        .order("name");
+
+      if (error) throw error;
+      setCategories(data || []);
+    } catch (error) {
+      console.error("Error fetching categories:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchCategories();
+  }, []);
+
+  const topLevel = categories.filter((c) => !c.parent_id);
+  const childrenOf = (parentId: string) =>
+    categories.filter((c) => c.parent_id === parentId);
+
+  const openModal = (category: AdminCategory | null, parentId = "") => {
+    setEditing(category);
+    setNewParentId(parentId);
+    setShowModal(true);
+  };
+
+  const toggleActive = async (category: AdminCategory) => {
+    try {
+      const { error } = await supabase
+        .from("categories")
+        .update({ is_active: !category.is_active })
+        .eq("id", category.id);
+
+      if (error) throw error;
+      setCategories((prev) =>
+        prev.map((c) =>
+          c.id === category.id ? { ...c, is_active: !category.is_active } : c,
+        ),
+      );
+      onChange?.();
+    } catch (error) {
+      console.error("Error updating category:", error);
+      alert("Error updating category: " + (error as Error).message);
+    }
+  };
+
+  const handleDelete = async (category: AdminCategory) => {
+    if (childrenOf(category.id).length > 0) {
+      alert("Delete or move this category's subcategories first.");
+      return;
+    }
+
+    const count = productCount(category);
+    if (
+      !confirm(
+        count > 0
+          ? `Delete ${category.name}? ${count} product(s) will be left without a ${category.parent_id ? "subcategory" : "category"}.`
+          : `Delete ${category.name}?`,
+      )
+    )
+      return;
+
+    try {
+      const { error } = await supabase
+        .from("categories")
+        .delete()
+        .eq("id", category.id);
+
+      if (error) throw error;
+      fetchCategories();
+      onChange?.();
+    } catch (error) {
+      console.error("Error deleting category:", error);
+      alert("Error deleting category: " + (error as Error).message);
+    }
+  };
+
+  const handleSave = async (form: CategoryForm) => {
+    const parent = categories.find((c) => c.id === form.parent_id);
+    const slug =
+      slugify(form.slug) ||
+      [parent?.slug, slugify(form.name)].filter(Boolean).join("-");
+    const category = {
+      name: form.name.trim(),
+      slug,
+      description: form.description.trim() || null,
+      image_url: form.image_url.trim() || null,
+      parent_id: form.parent_id || null,
+      // Subcategories are always listed under their parent
+      menu_section: form.parent_id ? null : form.menu_section.trim() || null,
+      // Invoices take the HSN code from the product's top-level category
+      hsn_code: form.parent_id ? null : form.hsn_code.trim() || null,
+      default_sizes: form.default_sizes,
+      is_active: form.is_active,
+    };
+
+    try {
+      const { error } = editing
+        ? await supabase
+            .from("categories")
+            .update(category)
+            .eq("id", editing.id)
+        : await supabase.from("categories").insert({
+            ...category,
+            // New categories go to the end of their list
+            sort_order:
+              Math.max(
+                0,
+                ...categories
+                  .filter((c) => c.parent_id === category.parent_id)
+                  .map((c) => c.sort_order),
+              ) + 1,
+          });
+
+      if (error) throw error;
+      setShowModal(false);
+      setEditing(null);
+      fetchCategories();
+      onChange?.();
+    } catch (error) {
+      console.error("Error saving category:", error);
+      alert("Error saving category: " + (error as Error).message);
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent, target: AdminCategory) => {
+    if (!dragging || dragging.parent_id !== target.parent_id) return;
+    e.preventDefault();
+    if (dragging.id !== target.id) {
+      setCategories((prev) => moveCategory(prev, dragging.id, target.id));
+    }
+  };
+
+  const handleDragEnd = async () => {
+    if (!dragging) return;
+    const siblings = categories.filter(
+      (c) => c.parent_id === dragging.parent_id,
+    );
+    setDragging(null);
+
+    const changed = siblings
+      .map((category, index) => ({ category, sortOrder: index + 1 }))
+      .filter(({ category, sortOrder }) => category.sort_order !== sortOrder);
+    if (changed.length === 0) return;
+
+    try {
+      const results = await Promise.all(
+        changed.map(({ category, sortOrder }) =>
+          supabase
+            .from("categories")
+            .update({ sort_order: sortOrder })
+            .eq("id", category.id),
+        ),
+      );
+      const failed = results.find((result) => result.error);
+      if (failed) throw failed.error;
+
+      setCategories((prev) =>
+        prev.map((c) => {
+          const moved = changed.find(({ category }) => category.id === c.id);
+          return moved ? { ...c, sort_order: moved.sortOrder } : c;
+        }),
+      );
+      onChange?.();
+    } catch (error) {
+      console.error("Error reordering categories:", error);
+      alert("Error reordering categories: " + (error as Error).message);
+      fetchCategories();
+    }
+  };
+
+  const renderRow = (category: AdminCategory) => (
+    <div
+      key={category.id}
+      draggable={!readOnly}
+      onDragStart={() => setDragging(category)}
+      onDragOver={(e) => handleDragOver(e, category)}
+      onDragEnd={handleDragEnd}
+      className={`flex items-center px-4 py-3 ${
+        category.parent_id ? "pl-12" : ""
+      } ${dragging?.id === category.id ? "opacity-50 bg-purple-50" : ""}`}
+    >
+      {!readOnly && (
+        <GripVertical
+          className="w-4 h-4 text-gray-400 mr-3 cursor-move flex-shrink-0"
+          aria-label="Drag to reorder"
+        />
+      )}
+      {category.image_url ? (
+        <img
+          src={category.image_url}
+          alt={category.name}
+          className="w-10 h-10 rounded object-cover mr-3 flex-shrink-0"
+        />
+      ) : (
+        <div className="w-10 h-10 rounded bg-gray-100 flex items-center justify-center mr-3 flex-shrink-0">
+          <ImageIcon className="w-4 h-4 text-gray-400" />
+        </div>
+      )}
+      <div className="flex-1 min-w-0">
+        <div className="text-sm font-medium text-gray-900">{category.name}</div>
+        <div className="text-xs text-gray-500 truncate">
+          /{category.slug} · {productCount(category)} products
+          {!category.parent_id &&
+            category.menu_section &&
+            ` · Menu: ${category.menu_section}`}
+          {!category.parent_id &&
+            category.hsn_code &&
+            ` · HSN ${category.hsn_code}`}
+          {category.default_sizes.length > 0 &&
+            ` · Sizes ${category.default_sizes.join(", ")}`}
+        </div>
+      </div>
+      <button
+        onClick={() => toggleActive(category)}
+        disabled={readOnly}
+        className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full mr-4 ${
+          category.is_active
+            ? "bg-green-100 text-green-800"
+            : "bg-red-100 text-red-800"
+        }`}
+      >
+        {category.is_active ? "Active" : "Inactive"}
+      </button>
+      {!readOnly && !category.parent_id && (
+        <button
+          onClick={() => openModal(null, category.id)}
+          className="text-gray-500 hover:text-[#7C3AED] mr-3"
+          title="Add subcategory"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      )}
+      {!readOnly && (
+        <>
+          <button
+            onClick={() => openModal(category)}
+            className="text-[#7C3AED] hover:text-[#6D28D9] mr-3"
+          >
+            <Edit className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => handleDelete(category)}
+            className="text-red-600 hover:text-red-900"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </>
+      )}
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <div className="bg-white p-8 rounded-lg shadow text-center">
+        <Loader2 className="w-6 h-6 animate-spin text-[#7C3AED] mx-auto" />
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <p className="text-sm text-gray-600">
+          {readOnly
+            ? "You can view categories but not change them."
+            : "Drag categories to change the order they appear in on the store."}
+        </p>
+        {!readOnly && (
+          <button
+            onClick={() => openModal(null)}
+            className="bg-[#7C3AED] text-white px-4 py-2 rounded-lg hover:bg-[#6D28D9] transition-colors flex items-center"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Category
+          </button>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow overflow-hidden divide-y divide-gray-200">
+        {topLevel.length === 0 ? (
+          <p className="p-8 text-center text-gray-600">No categories yet.</p>
+        ) : (
+          topLevel.map((category) => (
+            <div key={category.id} className="divide-y divide-gray-100">
+              {renderRow(category)}
+              {childrenOf(category.id).map(renderRow)}
+            </div>
+          ))
+        )}
+      </div>
+
+      {showModal && (
+        <CategoryModal
+          category={editing}
+          parentId={newParentId}
+          parents={topLevel.filter((c) => c.id !== editing?.id)}
+          hasChildren={Boolean(editing && childrenOf(editing.id).length > 0)}
+          onSave={handleSave}
+          onClose={() => {
+            setShowModal(false);
+            setEditing(null);
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+interface CategoryModalProps {
+  category: AdminCategory | null;
+  /** Parent for a new subcategory */
+  parentId: string;
+  parents: AdminCategory[];
+  hasChildren: boolean;
+  onSave: (form: CategoryForm) => Promise<void>;
+  onClose: () => void;
+}
+
+function CategoryModal({
+  category,
+  parentId,
+  parents,
+  hasChildren,
+  onSave,
+  onClose,
+}: CategoryModalProps) {
+  const [form, setForm] = useState<CategoryForm>(
+    category ? toForm(category) : { ...EMPTY_FORM, parent_id: parentId },
+  );
+  const [customSize, setCustomSize] = useState("");
+  const [uploading, setUploading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const handleChange = (
+    field: keyof CategoryForm,
+    value: string | boolean | string[],
+  ) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const toggleSize = (size: string) => {
+    handleChange(
+      "default_sizes",
+      form.default_sizes.includes(size)
+        ? form.default_sizes.filter((s) => s !== size)
+        : [...form.default_sizes, size],
+    );
+  };
+
+  const addCustomSize = () => {
+    const size = customSize.trim();
+    if (size && !form.default_sizes.includes(size)) {
+      handleChange("default_sizes", [...form.default_sizes, size]);
+    }
+    setCustomSize("");
+  };
+
+  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    if (!file.type.startsWith("image/")) {
+      alert(`${file.name} is not an image file`);
+      return;
+    }
+    if (file.size > 5 * 1024 * 1024) {
+      alert(`${file.name} is too large. Maximum size is 5MB`);
+      return;
+    }
+
+    setUploading(true);
+    try {
+      const fileExt = file.name.split(".").pop();
+      const fileName = `categories/${Date.now()}-${Math.random().toString(36).substring(2)}.${fileExt}`;
+
+      const { error } = await supabase.storage
+        .from("product-images")
+        .upload(fileName, file, { cacheControl: "3600", upsert: false });
+      if (error) throw error;
+
+      const {
+        data: { publicUrl },
+      } = supabase.storage.from("product-images").getPublicUrl(fileName);
+      handleChange("image_url", publicUrl);
+    } catch (error) {
+      console.error("Error uploading category image:", error);
+      alert("Error uploading image: " + (error as Error).message);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    await onSave(form);
+    setSaving(false);
+  };
+
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#7C3AED]";
+  const labelClass = "block text-sm font-medium text-gray-700 mb-1";
+  const menuSections = [
+    ...new Set(parents.map((p) => p.menu_section).filter(Boolean)),
+  ];
+  const sizeOptions = [
+    ...SIZE_OPTIONS,
+    ...form.default_sizes.filter((size) => !SIZE_OPTIONS.includes(size)),
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-xl w-full max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleSubmit} className="p-6 space-y-5">
+          <div className="flex justify-between items-center">
+            <h2 className="text-2xl font-bold">
+              {category
+                ? "Edit Category"
+                : form.parent_id
+                  ? "Add Subcategory"
+                  : "Add Category"}
+            </h2>
+            <button
+              type="button"
+              onClick={onClose}
+              className="text-gray-500 hover:text-gray-700"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Name *</label>
+              <input
+                type="text"
+                required
+                value={form.name}
+                onChange={(e) => handleChange("name", e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Slug</label>
+              <input
+                type="text"
+                value={form.slug}
+                onChange={(e) => handleChange("slug", e.target.value)}
+                className={inputClass}
+                placeholder="Generated from the name"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Parent category</label>
+            <select
+              value={form.parent_id}
+              onChange={(e) => handleChange("parent_id", e.target.value)}
+              className={inputClass}
+              disabled={hasChildren}
+            >
+              <option value="">None (top-level category)</option>
+              {parents.map((parent) => (
+                <option key={parent.id} value={parent.id}>
+                  {parent.name}
+                </option>
+              ))}
+            </select>
+            {hasChildren && (
+              <p className="text-xs text-gray-500 mt-1">
+                This category has subcategories, so it stays top-level.
+              </p>
+            )}
+          </div>
+
+          {!form.parent_id && (
+            <div>
+              <label className={labelClass}>Menu section</label>
+              <input
+                type="text"
+                list="category-menu-sections"
+                value={form.menu_section}
+                onChange={(e) => handleChange("menu_section", e.target.value)}
+                className={inputClass}
+                placeholder="e.g. Women"
+              />
+              <datalist id="category-menu-sections">
+                {menuSections.map((section) => (
+                  <option key={section} value={section} />
+                ))}
+              </datalist>
+              <p className="text-xs text-gray-500 mt-1">
+                The header dropdown this category is listed under. Leave empty
+                to give it a header entry of its own.
+              </p>
+            </div>
+          )}
+
+          {!form.parent_id && (
+            <div>
+              <label className={labelClass}>HSN code</label>
+              <input
+                type="text"
+                inputMode="numeric"
+                pattern="[0-9]{4}([0-9]{2}){0,2}"
+                title="4, 6 or 8 digits"
+                value={form.hsn_code}
+                onChange={(e) => handleChange("hsn_code", e.target.value)}
+                className={inputClass}
+                placeholder="e.g. 6109"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Printed on tax invoices for products in this category. Leave
+                empty to use the store's default HSN code.
+              </p>
+            </div>
+          )}
+
+          <div>
+            <label className={labelClass}>Description</label>
+            <textarea
+              value={form.description}
+              onChange={(e) => handleChange("description", e.target.value)}
+              className={inputClass}
+              rows={2}
+            />
+          </div>
+
+          <div>
+            <label className={labelClass}>Image</label>
+            <div className="flex items-center space-x-3">
+              {form.image_url ? (
+                <div className="relative">
+                  <img
+                    src={form.image_url}
+                    alt={form.name || "Category"}
+                    className="w-16 h-16 rounded object-cover"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => handleChange("image_url", "")}
+                    className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full p-0.5"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              ) : (
+                <div className="w-16 h-16 rounded bg-gray-100 flex items-center justify-center">
+                  <ImageIcon className="w-5 h-5 text-gray-400" />
+                </div>
+              )}
+              <label className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 cursor-pointer flex items-center">
+                {uploading ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Upload className="w-4 h-4 mr-2" />
+                )}
+                Upload
+                <input
+                  type="file"
+                  accept="image/*"
+                  onChange={handleImageUpload}
+                  disabled={uploading}
+                  className="hidden"
+                />
+              </label>
+              <input
+                type="url"
+                value={form.image_url}
+                onChange={(e) => handleChange("image_url", e.target.value)}
+                className={inputClass}
+                placeholder="or paste an image URL"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Default sizes</label>
+            <div className="flex flex-wrap gap-2">
+              {sizeOptions.map((size) => (
+                <button
+                  key={size}
+                  type="button"
+                  onClick={() => toggleSize(size)}
+                  className={`px-3 py-1 text-sm font-medium rounded-lg border transition-colors ${
+                    form.default_sizes.includes(size)
+                      ? "border-[#7C3AED] bg-purple-50 text-[#7C3AED]"
+                      : "border-gray-200 hover:border-gray-300"
+                  }`}
+                >
+                  {size}
+                </button>
+              ))}
+            </div>
+            <div className="flex mt-2 space-x-2">
+              <input
+                type="text"
+                value={customSize}
+                onChange={(e) => setCustomSize(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    addCustomSize();
+                  }
+                }}
+                className={inputClass}
+                placeholder="Another size, e.g. 32"
+              />
+              <button
+                type="button"
+                onClick={addCustomSize}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+              >
+                Add
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              The product editor starts with these sizes.
+              {form.parent_id && " Leave empty to use the parent's sizes."}
+            </p>
+          </div>
+
+          <label className="flex items-center space-x-3">
+            <input
+              type="checkbox"
+              checked={form.is_active}
+              onChange={(e) => handleChange("is_active", e.target.checked)}
+              className="w-4 h-4 text-[#7C3AED] rounded"
+            />
+            <span className="text-sm font-medium text-gray-700">Active</span>
+          </label>
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving || uploading}
+              className="bg-[#7C3AED] text-white px-4 py-2 rounded-lg hover:bg-[#6D28D9] transition-colors flex items-center disabled:opacity-50"
+            >
+              {saving ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Save className="w-4 h-4 mr-2" />
+              )}
+              Save Category
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
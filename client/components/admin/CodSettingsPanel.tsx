@@ -0,0 +1,229 @@
+import React, { useEffect, useState } from "react";
+import { Loader2, Save } from "lucide-react";
+import { supabase } from "@/lib/supabase";
+import { PIN_PREFIX, parsePinList } from "@/lib/shipping";
+
+interface CodSettings {
+  is_enabled: boolean;
+  max_order_amount: number | null;
+  fee: number;
+  allowed_pin_codes: string[];
+  blocked_pin_codes: string[];
+  max_refused_orders: number | null;
+}
+
+interface CodSettingsForm {
+  is_enabled: boolean;
+  max_order_amount: string;
+  fee: string;
+  allowed_pin_codes: string;
+  blocked_pin_codes: string;
+  max_refused_orders: string;
+}
+
+function parseOptionalNumber(value: string): number | null {
+  return value.trim() === "" ? null : Number(value);
+}
+
+function toForm(settings: CodSettings): CodSettingsForm {
+  return {
+    is_enabled: settings.is_enabled,
+    max_order_amount: settings.max_order_amount?.toString() ?? "",
+    fee: settings.fee.toString(),
+    allowed_pin_codes: settings.allowed_pin_codes.join(", "),
+    blocked_pin_codes: settings.blocked_pin_codes.join(", "),
+    max_refused_orders: settings.max_refused_orders?.toString() ?? "",
+  };
+}
+
+export default function CodSettingsPanel() {
+  const [form, setForm] = useState<CodSettingsForm | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const { data, error } = await supabase
+          .from("cod_settings")
+          .select("*")
+          .single();
+
+        if (error) throw error;
+        setForm(toForm(data));
+      } catch (error) {
+        console.error("Error fetching COD settings:", error);
+      }
+    };
+
+    fetchSettings();
+  }, []);
+
+  const handleChange = (
+    field: keyof CodSettingsForm,
+    value: string | boolean,
+  ) => {
+    setForm((prev) => (prev ? { ...prev, [field]: value } : prev));
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    const allowed = parsePinList(form.allowed_pin_codes);
+    const blocked = parsePinList(form.blocked_pin_codes);
+    const invalid = [...allowed, ...blocked].filter(
+      (pin) => !PIN_PREFIX.test(pin),
+    );
+    if (invalid.length > 0) {
+      alert(`These are not PIN codes or prefixes: ${invalid.join(", ")}`);
+      return;
+    }
+
+    const settings: CodSettings = {
+      is_enabled: form.is_enabled,
+      max_order_amount: parseOptionalNumber(form.max_order_amount),
+      fee: Number(form.fee || 0),
+      allowed_pin_codes: allowed,
+      blocked_pin_codes: blocked,
+      max_refused_orders: parseOptionalNumber(form.max_refused_orders),
+    };
+
+    setSaving(true);
+    try {
+      const { data, error } = await supabase
+        .from("cod_settings")
+        .update(settings)
+        .eq("id", true)
+        .select()
+        .single();
+
+      if (error) throw error;
+      setForm(toForm(data));
+    } catch (error) {
+      console.error("Error saving COD settings:", error);
+      alert("Error saving COD settings: " + (error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!form) {
+    return (
+      <div className="bg-white p-8 rounded-lg shadow text-center">
+        <Loader2 className="w-6 h-6 animate-spin text-[#7C3AED] mx-auto" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow max-w-2xl">
+      <h2 className="text-xl font-semibold text-gray-800 mb-1">
+        Cash on Delivery
+      </h2>
+      <p className="text-sm text-gray-500 mb-6">
+        Checked at checkout and again when the order is placed.
+      </p>
+
+      <div className="space-y-5">
+        <label className="flex items-center space-x-3">
+          <input
+            type="checkbox"
+            checked={form.is_enabled}
+            onChange={(e) => handleChange("is_enabled", e.target.checked)}
+            className="w-4 h-4 text-[#7C3AED] rounded"
+          />
+          <span className="text-sm font-medium text-gray-700">
+            Offer cash on delivery
+          </span>
+        </label>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              COD fee (₹)
+            </label>
+            <input
+              type="number"
+              min="0"
+              value={form.fee}
+              onChange={(e) => handleChange("fee", e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#7C3AED]"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Maximum order (₹)
+            </label>
+            <input
+              type="number"
+              min="1"
+              placeholder="No limit"
+              value={form.max_order_amount}
+              onChange={(e) => handleChange("max_order_amount", e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#7C3AED]"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Refused deliveries allowed
+            </label>
+            <input
+              type="number"
+              min="1"
+              placeholder="No limit"
+              value={form.max_refused_orders}
+              onChange={(e) =>
+                handleChange("max_refused_orders", e.target.value)
+              }
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#7C3AED]"
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              Customers who refuse this many COD orders must pay online
+            </p>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Only offer COD for these PIN codes
+          </label>
+          <textarea
+            rows={3}
+            placeholder="Leave empty to allow every PIN code"
+            value={form.allowed_pin_codes}
+            onChange={(e) => handleChange("allowed_pin_codes", e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#7C3AED]"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Never offer COD for these PIN codes
+          </label>
+          <textarea
+            rows={3}
+            value={form.blocked_pin_codes}
+            onChange={(e) => handleChange("blocked_pin_codes", e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#7C3AED]"
+          />
+          <p className="mt-1 text-xs text-gray-500">
+            Separate entries with commas. A prefix such as 600 matches every PIN
+            code that starts with it.
+          </p>
+        </div>
+
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="bg-[#7C3AED] text-white px-4 py-2 rounded-lg hover:bg-[#6D28D9] transition-colors flex items-center disabled:opacity-50"
+        >
+          {saving ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <Save className="w-4 h-4 mr-2" />
+          )}
+          Save
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,658 @@
+import React, { useEffect, useState } from "react";
+import { Edit, Loader2, Plus, Save, Trash2, X } from "lucide-react";
+import { supabase } from "@/lib/supabase";
+
+type CouponType = "percentage" | "flat" | "free_shipping" | "bxgy";
+
+interface Coupon {
+  id: string;
+  code: string;
+  description: string | null;
+  type: CouponType;
+  value: number;
+  max_discount: number | null;
+  buy_quantity: number | null;
+  get_quantity: number | null;
+  min_cart_value: number;
+  category_ids: string[];
+  subcategories: string[];
+  usage_limit: number | null;
+  per_user_limit: number | null;
+  starts_at: string | null;
+  ends_at: string | null;
+  is_active: boolean;
+}
+
+interface CategoryOption {
+  id: string;
+  name: string;
+}
+
+interface CouponForm {
+  code: string;
+  description: string;
+  type: CouponType;
+  value: string;
+  max_discount: string;
+  buy_quantity: string;
+  get_quantity: string;
+  min_cart_value: string;
+  category_ids: string[];
+  subcategories: string;
+  usage_limit: string;
+  per_user_limit: string;
+  starts_at: string;
+  ends_at: string;
+  is_active: boolean;
+}
+
+const TYPE_LABELS: Record<CouponType, string> = {
+  percentage: "Percentage off",
+  flat: "Flat amount off",
+  free_shipping: "Free shipping",
+  bxgy: "Buy X get Y free",
+};
+
+const EMPTY_FORM: CouponForm = {
+  code: "",
+  description: "",
+  type: "percentage",
+  value: "",
+  max_discount: "",
+  buy_quantity: "",
+  get_quantity: "",
+  min_cart_value: "0",
+  category_ids: [],
+  subcategories: "",
+  usage_limit: "",
+  per_user_limit: "1",
+  starts_at: "",
+  ends_at: "",
+  is_active: true,
+};
+
+function optionalNumber(value: string): number | null {
+  return value.trim() === "" ? null : Number(value);
+}
+
+// <input type="datetime-local"> works in local time without a zone
+function toLocalInput(value: string | null): string {
+  if (!value) return "";
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000)
+    .toISOString()
+    .slice(0, 16);
+}
+
+function fromLocalInput(value: string): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+function toForm(coupon: Coupon): CouponForm {
+  return {
+    code: coupon.code,
+    description: coupon.description || "",
+    type: coupon.type,
+    value: String(coupon.value),
+    max_discount: coupon.max_discount?.toString() ?? "",
+    buy_quantity: coupon.buy_quantity?.toString() ?? "",
+    get_quantity: coupon.get_quantity?.toString() ?? "",
+    min_cart_value: String(coupon.min_cart_value),
+    category_ids: coupon.category_ids,
+    subcategories: coupon.subcategories.join(", "),
+    usage_limit: coupon.usage_limit?.toString() ?? "",
+    per_user_limit: coupon.per_user_limit?.toString() ?? "",
+    starts_at: toLocalInput(coupon.starts_at),
+    ends_at: toLocalInput(coupon.ends_at),
+    is_active: coupon.is_active,
+  };
+}
+
+function describeCoupon(coupon: Coupon): string {
+  switch (coupon.type) {
+    case "percentage":
+      return coupon.max_discount
+        ? `${coupon.value}% off, up to ₹${coupon.max_discount}`
+        : `${coupon.value}% off`;
+    case "flat":
+      return `₹${coupon.value} off`;
+    case "free_shipping":
+      return "Free shipping";
+    case "bxgy":
+      return `Buy ${coupon.buy_quantity} get ${coupon.get_quantity} free`;
+  }
+}
+
+export default function CouponsPanel() {
+  const [coupons, setCoupons] = useState<Coupon[]>([]);
+  const [categories, setCategories] = useState<CategoryOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<Coupon | null>(null);
+  const [showModal, setShowModal] = useState(false);
+
+  const fetchCoupons = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("coupons")
+        .select("*")
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setCoupons(data || []);
+    } catch (error) {
+      console.error("Error fetching coupons:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchCoupons();
+
+    supabase
+      .from("categories")
+      .select("id, name")
+      // Coupons match products by their top-level category; subcategories
+      // are matched by name below
+      .is("parent_id", null)
+      .order("sort_order")
+      .then(({ data }) => setCategories(data || []));
+  }, []);
+
+  const toggleActive = async (coupon: Coupon) => {
+    try {
+      const { error } = await supabase
+        .from("coupons")
+        .update({ is_active: !coupon.is_active })
+        .eq("id", coupon.id);
+
+      if (error) throw error;
+      setCoupons((prev) =>
+        prev.map((c) =>
+          c.id === coupon.id ? { ...c, is_active: !coupon.is_active } : c,
+        ),
+      );
+    } catch (error) {
+      console.error("Error updating coupon:", error);
+      alert("Error updating coupon: " + (error as Error).message);
+    }
+  };
+
+  const handleDelete = async (coupon: Coupon) => {
+    if (
+      !confirm(
+        `Delete coupon ${coupon.code}? Its redemption history will be removed too. Deactivate it instead to keep the history.`,
+      )
+    )
+      return;
+
+    try {
+      const { error } = await supabase
+        .from("coupons")
+        .delete()
+        .eq("id", coupon.id);
+
+      if (error) throw error;
+      fetchCoupons();
+    } catch (error) {
+      console.error("Error deleting coupon:", error);
+      alert("Error deleting coupon: " + (error as Error).message);
+    }
+  };
+
+  const handleSave = async (form: CouponForm) => {
+    const coupon = {
+      code: form.code.trim().toUpperCase(),
+      description: form.description.trim() || null,
+      type: form.type,
+      value:
+        form.type === "percentage" || form.type === "flat"
+          ? Number(form.value || 0)
+          : 0,
+      max_discount:
+        form.type === "percentage" ? optionalNumber(form.max_discount) : null,
+      buy_quantity:
+        form.type === "bxgy" ? optionalNumber(form.buy_quantity) : null,
+      get_quantity:
+        form.type === "bxgy" ? optionalNumber(form.get_quantity) : null,
+      min_cart_value: Number(form.min_cart_value || 0),
+      category_ids: form.category_ids,
+      subcategories: form.subcategories
+        .split(",")
+        .map((subcategory) => subcategory.trim())
+        .filter(Boolean),
+      usage_limit: optionalNumber(form.usage_limit),
+      per_user_limit: optionalNumber(form.per_user_limit),
+      starts_at: fromLocalInput(form.starts_at),
+      ends_at: fromLocalInput(form.ends_at),
+      is_active: form.is_active,
+    };
+
+    try {
+      const { error } = editing
+        ? await supabase.from("coupons").update(coupon).eq("id", editing.id)
+        : await supabase.from("coupons").insert(coupon);
+
+      if (error) throw error;
+      setShowModal(false);
+      setEditing(null);
+      fetchCoupons();
+    } catch (error) {
+      console.error("Error saving coupon:", error);
+      alert("Error saving coupon: " + (error as Error).message);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white p-8 rounded-lg shadow text-center">
+        <Loader2 className="w-6 h-6 animate-spin text-[#7C3AED] mx-auto" />
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex justify-end mb-4">
+        <button
+          onClick={() => {
+            setEditing(null);
+            setShowModal(true);
+          }}
+          className="bg-[#7C3AED] text-white px-4 py-2 rounded-lg hover:bg-[#6D28D9] transition-colors flex items-center"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Coupon
+        </button>
+      </div>
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        {coupons.length === 0 ? (
+          <p className="p-8 text-center text-gray-600">No coupons yet.</p>
+        ) : (
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                {["Code", "Offer", "Min. Cart", "Valid", "Status", ""].map(
+                  (label) => (
+                    <th
+                      key={label}
+                      className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                    >
+                      {label}
+                    </th>
+                  ),
+                )}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {coupons.map((coupon) => (
+                <tr key={coupon.id}>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">
+                      {coupon.code}
+                    </div>
+                    {coupon.description && (
+                      <div className="text-sm text-gray-500">
+                        {coupon.description}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {describeCoupon(coupon)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                    ₹{Number(coupon.min_cart_value).toLocaleString()}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                    {coupon.starts_at
+                      ? new Date(coupon.starts_at).toLocaleDateString()
+                      : "Now"}{" "}
+                    –{" "}
+                    {coupon.ends_at
+                      ? new Date(coupon.ends_at).toLocaleDateString()
+                      : "No end"}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <button
+                      onClick={() => toggleActive(coupon)}
+                      className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                        coupon.is_active
+                          ? "bg-green-100 text-green-800"
+                          : "bg-red-100 text-red-800"
+                      }`}
+                    >
+                      {coupon.is_active ? "Active" : "Inactive"}
+                    </button>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                    <button
+                      onClick={() => {
+                        setEditing(coupon);
+                        setShowModal(true);
+                      }}
+                      className="text-[#7C3AED] hover:text-[#6D28D9] mr-3"
+                    >
+                      <Edit className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(coupon)}
+                      className="text-red-600 hover:text-red-900"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {showModal && (
+        <CouponModal
+          coupon={editing}
+          categories={categories}
+          onSave={handleSave}
+          onClose={() => {
+            setShowModal(false);
+            setEditing(null);
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+interface CouponModalProps {
+  coupon: Coupon | null;
+  categories: CategoryOption[];
+  onSave: (form: CouponForm) => Promise<void>;
+  onClose: () => void;
+}
+
+function CouponModal({
+  coupon,
+  categories,
+  onSave,
+  onClose,
+}: CouponModalProps) {
+  const [form, setForm] = useState<CouponForm>(
+    coupon ? toForm(coupon) : EMPTY_FORM,
+  );
+  const [saving, setSaving] = useState(false);
+
+  const handleChange = (
+    field: keyof CouponForm,
+    value: string | boolean | string[],
+  ) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const toggleCategory = (categoryId: string) => {
+    handleChange(
+      "category_ids",
+      form.category_ids.includes(categoryId)
+        ? form.category_ids.filter((id) => id !== categoryId)
+        : [...form.category_ids, categoryId],
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    await onSave(form);
+    setSaving(false);
+  };
+
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#7C3AED]";
+  const labelClass = "block text-sm font-medium text-gray-700 mb-1";
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleSubmit} className="p-6 space-y-5">
+          <div className="flex justify-between items-center">
+            <h2 className="text-2xl font-bold">
+              {coupon ? "Edit Coupon" : "Add Coupon"}
+            </h2>
+            <button
+              type="button"
+              onClick={onClose}
+              className="text-gray-500 hover:text-gray-700"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Code *</label>
+              <input
+                type="text"
+                required
+                value={form.code}
+                onChange={(e) => handleChange("code", e.target.value)}
+                className={`${inputClass} uppercase`}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Type *</label>
+              <select
+                value={form.type}
+                onChange={(e) => handleChange("type", e.target.value)}
+                className={inputClass}
+              >
+                {(Object.keys(TYPE_LABELS) as CouponType[]).map((type) => (
+                  <option key={type} value={type}>
+                    {TYPE_LABELS[type]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Description</label>
+            <input
+              type="text"
+              value={form.description}
+              onChange={(e) => handleChange("description", e.target.value)}
+              className={inputClass}
+            />
+          </div>
+
+          {(form.type === "percentage" || form.type === "flat") && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className={labelClass}>
+                  {form.type === "percentage"
+                    ? "Percent off *"
+                    : "Amount off (₹) *"}
+                </label>
+                <input
+                  type="number"
+                  required
+                  min="1"
+                  max={form.type === "percentage" ? 100 : undefined}
+                  value={form.value}
+                  onChange={(e) => handleChange("value", e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+              {form.type === "percentage" && (
+                <div>
+                  <label className={labelClass}>Maximum discount (₹)</label>
+                  <input
+                    type="number"
+                    min="1"
+                    placeholder="No cap"
+                    value={form.max_discount}
+                    onChange={(e) =>
+                      handleChange("max_discount", e.target.value)
+                    }
+                    className={inputClass}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
+          {form.type === "bxgy" && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className={labelClass}>Buy *</label>
+                <input
+                  type="number"
+                  required
+                  min="1"
+                  value={form.buy_quantity}
+                  onChange={(e) => handleChange("buy_quantity", e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Get free *</label>
+                <input
+                  type="number"
+                  required
+                  min="1"
+                  value={form.get_quantity}
+                  onChange={(e) => handleChange("get_quantity", e.target.value)}
+                  className={inputClass}
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  The cheapest eligible pieces are free
+                </p>
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className={labelClass}>Minimum cart (₹)</label>
+              <input
+                type="number"
+                min="0"
+                value={form.min_cart_value}
+                onChange={(e) => handleChange("min_cart_value", e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Total uses</label>
+              <input
+                type="number"
+                min="1"
+                placeholder="Unlimited"
+                value={form.usage_limit}
+                onChange={(e) => handleChange("usage_limit", e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Uses per customer</label>
+              <input
+                type="number"
+                min="1"
+                placeholder="Unlimited"
+                value={form.per_user_limit}
+                onChange={(e) => handleChange("per_user_limit", e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Starts</label>
+              <input
+                type="datetime-local"
+                value={form.starts_at}
+                onChange={(e) => handleChange("starts_at", e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Ends</label>
+              <input
+                type="datetime-local"
+                value={form.ends_at}
+                onChange={(e) => handleChange("ends_at", e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Only for these categories</label>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-2 max-h-40 overflow-y-auto border border-gray-200 rounded-lg p-3">
+              {categories.map((category) => (
+                <label
+                  key={category.id}
+                  className="flex items-center space-x-2 text-sm"
+                >
+                  <input
+                    type="checkbox"
+                    checked={form.category_ids.includes(category.id)}
+                    onChange={() => toggleCategory(category.id)}
+                    className="w-4 h-4 text-[#7C3AED] rounded"
+                  />
+                  <span>{category.name}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Only for these subcategories</label>
+            <input
+              type="text"
+              placeholder="e.g. Leggings, Kurtis"
+              value={form.subcategories}
+              onChange={(e) => handleChange("subcategories", e.target.value)}
+              className={inputClass}
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              Leave categories and subcategories empty to apply the coupon to
+              the whole cart
+            </p>
+          </div>
+
+          <label className="flex items-center space-x-3">
+            <input
+              type="checkbox"
+              checked={form.is_active}
+              onChange={(e) => handleChange("is_active", e.target.checked)}
+              className="w-4 h-4 text-[#7C3AED] rounded"
+            />
+            <span className="text-sm font-medium text-gray-700">Active</span>
+          </label>
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="bg-[#7C3AED] text-white px-4 py-2 rounded-lg hover:bg-[#6D28D9] transition-colors flex items-center disabled:opacity-50"
+            >
+              {saving ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Save className="w-4 h-4 mr-2" />
+              )}
+              Save Coupon
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,927 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  ChevronLeft,
+  ChevronRight,
+  Download,
+  Loader2,
+  Search,
+} from "lucide-react";
+import { supabase } from "@/lib/supabase";
+import { apiDownload, apiFetch } from "@/lib/api";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import {
+  ORDER_STATUS_TRANSITIONS,
+  type ChangeOrderStatusRequest,
+  type ChangeOrderStatusResponse,
+  type OrderStatus,
+} from "@shared/api";
+
+interface AdminOrder {
+  id: string;
+  order_number: string;
+  status: OrderStatus;
+  payment_method: string | null;
+  payment_status: string;
+  total_amount: number;
+  created_at: string;
+  shipping_address: OrderAddress | null;
+}
+
+interface OrderAddress {
+  name?: string;
+  company?: string | null;
+  street?: string;
+  city?: string;
+  state?: string;
+  postal_code?: string;
+  country?: string;
+  phone?: string;
+  email?: string;
+}
+
+interface OrderDetail extends AdminOrder {
+  subtotal: number;
+  discount_amount: number;
+  shipping_amount: number;
+  tax_amount: number;
+  coupon_code: string | null;
+  billing_address: OrderAddress | null;
+  notes: string | null;
+  carrier: string | null;
+  awb_number: string | null;
+  cod_refused: boolean;
+  order_items: {
+    id: string;
+    quantity: number;
+    unit_price: number;
+    total_price: number;
+    product_snapshot: {
+      name?: string;
+      sku?: string;
+      size?: string | null;
+      color_name?: string | null;
+      image?: string | null;
+    } | null;
+  }[];
+}
+
+interface StatusHistoryEntry {
+  id: string;
+  status: OrderStatus;
+  note: string | null;
+  changed_by: string | null;
+  created_at: string;
+}
+
+interface StatusChangeForm {
+  status: OrderStatus | "";
+  note: string;
+  carrier: string;
+  awbNumber: string;
+  codRefused: boolean;
+}
+
+interface OrdersPanelProps {
+  /** orders.write: show the change status form */
+  canChangeStatus?: boolean;
+  /** orders.refund: offer 'refunded' among the next statuses */
+  canRefund?: boolean;
+}
+
+interface OrderDetailDrawerProps extends OrdersPanelProps {
+  orderId: string | null;
+  onClose: () => void;
+  onStatusChanged: () => void;
+}
+
+interface OrderFilters {
+  status: string;
+  paymentStatus: string;
+  from: string;
+  to: string;
+  search: string;
+}
+
+const PAGE_SIZE = 20;
+
+const ORDER_STATUSES: OrderStatus[] = [
+  "pending",
+  "confirmed",
+  "processing",
+  "shipped",
+  "delivered",
+  "cancelled",
+  "refunded",
+];
+
+const PAYMENT_STATUSES = ["pending", "paid", "failed", "refunded"];
+
+const STATUS_STYLES: Record<OrderStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  confirmed: "bg-blue-100 text-blue-800",
+  processing: "bg-indigo-100 text-indigo-800",
+  shipped: "bg-purple-100 text-purple-800",
+  delivered: "bg-green-100 text-green-800",
+  cancelled: "bg-red-100 text-red-800",
+  refunded: "bg-gray-100 text-gray-800",
+};
+
+const EMPTY_FILTERS: OrderFilters = {
+  status: "",
+  paymentStatus: "",
+  from: "",
+  to: "",
+  search: "",
+};
+
+function canDownloadInvoice(order: AdminOrder) {
+  return (
+    !["cancelled", "refunded"].includes(order.status) &&
+    order.payment_status !== "failed" &&
+    (order.payment_method === "cod" || order.payment_status === "paid")
+  );
+}
+
+// PostgREST's or() filter uses commas and brackets as syntax
+function toSearchTerm(value: string) {
+  return value.replace(/[^\w@.+\- ]/g, "").trim();
+}
+
+// Date inputs are local dates; the range covers the whole of the last day
+function startOfDay(date: string) {
+  return new Date(`${date}T00:00:00`).toISOString();
+}
+
+function endOfDay(date: string) {
+  return new Date(`${date}T23:59:59.999`).toISOString();
+}
+
+export default function OrdersPanel({
+  canChangeStatus = false,
+  canRefund = false,
+}: OrdersPanelProps) {
+  const [orders, setOrders] = useState<AdminOrder[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [filters, setFilters] = useState<OrderFilters>(EMPTY_FILTERS);
+  const [searchInput, setSearchInput] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const [selectedOrderId, setSelectedOrderId] = useState<string | null>(null);
+
+  const fetchOrders = useCallback(async () => {
+    setLoading(true);
+    try {
+      let query = supabase
+        .from("orders")
+        .select(
+          "id, order_number, status, payment_method, payment_status, total_amount, created_at, shipping_address",
+          { count: "exact" },
+        )
+        .order("created_at", { ascending: false })
+        .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+
+      if (filters.status) query = query.eq("status", filters.status);
+      if (filters.paymentStatus) {
+        query = query.eq("payment_status", filters.paymentStatus);
+      }
+      if (filters.from)
+        query = query.gte("created_at", startOfDay(filters.from));
+      if (filters.to) query = query.lte("created_at", endOfDay(filters.to));
+
+      const term = toSearchTerm(filters.search.replace(/^#/, ""));
+      if (term) {
+        query = query.or(
+          [
+            `order_number.ilike.%${term}%`,
+            `shipping_address->>phone.ilike.%${term}%`,
+            `shipping_address->>email.ilike.%${term}%`,
+          ].join(","),
+        );
+      }
+
+      const { data, error, count } = await query;
+
+      if (error) throw error;
+      setOrders(data || []);
+      setTotal(count || 0);
+    } catch (error) {
+      console.error("Error fetching orders:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, page]);
+
+  useEffect(() => {
+    fetchOrders();
+  }, [fetchOrders]);
+
+  const updateFilter = (field: keyof OrderFilters, value: string) => {
+    setFilters((current) => ({ ...current, [field]: value }));
+    setPage(0);
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateFilter("search", searchInput);
+  };
+
+  const handleClearFilters = () => {
+    setFilters(EMPTY_FILTERS);
+    setSearchInput("");
+    setPage(0);
+  };
+
+  const handleDownloadInvoice = async (order: AdminOrder) => {
+    setDownloadingId(order.id);
+    try {
+      await apiDownload(
+        `/api/orders/${order.id}/invoice`,
+        `invoice-${order.order_number}.pdf`,
+      );
+    } catch (error) {
+      console.error("Error downloading invoice:", error);
+      alert("Error downloading invoice: " + (error as Error).message);
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const hasFilters =
+    JSON.stringify(filters) !== JSON.stringify(EMPTY_FILTERS) || searchInput;
+  const inputClass =
+    "px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#7C3AED] text-sm";
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white p-4 rounded-lg shadow flex flex-wrap items-end gap-3">
+        <form onSubmit={handleSearch} className="flex-1 min-w-[16rem]">
+          <label className="block text-xs font-medium text-gray-500 mb-1">
+            Search
+          </label>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <input
+              type="text"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Order number, phone or email"
+              className={`${inputClass} w-full pl-9`}
+            />
+          </div>
+        </form>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">
+            Status
+          </label>
+          <select
+            value={filters.status}
+            onChange={(e) => updateFilter("status", e.target.value)}
+            className={`${inputClass} capitalize`}
+          >
+            <option value="">All</option>
+            {ORDER_STATUSES.map((status) => (
+              <option key={status} value={status}>
+                {status}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">
+            Payment
+          </label>
+          <select
+            value={filters.paymentStatus}
+            onChange={(e) => updateFilter("paymentStatus", e.target.value)}
+            className={`${inputClass} capitalize`}
+          >
+            <option value="">All</option>
+            {PAYMENT_STATUSES.map((status) => (
+              <option key={status} value={status}>
+                {status}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">
+            From
+          </label>
+          <input
+            type="date"
+            value={filters.from}
+            max={filters.to || undefined}
+            onChange={(e) => updateFilter("from", e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">
+            To
+          </label>
+          <input
+            type="date"
+            value={filters.to}
+            min={filters.from || undefined}
+            onChange={(e) => updateFilter("to", e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        {hasFilters && (
+          <button
+            onClick={handleClearFilters}
+            className="px-3 py-2 text-sm text-gray-600 hover:text-gray-900"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="bg-white p-8 rounded-lg shadow text-center">
+          <Loader2 className="w-6 h-6 animate-spin text-[#7C3AED] mx-auto" />
+        </div>
+      ) : orders.length === 0 ? (
+        <div className="bg-white p-8 rounded-lg shadow text-center">
+          <p className="text-gray-600">
+            {hasFilters ? "No orders match these filters." : "No orders yet."}
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                {[
+                  "Order",
+                  "Date",
+                  "Customer",
+                  "Payment",
+                  "Status",
+                  "Total",
+                  "",
+                ].map((label) => (
+                  <th
+                    key={label}
+                    className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                  >
+                    {label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {orders.map((order) => (
+                <tr
+                  key={order.id}
+                  onClick={() => setSelectedOrderId(order.id)}
+                  className="cursor-pointer hover:bg-gray-50"
+                >
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    #{order.order_number}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                    {new Date(order.created_at).toLocaleDateString()}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    <div>{order.shipping_address?.name || "-"}</div>
+                    {order.shipping_address?.phone && (
+                      <div className="text-xs text-gray-500">
+                        {order.shipping_address.phone}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                    {(order.payment_method || "-").toUpperCase()} ·{" "}
+                    {order.payment_status}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <span
+                      className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full capitalize ${STATUS_STYLES[order.status]}`}
+                    >
+                      {order.status}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    ₹{Number(order.total_amount).toLocaleString()}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    {canDownloadInvoice(order) && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDownloadInvoice(order);
+                        }}
+                        disabled={downloadingId === order.id}
+                        className="text-[#7C3AED] hover:text-[#6D28D9] flex items-center disabled:opacity-50"
+                        title="Download invoice"
+                      >
+                        {downloadingId === order.id ? (
+                          <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                        ) : (
+                          <Download className="w-4 h-4 mr-1" />
+                        )}
+                        Invoice
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="flex items-center justify-between px-6 py-3 border-t border-gray-200 text-sm text-gray-600">
+            <span>
+              {page * PAGE_SIZE + 1}–{Math.min((page + 1) * PAGE_SIZE, total)}{" "}
+              of {total}
+            </span>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={page === 0}
+                className="p-1 rounded hover:bg-gray-100 disabled:opacity-40"
+                title="Previous page"
+              >
+                <ChevronLeft className="w-5 h-5" />
+              </button>
+              <span>
+                Page {page + 1} of {pageCount}
+              </span>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={page + 1 >= pageCount}
+                className="p-1 rounded hover:bg-gray-100 disabled:opacity-40"
+                title="Next page"
+              >
+                <ChevronRight className="w-5 h-5" />
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <OrderDetailDrawer
+        orderId={selectedOrderId}
+        onClose={() => setSelectedOrderId(null)}
+        onStatusChanged={fetchOrders}
+        canChangeStatus={canChangeStatus}
+        canRefund={canRefund}
+      />
+    </div>
+  );
+}
+
+function formatAddress(address: OrderAddress | null) {
+  if (!address) return [];
+  return [
+    address.name,
+    address.company,
+    address.street,
+    [address.city, address.state, address.postal_code]
+      .filter(Boolean)
+      .join(", "),
+    address.country,
+    address.phone,
+    address.email,
+  ].filter(Boolean) as string[];
+}
+
+const EMPTY_STATUS_CHANGE: StatusChangeForm = {
+  status: "",
+  note: "",
+  carrier: "",
+  awbNumber: "",
+  codRefused: false,
+};
+
+function OrderDetailDrawer({
+  orderId,
+  onClose,
+  onStatusChanged,
+  canChangeStatus,
+  canRefund,
+}: OrderDetailDrawerProps) {
+  const [order, setOrder] = useState<OrderDetail | null>(null);
+  const [history, setHistory] = useState<StatusHistoryEntry[]>([]);
+  const [adminEmails, setAdminEmails] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [form, setForm] = useState<StatusChangeForm>(EMPTY_STATUS_CHANGE);
+  const [saving, setSaving] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+
+  const fetchOrder = useCallback(async () => {
+    if (!orderId) return;
+
+    setLoading(true);
+    try {
+      const [
+        { data: orderData, error: orderError },
+        { data: historyData, error: historyError },
+      ] = await Promise.all([
+        supabase
+          .from("orders")
+          .select(
+            "id, order_number, status, payment_method, payment_status, subtotal, discount_amount, shipping_amount, tax_amount, total_amount, coupon_code, created_at, shipping_address, billing_address, notes, carrier, awb_number, cod_refused, order_items(id, quantity, unit_price, total_price, product_snapshot)",
+          )
+          .eq("id", orderId)
+          .single(),
+        supabase
+          .from("order_status_history")
+          .select("id, status, note, changed_by, created_at")
+          .eq("order_id", orderId)
+          .order("created_at", { ascending: false }),
+      ]);
+
+      if (orderError) throw orderError;
+      if (historyError) throw historyError;
+
+      const adminIds = Array.from(
+        new Set(
+          (historyData || [])
+            .map((entry) => entry.changed_by)
+            .filter(Boolean) as string[],
+        ),
+      );
+      if (adminIds.length > 0) {
+        const { data: admins, error: adminsError } = await supabase
+          .from("admin_users")
+          .select("id, email")
+          .in("id", adminIds);
+        if (adminsError) throw adminsError;
+        setAdminEmails(
+          Object.fromEntries((admins || []).map((a) => [a.id, a.email])),
+        );
+      }
+
+      setOrder(orderData);
+      setHistory(historyData || []);
+      setForm({
+        ...EMPTY_STATUS_CHANGE,
+        carrier: orderData.carrier || "",
+        awbNumber: orderData.awb_number || "",
+      });
+    } catch (error) {
+      console.error("Error fetching order:", error);
+      alert("Error loading order: " + (error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [orderId]);
+
+  useEffect(() => {
+    setOrder(null);
+    setHistory([]);
+    fetchOrder();
+  }, [fetchOrder]);
+
+  const handleChange = (
+    field: keyof StatusChangeForm,
+    value: string | boolean,
+  ) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleStatusChange = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!order || !form.status) return;
+
+    setSaving(true);
+    try {
+      const request: ChangeOrderStatusRequest = {
+        status: form.status,
+        note: form.note.trim() || undefined,
+      };
+      if (form.status === "shipped") {
+        request.carrier = form.carrier.trim();
+        request.awbNumber = form.awbNumber.trim();
+      }
+      if (form.status === "cancelled" && order.status === "shipped") {
+        request.codRefused = form.codRefused;
+      }
+
+      await apiFetch<ChangeOrderStatusResponse>(
+        `/api/admin/orders/${order.id}/status`,
+        { method: "POST", body: JSON.stringify(request) },
+      );
+
+      await fetchOrder();
+      onStatusChanged();
+    } catch (error) {
+      console.error("Error changing order status:", error);
+      alert("Error changing order status: " + (error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDownloadInvoice = async () => {
+    if (!order) return;
+
+    setDownloading(true);
+    try {
+      await apiDownload(
+        `/api/orders/${order.id}/invoice`,
+        `invoice-${order.order_number}.pdf`,
+      );
+    } catch (error) {
+      console.error("Error downloading invoice:", error);
+      alert("Error downloading invoice: " + (error as Error).message);
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const nextStatuses =
+    order && canChangeStatus
+      ? ORDER_STATUS_TRANSITIONS[order.status].filter(
+          (status) => canRefund || status !== "refunded",
+        )
+      : [];
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#7C3AED]";
+  const labelClass = "block text-sm font-medium text-gray-700 mb-1";
+  const sectionTitleClass =
+    "text-xs font-medium text-gray-500 uppercase tracking-wider mb-2";
+
+  return (
+    <Sheet open={Boolean(orderId)} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>
+            {order ? `Order #${order.order_number}` : "Order"}
+          </SheetTitle>
+          {order && (
+            <SheetDescription>
+              Placed {new Date(order.created_at).toLocaleString()}
+            </SheetDescription>
+          )}
+        </SheetHeader>
+
+        {loading && !order ? (
+          <div className="py-12 text-center">
+            <Loader2 className="w-6 h-6 animate-spin text-[#7C3AED] mx-auto" />
+          </div>
+        ) : (
+          order && (
+            <div className="mt-6 space-y-6">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2">
+                  <span
+                    className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full capitalize ${STATUS_STYLES[order.status]}`}
+                  >
+                    {order.status}
+                  </span>
+                  <span className="text-sm text-gray-600">
+                    {(order.payment_method || "-").toUpperCase()} ·{" "}
+                    {order.payment_status}
+                    {order.cod_refused && " · refused on delivery"}
+                  </span>
+                </div>
+                {canDownloadInvoice(order) && (
+                  <button
+                    onClick={handleDownloadInvoice}
+                    disabled={downloading}
+                    className="text-sm text-[#7C3AED] hover:text-[#6D28D9] flex items-center disabled:opacity-50"
+                  >
+                    {downloading ? (
+                      <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                    ) : (
+                      <Download className="w-4 h-4 mr-1" />
+                    )}
+                    Invoice
+                  </button>
+                )}
+              </div>
+
+              <div>
+                <h3 className={sectionTitleClass}>Items</h3>
+                <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                  {order.order_items.map((item) => (
+                    <div key={item.id} className="flex items-center p-3">
+                      <img
+                        src={item.product_snapshot?.image || "/placeholder.svg"}
+                        alt={item.product_snapshot?.name || "Product"}
+                        className="w-12 h-12 rounded object-cover mr-3"
+                      />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-gray-900 truncate">
+                          {item.product_snapshot?.name || "Product"}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {[
+                            item.product_snapshot?.size,
+                            item.product_snapshot?.color_name,
+                            item.product_snapshot?.sku,
+                          ]
+                            .filter(Boolean)
+                            .join(" · ")}
+                        </p>
+                      </div>
+                      <div className="text-right text-sm">
+                        <p className="text-gray-900">
+                          ₹{Number(item.total_price).toLocaleString()}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {item.quantity} × ₹
+                          {Number(item.unit_price).toLocaleString()}
+                        </p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                <dl className="mt-3 space-y-1 text-sm">
+                  <div className="flex justify-between">
+                    <dt className="text-gray-600">Subtotal</dt>
+                    <dd>₹{Number(order.subtotal).toLocaleString()}</dd>
+                  </div>
+                  {Number(order.discount_amount) > 0 && (
+                    <div className="flex justify-between">
+                      <dt className="text-gray-600">
+                        Discount
+                        {order.coupon_code && ` (${order.coupon_code})`}
+                      </dt>
+                      <dd>
+                        -₹{Number(order.discount_amount).toLocaleString()}
+                      </dd>
+                    </div>
+                  )}
+                  <div className="flex justify-between">
+                    <dt className="text-gray-600">Shipping</dt>
+                    <dd>₹{Number(order.shipping_amount).toLocaleString()}</dd>
+                  </div>
+                  <div className="flex justify-between font-medium">
+                    <dt>Total</dt>
+                    <dd>₹{Number(order.total_amount).toLocaleString()}</dd>
+                  </div>
+                </dl>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                {[
+                  ["Shipping address", order.shipping_address],
+                  ["Billing address", order.billing_address],
+                ].map(([title, address]) => (
+                  <div key={title as string}>
+                    <h3 className={sectionTitleClass}>{title as string}</h3>
+                    <div className="text-sm text-gray-700">
+                      {formatAddress(address as OrderAddress | null).map(
+                        (line) => (
+                          <p key={line}>{line}</p>
+                        ),
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {order.notes && (
+                <div>
+                  <h3 className={sectionTitleClass}>Customer notes</h3>
+                  <p className="text-sm text-gray-700">{order.notes}</p>
+                </div>
+              )}
+
+              {(order.carrier || order.awb_number) && (
+                <div>
+                  <h3 className={sectionTitleClass}>Shipment</h3>
+                  <p className="text-sm text-gray-700">
+                    {order.carrier} · AWB {order.awb_number}
+                  </p>
+                </div>
+              )}
+
+              {nextStatuses.length > 0 && (
+                <form
+                  onSubmit={handleStatusChange}
+                  className="space-y-3 border border-gray-200 rounded-lg p-4"
+                >
+                  <h3 className={sectionTitleClass}>Change status</h3>
+                  <div>
+                    <label className={labelClass}>New status</label>
+                    <select
+                      value={form.status}
+                      onChange={(e) => handleChange("status", e.target.value)}
+                      className={`${inputClass} capitalize`}
+                      required
+                    >
+                      <option value="">Select…</option>
+                      {nextStatuses.map((status) => (
+                        <option key={status} value={status}>
+                          {status}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  {form.status === "shipped" && (
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <label className={labelClass}>Carrier *</label>
+                        <input
+                          type="text"
+                          value={form.carrier}
+                          onChange={(e) =>
+                            handleChange("carrier", e.target.value)
+                          }
+                          className={inputClass}
+                          placeholder="e.g. Delhivery"
+                          required
+                        />
+                      </div>
+                      <div>
+                        <label className={labelClass}>AWB number *</label>
+                        <input
+                          type="text"
+                          value={form.awbNumber}
+                          onChange={(e) =>
+                            handleChange("awbNumber", e.target.value)
+                          }
+                          className={inputClass}
+                          required
+                        />
+                      </div>
+                    </div>
+                  )}
+
+                  {form.status === "cancelled" &&
+                    order.status === "shipped" &&
+                    order.payment_method === "cod" && (
+                      <label className="flex items-center text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={form.codRefused}
+                          onChange={(e) =>
+                            handleChange("codRefused", e.target.checked)
+                          }
+                          className="mr-2"
+                        />
+                        Customer refused the COD delivery
+                      </label>
+                    )}
+
+                  <div>
+                    <label className={labelClass}>Note</label>
+                    <textarea
+                      value={form.note}
+                      onChange={(e) => handleChange("note", e.target.value)}
+                      className={inputClass}
+                      rows={2}
+                      maxLength={500}
+                      placeholder="Visible to admins in the status history"
+                    />
+                  </div>
+
+                  <button
+                    type="submit"
+                    disabled={saving || !form.status}
+                    className="w-full bg-[#7C3AED] text-white py-2 rounded-lg hover:bg-[#6D28D9] transition-colors disabled:opacity-50 flex items-center justify-center"
+                  >
+                    {saving && (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    )}
+                    Update status
+                  </button>
+                </form>
+              )}
+
+              <div>
+                <h3 className={sectionTitleClass}>Status history</h3>
+                <ol className="space-y-3">
+                  {history.map((entry) => (
+                    <li key={entry.id} className="text-sm">
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium text-gray-900 capitalize">
+                          {entry.status}
+                        </span>
+                        <span className="text-xs text-gray-500">
+                          {new Date(entry.created_at).toLocaleString()}
+                        </span>
+                      </div>
+                      <p className="text-xs text-gray-500">
+                        {entry.changed_by
+                          ? adminEmails[entry.changed_by] || "Admin"
+                          : "System"}
+                      </p>
+                      {entry.note && (
+                        <p className="mt-1 text-gray-700">{entry.note}</p>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            </div>
+          )
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,278 @@
+import React, { useState } from "react";
+import { Download, Loader2, Upload, X } from "lucide-react";
+import { apiDownload, apiFetch } from "@/lib/api";
+import {
+  PRODUCT_SHEET_COLUMNS,
+  type ProductImportResponse,
+  type ProductSheetFormat,
+} from "@shared/api";
+
+interface ProductImportModalProps {
+  onImported: () => void;
+  onClose: () => void;
+}
+
+function formatOf(file: File): ProductSheetFormat | null {
+  const extension = file.name.split(".").pop()?.toLowerCase();
+  return extension === "csv" || extension === "xlsx" ? extension : null;
+}
+
+/**
+ * Bulk edits through a spreadsheet: export the catalogue, change it, then
+ * preview the import (a dry run) before saving it
+ */
+export default function ProductImportModal({
+  onImported,
+  onClose,
+}: ProductImportModalProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [result, setResult] = useState<ProductImportResponse | null>(null);
+  const [working, setWorking] = useState<"preview" | "import" | null>(null);
+  const [exporting, setExporting] = useState<ProductSheetFormat | null>(null);
+
+  const handleExport = async (format: ProductSheetFormat) => {
+    setExporting(format);
+    try {
+      await apiDownload(
+        `/api/admin/products/export?format=${format}`,
+        `products.${format}`,
+      );
+    } catch (error) {
+      console.error("Error exporting products:", error);
+      alert("Error exporting products: " + (error as Error).message);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    if (!file) return;
+    const format = formatOf(file);
+    if (!format) {
+      alert("Choose a .csv or .xlsx file");
+      return;
+    }
+
+    setWorking(dryRun ? "preview" : "import");
+    try {
+      const response = await apiFetch<ProductImportResponse>(
+        `/api/admin/products/import?format=${format}&dryRun=${dryRun}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/octet-stream" },
+          body: file,
+        },
+      );
+      setResult(response);
+      if (response.imported) onImported();
+    } catch (error) {
+      console.error("Error importing products:", error);
+      alert("Error importing products: " + (error as Error).message);
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const canImport =
+    result?.dryRun && result.errors.length === 0 && result.products.length > 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 space-y-5">
+          <div className="flex justify-between items-center">
+            <h2 className="text-2xl font-bold">Import / Export Products</h2>
+            <button
+              onClick={onClose}
+              className="text-gray-500 hover:text-gray-700"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+            <h3 className="font-medium text-gray-900">Export</h3>
+            <p className="text-sm text-gray-600">
+              Download every product in the import format, one row per variant.
+              Edit it and import it back to update the catalogue.
+            </p>
+            <div className="flex gap-3">
+              {(["xlsx", "csv"] as const).map((format) => (
+                <button
+                  key={format}
+                  onClick={() => handleExport(format)}
+                  disabled={exporting !== null}
+                  className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors flex items-center text-sm disabled:opacity-50"
+                >
+                  {exporting === format ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <Download className="w-4 h-4 mr-2" />
+                  )}
+                  {format.toUpperCase()}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+            <h3 className="font-medium text-gray-900">Import</h3>
+            <p className="text-sm text-gray-600">
+              Products are matched on <code>product_sku</code> and variants on{" "}
+              <code>variant_sku</code>; new SKUs are created. Blank cells keep
+              the current value. <code>image_urls</code> takes URLs separated by{" "}
+              <code>|</code> and replaces the product's images.
+            </p>
+            <p className="text-xs text-gray-500 break-words">
+              Columns: {PRODUCT_SHEET_COLUMNS.join(", ")}
+            </p>
+            <div className="flex flex-wrap items-center gap-3">
+              <input
+                type="file"
+                accept=".csv,.xlsx"
+                onChange={(e) => {
+                  setFile(e.target.files?.[0] || null);
+                  setResult(null);
+                }}
+                className="text-sm"
+              />
+              <button
+                onClick={() => runImport(true)}
+                disabled={!file || working !== null}
+                className="bg-[#7C3AED] text-white px-4 py-2 rounded-lg hover:bg-[#6D28D9] transition-colors flex items-center text-sm disabled:opacity-50"
+              >
+                {working === "preview" && (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                )}
+                Preview
+              </button>
+            </div>
+          </div>
+
+          {result && (
+            <div className="space-y-4">
+              {result.imported ? (
+                <p className="p-3 rounded-lg bg-green-50 text-green-800 text-sm">
+                  Imported: {result.summary.productsCreated} products created,{" "}
+                  {result.summary.productsUpdated} updated;{" "}
+                  {result.summary.variantsCreated} variants created,{" "}
+                  {result.summary.variantsUpdated} updated.
+                </p>
+              ) : (
+                <p className="p-3 rounded-lg bg-gray-50 text-gray-700 text-sm">
+                  {result.errors.length > 0
+                    ? `${result.errors.length} problem(s) found. Nothing will be saved until they're fixed.`
+                    : "Preview only, nothing saved yet."}{" "}
+                  {result.summary.productsCreated} products to create,{" "}
+                  {result.summary.productsUpdated} to update;{" "}
+                  {result.summary.variantsCreated} variants to create,{" "}
+                  {result.summary.variantsUpdated} to update.
+                </p>
+              )}
+
+              {result.errors.length > 0 && (
+                <div className="border border-red-200 rounded-lg overflow-hidden">
+                  <table className="w-full text-sm">
+                    <thead className="bg-red-50">
+                      <tr>
+                        {["Row", "Column", "Problem"].map((label) => (
+                          <th
+                            key={label}
+                            className="px-3 py-2 text-left text-xs font-medium text-red-800 uppercase tracking-wider"
+                          >
+                            {label}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-red-100">
+                      {result.errors.map((error, index) => (
+                        <tr key={index}>
+                          <td className="px-3 py-2 text-gray-900">
+                            {error.row}
+                          </td>
+                          <td className="px-3 py-2 text-gray-600">
+                            {error.column || "-"}
+                          </td>
+                          <td className="px-3 py-2 text-gray-900">
+                            {error.message}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {result.products.length > 0 && (
+                <div className="border border-gray-200 rounded-lg overflow-hidden max-h-72 overflow-y-auto">
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-50 sticky top-0">
+                      <tr>
+                        {["SKU", "Product", "Action", "Variants", "Images"].map(
+                          (label) => (
+                            <th
+                              key={label}
+                              className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                            >
+                              {label}
+                            </th>
+                          ),
+                        )}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {result.products.map((product) => (
+                        <tr key={product.sku}>
+                          <td className="px-3 py-2 text-gray-600">
+                            {product.sku}
+                          </td>
+                          <td className="px-3 py-2 text-gray-900">
+                            {product.name}
+                          </td>
+                          <td className="px-3 py-2">
+                            <span
+                              className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${
+                                product.action === "create"
+                                  ? "bg-green-100 text-green-800"
+                                  : "bg-blue-100 text-blue-800"
+                              }`}
+                            >
+                              {product.action === "create" ? "New" : "Update"}
+                            </span>
+                          </td>
+                          <td className="px-3 py-2 text-gray-600">
+                            {product.variantsCreated} new,{" "}
+                            {product.variantsUpdated} updated
+                          </td>
+                          <td className="px-3 py-2 text-gray-600">
+                            {product.replacesImages ? "Replaced" : "Unchanged"}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {canImport && (
+                <button
+                  onClick={() => runImport(false)}
+                  disabled={working !== null}
+                  className="w-full bg-[#7C3AED] text-white py-2 rounded-lg hover:bg-[#6D28D9] transition-colors flex items-center justify-center disabled:opacity-50"
+                >
+                  {working === "import" ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <Upload className="w-4 h-4 mr-2" />
+                  )}
+                  Import {result.products.length} products
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,465 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  BadgeCheck,
+  ChevronLeft,
+  ChevronRight,
+  Loader2,
+  Star,
+  Trash2,
+  X,
+} from "lucide-react";
+import { supabase } from "@/lib/supabase";
+import { apiFetch } from "@/lib/api";
+import {
+  AdminReview,
+  AdminReviewListResponse,
+  ModerateReviewRequest,
+  REVIEW_FITS,
+  ReviewPhoto,
+  ReviewStatus,
+} from "@shared/api";
+
+const STATUS_TABS: { value: ReviewStatus; label: string }[] = [
+  { value: "pending", label: "Pending" },
+  { value: "approved", label: "Approved" },
+  { value: "rejected", label: "Rejected" },
+  { value: "flagged", label: "Flagged" },
+];
+
+const STATUS_STYLES: Record<ReviewStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  approved: "bg-green-100 text-green-800",
+  rejected: "bg-gray-100 text-gray-600",
+  flagged: "bg-red-100 text-red-800",
+};
+
+function fitLabel(fit: string) {
+  return REVIEW_FITS.find((f) => f.value === fit)?.label || fit;
+}
+
+export default function ReviewsPanel() {
+  const [status, setStatus] = useState<ReviewStatus>("pending");
+  const [reviews, setReviews] = useState<AdminReview[]>([]);
+  const [total, setTotal] = useState(0);
+  const [pageSize, setPageSize] = useState(20);
+  const [page, setPage] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [replies, setReplies] = useState<Record<string, string>>({});
+
+  const fetchReviews = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ status, page: String(page) });
+      const response = await apiFetch<AdminReviewListResponse>(
+        `/api/admin/reviews?${params}`,
+      );
+      setReviews(response.reviews);
+      setTotal(response.total);
+      setPageSize(response.pageSize);
+      setReplies(
+        Object.fromEntries(
+          response.reviews.map((review) => [
+            review.id,
+            review.reply?.body || "",
+          ]),
+        ),
+      );
+    } catch (error) {
+      console.error("Error fetching reviews:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [status, page]);
+
+  useEffect(() => {
+    fetchReviews();
+  }, [fetchReviews]);
+
+  const moderate = async (
+    review: AdminReview,
+    request: ModerateReviewRequest,
+  ) => {
+    setBusyId(review.id);
+    try {
+      await apiFetch(`/api/admin/reviews/${review.id}`, {
+        method: "POST",
+        body: JSON.stringify(request),
+      });
+      await fetchReviews();
+    } catch (error) {
+      console.error("Error moderating review:", error);
+      alert("Error updating review: " + (error as Error).message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const deletePhoto = async (review: AdminReview, photo: ReviewPhoto) => {
+    if (!confirm("Delete this photo from the review?")) return;
+
+    setBusyId(review.id);
+    try {
+      await apiFetch(`/api/admin/reviews/${review.id}/photos/${photo.id}`, {
+        method: "DELETE",
+      });
+      await fetchReviews();
+    } catch (error) {
+      console.error("Error deleting review photo:", error);
+      alert("Error deleting photo: " + (error as Error).message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white p-2 rounded-lg shadow flex gap-2">
+        {STATUS_TABS.map((tab) => (
+          <button
+            key={tab.value}
+            onClick={() => {
+              setStatus(tab.value);
+              setPage(0);
+            }}
+            className={`px-4 py-2 rounded-lg text-sm transition-colors ${
+              status === tab.value
+                ? "bg-[#7C3AED] text-white"
+                : "text-gray-700 hover:bg-gray-100"
+            }`}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="bg-white p-8 rounded-lg shadow text-center">
+          <Loader2 className="w-6 h-6 animate-spin text-[#7C3AED] mx-auto" />
+        </div>
+      ) : reviews.length === 0 ? (
+        <div className="bg-white p-8 rounded-lg shadow text-center">
+          <p className="text-gray-600">
+            {status === "pending"
+              ? "Nothing waiting for moderation."
+              : "No reviews here."}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {reviews.map((review) => {
+            const busy = busyId === review.id;
+            const reply = replies[review.id] ?? "";
+            const replyChanged = reply.trim() !== (review.reply?.body || "");
+
+            return (
+              <div key={review.id} className="bg-white p-6 rounded-lg shadow">
+                <div className="flex flex-wrap items-start justify-between gap-4 mb-3">
+                  <div>
+                    <div className="text-sm font-medium text-gray-900">
+                      {review.productName}
+                    </div>
+                    <div className="text-sm text-gray-500 flex items-center gap-2">
+                      {review.reviewerEmail || "Unknown customer"}
+                      {review.verifiedPurchase && (
+                        <span className="flex items-center gap-1 text-green-700">
+                          <BadgeCheck className="w-4 h-4" />
+                          Verified
+                        </span>
+                      )}
+                      <span>
+                        {new Date(review.updatedAt).toLocaleDateString()}
+                      </span>
+                    </div>
+                  </div>
+                  <span
+                    className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full capitalize ${
+                      STATUS_STYLES[review.status]
+                    }`}
+                  >
+                    {review.status}
+                  </span>
+                </div>
+
+                {review.holdReason && (
+                  <p className="mb-3 text-sm text-yellow-800 bg-yellow-50 px-3 py-2 rounded-lg">
+                    Held: {review.holdReason}
+                  </p>
+                )}
+
+                <div className="flex items-center gap-2 mb-2">
+                  <div className="flex">
+                    {[1, 2, 3, 4, 5].map((star) => (
+                      <Star
+                        key={star}
+                        className={`w-4 h-4 ${
+                          star <= review.rating
+                            ? "fill-yellow-400 text-yellow-400"
+                            : "text-gray-300"
+                        }`}
+                      />
+                    ))}
+                  </div>
+                  <span className="font-semibold text-gray-900">
+                    {review.title}
+                  </span>
+                </div>
+                <p className="text-sm text-gray-700 whitespace-pre-line">
+                  {review.body}
+                </p>
+                {(review.sizePurchased || review.fit) && (
+                  <p className="mt-2 text-sm text-gray-500">
+                    {[
+                      review.sizePurchased && `Size: ${review.sizePurchased}`,
+                      review.fit && `Fit: ${fitLabel(review.fit)}`,
+                    ]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </p>
+                )}
+
+                {review.photos.length > 0 && (
+                  <div className="mt-3 flex flex-wrap gap-3">
+                    {review.photos.map((photo) => (
+                      <div key={photo.id} className="relative">
+                        <a href={photo.url} target="_blank" rel="noreferrer">
+                          <img
+                            src={photo.url}
+                            alt=""
+                            className="w-24 h-24 rounded-lg object-cover border"
+                          />
+                        </a>
+                        {!photo.approved && (
+                          <span className="absolute bottom-0 inset-x-0 text-center text-[10px] bg-yellow-400 text-yellow-900 rounded-b-lg">
+                            Pending
+                          </span>
+                        )}
+                        <button
+                          onClick={() => deletePhoto(review, photo)}
+                          disabled={busy}
+                          className="absolute -top-2 -right-2 bg-white rounded-full p-1 shadow text-red-600 hover:bg-red-50 disabled:opacity-40"
+                          title="Delete photo"
+                        >
+                          <Trash2 className="w-3 h-3" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <div className="mt-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Public reply
+                  </label>
+                  <textarea
+                    value={reply}
+                    onChange={(e) =>
+                      setReplies({ ...replies, [review.id]: e.target.value })
+                    }
+                    rows={2}
+                    maxLength={2000}
+                    placeholder="Shown under the review as a response from the store"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#7C3AED] text-sm"
+                  />
+                </div>
+
+                <div className="mt-3 flex flex-wrap gap-2">
+                  {(review.status !== "approved" ||
+                    review.photos.some((photo) => !photo.approved)) && (
+                    <button
+                      onClick={() =>
+                        moderate(review, {
+                          status: "approved",
+                          ...(replyChanged && { reply: reply.trim() || null }),
+                        })
+                      }
+                      disabled={busy}
+                      className="bg-[#7C3AED] text-white px-4 py-2 rounded-lg hover:bg-[#6D28D9] transition-colors text-sm disabled:opacity-50"
+                    >
+                      Approve
+                    </button>
+                  )}
+                  {replyChanged && (
+                    <button
+                      onClick={() =>
+                        moderate(review, { reply: reply.trim() || null })
+                      }
+                      disabled={busy}
+                      className="border border-[#7C3AED] text-[#7C3AED] px-4 py-2 rounded-lg hover:bg-purple-50 transition-colors text-sm disabled:opacity-50"
+                    >
+                      {reply.trim() ? "Save Reply" : "Remove Reply"}
+                    </button>
+                  )}
+                  {review.status !== "rejected" && (
+                    <button
+                      onClick={() => moderate(review, { status: "rejected" })}
+                      disabled={busy}
+                      className="border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors text-sm disabled:opacity-50"
+                    >
+                      Reject
+                    </button>
+                  )}
+                  {review.status !== "flagged" && (
+                    <button
+                      onClick={() => moderate(review, { status: "flagged" })}
+                      disabled={busy}
+                      className="border border-red-300 text-red-700 px-4 py-2 rounded-lg hover:bg-red-50 transition-colors text-sm disabled:opacity-50"
+                      title="Hide as abusive and hold this customer's future reviews"
+                    >
+                      Flag as Abusive
+                    </button>
+                  )}
+                  {busy && (
+                    <Loader2 className="w-5 h-5 animate-spin text-[#7C3AED] self-center" />
+                  )}
+                </div>
+              </div>
+            );
+          })}
+
+          <div className="bg-white rounded-lg shadow flex items-center justify-between px-6 py-3 text-sm text-gray-600">
+            <span>
+              {page * pageSize + 1}–{Math.min((page + 1) * pageSize, total)} of{" "}
+              {total}
+            </span>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={page === 0}
+                className="p-1 rounded hover:bg-gray-100 disabled:opacity-40"
+                title="Previous page"
+              >
+                <ChevronLeft className="w-5 h-5" />
+              </button>
+              <span>
+                Page {page + 1} of {pageCount}
+              </span>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={page + 1 >= pageCount}
+                className="p-1 rounded hover:bg-gray-100 disabled:opacity-40"
+                title="Next page"
+              >
+                <ChevronRight className="w-5 h-5" />
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <BannedWords />
+    </div>
+  );
+}
+
+/**
+ * Words and phrases that hold a review for moderation. New reviews are
+ * checked when written; existing ones aren't rechecked.
+ */
+function BannedWords() {
+  const [words, setWords] = useState<string[]>([]);
+  const [newWord, setNewWord] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const fetchWords = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("review_banned_words")
+      .select("word")
+      .order("word");
+    if (error) {
+      console.error("Error fetching banned words:", error);
+      return;
+    }
+    setWords((data || []).map((row: { word: string }) => row.word));
+  }, []);
+
+  useEffect(() => {
+    fetchWords();
+  }, [fetchWords]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const word = newWord.trim().toLowerCase().replace(/\s+/g, " ");
+    if (!word || words.includes(word)) {
+      setNewWord("");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from("review_banned_words")
+        .insert({ word });
+      if (error) throw error;
+      setNewWord("");
+      await fetchWords();
+    } catch (error) {
+      console.error("Error adding banned word:", error);
+      alert("Error adding word: " + (error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (word: string) => {
+    try {
+      const { error } = await supabase
+        .from("review_banned_words")
+        .delete()
+        .eq("word", word);
+      if (error) throw error;
+      await fetchWords();
+    } catch (error) {
+      console.error("Error removing banned word:", error);
+      alert("Error removing word: " + (error as Error).message);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow">
+      <h2 className="text-lg font-semibold text-gray-800 mb-1">Banned Words</h2>
+      <p className="text-sm text-gray-500 mb-4">
+        Reviews containing these words or phrases, or any link, wait here for
+        approval.
+      </p>
+      <div className="flex flex-wrap gap-2 mb-4">
+        {words.map((word) => (
+          <span
+            key={word}
+            className="inline-flex items-center gap-1 px-3 py-1 rounded-full bg-gray-100 text-sm text-gray-700"
+          >
+            {word}
+            <button
+              onClick={() => handleRemove(word)}
+              className="text-gray-400 hover:text-red-600"
+              title={`Remove "${word}"`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        {words.length === 0 && (
+          <span className="text-sm text-gray-500">No banned words.</span>
+        )}
+      </div>
+      <form onSubmit={handleAdd} className="flex gap-3">
+        <input
+          type="text"
+          value={newWord}
+          onChange={(e) => setNewWord(e.target.value)}
+          placeholder="Add a word or phrase"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#7C3AED] text-sm"
+        />
+        <button
+          type="submit"
+          disabled={saving || !newWord.trim()}
+          className="bg-[#7C3AED] text-white px-4 py-2 rounded-lg hover:bg-[#6D28D9] transition-colors text-sm disabled:opacity-50"
+        >
+          Add
+        </button>
+      </form>
+    </div>
+  );
+}
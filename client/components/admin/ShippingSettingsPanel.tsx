@@ -0,0 +1,503 @@
+import React, { useEffect, useState } from "react";
+import { Loader2, Plus, Save, Trash2 } from "lucide-react";
+import { supabase } from "@/lib/supabase";
+import { PIN_PREFIX, parsePinList } from "@/lib/shipping";
+
+type SlabBasis = "weight" | "items";
+
+interface ShippingSettings {
+  free_shipping_threshold: number | null;
+  slab_basis: SlabBasis;
+  default_weight_grams: number;
+  dispatch_days: number;
+}
+
+interface ShippingSettingsForm {
+  free_shipping_threshold: string;
+  slab_basis: SlabBasis;
+  default_weight_grams: string;
+  dispatch_days: string;
+}
+
+interface RateSlab {
+  basis: SlabBasis;
+  up_to: number | null;
+  rate: number;
+}
+
+interface ShippingZone {
+  code: string;
+  name: string;
+  description: string | null;
+  pin_prefixes: string[];
+  min_days: number;
+  max_days: number;
+  is_active: boolean;
+  shipping_rate_slabs: RateSlab[];
+}
+
+interface SlabForm {
+  up_to: string;
+  rate: string;
+}
+
+interface ZoneForm {
+  name: string;
+  description: string;
+  pin_prefixes: string;
+  min_days: string;
+  max_days: string;
+  is_active: boolean;
+  slabs: SlabForm[];
+}
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#7C3AED]";
+const labelClass = "block text-sm font-medium text-gray-700 mb-1";
+
+function toSettingsForm(settings: ShippingSettings): ShippingSettingsForm {
+  return {
+    free_shipping_threshold: settings.free_shipping_threshold?.toString() ?? "",
+    slab_basis: settings.slab_basis,
+    default_weight_grams: settings.default_weight_grams.toString(),
+    dispatch_days: settings.dispatch_days.toString(),
+  };
+}
+
+function toZoneForm(zone: ShippingZone, basis: SlabBasis): ZoneForm {
+  return {
+    name: zone.name,
+    description: zone.description || "",
+    pin_prefixes: zone.pin_prefixes.join(", "),
+    min_days: zone.min_days.toString(),
+    max_days: zone.max_days.toString(),
+    is_active: zone.is_active,
+    slabs: zone.shipping_rate_slabs
+      .filter((slab) => slab.basis === basis)
+      .sort((a, b) => (a.up_to ?? Infinity) - (b.up_to ?? Infinity))
+      .map((slab) => ({
+        up_to: slab.up_to?.toString() ?? "",
+        rate: slab.rate.toString(),
+      })),
+  };
+}
+
+export default function ShippingSettingsPanel() {
+  const [form, setForm] = useState<ShippingSettingsForm | null>(null);
+  const [basis, setBasis] = useState<SlabBasis>("weight");
+  const [zones, setZones] = useState<ShippingZone[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const fetchZones = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("shipping_zones")
+        .select("*, shipping_rate_slabs(basis, up_to, rate)")
+        .order("sort_order");
+
+      if (error) throw error;
+      setZones(data || []);
+    } catch (error) {
+      console.error("Error fetching shipping zones:", error);
+    }
+  };
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const { data, error } = await supabase
+          .from("shipping_settings")
+          .select("*")
+          .single();
+
+        if (error) throw error;
+        setForm(toSettingsForm(data));
+        setBasis(data.slab_basis);
+      } catch (error) {
+        console.error("Error fetching shipping settings:", error);
+      }
+    };
+
+    fetchSettings();
+    fetchZones();
+  }, []);
+
+  const handleChange = (field: keyof ShippingSettingsForm, value: string) => {
+    setForm((prev) => (prev ? { ...prev, [field]: value } : prev));
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    const settings: ShippingSettings = {
+      free_shipping_threshold:
+        form.free_shipping_threshold.trim() === ""
+          ? null
+          : Number(form.free_shipping_threshold),
+      slab_basis: form.slab_basis,
+      default_weight_grams: Number(form.default_weight_grams || 0),
+      dispatch_days: Number(form.dispatch_days || 0),
+    };
+
+    setSaving(true);
+    try {
+      const { data, error } = await supabase
+        .from("shipping_settings")
+        .update(settings)
+        .eq("id", true)
+        .select()
+        .single();
+
+      if (error) throw error;
+      setForm(toSettingsForm(data));
+      setBasis(data.slab_basis);
+    } catch (error) {
+      console.error("Error saving shipping settings:", error);
+      alert("Error saving shipping settings: " + (error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!form) {
+    return (
+      <div className="bg-white p-8 rounded-lg shadow text-center">
+        <Loader2 className="w-6 h-6 animate-spin text-[#7C3AED] mx-auto" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 max-w-3xl">
+      <div className="bg-white p-6 rounded-lg shadow">
+        <h2 className="text-xl font-semibold text-gray-800 mb-1">Shipping</h2>
+        <p className="text-sm text-gray-500 mb-6">
+          Used for the PIN code checker, the cart and checkout.
+        </p>
+
+        <div className="space-y-5">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Free shipping above (₹)</label>
+              <input
+                type="number"
+                min="0"
+                placeholder="Never free"
+                value={form.free_shipping_threshold}
+                onChange={(e) =>
+                  handleChange("free_shipping_threshold", e.target.value)
+                }
+                className={inputClass}
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                Compared with the cart value after coupon discounts
+              </p>
+            </div>
+            <div>
+              <label className={labelClass}>Charge by</label>
+              <select
+                value={form.slab_basis}
+                onChange={(e) => handleChange("slab_basis", e.target.value)}
+                className={inputClass}
+              >
+                <option value="weight">Parcel weight</option>
+                <option value="items">Number of items</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Default product weight (g)</label>
+              <input
+                type="number"
+                min="1"
+                value={form.default_weight_grams}
+                onChange={(e) =>
+                  handleChange("default_weight_grams", e.target.value)
+                }
+                className={inputClass}
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                For products without a weight of their own
+              </p>
+            </div>
+            <div>
+              <label className={labelClass}>Days to dispatch</label>
+              <input
+                type="number"
+                min="0"
+                value={form.dispatch_days}
+                onChange={(e) => handleChange("dispatch_days", e.target.value)}
+                className={inputClass}
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                Added to each zone's transit time in delivery estimates
+              </p>
+            </div>
+          </div>
+
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="bg-[#7C3AED] text-white px-4 py-2 rounded-lg hover:bg-[#6D28D9] transition-colors flex items-center disabled:opacity-50"
+          >
+            {saving ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="w-4 h-4 mr-2" />
+            )}
+            Save
+          </button>
+        </div>
+      </div>
+
+      {zones.map((zone) => (
+        <ZoneEditor
+          key={`${zone.code}-${basis}`}
+          zone={zone}
+          basis={basis}
+          onSaved={fetchZones}
+        />
+      ))}
+    </div>
+  );
+}
+
+interface ZoneEditorProps {
+  zone: ShippingZone;
+  basis: SlabBasis;
+  onSaved: () => void;
+}
+
+function ZoneEditor({ zone, basis, onSaved }: ZoneEditorProps) {
+  const [form, setForm] = useState<ZoneForm>(() => toZoneForm(zone, basis));
+  const [saving, setSaving] = useState(false);
+  const unit = basis === "weight" ? "g" : "items";
+
+  const handleChange = (field: keyof ZoneForm, value: string | boolean) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleSlabChange = (
+    index: number,
+    field: keyof SlabForm,
+    value: string,
+  ) => {
+    setForm((prev) => ({
+      ...prev,
+      slabs: prev.slabs.map((slab, i) =>
+        i === index ? { ...slab, [field]: value } : slab,
+      ),
+    }));
+  };
+
+  const addSlab = () => {
+    setForm((prev) => ({
+      ...prev,
+      slabs: [...prev.slabs, { up_to: "", rate: "" }],
+    }));
+  };
+
+  const removeSlab = (index: number) => {
+    setForm((prev) => ({
+      ...prev,
+      slabs: prev.slabs.filter((_, i) => i !== index),
+    }));
+  };
+
+  const handleSave = async () => {
+    const prefixes = parsePinList(form.pin_prefixes);
+    const invalid = prefixes.filter((pin) => !PIN_PREFIX.test(pin));
+    if (invalid.length > 0) {
+      alert(`These are not PIN codes or prefixes: ${invalid.join(", ")}`);
+      return;
+    }
+
+    const openSlabs = form.slabs.filter((slab) => slab.up_to.trim() === "");
+    if (openSlabs.length > 1) {
+      alert("Only one slab can have no upper limit");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from("shipping_zones")
+        .update({
+          name: form.name.trim(),
+          description: form.description.trim() || null,
+          pin_prefixes: prefixes,
+          min_days: Number(form.min_days || 0),
+          max_days: Number(form.max_days || 0),
+          is_active: form.is_active,
+        })
+        .eq("code", zone.code);
+
+      if (error) throw error;
+
+      // Slabs are replaced as a set; they have no identity worth keeping
+      const { error: deleteError } = await supabase
+        .from("shipping_rate_slabs")
+        .delete()
+        .eq("zone_code", zone.code)
+        .eq("basis", basis);
+
+      if (deleteError) throw deleteError;
+
+      if (form.slabs.length > 0) {
+        const { error: insertError } = await supabase
+          .from("shipping_rate_slabs")
+          .insert(
+            form.slabs.map((slab) => ({
+              zone_code: zone.code,
+              basis,
+              up_to: slab.up_to.trim() === "" ? null : Number(slab.up_to),
+              rate: Number(slab.rate || 0),
+            })),
+          );
+
+        if (insertError) throw insertError;
+      }
+
+      onSaved();
+    } catch (error) {
+      console.error("Error saving shipping zone:", error);
+      alert("Error saving shipping zone: " + (error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-800">{zone.name}</h3>
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={form.is_active}
+            onChange={(e) => handleChange("is_active", e.target.checked)}
+            className="w-4 h-4 text-[#7C3AED] rounded"
+          />
+          <span className="text-sm text-gray-700">Active</span>
+        </label>
+      </div>
+
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className={labelClass}>Name</label>
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => handleChange("name", e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Transit from (days)</label>
+              <input
+                type="number"
+                min="0"
+                value={form.min_days}
+                onChange={(e) => handleChange("min_days", e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Transit to (days)</label>
+              <input
+                type="number"
+                min="0"
+                value={form.max_days}
+                onChange={(e) => handleChange("max_days", e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          </div>
+        </div>
+
+        <div>
+          <label className={labelClass}>Description</label>
+          <input
+            type="text"
+            value={form.description}
+            onChange={(e) => handleChange("description", e.target.value)}
+            className={inputClass}
+          />
+        </div>
+
+        <div>
+          <label className={labelClass}>PIN code prefixes</label>
+          <textarea
+            rows={2}
+            placeholder="Leave empty to cover every PIN code no other zone matches"
+            value={form.pin_prefixes}
+            onChange={(e) => handleChange("pin_prefixes", e.target.value)}
+            className={inputClass}
+          />
+        </div>
+
+        <div>
+          <label className={labelClass}>
+            Rates by {basis === "weight" ? "parcel weight" : "number of items"}
+          </label>
+          <div className="space-y-2">
+            {form.slabs.map((slab, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <span className="text-sm text-gray-600 w-14">Up to</span>
+                <input
+                  type="number"
+                  min="1"
+                  placeholder="No limit"
+                  value={slab.up_to}
+                  onChange={(e) =>
+                    handleSlabChange(index, "up_to", e.target.value)
+                  }
+                  className={inputClass}
+                />
+                <span className="text-sm text-gray-600 w-12">{unit}</span>
+                <span className="text-sm text-gray-600">₹</span>
+                <input
+                  type="number"
+                  min="0"
+                  value={slab.rate}
+                  onChange={(e) =>
+                    handleSlabChange(index, "rate", e.target.value)
+                  }
+                  className={inputClass}
+                />
+                <button
+                  onClick={() => removeSlab(index)}
+                  className="text-red-600 hover:text-red-900"
+                  title="Remove slab"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={addSlab}
+            className="mt-2 text-sm text-[#7C3AED] hover:text-[#6D28D9] flex items-center"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add slab
+          </button>
+        </div>
+
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="bg-[#7C3AED] text-white px-4 py-2 rounded-lg hover:bg-[#6D28D9] transition-colors flex items-center disabled:opacity-50"
+        >
+          {saving ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <Save className="w-4 h-4 mr-2" />
+          )}
+          Save {zone.name}
+        </button>
+      </div>
+    </div>
+  );
+}
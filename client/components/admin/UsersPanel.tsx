@@ -0,0 +1,588 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  ChevronLeft,
+  ChevronRight,
+  Loader2,
+  Save,
+  Search,
+  Shield,
+} from "lucide-react";
+import { supabase } from "@/lib/supabase";
+import { apiFetch } from "@/lib/api";
+import { useAdmin } from "@/hooks/useAdmin";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import {
+  ADMIN_PERMISSIONS,
+  AdminCustomer,
+  AdminCustomerDetailResponse,
+  AdminCustomerListResponse,
+  AdminPermission,
+  AdminRole,
+} from "@shared/api";
+
+interface CustomerDrawerProps {
+  customerId: string | null;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+const ROLE_LABELS: Record<AdminRole, string> = {
+  admin: "Admin",
+  super_admin: "Super admin",
+};
+
+function customerName(customer: AdminCustomer) {
+  return (
+    [customer.firstName, customer.lastName].filter(Boolean).join(" ") || "-"
+  );
+}
+
+function formatDate(value: string | null) {
+  return value ? new Date(value).toLocaleDateString() : "Never";
+}
+
+function RoleBadge({ customer }: { customer: AdminCustomer }) {
+  if (!customer.admin) {
+    return <span className="text-sm text-gray-500">Customer</span>;
+  }
+  return (
+    <span
+      className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+        customer.admin.isActive
+          ? "bg-purple-100 text-[#7C3AED]"
+          : "bg-gray-100 text-gray-600"
+      }`}
+    >
+      {ROLE_LABELS[customer.admin.role]}
+      {!customer.admin.isActive && " (inactive)"}
+    </span>
+  );
+}
+
+export default function UsersPanel() {
+  const [customers, setCustomers] = useState<AdminCustomer[]>([]);
+  const [total, setTotal] = useState(0);
+  const [pageSize, setPageSize] = useState(20);
+  const [page, setPage] = useState(0);
+  const [search, setSearch] = useState("");
+  const [searchInput, setSearchInput] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const fetchCustomers = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ page: String(page) });
+      if (search) params.set("search", search);
+
+      const response = await apiFetch<AdminCustomerListResponse>(
+        `/api/admin/customers?${params}`,
+      );
+      setCustomers(response.customers);
+      setTotal(response.total);
+      setPageSize(response.pageSize);
+    } catch (error) {
+      console.error("Error fetching customers:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [page, search]);
+
+  useEffect(() => {
+    fetchCustomers();
+  }, [fetchCustomers]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSearch(searchInput.trim());
+    setPage(0);
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+
+  return (
+    <div className="space-y-4">
+      <form
+        onSubmit={handleSearch}
+        className="bg-white p-4 rounded-lg shadow flex items-center gap-3"
+      >
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+          <input
+            type="text"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="Search by name, email or phone"
+            className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#7C3AED] text-sm"
+          />
+        </div>
+        <button
+          type="submit"
+          className="bg-[#7C3AED] text-white px-4 py-2 rounded-lg hover:bg-[#6D28D9] transition-colors text-sm"
+        >
+          Search
+        </button>
+      </form>
+
+      {loading ? (
+        <div className="bg-white p-8 rounded-lg shadow text-center">
+          <Loader2 className="w-6 h-6 animate-spin text-[#7C3AED] mx-auto" />
+        </div>
+      ) : customers.length === 0 ? (
+        <div className="bg-white p-8 rounded-lg shadow text-center">
+          <p className="text-gray-600">
+            {search ? "No users match this search." : "No users yet."}
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                {[
+                  "User",
+                  "Phone",
+                  "Orders",
+                  "Lifetime Value",
+                  "Last Login",
+                  "Role",
+                ].map((label) => (
+                  <th
+                    key={label}
+                    className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                  >
+                    {label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {customers.map((customer) => (
+                <tr
+                  key={customer.id}
+                  onClick={() => setSelectedId(customer.id)}
+                  className="cursor-pointer hover:bg-gray-50"
+                >
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">
+                      {customerName(customer)}
+                    </div>
+                    <div className="text-sm text-gray-500">
+                      {customer.email}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                    {customer.phone || "-"}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {customer.orderCount}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    ₹{customer.lifetimeValue.toLocaleString()}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                    {formatDate(customer.lastSignInAt)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <RoleBadge customer={customer} />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="flex items-center justify-between px-6 py-3 border-t border-gray-200 text-sm text-gray-600">
+            <span>
+              {page * pageSize + 1}–{Math.min((page + 1) * pageSize, total)} of{" "}
+              {total}
+            </span>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={page === 0}
+                className="p-1 rounded hover:bg-gray-100 disabled:opacity-40"
+                title="Previous page"
+              >
+                <ChevronLeft className="w-5 h-5" />
+              </button>
+              <span>
+                Page {page + 1} of {pageCount}
+              </span>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={page + 1 >= pageCount}
+                className="p-1 rounded hover:bg-gray-100 disabled:opacity-40"
+                title="Next page"
+              >
+                <ChevronRight className="w-5 h-5" />
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <CustomerDrawer
+        customerId={selectedId}
+        onClose={() => setSelectedId(null)}
+        onChanged={fetchCustomers}
+      />
+    </div>
+  );
+}
+
+function CustomerDrawer({
+  customerId,
+  onClose,
+  onChanged,
+}: CustomerDrawerProps) {
+  const { adminUser, isSuperAdmin, hasPermission } = useAdmin();
+  const [detail, setDetail] = useState<AdminCustomerDetailResponse | null>(
+    null,
+  );
+  const [loading, setLoading] = useState(false);
+
+  const fetchDetail = useCallback(async () => {
+    if (!customerId) return;
+
+    setLoading(true);
+    try {
+      setDetail(
+        await apiFetch<AdminCustomerDetailResponse>(
+          `/api/admin/customers/${customerId}`,
+        ),
+      );
+    } catch (error) {
+      console.error("Error fetching customer:", error);
+      alert("Error loading user: " + (error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [customerId]);
+
+  useEffect(() => {
+    setDetail(null);
+    fetchDetail();
+  }, [fetchDetail]);
+
+  const handleAccessChanged = async () => {
+    await fetchDetail();
+    onChanged();
+  };
+
+  const sectionTitleClass =
+    "text-xs font-medium text-gray-500 uppercase tracking-wider mb-2";
+  const customer = detail?.customer;
+
+  return (
+    <Sheet
+      open={Boolean(customerId)}
+      onOpenChange={(open) => !open && onClose()}
+    >
+      <SheetContent className="w-full sm:max-w-xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>{customer ? customerName(customer) : "User"}</SheetTitle>
+          {customer && <SheetDescription>{customer.email}</SheetDescription>}
+        </SheetHeader>
+
+        {loading && !detail ? (
+          <div className="py-12 text-center">
+            <Loader2 className="w-6 h-6 animate-spin text-[#7C3AED] mx-auto" />
+          </div>
+        ) : (
+          detail &&
+          customer && (
+            <div className="mt-6 space-y-6">
+              <div className="grid grid-cols-3 gap-3">
+                {[
+                  ["Orders", String(customer.orderCount)],
+                  [
+                    "Lifetime value",
+                    `₹${customer.lifetimeValue.toLocaleString()}`,
+                  ],
+                  ["Last login", formatDate(customer.lastSignInAt)],
+                ].map(([label, value]) => (
+                  <div key={label} className="bg-gray-50 rounded-lg p-3">
+                    <p className="text-xs text-gray-500">{label}</p>
+                    <p className="text-lg font-semibold text-gray-900">
+                      {value}
+                    </p>
+                  </div>
+                ))}
+              </div>
+
+              <div>
+                <h3 className={sectionTitleClass}>Profile</h3>
+                <dl className="text-sm space-y-1">
+                  <div className="flex justify-between">
+                    <dt className="text-gray-600">Phone</dt>
+                    <dd>{customer.phone || "-"}</dd>
+                  </div>
+                  <div className="flex justify-between">
+                    <dt className="text-gray-600">Joined</dt>
+                    <dd>{formatDate(customer.createdAt)}</dd>
+                  </div>
+                  <div className="flex justify-between">
+                    <dt className="text-gray-600">Last order</dt>
+                    <dd>{formatDate(customer.lastOrderAt)}</dd>
+                  </div>
+                </dl>
+              </div>
+
+              <div>
+                <h3 className={sectionTitleClass}>Addresses</h3>
+                {detail.addresses.length === 0 ? (
+                  <p className="text-sm text-gray-500">No saved addresses.</p>
+                ) : (
+                  <div className="space-y-3">
+                    {detail.addresses.map((address) => (
+                      <div
+                        key={address.id}
+                        className="text-sm text-gray-700 border border-gray-200 rounded-lg p-3"
+                      >
+                        <p className="font-medium text-gray-900">
+                          {address.name}
+                          {address.isDefault && (
+                            <span className="ml-2 text-xs text-[#7C3AED]">
+                              Default
+                            </span>
+                          )}
+                        </p>
+                        <p>{address.street}</p>
+                        <p>
+                          {address.city}, {address.state} {address.postalCode}
+                        </p>
+                        {address.phone && <p>{address.phone}</p>}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <h3 className={sectionTitleClass}>Orders</h3>
+                {detail.orders.length === 0 ? (
+                  <p className="text-sm text-gray-500">No orders yet.</p>
+                ) : (
+                  <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                    {detail.orders.map((order) => (
+                      <div
+                        key={order.id}
+                        className="flex items-center justify-between p-3 text-sm"
+                      >
+                        <div>
+                          <p className="font-medium text-gray-900">
+                            #{order.orderNumber}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {formatDate(order.createdAt)} ·{" "}
+                            <span className="capitalize">{order.status}</span> ·{" "}
+                            {order.paymentStatus}
+                          </p>
+                        </div>
+                        <span className="text-gray-900">
+                          ₹{order.totalAmount.toLocaleString()}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {hasPermission("users.manage") && (
+                <AdminAccessSection
+                  customer={customer}
+                  isSelf={adminUser?.id === customer.id}
+                  isSuperAdmin={isSuperAdmin()}
+                  canGrant={hasPermission}
+                  onChanged={handleAccessChanged}
+                />
+              )}
+            </div>
+          )
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+interface AdminAccessSectionProps {
+  customer: AdminCustomer;
+  isSelf: boolean;
+  /** Whether the signed-in admin is a super admin */
+  isSuperAdmin: boolean;
+  /** Whether the signed-in admin holds a permission, and so may grant it */
+  canGrant: (permission: AdminPermission) => boolean;
+  onChanged: () => Promise<void>;
+}
+
+const PERMISSION_KEYS = Object.keys(ADMIN_PERMISSIONS) as AdminPermission[];
+
+/**
+ * Needs users.manage: promote, demote, deactivate and pick permissions.
+ * Writes go straight to admin_users; its RLS policy and trigger stop admins
+ * who aren't super admins from touching super admins or granting
+ * permissions they don't hold, and the form mirrors those rules.
+ */
+function AdminAccessSection({
+  customer,
+  isSelf,
+  isSuperAdmin,
+  canGrant,
+  onChanged,
+}: AdminAccessSectionProps) {
+  const [role, setRole] = useState<AdminRole | "">(customer.admin?.role || "");
+  const [isActive, setIsActive] = useState(customer.admin?.isActive ?? true);
+  const [permissions, setPermissions] = useState(
+    customer.admin?.permissions || {},
+  );
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setRole(customer.admin?.role || "");
+    setIsActive(customer.admin?.isActive ?? true);
+    setPermissions(customer.admin?.permissions || {});
+  }, [customer]);
+
+  const togglePermission = (permission: AdminPermission) => {
+    setPermissions((prev) => ({ ...prev, [permission]: !prev[permission] }));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSaving(true);
+    try {
+      let error;
+      if (!role) {
+        ({ error } = await supabase
+          .from("admin_users")
+          .delete()
+          .eq("id", customer.id));
+      } else if (customer.admin) {
+        ({ error } = await supabase
+          .from("admin_users")
+          .update({ role, is_active: isActive, permissions })
+          .eq("id", customer.id));
+      } else {
+        ({ error } = await supabase.from("admin_users").insert({
+          id: customer.id,
+          email: customer.email,
+          role,
+          is_active: isActive,
+          permissions,
+        }));
+      }
+
+      if (error) throw error;
+      await onChanged();
+    } catch (error) {
+      console.error("Error updating admin access:", error);
+      alert("Error updating admin access: " + (error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#7C3AED]";
+  const labelClass = "block text-sm font-medium text-gray-700 mb-1";
+
+  return (
+    <form
+      onSubmit={handleSave}
+      className="space-y-3 border border-gray-200 rounded-lg p-4"
+    >
+      <h3 className="text-xs font-medium text-gray-500 uppercase tracking-wider flex items-center">
+        <Shield className="w-4 h-4 mr-1" />
+        Admin access
+      </h3>
+
+      {isSelf ? (
+        <p className="text-sm text-gray-600">
+          You can't change your own admin access. Ask another super admin.
+        </p>
+      ) : !isSuperAdmin && customer.admin?.role === "super_admin" ? (
+        <p className="text-sm text-gray-600">
+          Only super admins can change another super admin's access.
+        </p>
+      ) : (
+        <>
+          <div>
+            <label className={labelClass}>Role</label>
+            <select
+              value={role}
+              onChange={(e) => setRole(e.target.value as AdminRole | "")}
+              className={inputClass}
+            >
+              <option value="">No admin access</option>
+              <option value="admin">{ROLE_LABELS.admin}</option>
+              {isSuperAdmin && (
+                <option value="super_admin">{ROLE_LABELS.super_admin}</option>
+              )}
+            </select>
+          </div>
+
+          {role && (
+            <>
+              <label className="flex items-center space-x-3">
+                <input
+                  type="checkbox"
+                  checked={isActive}
+                  onChange={(e) => setIsActive(e.target.checked)}
+                  className="w-4 h-4 text-[#7C3AED] rounded"
+                />
+                <span className="text-sm font-medium text-gray-700">
+                  Active
+                </span>
+              </label>
+
+              {role === "admin" && (
+                <div>
+                  <label className={labelClass}>Permissions</label>
+                  <div className="space-y-2">
+                    {PERMISSION_KEYS.map((permission) => (
+                      <label
+                        key={permission}
+                        className="flex items-center space-x-3"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={permissions[permission] === true}
+                          onChange={() => togglePermission(permission)}
+                          disabled={!canGrant(permission)}
+                          className="w-4 h-4 text-[#7C3AED] rounded"
+                        />
+                        <span className="text-sm text-gray-700">
+                          {ADMIN_PERMISSIONS[permission]}
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+
+          <button
+            type="submit"
+            disabled={saving}
+            className="w-full bg-[#7C3AED] text-white py-2 rounded-lg hover:bg-[#6D28D9] transition-colors disabled:opacity-50 flex items-center justify-center"
+          >
+            {saving ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="w-4 h-4 mr-2" />
+            )}
+            Save Access
+          </button>
+        </>
+      )}
+    </form>
+  );
+}
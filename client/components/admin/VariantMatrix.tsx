@@ -0,0 +1,241 @@
+import React, { useState } from "react";
+
+export interface VariantDraft {
+  id: string | null;
+  sku: string;
+  stock_quantity: number;
+  price_adjustment: number;
+  is_active: boolean;
+}
+
+export interface VariantColor {
+  name: string;
+  code: string;
+}
+
+export const NEW_VARIANT: VariantDraft = {
+  id: null,
+  sku: "",
+  stock_quantity: 0,
+  price_adjustment: 0,
+  is_active: true,
+};
+
+export function variantKey(colorName: string, size: string) {
+  return JSON.stringify([colorName, size]);
+}
+
+function skuPart(value: string) {
+  return value
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, "-")
+    .replace(/(^-|-$)/g, "");
+}
+
+interface VariantMatrixProps {
+  colors: VariantColor[];
+  sizes: string[];
+  drafts: Record<string, VariantDraft>;
+  productSku: string;
+  onChange: (drafts: Record<string, VariantDraft>) => void;
+}
+
+/**
+ * One cell per colour and size. Cells without a draft are new variants
+ * that will be created with NEW_VARIANT's values
+ */
+export default function VariantMatrix({
+  colors,
+  sizes,
+  drafts,
+  productSku,
+  onChange,
+}: VariantMatrixProps) {
+  const [bulkStock, setBulkStock] = useState("");
+
+  const draftFor = (key: string) => drafts[key] || NEW_VARIANT;
+
+  const updateCell = (key: string, changes: Partial<VariantDraft>) => {
+    onChange({ ...drafts, [key]: { ...draftFor(key), ...changes } });
+  };
+
+  const updateAll = (
+    changesFor: (
+      draft: VariantDraft,
+      color: string,
+      size: string,
+    ) => Partial<VariantDraft>,
+  ) => {
+    const next = { ...drafts };
+    for (const color of colors) {
+      for (const size of sizes) {
+        const key = variantKey(color.name, size);
+        next[key] = {
+          ...draftFor(key),
+          ...changesFor(draftFor(key), color.name, size),
+        };
+      }
+    }
+    onChange(next);
+  };
+
+  const applyBulkStock = () => {
+    const stock = parseInt(bulkStock);
+    if (isNaN(stock) || stock < 0) return;
+    updateAll(() => ({ stock_quantity: stock }));
+    setBulkStock("");
+  };
+
+  const generateSkus = () => {
+    const prefix = skuPart(productSku);
+    updateAll((draft, color, size) => ({
+      sku:
+        draft.sku ||
+        [prefix, skuPart(color), skuPart(size)].filter(Boolean).join("-"),
+    }));
+  };
+
+  if (colors.length === 0 || sizes.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        Pick at least one colour and one size to add variants.
+      </p>
+    );
+  }
+
+  const inputClass =
+    "w-full px-2 py-1 border border-gray-300 rounded text-xs focus:outline-none focus:ring-1 focus:ring-[#7C3AED]";
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="number"
+          min="0"
+          value={bulkStock}
+          onChange={(e) => setBulkStock(e.target.value)}
+          placeholder="Stock"
+          className="w-24 px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#7C3AED]"
+        />
+        <button
+          type="button"
+          onClick={applyBulkStock}
+          disabled={!bulkStock}
+          className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm hover:bg-gray-50 disabled:opacity-50"
+        >
+          Set stock for all
+        </button>
+        <button
+          type="button"
+          onClick={generateSkus}
+          className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm hover:bg-gray-50"
+        >
+          Fill empty SKUs
+        </button>
+      </div>
+
+      <div className="overflow-x-auto border border-gray-200 rounded-lg">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Colour
+              </th>
+              {sizes.map((size) => (
+                <th
+                  key={size}
+                  className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                >
+                  {size}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {colors.map((color) => (
+              <tr key={color.name}>
+                <td className="px-3 py-2 align-top whitespace-nowrap">
+                  <div className="flex items-center gap-2">
+                    <div
+                      className="w-3 h-3 rounded-full border border-gray-300"
+                      style={{ backgroundColor: color.code }}
+                    ></div>
+                    {color.name}
+                  </div>
+                </td>
+                {sizes.map((size) => {
+                  const key = variantKey(color.name, size);
+                  const draft = draftFor(key);
+                  return (
+                    <td
+                      key={size}
+                      className={`px-2 py-2 align-top min-w-[8rem] ${
+                        draft.is_active ? "" : "bg-gray-50 opacity-60"
+                      }`}
+                    >
+                      <div className="space-y-1">
+                        <input
+                          type="text"
+                          value={draft.sku}
+                          onChange={(e) =>
+                            updateCell(key, { sku: e.target.value.trim() })
+                          }
+                          placeholder="SKU"
+                          title="SKU"
+                          className={inputClass}
+                        />
+                        <div className="flex gap-1">
+                          <input
+                            type="number"
+                            min="0"
+                            value={draft.stock_quantity}
+                            onChange={(e) =>
+                              updateCell(key, {
+                                stock_quantity: parseInt(e.target.value) || 0,
+                              })
+                            }
+                            title="Stock"
+                            className={inputClass}
+                          />
+                          <input
+                            type="number"
+                            step="0.01"
+                            value={draft.price_adjustment}
+                            onChange={(e) =>
+                              updateCell(key, {
+                                price_adjustment:
+                                  parseFloat(e.target.value) || 0,
+                              })
+                            }
+                            title="Price adjustment"
+                            className={inputClass}
+                          />
+                        </div>
+                        <label className="flex items-center text-xs text-gray-600">
+                          <input
+                            type="checkbox"
+                            checked={draft.is_active}
+                            onChange={(e) =>
+                              updateCell(key, { is_active: e.target.checked })
+                            }
+                            className="mr-1"
+                          />
+                          {draft.id ? "Active" : "Active (new)"}
+                        </label>
+                      </div>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-gray-500">
+        Each cell is SKU, then stock and the price adjustment added to the
+        product price. Removing a colour or size deletes its variants; ones that
+        have been ordered are deactivated instead.
+      </p>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import React, { useState } from "react";
+import { Heart } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { StarIcon } from "./icons";
 import {
@@ -20,9 +21,12 @@ interface ProductCardProps {
   image: string;
   rating?: number;
   colors?: ColorOption[];
+  isWishlisted?: boolean;
   onQuickView?: (id: number) => void;
   onAddToCart?: (id: number) => void;
   onColorSelect?: (id: number, colorIndex: number) => void;
+  /** Shows the wishlist heart when given */
+  onToggleWishlist?: (id: number) => void;
   className?: string;
 }
 
@@ -33,9 +37,11 @@ export const ProductCard: React.FC<ProductCardProps> = ({
   image,
   rating,
   colors = [],
+  isWishlisted = false,
   onQuickView,
   onAddToCart,
   onColorSelect,
+  onToggleWishlist,
   className,
 }) => {
   const [isHovered, setIsHovered] = useState(false);
@@ -122,10 +128,11 @@ export const ProductCard: React.FC<ProductCardProps> = ({
           loading="lazy"
         />
 
-        {/* Quick View Button */}
+        {/* Quick View and Wishlist Buttons */}
         <div
           className={cn(
             "absolute top-4 right-4 transition-all duration-300 z-10",
+            "flex flex-col gap-2",
             "opacity-100 scale-100", // Always visible now
           )}
         >
@@ -134,6 +141,31 @@ export const ProductCard: React.FC<ProductCardProps> = ({
             onClick={() => onQuickView?.(id)}
             aria-label={`Quick view ${name}`}
           />
+          {onToggleWishlist && (
+            <button
+              onClick={() => onToggleWishlist(id)}
+              className={cn(
+                "flex items-center justify-center w-[45px] h-[45px] rounded-full",
+                "bg-white border border-[#EBEBEB] transition-all duration-200",
+                "hover:border-[#E91162]",
+              )}
+              aria-label={
+                isWishlisted
+                  ? `Remove ${name} from wishlist`
+                  : `Save ${name} to wishlist`
+              }
+              aria-pressed={isWishlisted}
+            >
+              <Heart
+                className={cn(
+                  "w-[16px] h-[16px]",
+                  isWishlisted
+                    ? "fill-[#E91162] text-[#E91162]"
+                    : "text-[#111]",
+                )}
+              />
+            </button>
+          )}
         </div>
 
         {/* Add to Cart Button Overlay */}
@@ -192,6 +224,7 @@ interface ProductGridProps {
   onQuickView?: (id: number) => void;
   onAddToCart?: (id: number) => void;
   onColorSelect?: (id: number, colorIndex: number) => void;
+  onToggleWishlist?: (id: number) => void;
   className?: string;
 }
 
@@ -200,6 +233,7 @@ export const ProductGrid: React.FC<ProductGridProps> = ({
   onQuickView,
   onAddToCart,
   onColorSelect,
+  onToggleWishlist,
   className,
 }) => {
   return (
@@ -216,6 +250,7 @@ export const ProductGrid: React.FC<ProductGridProps> = ({
           onQuickView={onQuickView}
           onAddToCart={onAddToCart}
           onColorSelect={onColorSelect}
+          onToggleWishlist={onToggleWishlist}
         />
       ))}
     </div>
@@ -228,6 +263,7 @@ interface ProductRowProps {
   onQuickView?: (id: number) => void;
   onAddToCart?: (id: number) => void;
   onColorSelect?: (id: number, colorIndex: number) => void;
+  onToggleWishlist?: (id: number) => void;
   className?: string;
 }
 
@@ -236,6 +272,7 @@ export const ProductRow: React.FC<ProductRowProps> = ({
   onQuickView,
   onAddToCart,
   onColorSelect,
+  onToggleWishlist,
   className,
 }) => {
   return (
@@ -248,6 +285,7 @@ export const ProductRow: React.FC<ProductRowProps> = ({
               onQuickView={onQuickView}
               onAddToCart={onAddToCart}
               onColorSelect={onColorSelect}
+              onToggleWishlist={onToggleWishlist}
             />
           </div>
         ))}
@@ -1,12 +1,13 @@
 import { useState, useEffect } from 'react'
 import { supabase } from '@/lib/supabase'
 import { useAuth } from './useAuth'
+import type { AdminPermission } from '@shared/api'
 
 export interface AdminUser {
   id: string
   email: string
   role: 'admin' | 'super_admin'
-  permissions: Record<string, boolean>
+  permissions: Partial<Record<AdminPermission, boolean>>
   is_active: boolean
   created_at: string
   updated_at: string
@@ -27,6 +28,7 @@ export function useAdmin() {
         return
       }
 
+      setLoading(true)
       try {
         const { data, error } = await supabase
           .from('admin_users')
@@ -58,8 +60,9 @@ export function useAdmin() {
     return adminUser?.role === 'super_admin'
   }
 
-  const hasPermission = (permission: string) => {
-    return adminUser?.permissions?.[permission] === true
+  // Super admins hold every permission, matching has_permission() in the database
+  const hasPermission = (permission: AdminPermission) => {
+    return isSuperAdmin() || adminUser?.permissions?.[permission] === true
   }
 
   return {
@@ -29,6 +29,15 @@ export interface CartItem {
   }
 }
 
+function assertInStock(stockQuantity: number, requested: number) {
+  if (stockQuantity <= 0) {
+    throw new Error('This size is out of stock')
+  }
+  if (requested > stockQuantity) {
+    throw new Error(`Only ${stockQuantity} left in stock`)
+  }
+}
+
 export function useCart() {
   const { user } = useAuth()
   const [cartItems, setCartItems] = useState<CartItem[]>([])
@@ -89,11 +98,25 @@ export function useCart() {
         .eq('variant_id', variantId || null)
         .single()
 
+      const newQuantity = (existingItem?.quantity || 0) + quantity
+
+      // Don't let the cart hold more than is in stock
+      if (variantId) {
+        const { data: variant, error: variantError } = await supabase
+          .from('product_variants')
+          .select('stock_quantity')
+          .eq('id', variantId)
+          .single()
+
+        if (variantError) throw variantError
+        assertInStock(variant.stock_quantity, newQuantity)
+      }
+
       if (existingItem) {
         // Update quantity
         const { error } = await supabase
           .from('cart_items')
-          .update({ quantity: existingItem.quantity + quantity })
+          .update({ quantity: newQuantity })
           .eq('id', existingItem.id)
 
         if (error) throw error
@@ -123,6 +146,11 @@ export function useCart() {
     }
 
     try {
+      const item = cartItems.find(cartItem => cartItem.id === itemId)
+      if (item?.variant && quantity > item.quantity) {
+        assertInStock(item.variant.stock_quantity, quantity)
+      }
+
       const { error } = await supabase
         .from('cart_items')
         .update({ quantity })
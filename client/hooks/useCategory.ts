@@ -0,0 +1,168 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/lib/supabase";
+
+interface CategoryLink {
+  id: string;
+  name: string;
+  slug: string;
+}
+
+export interface CategoryDetails extends CategoryLink {
+  description: string | null;
+  image_url: string | null;
+  parent: CategoryLink | null;
+  subcategories: CategoryLink[];
+}
+
+/**
+ * Loads a category by slug, with its parent and subcategories. `category`
+ * is null once loaded if the slug doesn't match an active category.
+ */
+export function useCategory(slug: string | undefined) {
+  const [category, setCategory] = useState<CategoryDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchCategory = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        // The category tree is small, so one query covers the category, its
+        // parent and its subcategories
+        const { data: categories, error: categoriesError } = await supabase
+          .from("categories")
+          .select("id, name, slug, description, image_url, parent_id")
+          .eq("is_active", true)
+          .order("sort_order");
+
+        if (categoriesError) throw categoriesError;
+
+        const row = (categories || []).find((c) => c.slug === slug);
+        if (!row) {
+          if (!cancelled) setCategory(null);
+          return;
+        }
+
+        if (cancelled) return;
+
+        const toLink = ({ id, name, slug }: CategoryLink) => ({
+          id,
+          name,
+          slug,
+        });
+        const parent = categories.find((c) => c.id === row.parent_id);
+
+        setCategory({
+          ...toLink(row),
+          description: row.description,
+          image_url: row.image_url,
+          parent: parent ? toLink(parent) : null,
+          subcategories: categories
+            .filter((c) => c.parent_id === row.id)
+            .map(toLink),
+        });
+      } catch (err) {
+        const errorMessage =
+          err instanceof Error ? err.message : "An error occurred";
+        console.error("Error fetching category:", errorMessage);
+        if (!cancelled) setError(errorMessage);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchCategory();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [slug]);
+
+  return { category, loading, error };
+}
+
+export interface CategoryMenuSection {
+  /** The section name, or the category's own name when it has none */
+  name: string;
+  /** Where the header entry itself links */
+  link: string;
+  categories: (CategoryLink & { subcategories: CategoryLink[] })[];
+}
+
+interface CategoryMenuRow extends CategoryLink {
+  parent_id: string | null;
+  menu_section: string | null;
+}
+
+/**
+ * The header's category menu, built from the active categories in their
+ * admin order. Top-level categories are grouped by `menu_section`; one
+ * without a section gets an entry of its own listing its subcategories.
+ */
+export function useCategoryMenu() {
+  const [sections, setSections] = useState<CategoryMenuSection[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    supabase
+      .from("categories")
+      .select("id, name, slug, parent_id, menu_section")
+      .eq("is_active", true)
+      .order("sort_order")
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error("Error fetching category menu:", error.message);
+          return;
+        }
+
+        const rows = (data || []) as CategoryMenuRow[];
+        const toLink = ({ id, name, slug }: CategoryLink) => ({
+          id,
+          name,
+          slug,
+        });
+        const menu: CategoryMenuSection[] = [];
+        const bySection = new Map<string, CategoryMenuSection>();
+
+        for (const row of rows.filter((r) => !r.parent_id)) {
+          const subcategories = rows
+            .filter((r) => r.parent_id === row.id)
+            .map(toLink);
+          const section = row.menu_section?.trim();
+
+          if (!section) {
+            menu.push({
+              name: row.name,
+              link: `/category/${row.slug}`,
+              categories: subcategories.map((sub) => ({
+                ...sub,
+                subcategories: [],
+              })),
+            });
+            continue;
+          }
+
+          let entry = bySection.get(section);
+          if (!entry) {
+            entry = { name: section, link: "/all-products", categories: [] };
+            bySection.set(section, entry);
+            menu.push(entry);
+          }
+          entry.categories.push({ ...toLink(row), subcategories });
+        }
+
+        setSections(menu);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return sections;
+}
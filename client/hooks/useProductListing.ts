@@ -0,0 +1,114 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { apiFetch } from "@/lib/api";
+import { listingQueryString } from "@/lib/listing";
+import type {
+  ProductFacets,
+  ProductListingQuery,
+  ProductListingResponse,
+  ProductSummary,
+} from "@shared/api";
+
+const DEFAULT_PAGE_SIZE = 24;
+
+/**
+ * A listing loaded a page at a time. `loadMore` appends the next page; a
+ * change of filters starts again from the first. The previous results stay
+ * in place while the first page of new filters loads, so the page doesn't
+ * jump.
+ */
+export function useProductListing(
+  query: ProductListingQuery,
+  pageSize: number = DEFAULT_PAGE_SIZE,
+) {
+  const queryString = listingQueryString(query);
+  const [products, setProducts] = useState<ProductSummary[]>([]);
+  const [facets, setFacets] = useState<ProductFacets | null>(null);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [loaded, setLoaded] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const currentQuery = useRef(queryString);
+  currentQuery.current = queryString;
+
+  const fetchPage = useCallback(
+    (pageNumber: number) =>
+      apiFetch<ProductListingResponse>(
+        `/api/products?${queryString}&page=${pageNumber}&pageSize=${pageSize}`,
+      ),
+    [queryString, pageSize],
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    fetchPage(1)
+      .then((response) => {
+        if (cancelled) return;
+        setProducts(response.products);
+        setFacets(response.facets);
+        setTotal(response.total);
+        setPage(1);
+        setHasMore(response.hasMore);
+        setLoaded(true);
+      })
+      .catch((err) => {
+        console.error("Error loading products:", err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "An error occurred");
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [fetchPage]);
+
+  const loadMore = useCallback(async () => {
+    if (loading || loadingMore || !hasMore) return;
+
+    const requested = queryString;
+    setLoadingMore(true);
+    try {
+      const response = await fetchPage(page + 1);
+      // The filters changed while this page loaded
+      if (requested !== currentQuery.current) return;
+
+      // Products can shift between pages if the catalogue changes while
+      // browsing, so skip any already shown
+      setProducts((current) => {
+        const seen = new Set(current.map((p) => p.id));
+        return [
+          ...current,
+          ...response.products.filter((p) => !seen.has(p.id)),
+        ];
+      });
+      setPage(response.page);
+      setHasMore(response.hasMore);
+    } catch (err) {
+      console.error("Error loading more products:", err);
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [fetchPage, queryString, page, hasMore, loading, loadingMore]);
+
+  return {
+    products,
+    facets,
+    total,
+    hasMore,
+    loaded,
+    loading,
+    loadingMore,
+    error,
+    loadMore,
+  };
+}
@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { apiFetch } from "@/lib/api";
+import type {
+  ProductReview,
+  ProductReviewSummary,
+  ProductReviewsResponse,
+  ReviewPhoto,
+  ReviewSort,
+} from "@shared/api";
+
+const PAGE_SIZE = 10;
+
+/**
+ * A product's reviews, a page at a time, like useProductListing. `reload`
+ * starts again from the first page, e.g. after the shopper posts a review.
+ */
+export function useProductReviews(productId: string, sort: ReviewSort) {
+  const [reviews, setReviews] = useState<ProductReview[]>([]);
+  const [summary, setSummary] = useState<ProductReviewSummary | null>(null);
+  const [gallery, setGallery] = useState<
+    (ReviewPhoto & { reviewId: string })[]
+  >([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloads, setReloads] = useState(0);
+  const currentKey = useRef("");
+  const key = `${productId}:${sort}:${reloads}`;
+  currentKey.current = key;
+
+  const fetchPage = useCallback(
+    (pageNumber: number) =>
+      apiFetch<ProductReviewsResponse>(
+        `/api/products/${productId}/reviews?sort=${sort}&page=${pageNumber}&pageSize=${PAGE_SIZE}`,
+      ),
+    [productId, sort],
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    fetchPage(1)
+      .then((response) => {
+        if (cancelled) return;
+        setReviews(response.reviews);
+        setSummary(response.summary);
+        setGallery(response.gallery);
+        setTotal(response.total);
+        setPage(1);
+        setHasMore(response.hasMore);
+      })
+      .catch((err) => {
+        console.error("Error loading reviews:", err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "An error occurred");
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [fetchPage, reloads]);
+
+  const loadMore = useCallback(async () => {
+    if (loading || loadingMore || !hasMore) return;
+
+    const requested = key;
+    setLoadingMore(true);
+    try {
+      const response = await fetchPage(page + 1);
+      if (requested !== currentKey.current) return;
+
+      setReviews((current) => {
+        const seen = new Set(current.map((r) => r.id));
+        return [...current, ...response.reviews.filter((r) => !seen.has(r.id))];
+      });
+      setPage(response.page);
+      setHasMore(response.hasMore);
+    } catch (err) {
+      console.error("Error loading more reviews:", err);
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [fetchPage, key, page, hasMore, loading, loadingMore]);
+
+  const reload = useCallback(() => setReloads((count) => count + 1), []);
+
+  return {
+    reviews,
+    summary,
+    gallery,
+    total,
+    hasMore,
+    loading,
+    loadingMore,
+    error,
+    loadMore,
+    reload,
+  };
+}
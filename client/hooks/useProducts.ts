@@ -1,5 +1,4 @@
-import { useState, useEffect } from "react";
-import { supabase, testSupabaseConnection } from "@/lib/supabase";
+import { supabase } from "@/lib/supabase";
 
 export interface Product {
   id: string;
@@ -40,162 +39,6 @@ export interface Product {
 }
 
 export function useProducts() {
-  const [products, setProducts] = useState<Product[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  const fetchProducts = async () => {
-    try {
-      setLoading(true);
-      const { data, error } = await supabase
-        .from("products")
-        .select(
-          `
-          *,
-          category:categories(name, slug),
-          images:product_images(*),
-          variants:product_variants(*)
-        `,
-        )
-        .eq("is_active", true)
-        .order("created_at", { ascending: false });
-
-      if (error) throw error;
-      setProducts(data || []);
-      setError(null);
-    } catch (err) {
-      const errorMessage =
-        err instanceof Error ? err.message : "An error occurred";
-      console.error("Database fetch failed, using mock data:", errorMessage);
-      setError(errorMessage);
-
-      // Fallback to mock data when database connection fails
-      const mockProducts: Product[] = [
-        {
-          id: "1",
-          name: "Men's Round Neck T-Shirt - Premium Cotton",
-          description:
-            "Premium quality round neck t-shirt made from 100% cotton",
-          category_id: "1",
-          subcategory: "Round Neck T-Shirts",
-          price: 399,
-          original_price: 499,
-          sku: "MEN-RN-TSH-001",
-          slug: "mens-round-neck-tshirt-premium",
-          is_active: true,
-          is_hot_sale: true,
-          rating: 5,
-          review_count: 45,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          category: { name: "Men", slug: "men" },
-          images: [
-            {
-              id: "1",
-              image_url: "/placeholder.svg",
-              alt_text: "Round Neck T-Shirt",
-              is_primary: true,
-              sort_order: 1,
-            },
-          ],
-          variants: [
-            {
-              id: "1",
-              size: "M",
-              color_name: "Black",
-              color_code: "#000000",
-              stock_quantity: 50,
-              price_adjustment: 0,
-              is_active: true,
-            },
-          ],
-        },
-        {
-          id: "2",
-          name: "Women's 3/4 Leggings - Comfort Fit",
-          description:
-            "Comfortable 3/4 length leggings perfect for workouts and casual wear",
-          category_id: "2",
-          subcategory: "3/4 Leggings",
-          price: 449,
-          original_price: 549,
-          sku: "WOM-34-LEG-001",
-          slug: "womens-3-4-leggings-comfort",
-          is_active: true,
-          is_hot_sale: true,
-          rating: 4,
-          review_count: 28,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          category: { name: "Women", slug: "women" },
-          images: [
-            {
-              id: "2",
-              image_url: "/placeholder.svg",
-              alt_text: "3/4 Leggings",
-              is_primary: true,
-              sort_order: 1,
-            },
-          ],
-          variants: [
-            {
-              id: "2",
-              size: "M",
-              color_name: "Navy",
-              color_code: "#000080",
-              stock_quantity: 30,
-              price_adjustment: 0,
-              is_active: true,
-            },
-          ],
-        },
-        {
-          id: "3",
-          name: "Men's V-Neck T-Shirt - Classic Style",
-          description:
-            "Stylish V-neck t-shirt crafted from premium cotton blend",
-          category_id: "1",
-          subcategory: "V-Neck T-Shirts",
-          price: 449,
-          original_price: 549,
-          sku: "MEN-VN-TSH-002",
-          slug: "mens-v-neck-tshirt-classic",
-          is_active: true,
-          is_hot_sale: false,
-          rating: 4,
-          review_count: 32,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          category: { name: "Men", slug: "men" },
-          images: [
-            {
-              id: "3",
-              image_url: "/placeholder.svg",
-              alt_text: "V-Neck T-Shirt",
-              is_primary: true,
-              sort_order: 1,
-            },
-          ],
-          variants: [
-            {
-              id: "3",
-              size: "L",
-              color_name: "Purple",
-              color_code: "#7C3AED",
-              stock_quantity: 25,
-              price_adjustment: 0,
-              is_active: true,
-            },
-          ],
-        },
-      ];
-
-      setProducts(mockProducts);
-    } finally {
-      setLoading(false);
-    }
-  };
-
   const getProductBySlug = async (slug: string): Promise<Product | null> => {
     try {
       const { data, error } = await supabase
@@ -203,7 +46,7 @@ export function useProducts() {
         .select(
           `
           *,
-          category:categories(name, slug),
+          category:categories!products_category_id_fkey(name, slug),
           images:product_images(*),
           variants:product_variants(*)
         `,
@@ -223,94 +66,6 @@ export function useProducts() {
     }
   };
 
-  const getProductsByCategory = async (
-    categorySlug: string,
-  ): Promise<Product[]> => {
-    try {
-      const { data, error } = await supabase
-        .from("products")
-        .select(
-          `
-          *,
-          category:categories!inner(name, slug),
-          images:product_images(*),
-          variants:product_variants(*)
-        `,
-        )
-        .eq("category.slug", categorySlug)
-        .eq("is_active", true)
-        .order("created_at", { ascending: false });
-
-      if (error) throw error;
-      return data || [];
-    } catch (err) {
-      console.error(
-        "Error fetching products by category:",
-        err instanceof Error ? err.message : String(err),
-      );
-      return [];
-    }
-  };
-
-  const getHotSaleProducts = async (): Promise<Product[]> => {
-    try {
-      // Test connection first
-      const connectionOk = await testSupabaseConnection();
-      if (!connectionOk) {
-        console.warn("⚠️ Supabase connection issue, returning empty array");
-        return [];
-      }
-
-      // Start with a simple query to test basic connectivity
-      const { data, error } = await supabase
-        .from("products")
-        .select("*")
-        .eq("is_hot_sale", true)
-        .eq("is_active", true)
-        .limit(10);
-
-      if (error) throw error;
-      return data || [];
-    } catch (err) {
-      console.error("Error fetching hot sale products:", err);
-      console.error("Error details:", {
-        message: err instanceof Error ? err.message : String(err),
-        stack: err instanceof Error ? err.stack : undefined,
-        supabaseError: err,
-      });
-
-      // Return mock data as fallback when database is not ready
-      console.warn("⚠️ Database not ready, returning mock hot sale products");
-      return mockProducts.filter((p) => p.is_hot_sale).slice(0, 6);
-    }
-  };
-
-  const getAllProducts = async (): Promise<Product[]> => {
-    try {
-      const { data, error } = await supabase
-        .from("products")
-        .select(
-          `
-          *,
-          category:categories(name, slug),
-          images:product_images(*),
-          variants:product_variants(*)
-        `,
-        )
-        .eq("is_active", true)
-        .order("created_at", { ascending: false });
-
-      if (error) throw error;
-      return data || [];
-    } catch (err) {
-      console.error(
-        "Error fetching all products:",
-        err instanceof Error ? err.message : String(err),
-      );
-      return [];
-    }
-  };
-
   const getRelatedProducts = async (
     categoryId: string,
     excludeProductId: string,
@@ -322,7 +77,7 @@ export function useProducts() {
         .select(
           `
           *,
-          category:categories(name, slug),
+          category:categories!products_category_id_fkey(name, slug),
           images:product_images(*),
           variants:product_variants(*)
         `,
@@ -354,7 +109,7 @@ export function useProducts() {
         .select(
           `
           *,
-          category:categories(name, slug),
+          category:categories!products_category_id_fkey(name, slug),
           images:product_images(*),
           variants:product_variants(*)
         `,
@@ -382,7 +137,7 @@ export function useProducts() {
         .select(
           `
           *,
-          category:categories(name, slug),
+          category:categories!products_category_id_fkey(name, slug),
           images:product_images(*),
           variants:product_variants(*)
         `,
@@ -402,19 +157,8 @@ export function useProducts() {
     }
   };
 
-  useEffect(() => {
-    fetchProducts();
-  }, []);
-
   return {
-    products,
-    loading,
-    error,
-    refetch: fetchProducts,
     getProductBySlug,
-    getProductsByCategory,
-    getHotSaleProducts,
-    getAllProducts,
     getRelatedProducts,
     getRecommendedProducts,
     getProductById,
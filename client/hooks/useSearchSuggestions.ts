@@ -0,0 +1,67 @@
+import { useEffect, useState } from "react";
+import { apiFetch } from "@/lib/api";
+import type { SearchSuggestionsResponse } from "@shared/api";
+
+const DEBOUNCE_MS = 200;
+const CACHE_TTL_MS = 60 * 1000;
+
+// Shared by every search box, so reopening the search overlay or going
+// back over a prefix shows suggestions without another request
+const cache = new Map<
+  string,
+  { expires: number; suggestions: SearchSuggestionsResponse }
+>();
+
+function cacheKey(query: string) {
+  return query.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/**
+ * Suggestions for what the shopper has typed so far, fetched once they
+ * pause. An empty query still loads popular searches.
+ */
+export function useSearchSuggestions(query: string) {
+  const key = cacheKey(query);
+  const [suggestions, setSuggestions] =
+    useState<SearchSuggestionsResponse | null>(
+      () => cache.get(key)?.suggestions || null,
+    );
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const cached = cache.get(key);
+    if (cached && cached.expires > Date.now()) {
+      setSuggestions(cached.suggestions);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await apiFetch<SearchSuggestionsResponse>(
+          `/api/search/suggestions?q=${encodeURIComponent(key)}`,
+        );
+        cache.set(key, {
+          expires: Date.now() + CACHE_TTL_MS,
+          suggestions: response,
+        });
+        if (!cancelled) setSuggestions(response);
+      } catch (error) {
+        // Suggestions are a convenience; the shopper can still submit
+        console.error("Error fetching search suggestions:", error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [key]);
+
+  return { suggestions, loading };
+}
@@ -0,0 +1,117 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/lib/supabase";
+import { useAuth } from "./useAuth";
+
+export interface StockAlert {
+  id: string;
+  variantId: string;
+  productId: string | null;
+  productName: string | null;
+  size: string | null;
+  colorName: string | null;
+  createdAt: string;
+}
+
+interface StockAlertRow {
+  id: string;
+  variant_id: string;
+  created_at: string;
+  product_variants: {
+    size: string | null;
+    color_name: string | null;
+    product_id: string;
+    products: { name: string } | null;
+  } | null;
+}
+
+/**
+ * Sold-out sizes the customer asked to hear about. Alerts drop off the
+ * list once the back-in-stock email has been queued.
+ */
+export function useStockAlerts() {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [alerts, setAlerts] = useState<StockAlert[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchAlerts = useCallback(async () => {
+    if (!userId) {
+      setAlerts([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from("stock_alerts")
+        .select(
+          "id, variant_id, created_at, product_variants(size, color_name, product_id, products(name))",
+        )
+        .eq("user_id", userId)
+        .is("notified_at", null)
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+
+      setAlerts(
+        ((data || []) as unknown as StockAlertRow[]).map((row) => ({
+          id: row.id,
+          variantId: row.variant_id,
+          productId: row.product_variants?.product_id ?? null,
+          productName: row.product_variants?.products?.name ?? null,
+          size: row.product_variants?.size ?? null,
+          colorName: row.product_variants?.color_name ?? null,
+          createdAt: row.created_at,
+        })),
+      );
+    } catch (err) {
+      console.error("Error fetching stock alerts:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    fetchAlerts();
+  }, [fetchAlerts]);
+
+  const isSubscribed = useCallback(
+    (variantId: string) => alerts.some((a) => a.variantId === variantId),
+    [alerts],
+  );
+
+  const subscribe = async (variantId: string) => {
+    if (!userId) throw new Error("Please login to get stock alerts");
+
+    const { error } = await supabase
+      .from("stock_alerts")
+      .insert({ user_id: userId, variant_id: variantId });
+    // 23505: already waiting on this size, which is what they wanted
+    if (error && error.code !== "23505") throw error;
+
+    await fetchAlerts();
+  };
+
+  const unsubscribe = async (variantId: string) => {
+    if (!userId) return;
+
+    const { error } = await supabase
+      .from("stock_alerts")
+      .delete()
+      .eq("user_id", userId)
+      .eq("variant_id", variantId)
+      .is("notified_at", null);
+    if (error) throw error;
+
+    setAlerts((prev) => prev.filter((a) => a.variantId !== variantId));
+  };
+
+  return {
+    alerts,
+    loading,
+    isSubscribed,
+    subscribe,
+    unsubscribe,
+    refetch: fetchAlerts,
+  };
+}
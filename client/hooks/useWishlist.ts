@@ -0,0 +1,194 @@
+import { useCallback, useEffect, useState } from "react";
+import type { WishlistEntry } from "@shared/api";
+import { supabase } from "@/lib/supabase";
+import { useAuth } from "./useAuth";
+
+// Guests' wishlists, moved to their account when they log in
+const GUEST_STORAGE_KEY = "guestWishlist";
+
+interface WishlistItemRow {
+  product_id: string;
+  variant_id: string | null;
+  created_at: string;
+}
+
+function readGuestWishlist(): WishlistEntry[] {
+  try {
+    const entries = JSON.parse(localStorage.getItem(GUEST_STORAGE_KEY) || "[]");
+    return Array.isArray(entries)
+      ? entries.filter((entry) => typeof entry?.productId === "string")
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeGuestWishlist(entries: WishlistEntry[]) {
+  if (entries.length > 0) {
+    localStorage.setItem(GUEST_STORAGE_KEY, JSON.stringify(entries));
+  } else {
+    localStorage.removeItem(GUEST_STORAGE_KEY);
+  }
+}
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+async function mergeGuestEntry(userId: string, entry: WishlistEntry) {
+  if (!UUID_PATTERN.test(entry.productId)) return;
+
+  // Products already on the account keep the variant chosen there
+  const save = (variantId: string | null) =>
+    supabase
+      .from("wishlist_items")
+      .upsert(
+        { user_id: userId, product_id: entry.productId, variant_id: variantId },
+        { onConflict: "user_id,product_id", ignoreDuplicates: true },
+      );
+
+  const variantId =
+    entry.variantId && UUID_PATTERN.test(entry.variantId)
+      ? entry.variantId
+      : null;
+  let { error } = await save(variantId);
+  if (error && variantId) {
+    // The size may be gone while the product is still sold
+    ({ error } = await save(null));
+  }
+  if (error) {
+    console.warn(`Dropped guest wishlist item ${entry.productId}:`, error);
+  }
+}
+
+/**
+ * The shopper's wishlist, newest first. Saved to their account when logged
+ * in and to this browser otherwise; logging in merges the two.
+ */
+export function useWishlist() {
+  const { user, loading: authLoading } = useAuth();
+  const userId = user?.id;
+  const [entries, setEntries] = useState<WishlistEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchWishlist = useCallback(async () => {
+    if (!userId) {
+      setEntries(readGuestWishlist());
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const guestEntries = readGuestWishlist();
+      if (guestEntries.length > 0) {
+        // One at a time, so a product or size deleted since it was saved
+        // only drops that entry. Cleared either way so a bad entry can't
+        // block every later load.
+        for (const entry of guestEntries) {
+          await mergeGuestEntry(userId, entry);
+        }
+        writeGuestWishlist([]);
+      }
+
+      const { data, error } = await supabase
+        .from("wishlist_items")
+        .select("product_id, variant_id, created_at")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+
+      setEntries(
+        ((data || []) as WishlistItemRow[]).map((row) => ({
+          productId: row.product_id,
+          variantId: row.variant_id,
+          addedAt: row.created_at,
+        })),
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (!authLoading) fetchWishlist();
+  }, [authLoading, fetchWishlist]);
+
+  const isWishlisted = useCallback(
+    (productId: string) =>
+      entries.some((entry) => entry.productId === productId),
+    [entries],
+  );
+
+  /** Saves the product, or updates its chosen variant if already saved */
+  const addToWishlist = async (
+    productId: string,
+    variantId: string | null = null,
+  ) => {
+    const entry: WishlistEntry = {
+      productId,
+      variantId,
+      addedAt: new Date().toISOString(),
+    };
+    const others = entries.filter((e) => e.productId !== productId);
+
+    if (!userId) {
+      writeGuestWishlist([entry, ...others]);
+      setEntries([entry, ...others]);
+      return;
+    }
+
+    const { error } = await supabase
+      .from("wishlist_items")
+      .upsert(
+        { user_id: userId, product_id: productId, variant_id: variantId },
+        { onConflict: "user_id,product_id" },
+      );
+    if (error) throw new Error(error.message);
+    await fetchWishlist();
+  };
+
+  const removeFromWishlist = async (productId: string) => {
+    const remaining = entries.filter((e) => e.productId !== productId);
+
+    if (!userId) {
+      writeGuestWishlist(remaining);
+      setEntries(remaining);
+      return;
+    }
+
+    const { error } = await supabase
+      .from("wishlist_items")
+      .delete()
+      .eq("user_id", userId)
+      .eq("product_id", productId);
+    if (error) throw new Error(error.message);
+    setEntries(remaining);
+  };
+
+  /** Adds or removes the product; resolves to whether it is now saved */
+  const toggleWishlist = async (
+    productId: string,
+    variantId: string | null = null,
+  ): Promise<boolean> => {
+    if (isWishlisted(productId)) {
+      await removeFromWishlist(productId);
+      return false;
+    }
+    await addToWishlist(productId, variantId);
+    return true;
+  };
+
+  return {
+    entries,
+    loading: loading || authLoading,
+    error,
+    isWishlisted,
+    addToWishlist,
+    removeFromWishlist,
+    toggleWishlist,
+    refetch: fetchWishlist,
+  };
+}
@@ -0,0 +1,92 @@
+import { supabase } from "@/lib/supabase";
+import type { ApiErrorResponse } from "@shared/api";
+
+/**
+ * Error thrown by apiFetch for non-2xx responses. `body` is the parsed JSON
+ * error payload so callers can read route-specific fields.
+ */
+export class ApiError extends Error {
+  status: number;
+  body: ApiErrorResponse & Record<string, unknown>;
+
+  constructor(
+    status: number,
+    body: ApiErrorResponse & Record<string, unknown>,
+  ) {
+    super(body.error);
+    this.name = "ApiError";
+    this.status = status;
+    this.body = body;
+  }
+}
+
+async function authorizedFetch(
+  path: string,
+  init: RequestInit = {},
+): Promise<Response> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  const headers = new Headers(init.headers);
+  if (init.body && !headers.has("Content-Type")) {
+    headers.set("Content-Type", "application/json");
+  }
+  if (session?.access_token) {
+    headers.set("Authorization", `Bearer ${session.access_token}`);
+  }
+
+  return fetch(path, { ...init, headers });
+}
+
+async function toApiError(response: Response): Promise<ApiError> {
+  const body = await response.json().catch(() => ({}));
+  return new ApiError(response.status, {
+    ...body,
+    error: body.error || `Request failed with status ${response.status}`,
+  });
+}
+
+/**
+ * Calls our Express API with the current user's Supabase access token
+ */
+export async function apiFetch<T>(
+  path: string,
+  init: RequestInit = {},
+): Promise<T> {
+  const response = await authorizedFetch(path, init);
+
+  if (!response.ok) {
+    throw await toApiError(response);
+  }
+
+  return response.json().catch(() => ({})) as Promise<T>;
+}
+
+/**
+ * Downloads a file from our Express API, e.g. an invoice PDF. Needed
+ * because a plain link can't send the access token.
+ */
+export async function apiDownload(
+  path: string,
+  fallbackFilename: string,
+): Promise<void> {
+  const response = await authorizedFetch(path);
+
+  if (!response.ok) {
+    throw await toApiError(response);
+  }
+
+  const disposition = response.headers.get("Content-Disposition") || "";
+  const filename =
+    disposition.match(/filename="([^"]+)"/)?.[1] || fallbackFilename;
+
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,14 @@
+// The coupon applied on the cart page, carried over to checkout for this tab
+const STORAGE_KEY = "appliedCouponCode";
+
+export function getAppliedCouponCode(): string {
+  return sessionStorage.getItem(STORAGE_KEY) || "";
+}
+
+export function setAppliedCouponCode(code: string) {
+  sessionStorage.setItem(STORAGE_KEY, code);
+}
+
+export function clearAppliedCouponCode() {
+  sessionStorage.removeItem(STORAGE_KEY);
+}
@@ -0,0 +1,40 @@
+/**
+ * Scales an image down so neither side exceeds `maxDimension` and
+ * re-encodes it as a JPEG. Smaller images keep their size; re-encoding
+ * still strips metadata such as the photo's location.
+ */
+export async function resizeImage(
+  file: File,
+  maxDimension = 1600,
+): Promise<Blob> {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(
+    1,
+    maxDimension / Math.max(bitmap.width, bitmap.height),
+  );
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d");
+  if (!context) {
+    bitmap.close();
+    throw new Error("Your browser can't process images");
+  }
+  // JPEG has no transparency, so fill behind transparent PNGs
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, width, height);
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error("Couldn't process the image")),
+      "image/jpeg",
+      0.85,
+    );
+  });
+}
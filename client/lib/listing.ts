@@ -0,0 +1,85 @@
+import type { ProductListingQuery, ProductSort } from "@shared/api";
+
+const SORTS: ProductSort[] = [
+  "relevance",
+  "name",
+  "price-low",
+  "price-high",
+  "rating",
+  "newest",
+  "popularity",
+];
+
+/** URL parameters holding each list filter, comma-separated */
+export const LIST_FILTER_PARAMS = {
+  sizes: "size",
+  colors: "color",
+  subcategories: "subcategory",
+  priceBands: "price",
+} as const;
+
+export type ListFilter = keyof typeof LIST_FILTER_PARAMS;
+
+function readList(params: URLSearchParams, key: string): string[] {
+  return (params.get(key) || "")
+    .split(",")
+    .map((value) => value.trim())
+    .filter(Boolean);
+}
+
+/**
+ * The listing filters in a page URL. Without a `sort`, search results are
+ * ordered by relevance and everything else by name, as the API does.
+ */
+export function readListingQuery(
+  params: URLSearchParams,
+  scope: Pick<ProductListingQuery, "category" | "onSale"> = {},
+): ProductListingQuery {
+  const q = params.get("q")?.trim() || "";
+  const sort = params.get("sort") as ProductSort | null;
+
+  return {
+    ...scope,
+    q,
+    sizes: readList(params, LIST_FILTER_PARAMS.sizes),
+    colors: readList(params, LIST_FILTER_PARAMS.colors),
+    subcategories: readList(params, LIST_FILTER_PARAMS.subcategories),
+    priceBands: readList(params, LIST_FILTER_PARAMS.priceBands),
+    sort: sort && SORTS.includes(sort) ? sort : q ? "relevance" : "name",
+  };
+}
+
+/**
+ * Query string for GET /api/products, in the same format as page URLs
+ */
+export function listingQueryString(query: ProductListingQuery): string {
+  const params = new URLSearchParams();
+  if (query.category) params.set("category", query.category);
+  if (query.onSale) params.set("onSale", "true");
+  if (query.q) params.set("q", query.q);
+  for (const [filter, key] of Object.entries(LIST_FILTER_PARAMS)) {
+    const values = query[filter as ListFilter];
+    if (values.length > 0) params.set(key, values.join(","));
+  }
+  params.set("sort", query.sort);
+  return params.toString();
+}
+
+/**
+ * A copy of `params` with one list filter replaced, leaving unrelated
+ * parameters such as `product` alone
+ */
+export function withListFilter(
+  params: URLSearchParams,
+  filter: ListFilter,
+  values: string[],
+): URLSearchParams {
+  const next = new URLSearchParams(params);
+  const key = LIST_FILTER_PARAMS[filter];
+  if (values.length > 0) {
+    next.set(key, values.join(","));
+  } else {
+    next.delete(key);
+  }
+  return next;
+}
@@ -0,0 +1,187 @@
+import { ApiError, apiFetch } from "@/lib/api";
+import type {
+  CreatePaymentRequest,
+  CreatePaymentResponse,
+  MockPaymentRequest,
+  MockPaymentResponse,
+  PaymentFailureRequest,
+  PaymentResultResponse,
+  VerifyPaymentRequest,
+} from "@shared/api";
+
+const RAZORPAY_CHECKOUT_URL = "https://checkout.razorpay.com/v1/checkout.js";
+
+interface RazorpaySuccess {
+  razorpay_payment_id: string;
+  razorpay_order_id: string;
+  razorpay_signature: string;
+}
+
+interface RazorpayOptions {
+  key: string;
+  amount: number;
+  currency: string;
+  order_id: string;
+  name: string;
+  description: string;
+  prefill: { name: string; email: string; contact: string };
+  theme: { color: string };
+  handler: (response: RazorpaySuccess) => void;
+  modal: { ondismiss: () => void };
+}
+
+declare global {
+  interface Window {
+    Razorpay?: new (options: RazorpayOptions) => { open: () => void };
+  }
+}
+
+export interface PaymentPrefill {
+  name: string;
+  email: string;
+  phone: string;
+}
+
+interface GatewayPayment {
+  gatewayPaymentId: string;
+  signature: string;
+}
+
+let checkoutScript: Promise<void> | null = null;
+
+function loadRazorpayCheckout(): Promise<void> {
+  if (window.Razorpay) return Promise.resolve();
+
+  checkoutScript ??= new Promise<void>((resolve, reject) => {
+    const script = document.createElement("script");
+    script.src = RAZORPAY_CHECKOUT_URL;
+    script.onload = () => resolve();
+    script.onerror = () => {
+      checkoutScript = null;
+      reject(new Error("Could not load the payment window"));
+    };
+    document.body.appendChild(script);
+  });
+
+  return checkoutScript;
+}
+
+/**
+ * Opens the Razorpay widget. Resolves null if the shopper closes it
+ * without paying.
+ */
+async function openRazorpayCheckout(
+  payment: CreatePaymentResponse,
+  prefill: PaymentPrefill,
+): Promise<GatewayPayment | null> {
+  await loadRazorpayCheckout();
+
+  return new Promise((resolve) => {
+    const checkout = new window.Razorpay!({
+      key: payment.keyId!,
+      amount: payment.amount,
+      currency: payment.currency,
+      order_id: payment.gatewayOrderId,
+      name: "Garments",
+      description: `Order #${payment.orderNumber}`,
+      prefill: {
+        name: prefill.name,
+        email: prefill.email,
+        contact: prefill.phone,
+      },
+      theme: { color: "#EA7777" },
+      handler: (response) =>
+        resolve({
+          gatewayPaymentId: response.razorpay_payment_id,
+          signature: response.razorpay_signature,
+        }),
+      modal: { ondismiss: () => resolve(null) },
+    });
+    checkout.open();
+  });
+}
+
+/**
+ * Stand-in for the widget when the server runs the mock gateway
+ */
+async function openMockCheckout(
+  payment: CreatePaymentResponse,
+): Promise<GatewayPayment> {
+  const succeed = window.confirm(
+    `Test payment of ₹${(payment.amount / 100).toFixed(2)} for order #${payment.orderNumber}.\n\nOK = payment succeeds, Cancel = payment fails`,
+  );
+
+  const request: MockPaymentRequest = {
+    gatewayOrderId: payment.gatewayOrderId,
+    succeed,
+  };
+  // A failed mock payment comes back with a bad signature, so verification
+  // rejects it exactly as it would a tampered Razorpay callback
+  return apiFetch<MockPaymentResponse>("/api/payments/mock/pay", {
+    method: "POST",
+    body: JSON.stringify(request),
+  });
+}
+
+function reportPaymentFailure(orderId: string): Promise<PaymentResultResponse> {
+  const failureRequest: PaymentFailureRequest = { orderId };
+  return apiFetch<PaymentResultResponse>("/api/payments/failure", {
+    method: "POST",
+    body: JSON.stringify(failureRequest),
+  });
+}
+
+/**
+ * Takes payment for a placed order and reports the outcome to the API.
+ * A failed or abandoned payment cancels the order and puts its items back
+ * in the cart. Orders whose failure never gets reported (a closed tab, a
+ * dropped connection) are cancelled by the server once their reservation
+ * window has passed.
+ */
+export async function collectPayment(
+  orderId: string,
+  prefill: PaymentPrefill,
+): Promise<PaymentResultResponse> {
+  const createRequest: CreatePaymentRequest = { orderId };
+  let payment: CreatePaymentResponse;
+  try {
+    payment = await apiFetch<CreatePaymentResponse>("/api/payments/order", {
+      method: "POST",
+      body: JSON.stringify(createRequest),
+    });
+  } catch (error) {
+    console.error("Could not start payment:", error);
+    return reportPaymentFailure(orderId);
+  }
+
+  let result: GatewayPayment | null = null;
+  try {
+    result =
+      payment.gateway === "mock"
+        ? await openMockCheckout(payment)
+        : await openRazorpayCheckout(payment, prefill);
+  } catch (error) {
+    console.error("Payment window failed:", error);
+  }
+
+  if (!result) return reportPaymentFailure(orderId);
+
+  const verifyRequest: VerifyPaymentRequest = {
+    orderId,
+    gatewayOrderId: payment.gatewayOrderId,
+    gatewayPaymentId: result.gatewayPaymentId,
+    signature: result.signature,
+  };
+  try {
+    return await apiFetch<PaymentResultResponse>("/api/payments/verify", {
+      method: "POST",
+      body: JSON.stringify(verifyRequest),
+    });
+  } catch (error) {
+    // The API has already marked the order failed
+    if (error instanceof ApiError && error.status === 400) {
+      return { orderId, paymentStatus: "failed" };
+    }
+    throw error;
+  }
+}
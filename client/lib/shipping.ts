@@ -0,0 +1,51 @@
+import type { DeliveryEstimate } from "@shared/api";
+
+// The last PIN code the shopper checked, so the cart and checkout can reuse it
+const STORAGE_KEY = "deliveryPinCode";
+
+export function isValidPinCode(pinCode: string): boolean {
+  return /^[1-9]\d{5}$/.test(pinCode.trim());
+}
+
+/** A PIN code or the prefix of one, as used in shipping zones and COD rules */
+export const PIN_PREFIX = /^\d{1,6}$/;
+
+// Accepts PIN codes or prefixes separated by commas, spaces or new lines
+export function parsePinList(value: string): string[] {
+  return Array.from(
+    new Set(
+      value
+        .split(/[\s,]+/)
+        .map((pin) => pin.trim())
+        .filter(Boolean),
+    ),
+  );
+}
+
+export function getSavedPinCode(): string {
+  return localStorage.getItem(STORAGE_KEY) || "";
+}
+
+export function savePinCode(pinCode: string) {
+  localStorage.setItem(STORAGE_KEY, pinCode.trim());
+}
+
+// Dates arrive as YYYY-MM-DD; parse them as local dates, not UTC midnight
+function formatDate(date: string): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString("en-IN", {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+  });
+}
+
+/**
+ * "Delivery by Wed, 9 Jul" or "Delivery between Wed, 9 Jul and Fri, 11 Jul"
+ */
+export function formatDeliveryEstimate(delivery: DeliveryEstimate): string {
+  if (delivery.earliest === delivery.latest) {
+    return `Delivery by ${formatDate(delivery.latest)}`;
+  }
+  return `Delivery between ${formatDate(delivery.earliest)} and ${formatDate(delivery.latest)}`;
+}
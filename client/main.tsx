@@ -19,36 +19,12 @@ import ProductsPage from "./pages/ProductsPage";
 import ProductsViewPage from "./pages/ProductsViewPage";
 import ProductDetailPage from "./pages/ProductDetailPage";
 import CategoryPage from "./pages/CategoryPage";
+import SearchPage from "./pages/SearchPage";
+import WishlistPage from "./pages/WishlistPage";
+import SharedWishlistPage from "./pages/SharedWishlistPage";
+import AlertsUnsubscribePage from "./pages/AlertsUnsubscribePage";
 import NotFound from "./pages/NotFound";
 
-// Import dedicated category pages
-import TShirtsPage from "./pages/TShirtsPage";
-import RoundNeckTShirtsPage from "./pages/RoundNeckTShirtsPage";
-import VNeckTShirtsPage from "./pages/VNeckTShirtsPage";
-import PoloTShirtsPage from "./pages/PoloTShirtsPage";
-import LongSleeveTShirtsPage from "./pages/LongSleeveTShirtsPage";
-import SleevelessTShirtsPage from "./pages/SleevelessTShirtsPage";
-import FullHandTShirtsPage from "./pages/FullHandTShirtsPage";
-import TrackPantsPage from "./pages/TrackPantsPage";
-import ShortsPage from "./pages/ShortsPage";
-import LeggingsPage from "./pages/LeggingsPage_updated";
-import FlatAnkleLeggingsPage from "./pages/FlatAnkleLeggingsPage";
-import FlatFullLengthLeggingsPage from "./pages/FlatFullLengthLeggingsPage";
-import ChuridharAnkleLeggingsPage from "./pages/ChuridharAnkleLeggingsPage";
-import ChuridharFullLengthLeggingsPage from "./pages/ChuridharFullLengthLeggingsPage";
-import ShimmerLeggingsPage from "./pages/ShimmerLeggingsPage";
-import ThreeFourLeggingsPage from "./pages/ThreeFourLeggingsPage";
-import SareeShapewearPage from "./pages/SareeShapewearPage";
-import LycraCottonShapewearPage from "./pages/LycraCottonShapewearPage";
-import PolyesterShapewearPage from "./pages/PolyesterShapewearPage";
-import ShimmerShapewearPage from "./pages/ShimmerShapewearPage";
-import NightWearPage from "./pages/NightWearPage";
-import NightTShirtsPage from "./pages/NightTShirtsPage";
-import InnerWearPage from "./pages/InnerWearPage";
-import WomenShortsPage from "./pages/WomenShortsPage";
-import BasicSlipsPage from "./pages/BasicSlipsPage";
-import AdjustmentSlipsPage from "./pages/AdjustmentSlipsPage";
-import PantiesPage from "./pages/PantiesPage";
 import AboutPage from "./pages/AboutPage";
 import HotSalesPage from "./pages/HotSalesPage";
 import ContactPage from "./pages/ContactPage";
@@ -80,36 +56,11 @@ const App = () => (
             <Route path="/all-products" element={<ProductsViewPage />} />
             <Route path="/product/:id" element={<ProductDetailPage />} />
             
-            {/* Category Routes - Using dedicated pages */}
-            <Route path="/category/men" element={<CategoryPage />} />
-            <Route path="/category/women" element={<CategoryPage />} />
-            <Route path="/category/t-shirts" element={<TShirtsPage />} />
-            <Route path="/category/round-neck-t-shirts" element={<RoundNeckTShirtsPage />} />
-            <Route path="/category/v-neck-t-shirts" element={<VNeckTShirtsPage />} />
-            <Route path="/category/polo-t-shirts" element={<PoloTShirtsPage />} />
-            <Route path="/category/long-sleeve-t-shirts" element={<LongSleeveTShirtsPage />} />
-            <Route path="/category/sleeveless-t-shirts" element={<SleevelessTShirtsPage />} />
-            <Route path="/category/full-hand-t-shirts" element={<FullHandTShirtsPage />} />
-            <Route path="/category/track-pants" element={<TrackPantsPage />} />
-            <Route path="/category/shorts" element={<ShortsPage />} />
-            <Route path="/category/leggings" element={<LeggingsPage />} />
-            <Route path="/category/flat-ankle-leggings" element={<FlatAnkleLeggingsPage />} />
-            <Route path="/category/flat-full-length-leggings" element={<FlatFullLengthLeggingsPage />} />
-            <Route path="/category/churidhar-ankle-leggings" element={<ChuridharAnkleLeggingsPage />} />
-            <Route path="/category/churidhar-full-length-leggings" element={<ChuridharFullLengthLeggingsPage />} />
-            <Route path="/category/shimmer-leggings" element={<ShimmerLeggingsPage />} />
-            <Route path="/category/saree-shapewear" element={<SareeShapewearPage />} />
-            <Route path="/category/lycra-cotton-shapewear" element={<LycraCottonShapewearPage />} />
-            <Route path="/category/polyester-shapewear" element={<PolyesterShapewearPage />} />
-            <Route path="/category/shimmer-shapewear" element={<ShimmerShapewearPage />} />
-            <Route path="/category/night-wear" element={<NightWearPage />} />
-            <Route path="/category/night-t-shirts" element={<NightTShirtsPage />} />
-            <Route path="/category/inner-wear" element={<InnerWearPage />} />
-            <Route path="/category/3-4-leggings" element={<ThreeFourLeggingsPage />} />
-            <Route path="/category/women-shorts" element={<WomenShortsPage />} />
-            <Route path="/category/basic-slips" element={<BasicSlipsPage />} />
-            <Route path="/category/adjustment-slips" element={<AdjustmentSlipsPage />} />
-            <Route path="/category/panties" element={<PantiesPage />} />
+            <Route path="/category/:slug" element={<CategoryPage />} />
+            <Route path="/search" element={<SearchPage />} />
+            <Route path="/wishlist" element={<WishlistPage />} />
+            <Route path="/wishlist/shared/:token" element={<SharedWishlistPage />} />
+            <Route path="/alerts/unsubscribe" element={<AlertsUnsubscribePage />} />
             
             {/* Footer Pages */}
             <Route path="/about" element={<AboutPage />} />
@@ -1,8 +1,25 @@
 import React, { useState, useEffect } from "react";
 import { useAuth } from "@/hooks/useAuth";
+import { useAdmin } from "@/hooks/useAdmin";
 import { supabase } from "@/lib/supabase";
+import { apiFetch } from "@/lib/api";
+import type { AdminStatsResponse } from "@shared/api";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
+import CodSettingsPanel from "@/components/admin/CodSettingsPanel";
+import OrdersPanel from "@/components/admin/OrdersPanel";
+import CouponsPanel from "@/components/admin/CouponsPanel";
+import CategoriesPanel from "@/components/admin/CategoriesPanel";
+import UsersPanel from "@/components/admin/UsersPanel";
+import ReviewsPanel from "@/components/admin/ReviewsPanel";
+import ShippingSettingsPanel from "@/components/admin/ShippingSettingsPanel";
+import AuditLogPanel from "@/components/admin/AuditLogPanel";
+import ProductImportModal from "@/components/admin/ProductImportModal";
+import VariantMatrix, {
+  NEW_VARIANT,
+  variantKey,
+  type VariantDraft
+} from "@/components/admin/VariantMatrix";
 import { 
   Plus, 
   Edit, 
@@ -17,7 +34,11 @@ import {
   TrendingUp,
   Image as ImageIcon,
   Link as LinkIcon,
-  Loader2
+  Loader2,
+  Settings,
+  Tag,
+  History,
+  MessageSquare
 } from "lucide-react";
 
 interface Product {
@@ -25,11 +46,13 @@ interface Product {
   name: string;
   description: string;
   category_id: string;
+  subcategory_id: string | null;
   subcategory?: string;
   price: number;
   original_price: number;
   sku: string;
   slug: string;
+  weight_grams: number | null;
   is_active: boolean;
   is_hot_sale: boolean;
   rating: number;
@@ -48,29 +71,41 @@ interface Product {
     size: string | null;
     color_name: string | null;
     color_code: string | null;
+    sku: string | null;
     stock_quantity: number;
+    price_adjustment: number;
     is_active: boolean;
   }>;
 }
 
+type ProductVariant = NonNullable<Product['variants']>[number];
+
+interface VariantInput extends VariantDraft {
+  size: string;
+  color_name: string;
+  color_code: string;
+}
+
 interface Category {
   id: string;
   name: string;
   description: string;
   slug: string;
+  parent_id: string | null;
+  default_sizes: string[];
   is_active: boolean;
 }
 
 export default function AdminDashboard() {
   const { user } = useAuth();
-  const [isAdmin, setIsAdmin] = useState(false);
-  const [loading, setLoading] = useState(true);
+  const { isAdmin, loading, hasPermission } = useAdmin();
   const [activeTab, setActiveTab] = useState('dashboard');
   const [products, setProducts] = useState<Product[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
   const [showProductModal, setShowProductModal] = useState(false);
-  const [stats, setStats] = useState({
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [stats, setStats] = useState<AdminStatsResponse>({
     totalProducts: 0,
     totalOrders: 0,
     totalUsers: 0,
@@ -93,41 +128,14 @@ export default function AdminDashboard() {
     }
   }, []);
 
-  // Check if user is admin
-  useEffect(() => {
-    const checkAdminStatus = async () => {
-      if (!user) {
-        setLoading(false);
-        return;
-      }
-
-      try {
-        const { data, error } = await supabase
-          .from('admin_users')
-          .select('*')
-          .eq('id', user.id)
-          .eq('is_active', true)
-          .single();
-
-        if (data && !error) {
-          setIsAdmin(true);
-        }
-      } catch (error) {
-        console.error('Error checking admin status:', error);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    checkAdminStatus();
-  }, [user]);
-
   // Fetch data
   useEffect(() => {
     if (isAdmin) {
       fetchProducts();
       fetchCategories();
-      fetchStats();
+      if (hasPermission('reports.view')) {
+        fetchStats();
+      }
     }
   }, [isAdmin]);
 
@@ -137,9 +145,9 @@ export default function AdminDashboard() {
         .from('products')
         .select(`
           *,
-          category:categories(name),
+          category:categories!products_category_id_fkey(name),
           images:product_images(id, image_url, is_primary),
-          variants:product_variants(id, size, color_name, color_code, stock_quantity, is_active)
+          variants:product_variants(id, size, color_name, color_code, sku, stock_quantity, price_adjustment, is_active)
         `)
         .order('created_at', { ascending: false });
 
@@ -166,46 +174,90 @@ export default function AdminDashboard() {
 
   const fetchStats = async () => {
     try {
-      // Get product count
-      const { count: productCount } = await supabase
-        .from('products')
-        .select('*', { count: 'exact', head: true });
-
-      // Get order count
-      const { count: orderCount } = await supabase
-        .from('orders')
-        .select('*', { count: 'exact', head: true });
-
-      // Get user count
-      const { count: userCount } = await supabase
-        .from('user_profiles')
-        .select('*', { count: 'exact', head: true });
-
-      // Get revenue (sum of total_amount from orders)
-      const { data: revenueData } = await supabase
-        .from('orders')
-        .select('total_amount')
-        .eq('payment_status', 'paid');
-
-      const revenue = revenueData?.reduce((sum, order) => sum + Number(order.total_amount), 0) || 0;
-
-      setStats({
-        totalProducts: productCount || 0,
-        totalOrders: orderCount || 0,
-        totalUsers: userCount || 0,
-        revenue
-      });
+      setStats(await apiFetch<AdminStatsResponse>('/api/admin/stats'));
     } catch (error) {
       console.error('Error fetching stats:', error);
     }
   };
 
+  // Diffs the matrix against the saved variants so unchanged rows keep
+  // their ids, which cart items and orders point at
+  const saveVariants = async (
+    productId: string,
+    existing: ProductVariant[],
+    variants: VariantInput[]
+  ) => {
+    const keptIds = new Set(variants.map(v => v.id).filter(Boolean));
+    // Variants without a colour or size aren't shown in the matrix
+    const removed = existing.filter(v => v.color_name && v.size && !keptIds.has(v.id));
+
+    for (const variant of removed) {
+      const { error } = await supabase
+        .from('product_variants')
+        .delete()
+        .eq('id', variant.id);
+
+      // Ordered variants are kept for order history, so hide them instead
+      if (error?.code === '23503') {
+        const { error: deactivateError } = await supabase
+          .from('product_variants')
+          .update({ is_active: false })
+          .eq('id', variant.id);
+
+        if (deactivateError) throw deactivateError;
+      } else if (error) {
+        throw error;
+      }
+    }
+
+    const toRow = (variant: VariantInput) => ({
+      sku: variant.sku || null,
+      color_code: variant.color_code,
+      stock_quantity: variant.stock_quantity,
+      price_adjustment: variant.price_adjustment,
+      is_active: variant.is_active
+    });
+
+    for (const variant of variants) {
+      if (!variant.id) continue;
+      const before = existing.find(v => v.id === variant.id);
+      const row = toRow(variant);
+      const changed = !before || (Object.keys(row) as (keyof typeof row)[])
+        .some(field => (before[field] ?? null) !== row[field]);
+      if (!changed) continue;
+
+      const { error } = await supabase
+        .from('product_variants')
+        .update(row)
+        .eq('id', variant.id);
+
+      if (error) throw error;
+    }
+
+    const inserts = variants
+      .filter(v => !v.id)
+      .map(variant => ({
+        ...toRow(variant),
+        product_id: productId,
+        size: variant.size,
+        color_name: variant.color_name
+      }));
+
+    if (inserts.length > 0) {
+      const { error } = await supabase
+        .from('product_variants')
+        .insert(inserts);
+
+      if (error) throw error;
+    }
+  };
+
   const handleSaveProduct = async (productData: any, images: string[]) => {
     try {
       let productId: string;
       
-      // Extract color and size selections from productData
-      const { selectedColors, selectedSizes, ...cleanProductData } = productData;
+      const { variants, ...cleanProductData } = productData;
+      cleanProductData.subcategory_id = cleanProductData.subcategory_id || null;
 
       if (editingProduct?.id) {
         // Update existing product
@@ -254,71 +306,7 @@ export default function AdminDashboard() {
         if (imageError) throw imageError;
       }
 
-      // Handle product variants (colors and sizes)
-      if (selectedColors && selectedSizes && selectedColors.length > 0 && selectedSizes.length > 0) {
-        // Delete existing variants if updating
-        if (editingProduct?.id) {
-          await supabase
-            .from('product_variants')
-            .delete()
-            .eq('product_id', productId);
-        }
-
-        // Get predefined colors to find color codes
-        const predefinedColors = [
-          { name: 'White', code: '#FFFFFF' },
-          { name: 'Black', code: '#000000' },
-          { name: 'Pink', code: '#FF69B4' },
-          { name: 'Lt-Green', code: '#90EE90' },
-          { name: 'Navy', code: '#000080' },
-          { name: 'Yellow', code: '#FFFF00' },
-          { name: 'Maroon', code: '#800000' },
-          { name: 'T-Blue', code: '#008B8B' },
-          { name: 'Tea Rose', code: '#F4C2C2' },
-          { name: 'Green', code: '#008000' },
-          { name: 'Dark Rain', code: '#2F4F4F' },
-          { name: 'Gray', code: '#808080' },
-          { name: 'Lavender', code: '#E6E6FA' },
-          { name: 'Purple', code: '#800080' },
-          { name: 'Orange', code: '#FFA500' },
-          { name: 'Aqua', code: '#00FFFF' },
-          { name: 'Wine', code: '#722F37' },
-          { name: 'Royal', code: '#4169E1' },
-          { name: 'Cream', code: '#FFFDD0' },
-          { name: 'Rani Pink', code: '#FF1493' },
-          { name: 'Brown', code: '#A52A2A' },
-          { name: 'Red', code: '#FF0000' },
-          { name: 'Skin', code: '#FDBCB4' },
-          { name: 'Stone', code: '#918E85' },
-          { name: 'Mastered', code: '#8B4513' },
-          { name: 'Gajari', code: '#FF6347' }
-        ];
-
-        // Create variants for each color/size combination
-        const variantInserts = [];
-        for (const colorName of selectedColors) {
-          const colorInfo = predefinedColors.find(c => c.name === colorName);
-          for (const size of selectedSizes) {
-            variantInserts.push({
-              product_id: productId,
-              size: size,
-              color_name: colorName,
-              color_code: colorInfo?.code || '#000000',
-              stock_quantity: cleanProductData.is_hot_sale ? 25 : 15, // Default stock
-              price_adjustment: 0,
-              is_active: true
-            });
-          }
-        }
-
-        if (variantInserts.length > 0) {
-          const { error: variantError } = await supabase
-            .from('product_variants')
-            .insert(variantInserts);
-
-          if (variantError) throw variantError;
-        }
-      }
+      await saveVariants(productId, editingProduct?.variants || [], variants);
 
       fetchProducts();
       setShowProductModal(false);
@@ -441,24 +429,70 @@ export default function AdminDashboard() {
                 <Package className="inline w-4 h-4 mr-2" />
                 Categories
               </button>
+              {hasPermission('orders.view') && (
+                <button
+                  onClick={() => setActiveTab('orders')}
+                  className={`w-full text-left px-4 py-2 rounded-lg transition-colors ${
+                    activeTab === 'orders' ? 'bg-[#7C3AED] text-white' : 'text-gray-600 hover:bg-gray-100'
+                  }`}
+                >
+                  <ShoppingCart className="inline w-4 h-4 mr-2" />
+                  Orders
+                </button>
+              )}
+              {hasPermission('coupons.write') && (
+                <button
+                  onClick={() => setActiveTab('coupons')}
+                  className={`w-full text-left px-4 py-2 rounded-lg transition-colors ${
+                    activeTab === 'coupons' ? 'bg-[#7C3AED] text-white' : 'text-gray-600 hover:bg-gray-100'
+                  }`}
+                >
+                  <Tag className="inline w-4 h-4 mr-2" />
+                  Coupons
+                </button>
+              )}
+              {hasPermission('users.view') && (
+                <button
+                  onClick={() => setActiveTab('users')}
+                  className={`w-full text-left px-4 py-2 rounded-lg transition-colors ${
+                    activeTab === 'users' ? 'bg-[#7C3AED] text-white' : 'text-gray-600 hover:bg-gray-100'
+                  }`}
+                >
+                  <Users className="inline w-4 h-4 mr-2" />
+                  Users
+                </button>
+              )}
+              {hasPermission('reviews.moderate') && (
+                <button
+                  onClick={() => setActiveTab('reviews')}
+                  className={`w-full text-left px-4 py-2 rounded-lg transition-colors ${
+                    activeTab === 'reviews' ? 'bg-[#7C3AED] text-white' : 'text-gray-600 hover:bg-gray-100'
+                  }`}
+                >
+                  <MessageSquare className="inline w-4 h-4 mr-2" />
+                  Reviews
+                </button>
+              )}
               <button
-                onClick={() => setActiveTab('orders')}
-                className={`w-full text-left px-4 py-2 rounded-lg transition-colors ${
-                  activeTab === 'orders' ? 'bg-[#7C3AED] text-white' : 'text-gray-600 hover:bg-gray-100'
-                }`}
-              >
-                <ShoppingCart className="inline w-4 h-4 mr-2" />
-                Orders
-              </button>
-              <button
-                onClick={() => setActiveTab('users')}
+                onClick={() => setActiveTab('settings')}
                 className={`w-full text-left px-4 py-2 rounded-lg transition-colors ${
-                  activeTab === 'users' ? 'bg-[#7C3AED] text-white' : 'text-gray-600 hover:bg-gray-100'
+                  activeTab === 'settings' ? 'bg-[#7C3AED] text-white' : 'text-gray-600 hover:bg-gray-100'
                 }`}
               >
-                <Users className="inline w-4 h-4 mr-2" />
-                Users
+                <Settings className="inline w-4 h-4 mr-2" />
+                Settings
               </button>
+              {hasPermission('audit.view') && (
+                <button
+                  onClick={() => setActiveTab('audit')}
+                  className={`w-full text-left px-4 py-2 rounded-lg transition-colors ${
+                    activeTab === 'audit' ? 'bg-[#7C3AED] text-white' : 'text-gray-600 hover:bg-gray-100'
+                  }`}
+                >
+                  <History className="inline w-4 h-4 mr-2" />
+                  Audit Log
+                </button>
+              )}
             </nav>
           </div>
         </div>
@@ -469,48 +503,54 @@ export default function AdminDashboard() {
             <div>
               <h1 className="text-3xl font-bold text-gray-800 mb-8">Dashboard Overview</h1>
               
+              {!hasPermission('reports.view') && (
+                <p className="text-gray-600">You don't have access to sales reports.</p>
+              )}
+
               {/* Stats Cards */}
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
-                <div className="bg-white p-6 rounded-lg shadow">
-                  <div className="flex items-center">
-                    <Package className="w-8 h-8 text-[#7C3AED]" />
-                    <div className="ml-4">
-                      <p className="text-sm text-gray-600">Total Products</p>
-                      <p className="text-2xl font-bold">{stats.totalProducts}</p>
+              {hasPermission('reports.view') && (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+                  <div className="bg-white p-6 rounded-lg shadow">
+                    <div className="flex items-center">
+                      <Package className="w-8 h-8 text-[#7C3AED]" />
+                      <div className="ml-4">
+                        <p className="text-sm text-gray-600">Total Products</p>
+                        <p className="text-2xl font-bold">{stats.totalProducts}</p>
+                      </div>
                     </div>
                   </div>
-                </div>
                 
-                <div className="bg-white p-6 rounded-lg shadow">
-                  <div className="flex items-center">
-                    <ShoppingCart className="w-8 h-8 text-green-500" />
-                    <div className="ml-4">
-                      <p className="text-sm text-gray-600">Total Orders</p>
-                      <p className="text-2xl font-bold">{stats.totalOrders}</p>
+                  <div className="bg-white p-6 rounded-lg shadow">
+                    <div className="flex items-center">
+                      <ShoppingCart className="w-8 h-8 text-green-500" />
+                      <div className="ml-4">
+                        <p className="text-sm text-gray-600">Total Orders</p>
+                        <p className="text-2xl font-bold">{stats.totalOrders}</p>
+                      </div>
                     </div>
                   </div>
-                </div>
                 
-                <div className="bg-white p-6 rounded-lg shadow">
-                  <div className="flex items-center">
-                    <Users className="w-8 h-8 text-blue-500" />
-                    <div className="ml-4">
-                      <p className="text-sm text-gray-600">Total Users</p>
-                      <p className="text-2xl font-bold">{stats.totalUsers}</p>
+                  <div className="bg-white p-6 rounded-lg shadow">
+                    <div className="flex items-center">
+                      <Users className="w-8 h-8 text-blue-500" />
+                      <div className="ml-4">
+                        <p className="text-sm text-gray-600">Total Users</p>
+                        <p className="text-2xl font-bold">{stats.totalUsers}</p>
+                      </div>
                     </div>
                   </div>
-                </div>
                 
-                <div className="bg-white p-6 rounded-lg shadow">
-                  <div className="flex items-center">
-                    <TrendingUp className="w-8 h-8 text-yellow-500" />
-                    <div className="ml-4">
-                      <p className="text-sm text-gray-600">Revenue</p>
-                      <p className="text-2xl font-bold">₹{stats.revenue.toLocaleString()}</p>
+                  <div className="bg-white p-6 rounded-lg shadow">
+                    <div className="flex items-center">
+                      <TrendingUp className="w-8 h-8 text-yellow-500" />
+                      <div className="ml-4">
+                        <p className="text-sm text-gray-600">Revenue</p>
+                        <p className="text-2xl font-bold">₹{stats.revenue.toLocaleString()}</p>
+                      </div>
                     </div>
                   </div>
                 </div>
-              </div>
+              )}
             </div>
           )}
 
@@ -518,16 +558,27 @@ export default function AdminDashboard() {
             <div>
               <div className="flex justify-between items-center mb-8">
                 <h1 className="text-3xl font-bold text-gray-800">Products Management</h1>
-                <button
-                  onClick={() => {
-                    setEditingProduct(null);
-                    setShowProductModal(true);
-                  }}
-                  className="bg-[#7C3AED] text-white px-4 py-2 rounded-lg hover:bg-[#6D28D9] transition-colors flex items-center"
-                >
-                  <Plus className="w-4 h-4 mr-2" />
-                  Add Product
-                </button>
+                {hasPermission('products.write') && (
+                  <div className="flex space-x-3">
+                    <button
+                      onClick={() => setShowImportModal(true)}
+                      className="border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors flex items-center"
+                    >
+                      <Upload className="w-4 h-4 mr-2" />
+                      Import / Export
+                    </button>
+                    <button
+                      onClick={() => {
+                        setEditingProduct(null);
+                        setShowProductModal(true);
+                      }}
+                      className="bg-[#7C3AED] text-white px-4 py-2 rounded-lg hover:bg-[#6D28D9] transition-colors flex items-center"
+                    >
+                      <Plus className="w-4 h-4 mr-2" />
+                      Add Product
+                    </button>
+                  </div>
+                )}
               </div>
 
               {/* Products Table */}
@@ -597,6 +648,7 @@ export default function AdminDashboard() {
                         <td className="px-6 py-4 whitespace-nowrap">
                           <button
                             onClick={() => toggleHotSale(product.id, !product.is_hot_sale)}
+                            disabled={!hasPermission('products.write')}
                             className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-[#7C3AED] focus:ring-offset-2 ${
                               product.is_hot_sale ? 'bg-[#7C3AED]' : 'bg-gray-200'
                             }`}
@@ -612,21 +664,25 @@ export default function AdminDashboard() {
                           )}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                          <button
-                            onClick={() => {
-                              setEditingProduct(product);
-                              setShowProductModal(true);
-                            }}
-                            className="text-[#7C3AED] hover:text-[#6D28D9] mr-3"
-                          >
-                            <Edit className="w-4 h-4" />
-                          </button>
-                          <button
-                            onClick={() => handleDeleteProduct(product.id)}
-                            className="text-red-600 hover:text-red-900"
-                          >
-                            <Trash2 className="w-4 h-4" />
-                          </button>
+                          {hasPermission('products.write') && (
+                            <>
+                              <button
+                                onClick={() => {
+                                  setEditingProduct(product);
+                                  setShowProductModal(true);
+                                }}
+                                className="text-[#7C3AED] hover:text-[#6D28D9] mr-3"
+                              >
+                                <Edit className="w-4 h-4" />
+                              </button>
+                              <button
+                                onClick={() => handleDeleteProduct(product.id)}
+                                className="text-red-600 hover:text-red-900"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            </>
+                          )}
                         </td>
                       </tr>
                     ))}
@@ -639,34 +695,76 @@ export default function AdminDashboard() {
           {activeTab === 'categories' && (
             <div>
               <h1 className="text-3xl font-bold text-gray-800 mb-8">Categories Management</h1>
-              <div className="bg-white p-8 rounded-lg shadow text-center">
-                <p className="text-gray-600">Categories management coming soon...</p>
-              </div>
+              <CategoriesPanel
+                onChange={fetchCategories}
+                readOnly={!hasPermission('categories.write')}
+              />
             </div>
           )}
 
-          {activeTab === 'orders' && (
+          {activeTab === 'orders' && hasPermission('orders.view') && (
             <div>
               <h1 className="text-3xl font-bold text-gray-800 mb-8">Orders Management</h1>
-              <div className="bg-white p-8 rounded-lg shadow text-center">
-                <p className="text-gray-600">Orders management coming soon...</p>
-              </div>
+              <OrdersPanel
+                canChangeStatus={hasPermission('orders.write')}
+                canRefund={hasPermission('orders.refund')}
+              />
+            </div>
+          )}
+
+          {activeTab === 'coupons' && hasPermission('coupons.write') && (
+            <div>
+              <h1 className="text-3xl font-bold text-gray-800 mb-8">Coupons</h1>
+              <CouponsPanel />
             </div>
           )}
 
-          {activeTab === 'users' && (
+          {activeTab === 'users' && hasPermission('users.view') && (
             <div>
               <h1 className="text-3xl font-bold text-gray-800 mb-8">Users Management</h1>
-              <div className="bg-white p-8 rounded-lg shadow text-center">
-                <p className="text-gray-600">Users management coming soon...</p>
-              </div>
+              <UsersPanel />
+            </div>
+          )}
+
+          {activeTab === 'reviews' && hasPermission('reviews.moderate') && (
+            <div>
+              <h1 className="text-3xl font-bold text-gray-800 mb-8">Reviews</h1>
+              <ReviewsPanel />
+            </div>
+          )}
+
+          {activeTab === 'settings' && (
+            <div>
+              <h1 className="text-3xl font-bold text-gray-800 mb-8">Store Settings</h1>
+              {!hasPermission('settings.write') && (
+                <p className="text-sm text-gray-600 mb-4">You can view these settings but not change them.</p>
+              )}
+              {/* A disabled fieldset disables every input and button in the panels */}
+              <fieldset disabled={!hasPermission('settings.write')} className="space-y-6">
+                <CodSettingsPanel />
+                <ShippingSettingsPanel />
+              </fieldset>
+            </div>
+          )}
+
+          {activeTab === 'audit' && hasPermission('audit.view') && (
+            <div>
+              <h1 className="text-3xl font-bold text-gray-800 mb-8">Audit Log</h1>
+              <AuditLogPanel />
             </div>
           )}
         </div>
       </div>
 
+      {showImportModal && hasPermission('products.write') && (
+        <ProductImportModal
+          onImported={fetchProducts}
+          onClose={() => setShowImportModal(false)}
+        />
+      )}
+
       {/* Product Modal */}
-      {showProductModal && (
+      {showProductModal && hasPermission('products.write') && (
         <ProductModal
           product={editingProduct}
           categories={categories}
@@ -696,11 +794,12 @@ function ProductModal({ product, categories, onSave, onClose }: ProductModalProp
     name: product?.name || '',
     description: product?.description || '',
     category_id: product?.category_id || '',
-    subcategory: product?.subcategory || '',
+    subcategory_id: product?.subcategory_id || '',
     price: product?.price || 0,
     original_price: product?.original_price || 0,
     sku: product?.sku || '',
     slug: product?.slug || '',
+    weight_grams: product?.weight_grams ?? null,
     is_active: product?.is_active ?? true,
     is_hot_sale: product?.is_hot_sale ?? false,
     rating: product?.rating || 0,
@@ -713,80 +812,15 @@ function ProductModal({ product, categories, onSave, onClose }: ProductModalProp
   const [uploadMethod, setUploadMethod] = useState<'url' | 'file'>('url');
   const [uploading, setUploading] = useState(false);
 
-  // All available categories and subcategories from your catalog
-  const categoryOptions = [
-    {
-      id: 'mens-t-shirts',
-      name: "Men's T-Shirts",
-      subcategories: [
-        "Round Neck",
-        "V-Neck", 
-        "Polo (Collar)",
-        "Long Sleeve",
-        "Sleeveless",
-        "Full Hand"
-      ]
-    },
-    {
-      id: 'mens-bottomwear',
-      name: "Men's Bottomwear",
-      subcategories: [
-        "Track Pants",
-        "Shorts"
-      ]
-    },
-    {
-      id: 'womens-leggings',
-      name: "Women's Leggings",
-      subcategories: [
-        "Flat Ankle",
-        "Full Length",
-        "Churidhar Ankle",
-        "Churidhar Full Length",
-        "Shimmer",
-        "3/4 Length"
-      ]
-    },
-    {
-      id: 'womens-sarees-shapewear',
-      name: "Women's Sarees & Shapewear",
-      subcategories: [
-        "Lycra Cotton",
-        "Polyester",
-        "Shimmer"
-      ]
-    },
-    {
-      id: 'womens-night-wear',
-      name: "Women's Night Wear",
-      subcategories: [
-        "Night T-Shirt (Top)",
-        "3/4 Leggings (Night)",
-        "Shorts (Night)"
-      ]
-    },
-    {
-      id: 'womens-innerwear',
-      name: "Women's Innerwear",
-      subcategories: [
-        "Basic Slips",
-        "Adjustment Slips",
-        "Panties"
-      ]
-    }
-  ];
+  const parentCategories = categories.filter(c => !c.parent_id);
+  const subcategories = categories.filter(c => c.parent_id && c.parent_id === formData.category_id);
 
-  // All available sizes based on category
-  const getSizesForCategory = (categorySlug: string) => {
-    const sizeMap: { [key: string]: string[] } = {
-      'mens-t-shirts': ['S', 'M', 'L', 'XL', 'XXL'],
-      'mens-bottomwear': ['M', 'L', 'XL', 'XXL'],
-      'womens-leggings': ['S', 'M', 'L', 'XL', 'XXL', '3XL', '4XL', '5XL'],
-      'womens-sarees-shapewear': ['S', 'M', 'L', 'XL', 'XXL'],
-      'womens-night-wear': ['S', 'M', 'L', 'XL', 'XXL'],
-      'womens-innerwear': ['S', 'M', 'L', 'XL', 'XXL']
-    };
-    return sizeMap[categorySlug] || ['S', 'M', 'L', 'XL', 'XXL'];
+  // Sizes the product starts with: the subcategory's own, else its category's
+  const getDefaultSizes = (categoryId: string, subcategoryId: string) => {
+    const subcategory = categories.find(c => c.id === subcategoryId);
+    if (subcategory?.default_sizes.length) return subcategory.default_sizes;
+    const category = categories.find(c => c.id === categoryId);
+    return category?.default_sizes.length ? category.default_sizes : ['S', 'M', 'L', 'XL', 'XXL'];
   };
 
   // All available colors from your catalog
@@ -822,10 +856,14 @@ function ProductModal({ product, categories, onSave, onClose }: ProductModalProp
   // Color variants management - now with predefined colors
   const [selectedColors, setSelectedColors] = useState<string[]>(['Black']);
   const [selectedSizes, setSelectedSizes] = useState<string[]>(['S', 'M', 'L', 'XL']);
+  const [colorCodes, setColorCodes] = useState<Record<string, string>>(
+    Object.fromEntries(predefinedColors.map(c => [c.name, c.code]))
+  );
+  const [variantDrafts, setVariantDrafts] = useState<Record<string, VariantDraft>>({});
   const [newColorName, setNewColorName] = useState('');
   const [newColorCode, setNewColorCode] = useState('#000000');
 
-  // Initialize colors and sizes from existing product variants when editing
+  // Initialize colors, sizes and the variant matrix from existing product variants when editing
   useEffect(() => {
     if (product && product.variants) {
       const existingColors = [...new Set(product.variants.map(v => v.color_name).filter(Boolean))] as string[];
@@ -837,23 +875,42 @@ function ProductModal({ product, categories, onSave, onClose }: ProductModalProp
       if (existingSizes.length > 0) {
         setSelectedSizes(existingSizes);
       }
+
+      const drafts: Record<string, VariantDraft> = {};
+      const codes: Record<string, string> = {};
+      for (const variant of product.variants) {
+        if (!variant.color_name || !variant.size) continue;
+        const key = variantKey(variant.color_name, variant.size);
+        if (drafts[key]) continue;
+        drafts[key] = {
+          id: variant.id,
+          sku: variant.sku || '',
+          stock_quantity: variant.stock_quantity,
+          price_adjustment: Number(variant.price_adjustment) || 0,
+          is_active: variant.is_active
+        };
+        if (variant.color_code) codes[variant.color_name] = variant.color_code;
+      }
+      setVariantDrafts(drafts);
+      setColorCodes(current => ({ ...current, ...codes }));
     }
   }, [product]);
 
   // Update sizes when category changes
   const handleCategoryChange = (categoryId: string) => {
-    setFormData({ ...formData, category_id: categoryId });
-    const categorySlug = categoryOptions.find(cat => 
-      categories.find(c => c.id === categoryId)?.slug === cat.id
-    )?.id;
-    if (categorySlug) {
-      setSelectedSizes(getSizesForCategory(categorySlug));
-    }
+    setFormData({ ...formData, category_id: categoryId, subcategory_id: '' });
+    setSelectedSizes(getDefaultSizes(categoryId, ''));
+  };
+
+  const handleSubcategoryChange = (subcategoryId: string) => {
+    setFormData({ ...formData, subcategory_id: subcategoryId });
+    setSelectedSizes(getDefaultSizes(formData.category_id, subcategoryId));
   };
 
   const addColorVariant = () => {
     if (newColorName.trim() && !selectedColors.includes(newColorName.trim())) {
       setSelectedColors([...selectedColors, newColorName.trim()]);
+      setColorCodes({ ...colorCodes, [newColorName.trim()]: newColorCode });
       setNewColorName('');
       setNewColorCode('#000000');
     }
@@ -887,19 +944,23 @@ function ProductModal({ product, categories, onSave, onClose }: ProductModalProp
       formData.slug = formData.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/(^-|-$)/g, '');
     }
     
-    // Save the product first
-    onSave(formData, imageUrls);
-    
-    // After saving the product, we need to create variants for each color/size combination
-    // This will need to be handled in the parent component's onSave function
-    // For now, we'll pass the selected colors and sizes as part of the form data
-    const productWithVariants = {
-      ...formData,
-      selectedColors,
-      selectedSizes
-    };
-    
-    onSave(productWithVariants, imageUrls);
+    const variants = selectedColors.flatMap(colorName =>
+      selectedSizes.map(size => ({
+        ...(variantDrafts[variantKey(colorName, size)] || NEW_VARIANT),
+        size,
+        color_name: colorName,
+        color_code: colorCodes[colorName] || '#000000'
+      }))
+    );
+
+    const skus = variants.map(v => v.sku).filter(Boolean);
+    const duplicateSku = skus.find((sku, index) => skus.indexOf(sku) !== index);
+    if (duplicateSku) {
+      alert(`SKU ${duplicateSku} is used by more than one variant`);
+      return;
+    }
+
+    onSave({ ...formData, variants }, imageUrls);
   };
 
   const addImageUrl = () => {
@@ -1041,7 +1102,7 @@ function ProductModal({ product, categories, onSave, onClose }: ProductModalProp
                   required
                 >
                   <option value="">Select Category</option>
-                  {categories.map((category) => (
+                  {parentCategories.map((category) => (
                     <option key={category.id} value={category.id}>
                       {category.name}
                     </option>
@@ -1050,27 +1111,23 @@ function ProductModal({ product, categories, onSave, onClose }: ProductModalProp
               </div>
 
               {/* Subcategory Field */}
-              {formData.category_id && (
+              {subcategories.length > 0 && (
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
                     Subcategory *
                   </label>
                   <select
-                    value={formData.subcategory}
-                    onChange={(e) => setFormData({ ...formData, subcategory: e.target.value })}
+                    value={formData.subcategory_id}
+                    onChange={(e) => handleSubcategoryChange(e.target.value)}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#7C3AED]"
                     required
                   >
                     <option value="">Select Subcategory</option>
-                    {(() => {
-                      const selectedCategory = categories.find(c => c.id === formData.category_id);
-                      const categoryOption = categoryOptions.find(opt => opt.id === selectedCategory?.slug);
-                      return categoryOption?.subcategories.map((subcategory, index) => (
-                        <option key={index} value={subcategory}>
-                          {subcategory}
-                        </option>
-                      )) || [];
-                    })()}
+                    {subcategories.map((subcategory) => (
+                      <option key={subcategory.id} value={subcategory.id}>
+                        {subcategory.name}
+                      </option>
+                    ))}
                   </select>
                   <p className="text-xs text-gray-500 mt-1">
                     Select the specific subcategory for this product (e.g., for T-Shirts: Round Neck, V-Neck, etc.)
@@ -1107,6 +1164,21 @@ function ProductModal({ product, categories, onSave, onClose }: ProductModalProp
                 </div>
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Packed Weight (g)
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  placeholder="Store default"
+                  value={formData.weight_grams ?? ''}
+                  onChange={(e) => setFormData({ ...formData, weight_grams: e.target.value ? parseInt(e.target.value) : null })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#7C3AED]"
+                />
+                <p className="mt-1 text-xs text-gray-500">Used to work out shipping charges</p>
+              </div>
+
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -1224,12 +1296,11 @@ function ProductModal({ product, categories, onSave, onClose }: ProductModalProp
                   <p className="text-sm font-medium text-gray-700">Selected Colors ({selectedColors.length}):</p>
                   <div className="flex flex-wrap gap-2">
                     {selectedColors.map((colorName) => {
-                      const colorInfo = predefinedColors.find(c => c.name === colorName);
                       return (
                         <div key={colorName} className="flex items-center gap-2 bg-gray-100 px-3 py-1 rounded-full">
                           <div
                             className="w-3 h-3 rounded-full border border-gray-300"
-                            style={{ backgroundColor: colorInfo?.code || '#000000' }}
+                            style={{ backgroundColor: colorCodes[colorName] || '#000000' }}
                           ></div>
                           <span className="text-sm">{colorName}</span>
                           <button
@@ -1254,9 +1325,8 @@ function ProductModal({ product, categories, onSave, onClose }: ProductModalProp
                   </label>
                   
                   {(() => {
-                    const selectedCategory = categories.find(c => c.id === formData.category_id);
-                    const categoryOption = categoryOptions.find(opt => opt.id === selectedCategory?.slug);
-                    const availableSizes = categoryOption ? getSizesForCategory(categoryOption.id) : ['S', 'M', 'L', 'XL', 'XXL'];
+                    const defaultSizes = getDefaultSizes(formData.category_id, formData.subcategory_id);
+                    const availableSizes = [...defaultSizes, ...selectedSizes.filter(size => !defaultSizes.includes(size))];
                     
                     return (
                       <>
@@ -1454,6 +1524,20 @@ function ProductModal({ product, categories, onSave, onClose }: ProductModalProp
             </div>
           </div>
 
+          {/* Variant Matrix */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-3">
+              Variants
+            </label>
+            <VariantMatrix
+              colors={selectedColors.map(name => ({ name, code: colorCodes[name] || '#000000' }))}
+              sizes={selectedSizes}
+              drafts={variantDrafts}
+              productSku={formData.sku}
+              onChange={setVariantDrafts}
+            />
+          </div>
+
           <div className="flex justify-end space-x-4 pt-6 border-t">
             <button
               type="button"
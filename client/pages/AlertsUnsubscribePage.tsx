@@ -0,0 +1,105 @@
+import React, { useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { Loader2 } from "lucide-react";
+import Header from "@/components/Header";
+import Footer from "@/components/Footer";
+import { Button } from "@/components/ui/button";
+import { apiFetch } from "@/lib/api";
+import type { AlertKind, UnsubscribeAlertsRequest } from "@shared/api";
+
+const ALERT_NAMES: Record<AlertKind, string> = {
+  back_in_stock: "back-in-stock",
+  price_drop: "price-drop",
+};
+
+/**
+ * Opened from the unsubscribe link in an alert email. Asks before
+ * unsubscribing so link scanners in mail clients don't do it for them.
+ */
+export default function AlertsUnsubscribePage() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token") || "";
+  const type = searchParams.get("type") as AlertKind | null;
+  const alertName = type ? ALERT_NAMES[type] : undefined;
+
+  const [status, setStatus] = useState<"idle" | "working" | "done">("idle");
+  const [error, setError] = useState<string | null>(null);
+
+  const handleUnsubscribe = async () => {
+    if (!type) return;
+
+    setStatus("working");
+    setError(null);
+    try {
+      const body: UnsubscribeAlertsRequest = { token, type };
+      await apiFetch("/api/alerts/unsubscribe", {
+        method: "POST",
+        body: JSON.stringify(body),
+      });
+      setStatus("done");
+    } catch (err) {
+      console.error("Error unsubscribing from alerts:", err);
+      setError(err instanceof Error ? err.message : "An error occurred");
+      setStatus("idle");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-white">
+      <Header />
+
+      <div className="max-w-lg mx-auto px-4 py-16 text-center">
+        {!token || !alertName ? (
+          <>
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">
+              Invalid unsubscribe link
+            </h1>
+            <p className="text-gray-600">
+              You can manage your alerts from the Notifications tab of your{" "}
+              <Link to="/profile" className="font-medium text-[#7C3AED]">
+                profile
+              </Link>
+              .
+            </p>
+          </>
+        ) : status === "done" ? (
+          <>
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">
+              You're unsubscribed
+            </h1>
+            <p className="text-gray-600">
+              We won't send you {alertName} emails any more. You can turn them
+              back on from your{" "}
+              <Link to="/profile" className="font-medium text-[#7C3AED]">
+                profile
+              </Link>
+              .
+            </p>
+          </>
+        ) : (
+          <>
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">
+              Stop {alertName} emails?
+            </h1>
+            <p className="text-gray-600 mb-6">
+              You won't get any more {alertName} alerts from us.
+            </p>
+            {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+            <Button
+              onClick={handleUnsubscribe}
+              disabled={status === "working"}
+              className="bg-[#7C3AED] hover:bg-[#6D28D9] text-white"
+            >
+              {status === "working" && (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              )}
+              Unsubscribe
+            </Button>
+          </>
+        )}
+      </div>
+
+      <Footer />
+    </div>
+  );
+}
@@ -7,6 +7,24 @@ import PromoBanner from "@/components/PromoBanner";
 import { useProducts, Product } from "../hooks/useProducts";
 import { useCart } from "../hooks/useCart";
 import { useAuth } from "../hooks/useAuth";
+import { apiFetch } from "@/lib/api";
+import {
+  clearAppliedCouponCode,
+  getAppliedCouponCode,
+  setAppliedCouponCode,
+} from "@/lib/coupon";
+import {
+  formatDeliveryEstimate,
+  getSavedPinCode,
+  isValidPinCode,
+  savePinCode,
+} from "@/lib/shipping";
+import type {
+  CheckoutQuoteRequest,
+  CheckoutQuoteResponse,
+  ValidateCouponRequest,
+  ValidateCouponResponse,
+} from "@shared/api";
 
 interface CartItem {
   id: string;
@@ -23,7 +41,14 @@ export default function CartPage() {
   const [recommendedProducts, setRecommendedProducts] = useState<Product[]>([]);
   const [loading, setLoading] = useState(true);
   const [orderNote, setOrderNote] = useState("");
-  const [discountCode, setDiscountCode] = useState("");
+  const [discountCode, setDiscountCode] = useState(getAppliedCouponCode);
+  const [appliedCoupon, setAppliedCoupon] = useState<ValidateCouponResponse | null>(null);
+  const [couponError, setCouponError] = useState("");
+  const [applyingCoupon, setApplyingCoupon] = useState(false);
+  const [pinCodeInput, setPinCodeInput] = useState(getSavedPinCode);
+  const [pinCode, setPinCode] = useState(getSavedPinCode);
+  const [pinCodeError, setPinCodeError] = useState("");
+  const [quote, setQuote] = useState<CheckoutQuoteResponse | null>(null);
   const { getRecommendedProducts } = useProducts();
 
   // Convert database cart items to the format expected by the component
@@ -81,7 +106,99 @@ export default function CartPage() {
     }
   };
 
+  const applyCoupon = async (code: string) => {
+    setApplyingCoupon(true);
+    try {
+      const request: ValidateCouponRequest = { code };
+      const coupon = await apiFetch<ValidateCouponResponse>("/api/coupons/validate", {
+        method: "POST",
+        body: JSON.stringify(request),
+      });
+      setAppliedCoupon(coupon);
+      setCouponError("");
+      setAppliedCouponCode(coupon.code);
+    } catch (error) {
+      setAppliedCoupon(null);
+      setCouponError(error instanceof Error ? error.message : "This coupon code is not valid");
+      clearAppliedCouponCode();
+    } finally {
+      setApplyingCoupon(false);
+    }
+  };
+
+  const handleApplyCoupon = () => {
+    if (!user) {
+      alert('Please login to apply a coupon');
+      return;
+    }
+    if (discountCode.trim()) {
+      applyCoupon(discountCode.trim());
+    }
+  };
+
+  const handleRemoveCoupon = () => {
+    setAppliedCoupon(null);
+    setDiscountCode("");
+    setCouponError("");
+    clearAppliedCouponCode();
+  };
+
+  // The discount depends on what's in the cart, so re-check it on every change
+  const cartKey = dbCartItems.map(item => `${item.id}:${item.quantity}`).join(",");
+  useEffect(() => {
+    const code = getAppliedCouponCode();
+    if (user && cartKey && code) {
+      applyCoupon(code);
+    }
+  }, [user, cartKey]);
+
+  // Shipping and the free-shipping progress use the same pricing as checkout
+  const appliedCouponCode = appliedCoupon?.code;
+  useEffect(() => {
+    if (!user || !cartKey) return;
+
+    let cancelled = false;
+    const request: CheckoutQuoteRequest = {
+      pinCode: pinCode || undefined,
+      paymentMethod: "razorpay",
+      couponCode: appliedCouponCode,
+    };
+
+    apiFetch<CheckoutQuoteResponse>("/api/checkout/quote", {
+      method: "POST",
+      body: JSON.stringify(request),
+    })
+      .then((response) => {
+        if (!cancelled) setQuote(response);
+      })
+      .catch((error) => console.error("Error fetching shipping quote:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, cartKey, pinCode, appliedCouponCode]);
+
+  const handleCheckPinCode = () => {
+    if (!isValidPinCode(pinCodeInput)) {
+      setPinCodeError("Enter a valid 6-digit PIN code");
+      return;
+    }
+    setPinCodeError("");
+    setPinCode(pinCodeInput.trim());
+    savePinCode(pinCodeInput);
+  };
+
   const subtotal = getCartTotal();
+  const shipping = quote?.shipping;
+  const freeShippingProgress =
+    shipping?.freeShippingThreshold && shipping.amountToFreeShipping !== null
+      ? Math.min(
+          100,
+          ((shipping.freeShippingThreshold - shipping.amountToFreeShipping) /
+            shipping.freeShippingThreshold) *
+            100,
+        )
+      : 100;
 
   const onCartToggle = () => {};
   const cartCount = cartItems.reduce((sum, item) => sum + item.quantity, 0);
@@ -384,24 +501,31 @@ export default function CartPage() {
                   <div className="w-full lg:w-[378px]">
                     <div className="bg-[#F5F5F5] rounded-md p-4 md:p-8 w-full lg:max-w-[370px]">
                       {/* Free shipping progress */}
-                      <div className="mb-8 pb-6 border-b border-[#DEDEDE]">
-                        <div className="relative mb-3">
-                          <div className="h-[5px] bg-[#DEDEDE] rounded-md">
-                            <div className="h-full bg-gradient-to-r from-[#DD3327] to-[#DD3327] rounded-md relative">
-                              <div className="absolute right-0 top-[-13px] w-[30px] h-[30px] bg-white border border-[#DD3327] rounded-full flex items-center justify-center">
-                                <div className="w-5 h-3 text-[#DD3327]">
-                                  <svg viewBox="0 0 20 15" fill="currentColor">
-                                    <path d="M18.8015 6.69106L17.711 5.67954C17.6367 5.6106 17.5796 5.52508 17.5446 5.42993L16.6882 3.10452C16.5657 2.7768 16.3463 2.49419 16.0591 2.29434C15.772 2.0945 15.4307 1.98693 15.0809 1.98596H13.7833V1.62195C13.7833 1.46541 13.7212 1.31528 13.6105 1.20459C13.4998 1.0939 13.3496 1.03171 13.1931 1.03171H5.35161C5.23493 1.03033 5.12232 1.07452 5.03771 1.15487C4.9531 1.23522 4.90316 1.3454 4.89851 1.46199C4.89743 1.52027 4.90796 1.57818 4.92951 1.63234C4.95106 1.6865 4.98319 1.73583 5.02402 1.77743C5.06485 1.81903 5.11356 1.85208 5.16731 1.87464C5.22106 1.8972 5.27876 1.90882 5.33705 1.90882H12.9062V5.71438C12.9062 5.87092 12.9684 6.02105 13.0791 6.13174C13.1898 6.24244 13.3399 6.30462 13.4964 6.30462H17.061L18.1197 7.25736V10.8113H17.1599C17.0643 10.3931 16.8296 10.0197 16.4942 9.75232C16.1587 9.48489 15.7424 9.33926 15.3134 9.33926C14.8845 9.33926 14.4682 9.48489 14.1327 9.75232C13.7973 10.0197 13.5626 10.3931 13.467 10.8113H10.5136C10.4181 10.3931 10.1833 10.0197 9.84791 9.75232C9.51247 9.48489 9.09619 9.33926 8.66719 9.33926C8.2382 9.33926 7.82191 9.48489 7.48648 9.75232C7.15104 10.0197 6.91633 10.3931 6.82075 10.8113H5.35157C5.23488 10.8099 5.12226 10.8541 5.03765 10.9345C4.95305 11.0149 4.90313 11.1251 4.89851 11.2417C4.89743 11.3 4.90796 11.3579 4.92951 11.412C4.95106 11.4662 4.98319 11.5155 5.02402 11.5571C5.06485 11.5987 5.11357 11.6318 5.16731 11.6543C5.22106 11.6769 5.27876 11.6885 5.33705 11.6885H6.82814C6.92972 12.0994 7.16602 12.4645 7.49933 12.7255C7.83265 12.9864 8.24376 13.1282 8.66707 13.1282C9.09038 13.1282 9.5015 12.9864 9.83481 12.7255C10.1681 12.4645 10.4044 12.0994 10.506 11.6885H13.4745C13.576 12.0994 13.8123 12.4645 14.1457 12.7255C14.479 12.9864 14.8901 13.1282 15.3134 13.1282C15.7367 13.1282 16.1478 12.9864 16.4811 12.7255C16.8144 12.4645 17.0507 12.0994 17.1523 11.6885H18.4066C18.5631 11.6885 18.7133 11.6263 18.824 11.5156C18.9346 11.405 18.9968 11.2548 18.9968 11.0983V7.12974C18.9968 7.04702 18.9794 6.96523 18.9457 6.88967C18.9121 6.81411 18.8629 6.74644 18.8015 6.69106Z" />
-                                  </svg>
+                      {shipping && (shipping.freeShipping || shipping.freeShippingThreshold !== null) && (
+                        <div className="mb-8 pb-6 border-b border-[#DEDEDE]">
+                          <div className="relative mb-3">
+                            <div className="h-[5px] bg-[#DEDEDE] rounded-md">
+                              <div
+                                className="h-full bg-gradient-to-r from-[#DD3327] to-[#DD3327] rounded-md relative"
+                                style={{ width: `${shipping.freeShipping ? 100 : freeShippingProgress}%` }}
+                              >
+                                <div className="absolute right-0 top-[-13px] w-[30px] h-[30px] bg-white border border-[#DD3327] rounded-full flex items-center justify-center">
+                                  <div className="w-5 h-3 text-[#DD3327]">
+                                    <svg viewBox="0 0 20 15" fill="currentColor">
+                                      <path d="M18.8015 6.69106L17.711 5.67954C17.6367 5.6106 17.5796 5.52508 17.5446 5.42993L16.6882 3.10452C16.5657 2.7768 16.3463 2.49419 16.0591 2.29434C15.772 2.0945 15.4307 1.98693 15.0809 1.98596H13.7833V1.62195C13.7833 1.46541 13.7212 1.31528 13.6105 1.20459C13.4998 1.0939 13.3496 1.03171 13.1931 1.03171H5.35161C5.23493 1.03033 5.12232 1.07452 5.03771 1.15487C4.9531 1.23522 4.90316 1.3454 4.89851 1.46199C4.89743 1.52027 4.90796 1.57818 4.92951 1.63234C4.95106 1.6865 4.98319 1.73583 5.02402 1.77743C5.06485 1.81903 5.11356 1.85208 5.16731 1.87464C5.22106 1.8972 5.27876 1.90882 5.33705 1.90882H12.9062V5.71438C12.9062 5.87092 12.9684 6.02105 13.0791 6.13174C13.1898 6.24244 13.3399 6.30462 13.4964 6.30462H17.061L18.1197 7.25736V10.8113H17.1599C17.0643 10.3931 16.8296 10.0197 16.4942 9.75232C16.1587 9.48489 15.7424 9.33926 15.3134 9.33926C14.8845 9.33926 14.4682 9.48489 14.1327 9.75232C13.7973 10.0197 13.5626 10.3931 13.467 10.8113H10.5136C10.4181 10.3931 10.1833 10.0197 9.84791 9.75232C9.51247 9.48489 9.09619 9.33926 8.66719 9.33926C8.2382 9.33926 7.82191 9.48489 7.48648 9.75232C7.15104 10.0197 6.91633 10.3931 6.82075 10.8113H5.35157C5.23488 10.8099 5.12226 10.8541 5.03765 10.9345C4.95305 11.0149 4.90313 11.1251 4.89851 11.2417C4.89743 11.3 4.90796 11.3579 4.92951 11.412C4.95106 11.4662 4.98319 11.5155 5.02402 11.5571C5.06485 11.5987 5.11357 11.6318 5.16731 11.6543C5.22106 11.6769 5.27876 11.6885 5.33705 11.6885H6.82814C6.92972 12.0994 7.16602 12.4645 7.49933 12.7255C7.83265 12.9864 8.24376 13.1282 8.66707 13.1282C9.09038 13.1282 9.5015 12.9864 9.83481 12.7255C10.1681 12.4645 10.4044 12.0994 10.506 11.6885H13.4745C13.576 12.0994 13.8123 12.4645 14.1457 12.7255C14.479 12.9864 14.8901 13.1282 15.3134 13.1282C15.7367 13.1282 16.1478 12.9864 16.4811 12.7255C16.8144 12.4645 17.0507 12.0994 17.1523 11.6885H18.4066C18.5631 11.6885 18.7133 11.6263 18.824 11.5156C18.9346 11.405 18.9968 11.2548 18.9968 11.0983V7.12974C18.9968 7.04702 18.9794 6.96523 18.9457 6.88967C18.9121 6.81411 18.8629 6.74644 18.8015 6.69106Z" />
+                                    </svg>
+                                  </div>
                                 </div>
                               </div>
                             </div>
                           </div>
+                          <p className="text-black font-['Inter'] text-[13px] leading-[24.5px]">
+                            {shipping.freeShipping
+                              ? "Congratulations! You've got free shipping!"
+                              : `Spend Rs. ${shipping.amountToFreeShipping?.toLocaleString()} more to get free shipping`}
+                          </p>
                         </div>
-                        <p className="text-black font-['Inter'] text-[13px] leading-[24.5px]">
-                          Congratulations! You've got free shipping!
-                        </p>
-                      </div>
+                      )}
 
                       {/* Order Note */}
                       <div className="mb-8">
@@ -427,11 +551,66 @@ export default function CartPage() {
                           </span>
                         </div>
 
-                        <div className="text-[#555] font-['Inter'] text-[13px] leading-[24.5px] space-y-1">
-                          <p>Tax included and shipping calculated at</p>
-                          <p>checkout</p>
+                        {appliedCoupon && appliedCoupon.discountAmount > 0 && (
+                          <div className="flex justify-between items-center">
+                            <span className="text-black font-['Inter'] text-[14px] leading-[20px]">
+                              Discount ({appliedCoupon.code})
+                            </span>
+                            <span className="text-green-700 font-['Inter'] text-[15px] leading-[20px]">
+                              - Rs. {appliedCoupon.discountAmount.toLocaleString()}
+                            </span>
+                          </div>
+                        )}
+
+                        {/* Shipping Estimate */}
+                        <div>
+                          <div className="flex gap-2">
+                            <input
+                              type="text"
+                              inputMode="numeric"
+                              maxLength={6}
+                              value={pinCodeInput}
+                              onChange={(e) => setPinCodeInput(e.target.value)}
+                              placeholder="PIN code for shipping"
+                              className="flex-1 h-[40px] px-3 border border-[#EBEBEB] rounded-[3px] bg-white text-[#555] font-['Inter'] text-[12px] focus:outline-none focus:border-[#7C3AED]"
+                            />
+                            <button
+                              onClick={handleCheckPinCode}
+                              disabled={!user || !pinCodeInput.trim()}
+                              className="px-6 py-3 bg-black text-white font-['Inter'] text-[10px] font-semibold uppercase rounded-[30px] hover:bg-gray-800 transition-colors disabled:opacity-50"
+                            >
+                              Check
+                            </button>
+                          </div>
+                          {pinCodeError && (
+                            <p className="mt-2 text-red-600 font-['Inter'] text-[12px]">{pinCodeError}</p>
+                          )}
                         </div>
 
+                        {pinCode && shipping ? (
+                          shipping.serviceable ? (
+                            <div className="text-[#555] font-['Inter'] text-[13px] leading-[24.5px]">
+                              <div className="flex justify-between items-center">
+                                <span className="text-black">Shipping to {pinCode}</span>
+                                <span className="text-black">
+                                  {shipping.fee > 0 ? `Rs. ${shipping.fee.toLocaleString()}` : "Free"}
+                                </span>
+                              </div>
+                              {shipping.delivery && <p>{formatDeliveryEstimate(shipping.delivery)}</p>}
+                              <p>Tax included</p>
+                            </div>
+                          ) : (
+                            <p className="text-red-600 font-['Inter'] text-[13px] leading-[24.5px]">
+                              {shipping.message}
+                            </p>
+                          )
+                        ) : (
+                          <div className="text-[#555] font-['Inter'] text-[13px] leading-[24.5px] space-y-1">
+                            <p>Tax included and shipping calculated at</p>
+                            <p>checkout</p>
+                          </div>
+                        )}
+
                         {/* Discount Code */}
                         <div className="flex gap-2">
                           <input
@@ -441,10 +620,27 @@ export default function CartPage() {
                             placeholder="Discount Code"
                             className="flex-1 h-[40px] px-3 border border-[#EBEBEB] rounded-[3px] bg-white text-[#555] font-['Inter'] text-[12px] focus:outline-none focus:border-[#7C3AED]"
                           />
-                          <button className="px-6 py-3 bg-black text-white font-['Inter'] text-[10px] font-semibold uppercase rounded-[30px] hover:bg-gray-800 transition-colors">
+                          <button
+                            onClick={handleApplyCoupon}
+                            disabled={applyingCoupon || !discountCode.trim()}
+                            className="px-6 py-3 bg-black text-white font-['Inter'] text-[10px] font-semibold uppercase rounded-[30px] hover:bg-gray-800 transition-colors disabled:opacity-50"
+                          >
                             Apply
                           </button>
                         </div>
+                        {couponError && (
+                          <p className="-mt-4 text-red-600 font-['Inter'] text-[12px]">{couponError}</p>
+                        )}
+                        {appliedCoupon && (
+                          <p className="-mt-4 text-[#555] font-['Inter'] text-[12px]">
+                            {appliedCoupon.freeShipping
+                              ? `${appliedCoupon.code} applied: free shipping at checkout. `
+                              : `${appliedCoupon.code} applied. `}
+                            <button onClick={handleRemoveCoupon} className="underline hover:no-underline">
+                              Remove
+                            </button>
+                          </p>
+                        )}
 
                         {/* Checkout Button */}
                         <Link to="/checkout">
@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { Link, useNavigate } from "react-router-dom";
 import { ChevronDown, Info } from "lucide-react";
 import Header from "../components/Header";
@@ -6,6 +6,29 @@ import Footer from "../components/Footer";
 import { toast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { useCart } from "@/hooks/useCart";
+import { ApiError, apiFetch } from "@/lib/api";
+import {
+  clearAppliedCouponCode,
+  getAppliedCouponCode,
+  setAppliedCouponCode,
+} from "@/lib/coupon";
+import { collectPayment } from "@/lib/payments";
+import {
+  formatDeliveryEstimate,
+  getSavedPinCode,
+  isValidPinCode,
+  savePinCode,
+} from "@/lib/shipping";
+import type {
+  CheckoutAddress,
+  CheckoutQuoteRequest,
+  CheckoutQuoteResponse,
+  PaymentResultResponse,
+  PlaceOrderRequest,
+  PlaceOrderResponse,
+  ReserveStockResponse,
+  StockIssue,
+} from "@shared/api";
 
 interface CheckoutFormData {
   email: string;
@@ -41,8 +64,11 @@ interface CheckoutPageProps {
 const CheckoutPage: React.FC = () => {
   const navigate = useNavigate();
   const { user } = useAuth();
-  const { cartItems: dbCartItems, getCartTotal, clearCart } = useCart();
+  const { cartItems: dbCartItems, getCartTotal, refetch: refetchCart } = useCart();
   const [isProcessing, setIsProcessing] = useState(false);
+  const [stockIssues, setStockIssues] = useState<StockIssue[]>([]);
+  const [quote, setQuote] = useState<CheckoutQuoteResponse | null>(null);
+  const [couponCode, setCouponCode] = useState(getAppliedCouponCode);
 
   // Convert database cart items to the format expected by the component
   const orderItems = dbCartItems.map(item => ({
@@ -63,14 +89,121 @@ const CheckoutPage: React.FC = () => {
     apartment: "",
     city: "",
     state: "Tamil Nadu",
-    pinCode: "",
+    pinCode: getSavedPinCode(),
     phone: "",
     saveInfo: false,
-    discountCode: "",
+    discountCode: getAppliedCouponCode(),
     paymentMethod: "razorpay",
     billingAddress: "same",
   });
 
+  // Re-reserve whenever the cart contents change
+  const cartKey = dbCartItems
+    .map((item) => `${item.id}:${item.quantity}`)
+    .join(",");
+
+  // Hold stock while the shopper is on this page; the server releases it
+  // automatically if the reservation times out
+  useEffect(() => {
+    if (!user || !cartKey) return;
+
+    apiFetch<ReserveStockResponse>("/api/checkout/reservation", {
+      method: "POST",
+    })
+      .then(() => setStockIssues([]))
+      .catch((error) => {
+        if (error instanceof ApiError && Array.isArray(error.body.lines)) {
+          setStockIssues(error.body.lines as StockIssue[]);
+        } else {
+          console.error("Error reserving stock:", error);
+        }
+      });
+  }, [user, cartKey]);
+
+  useEffect(() => {
+    return () => {
+      apiFetch("/api/checkout/reservation", { method: "DELETE" }).catch(
+        () => {},
+      );
+    };
+  }, []);
+
+  // Only complete PIN codes are worth asking the server about
+  const quotePinCode = isValidPinCode(formData.pinCode)
+    ? formData.pinCode.trim()
+    : undefined;
+
+  // Totals and COD eligibility come from the server so they match what
+  // placing the order will charge
+  useEffect(() => {
+    if (!user || !cartKey) return;
+
+    let cancelled = false;
+    const request: CheckoutQuoteRequest = {
+      pinCode: quotePinCode,
+      state: formData.state,
+      paymentMethod: formData.paymentMethod,
+      couponCode: couponCode || undefined,
+    };
+
+    apiFetch<CheckoutQuoteResponse>("/api/checkout/quote", {
+      method: "POST",
+      body: JSON.stringify(request),
+    })
+      .then((response) => {
+        if (!cancelled) setQuote(response);
+      })
+      .catch((error) => console.error("Error fetching checkout quote:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    user,
+    cartKey,
+    quotePinCode,
+    formData.state,
+    formData.paymentMethod,
+    couponCode,
+  ]);
+
+  // Remember a working coupon for the rest of the session
+  useEffect(() => {
+    if (!quote?.coupon) return;
+    if (quote.coupon.valid) {
+      setAppliedCouponCode(quote.coupon.code);
+    } else {
+      clearAppliedCouponCode();
+    }
+  }, [quote]);
+
+  const handleApplyCoupon = () => {
+    setCouponCode(formData.discountCode.trim());
+  };
+
+  const handleRemoveCoupon = () => {
+    setCouponCode("");
+    handleInputChange("discountCode", "");
+    clearAppliedCouponCode();
+  };
+
+  const codUnavailable = quote ? !quote.cod.eligible : false;
+
+  // Fall back to online payment when the address rules COD out
+  useEffect(() => {
+    if (codUnavailable && formData.paymentMethod === "cod") {
+      setFormData((prev) => ({ ...prev, paymentMethod: "razorpay" }));
+    }
+  }, [codUnavailable, formData.paymentMethod]);
+
+  const getStockIssueText = (cartItemId: string) => {
+    const issue = stockIssues.find((line) => line.cartItemId === cartItemId);
+    if (!issue) return null;
+    return issue.available > 0
+      ? `Only ${issue.available} left in stock`
+      : "Out of stock";
+  };
+
   const handleInputChange = (
     field: keyof CheckoutFormData,
     value: string | boolean,
@@ -92,24 +225,85 @@ const CheckoutPage: React.FC = () => {
     setIsProcessing(true);
 
     try {
-      // Simulate payment processing
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      // Clear the cart after successful payment
-      await clearCart();
-      
-      // Simulate successful payment
+      const shippingAddress: CheckoutAddress = {
+        firstName: formData.firstName,
+        lastName: formData.lastName,
+        company: formData.company,
+        address: formData.address,
+        apartment: formData.apartment,
+        city: formData.city,
+        state: formData.state,
+        pinCode: formData.pinCode,
+        phone: formData.phone,
+      };
+
+      const request: PlaceOrderRequest = {
+        email: formData.email,
+        paymentMethod: formData.paymentMethod,
+        shippingAddress,
+        couponCode: quote?.coupon?.valid ? quote.coupon.code : undefined,
+      };
+
+      // The server re-prices the cart, writes the order and empties the cart
+      const order = await apiFetch<PlaceOrderResponse>("/api/orders", {
+        method: "POST",
+        body: JSON.stringify(request),
+      });
+
+      if (formData.paymentMethod === "razorpay") {
+        let payment: PaymentResultResponse;
+        try {
+          payment = await collectPayment(order.orderId, {
+            name: `${formData.firstName} ${formData.lastName}`,
+            email: formData.email,
+            phone: formData.phone,
+          });
+        } catch (error) {
+          // The order exists but couldn't be paid or cancelled from here;
+          // the server cancels it once its reservation window has passed
+          console.error("Error collecting payment:", error);
+          toast({
+            title: "Payment Not Completed",
+            description: `We couldn't take payment for order #${order.orderNumber}. It will be cancelled shortly and your items returned to your cart.`,
+            variant: "destructive",
+          });
+          navigate("/orders");
+          return;
+        }
+
+        if (payment.paymentStatus !== "paid") {
+          // The order was cancelled and its items are back in the cart
+          await refetchCart();
+          toast({
+            title: "Payment Failed",
+            description: "Your payment did not go through. Your items are still in your cart.",
+            variant: "destructive",
+          });
+          return;
+        }
+      }
+
+      clearAppliedCouponCode();
+      savePinCode(formData.pinCode);
+      await refetchCart();
+
       toast({
-        title: "Payment Successful!",
-        description: "Your order has been placed successfully",
+        title: "Order Placed!",
+        description: `Your order #${order.orderNumber} has been placed successfully`,
       });
 
       // Redirect to orders page
       navigate("/orders");
     } catch (error) {
+      if (error instanceof ApiError && Array.isArray(error.body.lines)) {
+        setStockIssues(error.body.lines as StockIssue[]);
+      }
       toast({
-        title: "Payment Failed",
-        description: "There was an error processing your payment",
+        title: "Order Failed",
+        description:
+          error instanceof Error
+            ? error.message
+            : "There was an error placing your order",
         variant: "destructive",
       });
     } finally {
@@ -135,8 +329,7 @@ const CheckoutPage: React.FC = () => {
   }
 
   const subtotal = getCartTotal();
-  const taxes = Math.round(subtotal * 0.048); // Approximate 4.8% tax
-  const total = subtotal;
+  const total = quote ? quote.totalAmount : subtotal;
 
   return (
     <div className="min-h-screen bg-white">
@@ -341,12 +534,35 @@ const CheckoutPage: React.FC = () => {
                   <h3 className="text-lg font-bold text-black mb-4">
                     Shipping method
                   </h3>
-                  <div className="bg-gray-50 p-4 rounded-lg text-center">
-                    <p className="text-sm text-gray-500">
-                      Enter your shipping address to view available shipping
-                      methods.
-                    </p>
-                  </div>
+                  {quotePinCode && quote?.shipping.serviceable ? (
+                    <div className="flex items-center justify-between p-4 border border-[#111] rounded-lg bg-gray-50">
+                      <div>
+                        <p className="text-sm font-medium text-black">
+                          Standard delivery ({quote.shipping.zone?.name})
+                        </p>
+                        {quote.shipping.delivery && (
+                          <p className="text-sm text-gray-500">
+                            {formatDeliveryEstimate(quote.shipping.delivery)}
+                          </p>
+                        )}
+                      </div>
+                      <span className="text-sm font-medium text-black">
+                        {quote.shipping.fee > 0
+                          ? `₹${quote.shipping.fee.toLocaleString()}`
+                          : "Free"}
+                      </span>
+                    </div>
+                  ) : (
+                    <div className="bg-gray-50 p-4 rounded-lg text-center">
+                      <p
+                        className={`text-sm ${quotePinCode && quote ? "text-red-600" : "text-gray-500"}`}
+                      >
+                        {quotePinCode && quote
+                          ? quote.shipping.message
+                          : "Enter your shipping address to view available shipping methods."}
+                      </p>
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -426,12 +642,27 @@ const CheckoutPage: React.FC = () => {
                       name="payment"
                       checked={formData.paymentMethod === "cod"}
                       onChange={() => handleInputChange("paymentMethod", "cod")}
-                      className="w-4 h-4 text-[#EA7777] border-2 border-gray-300 focus:ring-[#EA7777] focus:ring-2"
+                      disabled={codUnavailable}
+                      className="w-4 h-4 text-[#EA7777] border-2 border-gray-300 focus:ring-[#EA7777] focus:ring-2 disabled:opacity-50"
                     />
-                    <label htmlFor="cod" className="text-sm">
+                    <label
+                      htmlFor="cod"
+                      className={`text-sm ${codUnavailable ? "text-gray-400" : ""}`}
+                    >
                       Cash on Delivery (COD)
+                      {quote && quote.cod.eligible && quote.cod.fee > 0 && (
+                        <span className="text-gray-500">
+                          {" "}
+                          (+₹{quote.cod.fee.toLocaleString()} fee)
+                        </span>
+                      )}
                     </label>
                   </div>
+                  {quote && quote.cod.reason && (
+                    <p className="mt-2 ml-7 text-xs text-gray-500">
+                      {quote.cod.reason}
+                    </p>
+                  )}
                 </div>
               </div>
             </div>
@@ -483,11 +714,21 @@ const CheckoutPage: React.FC = () => {
               </div>
             </div>
 
+            {stockIssues.length > 0 && (
+              <p className="mb-4 text-sm text-red-600">
+                Some items in your cart are out of stock. Please{" "}
+                <Link to="/cart" className="underline hover:no-underline">
+                  update your cart
+                </Link>{" "}
+                before paying.
+              </p>
+            )}
+
             {/* Pay Now Button */}
             <button
               className="w-full bg-gradient-to-r from-[#7C3AED] to-[#2563EB] text-white py-4 px-6 rounded-lg font-bold text-lg hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
               onClick={handlePayment}
-              disabled={isProcessing}
+              disabled={isProcessing || stockIssues.length > 0}
             >
               {isProcessing ? "Processing..." : "Pay now"}
             </button>
@@ -545,6 +786,11 @@ const CheckoutPage: React.FC = () => {
                         {item.name}
                       </h4>
                       <p className="text-xs text-gray-500">{item.size}</p>
+                      {getStockIssueText(item.id) && (
+                        <p className="text-xs text-red-600">
+                          {getStockIssueText(item.id)}
+                        </p>
+                      )}
                     </div>
                     <div className="text-sm font-medium text-black">
                       ₹{item.price.toLocaleString()}
@@ -566,11 +812,29 @@ const CheckoutPage: React.FC = () => {
                 />
                 <button
                   className="px-4 py-4 bg-gray-100 border border-gray-300 rounded-lg font-bold text-sm text-black hover:bg-gray-200 transition-colors disabled:opacity-50"
+                  onClick={handleApplyCoupon}
                   disabled={!formData.discountCode.trim()}
                 >
                   Apply
                 </button>
               </div>
+              {quote?.coupon && (
+                <p
+                  className={`-mt-3 text-sm ${quote.coupon.valid ? "text-gray-600" : "text-red-600"}`}
+                >
+                  {quote.coupon.valid
+                    ? `${quote.coupon.code} applied${quote.coupon.freeShipping ? ": free shipping" : ""}. `
+                    : quote.coupon.message}
+                  {quote.coupon.valid && (
+                    <button
+                      onClick={handleRemoveCoupon}
+                      className="underline hover:no-underline"
+                    >
+                      Remove
+                    </button>
+                  )}
+                </p>
+              )}
 
               {/* Order Summary */}
               <div className="space-y-3 pt-4 border-t border-gray-200">
@@ -580,10 +844,34 @@ const CheckoutPage: React.FC = () => {
                     ₹{subtotal.toLocaleString()}
                   </span>
                 </div>
+                {quote && quote.discountAmount > 0 && (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-black">Discount</span>
+                    <span className="text-green-700">
+                      -₹{quote.discountAmount.toLocaleString()}
+                    </span>
+                  </div>
+                )}
                 <div className="flex justify-between text-sm">
                   <span className="text-black">Shipping</span>
-                  <span className="text-gray-500">Enter shipping address</span>
+                  {quote?.shipping.serviceable ? (
+                    <span className={quote.shipping.fee > 0 ? "text-black" : "text-gray-500"}>
+                      {quote.shipping.fee > 0
+                        ? `₹${quote.shipping.fee.toLocaleString()}`
+                        : "Free"}
+                    </span>
+                  ) : (
+                    <span className="text-gray-500">Enter shipping address</span>
+                  )}
                 </div>
+                {quote && quote.shippingAmount > quote.shipping.fee && (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-black">COD fee</span>
+                    <span className="text-black">
+                      ₹{(quote.shippingAmount - quote.shipping.fee).toLocaleString()}
+                    </span>
+                  </div>
+                )}
                 <div className="flex justify-between text-lg font-bold pt-3 border-t border-gray-200">
                   <span className="text-black">Total</span>
                   <div className="text-right">
@@ -591,9 +879,14 @@ const CheckoutPage: React.FC = () => {
                     <div className="text-black">₹{total.toLocaleString()}</div>
                   </div>
                 </div>
-                <p className="text-sm text-gray-500">
-                  Including ₹{taxes} in taxes
-                </p>
+                {quote && (
+                  <p className="text-sm text-gray-500">
+                    Including ₹{quote.taxAmount.toLocaleString()} in GST
+                    {quote.gst.igst > 0
+                      ? ` (IGST ₹${quote.gst.igst.toLocaleString()})`
+                      : ` (CGST ₹${quote.gst.cgst.toLocaleString()} + SGST ₹${quote.gst.sgst.toLocaleString()})`}
+                  </p>
+                )}
               </div>
             </div>
           </div>
@@ -16,9 +16,11 @@ import {
   Eye,
   Calendar,
   CreditCard,
-  MapPin
+  MapPin,
+  Download
 } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
+import { apiDownload } from "@/lib/api";
 import { Link } from "react-router-dom";
 
 interface OrderItem {
@@ -37,6 +39,7 @@ interface Order {
   order_number: string;
   status: "pending" | "confirmed" | "shipped" | "delivered" | "cancelled";
   total_amount: number;
+  tax_amount: number;
   payment_status: "pending" | "paid" | "failed";
   payment_method: string;
   shipping_address: {
@@ -58,6 +61,7 @@ const OrdersPage = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
   const [activeTab, setActiveTab] = useState("all");
+  const [downloadingInvoice, setDownloadingInvoice] = useState(false);
 
   useEffect(() => {
     if (user) {
@@ -75,11 +79,9 @@ const OrdersPage = () => {
           order_items (
             id,
             product_id,
-            name,
-            price,
             quantity,
-            size,
-            image
+            unit_price,
+            product_snapshot
           )
         `)
         .eq("user_id", user?.id)
@@ -90,7 +92,17 @@ const OrdersPage = () => {
       // Transform the data to match our interface
       const transformedOrders = data?.map((order: any) => ({
         ...order,
-        items: order.order_items || [],
+        total_amount: Number(order.total_amount),
+        tax_amount: Number(order.tax_amount),
+        items: (order.order_items || []).map((item: any) => ({
+          id: item.id,
+          product_id: item.product_id,
+          name: item.product_snapshot?.name || "Product",
+          price: Number(item.unit_price),
+          quantity: item.quantity,
+          size: item.product_snapshot?.size || "N/A",
+          image: item.product_snapshot?.image || "/placeholder.svg",
+        })),
       })) || [];
 
       setOrders(transformedOrders);
@@ -145,6 +157,31 @@ const OrdersPage = () => {
     return orders.filter(order => order.status === status);
   };
 
+  // Mirrors the checks in issue_invoice so we don't offer a download that will fail
+  const canDownloadInvoice = (order: Order) =>
+    order.status !== "cancelled" &&
+    order.payment_status !== "failed" &&
+    (order.payment_method === "cod" || order.payment_status === "paid");
+
+  const handleDownloadInvoice = async (order: Order) => {
+    setDownloadingInvoice(true);
+    try {
+      await apiDownload(
+        `/api/orders/${order.id}/invoice`,
+        `invoice-${order.order_number}.pdf`,
+      );
+    } catch (error) {
+      toast({
+        title: "Invoice unavailable",
+        description:
+          error instanceof Error ? error.message : "Failed to download invoice",
+        variant: "destructive",
+      });
+    } finally {
+      setDownloadingInvoice(false);
+    }
+  };
+
   const getOrderStatusText = (status: string) => {
     switch (status) {
       case "pending":
@@ -377,6 +414,23 @@ const OrdersPage = () => {
                     <span>Total Amount:</span>
                     <span>₹{selectedOrder.total_amount.toLocaleString()}</span>
                   </div>
+                  {selectedOrder.tax_amount > 0 && (
+                    <p className="text-sm text-gray-500 text-right">
+                      Including ₹{selectedOrder.tax_amount.toLocaleString()} GST
+                    </p>
+                  )}
+                  {canDownloadInvoice(selectedOrder) && (
+                    <div className="flex justify-end mt-4">
+                      <Button
+                        variant="outline"
+                        onClick={() => handleDownloadInvoice(selectedOrder)}
+                        disabled={downloadingInvoice}
+                      >
+                        <Download className="w-4 h-4 mr-2" />
+                        {downloadingInvoice ? "Preparing..." : "Download Invoice"}
+                      </Button>
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
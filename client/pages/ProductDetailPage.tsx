@@ -1,37 +1,54 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { Star, Heart, ShoppingCart, Minus, Plus, ArrowLeft, Share2, Truck, RotateCcw, Shield } from 'lucide-react';
+import { Star, Heart, ShoppingCart, Minus, Plus, ArrowLeft, Share2, Truck, RotateCcw, Shield, Bell, BellRing } from 'lucide-react';
 import Header from '../components/Header';
 import Footer from '../components/Footer';
+import PinCodeChecker from '../components/PinCodeChecker';
+import ProductReviews from '../components/ProductReviews';
 import { useProducts } from '../hooks/useProducts';
 import { useCart } from '../hooks/useCart';
+import { useWishlist } from '../hooks/useWishlist';
+import { useStockAlerts } from '../hooks/useStockAlerts';
 import { useAuth } from '../hooks/useAuth';
 import { useToast } from '../hooks/use-toast';
 import { Button } from '../components/ui/button';
 import { Badge } from '../components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
 import type { Product } from '../hooks/useProducts';
+import type { ProductReviewSummary } from '@shared/api';
 
 const ProductDetailPage = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const { products, loading } = useProducts();
+  const { getProductById } = useProducts();
   const { addToCart } = useCart();
+  const { isWishlisted, toggleWishlist } = useWishlist();
+  const { isSubscribed, subscribe, unsubscribe } = useStockAlerts();
   const { user } = useAuth();
   const { toast } = useToast();
 
   const [product, setProduct] = useState<Product | null>(null);
+  const [loading, setLoading] = useState(true);
   const [selectedImageIndex, setSelectedImageIndex] = useState(0);
   const [selectedSize, setSelectedSize] = useState('');
   const [selectedColor, setSelectedColor] = useState('');
   const [quantity, setQuantity] = useState(1);
-  const [isWishlisted, setIsWishlisted] = useState(false);
   const [activeTab, setActiveTab] = useState<'description' | 'reviews' | 'shipping'>('description');
 
   useEffect(() => {
-    if (products && id) {
-      const foundProduct = products.find(p => p.id === id);
-      setProduct(foundProduct || null);
+    if (!id) {
+      setProduct(null);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    const fetchProduct = async () => {
+      setLoading(true);
+      const foundProduct = await getProductById(id);
+      if (cancelled) return;
+      setProduct(foundProduct);
+      setSelectedImageIndex(0);
       if (foundProduct) {
         // Set default variant selections
         const firstVariant = foundProduct.variants?.[0];
@@ -40,8 +57,23 @@ const ProductDetailPage = () => {
           setSelectedColor(firstVariant.color_name || '');
         }
       }
-    }
-  }, [products, id]);
+      setLoading(false);
+    };
+
+    fetchProduct();
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  // Keep the rating line in step after the shopper posts a review
+  const handleReviewSummary = useCallback((summary: ProductReviewSummary) => {
+    setProduct(current => current && {
+      ...current,
+      rating: summary.average,
+      review_count: summary.count,
+    });
+  }, []);
 
   const handleAddToCart = () => {
     if (!user) {
@@ -65,6 +97,56 @@ const ProductDetailPage = () => {
     });
   };
 
+  const handleToggleWishlist = async (variantId: string | null) => {
+    if (!product) return;
+
+    try {
+      const saved = await toggleWishlist(product.id, variantId);
+      toast({
+        title: saved ? "Saved to wishlist" : "Removed from wishlist",
+        description: saved && !user ? "Log in to keep it on every device" : undefined,
+      });
+    } catch (error) {
+      console.error('Error updating wishlist:', error);
+      toast({
+        title: "Error",
+        description: "Error updating your wishlist. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleToggleStockAlert = async (variantId: string) => {
+    if (!user) {
+      toast({
+        title: "Please log in",
+        description: "You need to be logged in to get stock alerts",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      if (isSubscribed(variantId)) {
+        await unsubscribe(variantId);
+        toast({ title: "Alert cancelled" });
+      } else {
+        await subscribe(variantId);
+        toast({
+          title: "We'll let you know",
+          description: "You'll get an email when this size is back in stock",
+        });
+      }
+    } catch (error) {
+      console.error('Error updating stock alert:', error);
+      toast({
+        title: "Error",
+        description: "Error updating your stock alert. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleQuantityChange = (change: number) => {
     setQuantity(prev => Math.max(1, Math.min(10, prev + change)));
   };
@@ -112,6 +194,12 @@ const ProductDetailPage = () => {
     );
   }
 
+  const selectedVariant = product.variants?.find(
+    v => v.size === (selectedSize || null) && v.color_name === (selectedColor || null)
+  );
+  const soldOut = !!selectedVariant && selectedVariant.stock_quantity <= 0;
+  const alertSet = !!selectedVariant && isSubscribed(selectedVariant.id);
+  const wishlisted = isWishlisted(product.id);
   const productImages = product.images || [];
   const primaryImage = productImages.find(img => img.is_primary) || productImages[0];
 
@@ -194,11 +282,16 @@ const ProductDetailPage = () => {
               {/* Rating */}
               <div className="flex items-center gap-2 mb-4">
                 <div className="flex items-center">
-                  {renderStars(product.rating || 4.5)}
+                  {renderStars(product.rating || 0)}
                 </div>
-                <span className="text-sm text-gray-600">
-                  ({product.rating || 4.5}) • 127 reviews
-                </span>
+                <button
+                  onClick={() => setActiveTab('reviews')}
+                  className="text-sm text-gray-600 hover:text-[#7C3AED]"
+                >
+                  {product.review_count > 0
+                    ? `(${product.rating}) • ${product.review_count} review${product.review_count !== 1 ? 's' : ''}`
+                    : 'No reviews yet'}
+                </button>
               </div>
 
               {/* Price */}
@@ -282,26 +375,61 @@ const ProductDetailPage = () => {
             </div>
 
             {/* Action Buttons */}
+            {soldOut && (
+              <p className="text-sm font-medium text-red-600">
+                This size is out of stock
+              </p>
+            )}
             <div className="flex gap-4">
-              <Button
-                onClick={handleAddToCart}
-                className="flex-1 bg-blue-600 hover:bg-blue-700 text-white"
-              >
-                <ShoppingCart className="w-4 h-4 mr-2" />
-                Add to Cart
-              </Button>
+              {soldOut ? (
+                <Button
+                  variant={alertSet ? 'outline' : 'default'}
+                  onClick={() => handleToggleStockAlert(selectedVariant!.id)}
+                  className={`flex-1 ${alertSet ? '' : 'bg-blue-600 hover:bg-blue-700 text-white'}`}
+                  aria-pressed={alertSet}
+                >
+                  {alertSet ? (
+                    <>
+                      <BellRing className="w-4 h-4 mr-2" />
+                      We'll Email You When It's Back
+                    </>
+                  ) : (
+                    <>
+                      <Bell className="w-4 h-4 mr-2" />
+                      Notify Me When It's Back
+                    </>
+                  )}
+                </Button>
+              ) : (
+                <Button
+                  onClick={handleAddToCart}
+                  className="flex-1 bg-blue-600 hover:bg-blue-700 text-white"
+                >
+                  <ShoppingCart className="w-4 h-4 mr-2" />
+                  Add to Cart
+                </Button>
+              )}
               <Button
                 variant="outline"
-                onClick={() => setIsWishlisted(!isWishlisted)}
-                className={`p-3 ${isWishlisted ? 'text-red-500 border-red-500' : ''}`}
+                onClick={() => handleToggleWishlist(selectedVariant?.id || null)}
+                className={`p-3 ${wishlisted ? 'text-red-500 border-red-500' : ''}`}
+                aria-label={wishlisted ? 'Remove from wishlist' : 'Save to wishlist'}
+                aria-pressed={wishlisted}
               >
-                <Heart className={`h-5 w-5 ${isWishlisted ? 'fill-current' : ''}`} />
+                <Heart className={`h-5 w-5 ${wishlisted ? 'fill-current' : ''}`} />
               </Button>
               <Button variant="outline" className="p-3">
                 <Share2 className="h-5 w-5" />
               </Button>
             </div>
 
+            {/* Delivery */}
+            <PinCodeChecker
+              productId={product.id}
+              variantId={selectedVariant?.id}
+              quantity={quantity}
+            />
+
             {/* Product Features */}
             <div className="border-t pt-6">
               <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
@@ -337,7 +465,7 @@ const ProductDetailPage = () => {
             <div className="flex space-x-8">
               {[
                 { key: 'description', label: 'Description' },
-                { key: 'reviews', label: 'Reviews (127)' },
+                { key: 'reviews', label: `Reviews (${product.review_count || 0})` },
                 { key: 'shipping', label: 'Shipping & Returns' },
               ].map((tab) => (
                 <button
@@ -374,29 +502,11 @@ const ProductDetailPage = () => {
             )}
 
             {activeTab === 'reviews' && (
-              <div className="space-y-6">
-                <div className="flex items-center justify-between">
-                  <h3 className="text-lg font-semibold">Customer Reviews</h3>
-                  <Button variant="outline">Write a Review</Button>
-                </div>
-                
-                {/* Sample Reviews */}
-                <div className="space-y-4">
-                  {[
-                    { name: 'Sarah J.', rating: 5, comment: 'Excellent quality and fast delivery!' },
-                    { name: 'Mike R.', rating: 4, comment: 'Great product, fits perfectly.' },
-                    { name: 'Priya S.', rating: 5, comment: 'Love the material and comfort.' },
-                  ].map((review, index) => (
-                    <div key={index} className="border-b pb-4">
-                      <div className="flex items-center gap-2 mb-2">
-                        <div className="flex">{renderStars(review.rating)}</div>
-                        <span className="font-medium">{review.name}</span>
-                      </div>
-                      <p className="text-gray-600">{review.comment}</p>
-                    </div>
-                  ))}
-                </div>
-              </div>
+              <ProductReviews
+                productId={product.id}
+                sizes={[...new Set(product.variants?.map(v => v.size).filter(Boolean) as string[])]}
+                onSummary={handleReviewSummary}
+              />
             )}
 
             {activeTab === 'shipping' && (
@@ -404,8 +514,7 @@ const ProductDetailPage = () => {
                 <h4 className="font-semibold text-gray-900 mb-4">Shipping Information</h4>
                 <ul className="space-y-2 text-gray-600">
                   <li>• Free shipping on orders over ₹999</li>
-                  <li>• Standard delivery: 3-5 business days</li>
-                  <li>• Express delivery: 1-2 business days (additional charges apply)</li>
+                  <li>• Delivery in 2-8 business days depending on your PIN code; check yours above</li>
                   <li>• Cash on delivery available</li>
                 </ul>
                 
@@ -1,165 +1,68 @@
 import React, { useState, useEffect } from 'react';
-import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useSearchParams } from 'react-router-dom';
 import Header from '@/components/Header';
 import Footer from '@/components/Footer';
 import PromoBanner from '@/components/PromoBanner';
-import { ProductCard } from '@/components/ui/product-card';
+import ProductListing from '@/components/ProductListing';
 import { useProducts, Product } from '@/hooks/useProducts';
 import { useCart } from '@/hooks/useCart';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
-import { Filter, Grid, List, Search, SlidersHorizontal } from 'lucide-react';
 
 const ProductsViewPage = () => {
-  const navigate = useNavigate();
   const [searchParams, setSearchParams] = useSearchParams();
   
-  const [products, setProducts] = useState<Product[]>([]);
-  const [filteredProducts, setFilteredProducts] = useState<Product[]>([]);
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
-  const [sortBy, setSortBy] = useState('name');
-  const [filterCategory, setFilterCategory] = useState('all');
-  const [searchQuery, setSearchQuery] = useState('');
-  const [priceRange, setPriceRange] = useState({ min: 0, max: 10000 });
-  const [showFilters, setShowFilters] = useState(false);
+  const [loading, setLoading] = useState(false);
   const [selectedSize, setSelectedSize] = useState('');
   const [selectedColor, setSelectedColor] = useState('');
   const [selectedImageIndex, setSelectedImageIndex] = useState(0);
   const [quantity, setQuantity] = useState(1);
 
-  const { getAllProducts } = useProducts();
+  const { getProductById } = useProducts();
   const { addToCart } = useCart();
   const { user } = useAuth();
   const { toast } = useToast();
 
-  // Get initial filters from URL params
-  useEffect(() => {
-    const category = searchParams.get('category') || 'all';
-    const search = searchParams.get('search') || '';
-    const sort = searchParams.get('sort') || 'name';
-    
-    setFilterCategory(category);
-    setSearchQuery(search);
-    setSortBy(sort);
-  }, [searchParams]);
+  const productId = searchParams.get('product');
+  const filterCategory = searchParams.get('category') || 'all';
 
   // Handle product selection from URL
   useEffect(() => {
-    const productId = searchParams.get('product');
-    if (productId && products.length > 0 && !loading) {
-      const product = products.find(p => p.id === productId);
-      if (product) {
-        setSelectedProduct(product);
-        setSelectedImageIndex(0);
-        const firstVariant = product.variants?.[0];
-        if (firstVariant) {
-          setSelectedSize(firstVariant.size || "");
-          setSelectedColor(firstVariant.color_name || "");
-        }
-        setQuantity(1);
-      }
-    } else if (!productId) {
+    if (!productId) {
       setSelectedProduct(null);
+      setLoading(false);
+      return;
     }
-  }, [products, searchParams, loading]);
 
-  // Fetch all products
-  useEffect(() => {
-    const fetchProducts = async () => {
+    let cancelled = false;
+    const fetchProduct = async () => {
       setLoading(true);
-      try {
-        const allProducts = await getAllProducts();
-        setProducts(allProducts);
-      } catch (error) {
-        console.error('Error fetching products:', error);
-        toast({
-          title: "Error",
-          description: "Failed to load products. Please try again.",
-          variant: "destructive"
-        });
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchProducts();
-  }, []);
-
-  // Filter and sort products
-  useEffect(() => {
-    let filtered = [...products];
-
-    // Category filter
-    if (filterCategory !== 'all') {
-      filtered = filtered.filter(product => 
-        product.category?.slug === filterCategory || 
-        product.category?.name.toLowerCase() === filterCategory.toLowerCase()
-      );
-    }
-
-    // Subcategory filter from URL
-    const subcategory = searchParams.get('subcategory');
-    if (subcategory) {
-      const subcategoryFormatted = subcategory.replace(/-/g, ' ').toLowerCase();
-      filtered = filtered.filter(product => 
-        product.subcategory?.toLowerCase().includes(subcategoryFormatted)
-      );
-    }
-
-    // Search filter
-    if (searchQuery) {
-      filtered = filtered.filter(product =>
-        product.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        product.description?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        product.subcategory?.toLowerCase().includes(searchQuery.toLowerCase())
-      );
-    }
-
-    // Price range filter
-    filtered = filtered.filter(product =>
-      product.price >= priceRange.min && product.price <= priceRange.max
-    );
-
-    // Sort products
-    filtered.sort((a, b) => {
-      switch (sortBy) {
-        case 'price-low':
-          return a.price - b.price;
-        case 'price-high':
-          return b.price - a.price;
-        case 'rating':
-          return (b.rating || 0) - (a.rating || 0);
-        case 'newest':
-          return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
-        default:
-          return a.name.localeCompare(b.name);
-      }
-    });
-
-    setFilteredProducts(filtered);
-  }, [products, filterCategory, searchQuery, priceRange, sortBy, searchParams]);
-
-  const handleQuickView = (productId: string) => {
-    const product = products.find(p => p.id === productId);
-    if (product) {
+      const product = await getProductById(productId);
+      if (cancelled) return;
       setSelectedProduct(product);
       setSelectedImageIndex(0);
-      // Set default size and color from variants
-      const firstVariant = product.variants?.[0];
+      const firstVariant = product?.variants?.[0];
       if (firstVariant) {
         setSelectedSize(firstVariant.size || "");
         setSelectedColor(firstVariant.color_name || "");
       }
       setQuantity(1);
-      
-      // Update URL to reflect the selected product
-      const newParams = new URLSearchParams(searchParams);
-      newParams.set('product', productId);
-      setSearchParams(newParams);
-    }
-  };
+      setLoading(false);
+      if (!product) {
+        toast({
+          title: "Error",
+          description: "Product not found",
+          variant: "destructive"
+        });
+      }
+    };
+
+    fetchProduct();
+    return () => {
+      cancelled = true;
+    };
+  }, [productId]);
 
   const handleAddToCart = async (productId: string) => {
     if (!user) {
@@ -172,7 +75,7 @@ const ProductsViewPage = () => {
     }
 
     try {
-      const product = products.find(p => p.id === productId);
+      const product = selectedProduct;
       if (!product) {
         toast({
           title: "Error",
@@ -204,13 +107,15 @@ const ProductsViewPage = () => {
     }
   };
 
-  const updateUrlParams = (key: string, value: string) => {
+  // Subcategory filters belong to the old category, so they go too
+  const handleCategoryChange = (category: string) => {
     const newParams = new URLSearchParams(searchParams);
-    if (value === '' || value === 'all') {
-      newParams.delete(key);
+    if (category === 'all') {
+      newParams.delete('category');
     } else {
-      newParams.set(key, value);
+      newParams.set('category', category);
     }
+    newParams.delete('subcategory');
     setSearchParams(newParams);
   };
 
@@ -475,179 +380,27 @@ const ProductsViewPage = () => {
           </div>
 
           <div className="max-w-[1400px] mx-auto px-8 py-8">
-            {/* Filters and Search Bar */}
-            <div className="mb-8">
-              <div className="flex flex-col lg:flex-row gap-4 items-center justify-between mb-6">
-                {/* Search Bar */}
-                <div className="relative flex-1 max-w-md">
-                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
-                  <input
-                    type="text"
-                    placeholder="Search products..."
-                    value={searchQuery}
-                    onChange={(e) => {
-                      setSearchQuery(e.target.value);
-                      updateUrlParams('search', e.target.value);
-                    }}
-                    className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#7C3AED] focus:border-transparent"
-                  />
-                </div>
-
-                {/* View Controls */}
-                <div className="flex items-center gap-4">
-                  <button
-                    onClick={() => setShowFilters(!showFilters)}
-                    className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
-                  >
-                    <SlidersHorizontal className="w-4 h-4" />
-                    Filters
-                  </button>
-                  
-                  <div className="flex border border-gray-300 rounded-lg overflow-hidden">
-                    <button
-                      onClick={() => setViewMode('grid')}
-                      className={`p-2 ${viewMode === 'grid' ? 'bg-[#7C3AED] text-white' : 'bg-white text-gray-600 hover:bg-gray-50'} transition-colors`}
-                    >
-                      <Grid className="w-4 h-4" />
-                    </button>
-                    <button
-                      onClick={() => setViewMode('list')}
-                      className={`p-2 ${viewMode === 'list' ? 'bg-[#7C3AED] text-white' : 'bg-white text-gray-600 hover:bg-gray-50'} transition-colors`}
-                    >
-                      <List className="w-4 h-4" />
-                    </button>
-                  </div>
-                </div>
-              </div>
-
-              {/* Filters Panel */}
-              {showFilters && (
-                <div className="bg-gray-50 p-6 rounded-lg mb-6">
-                  <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                    {/* Category Filter */}
-                    <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-2">Category</label>
-                      <select
-                        value={filterCategory}
-                        onChange={(e) => {
-                          setFilterCategory(e.target.value);
-                          updateUrlParams('category', e.target.value);
-                        }}
-                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#7C3AED]"
-                      >
-                        {categories.map((category) => (
-                          <option key={category.value} value={category.value}>
-                            {category.label}
-                          </option>
-                        ))}
-                      </select>
-                    </div>
-
-                    {/* Sort Filter */}
-                    <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-2">Sort By</label>
-                      <select
-                        value={sortBy}
-                        onChange={(e) => {
-                          setSortBy(e.target.value);
-                          updateUrlParams('sort', e.target.value);
-                        }}
-                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#7C3AED]"
-                      >
-                        <option value="name">Name (A-Z)</option>
-                        <option value="price-low">Price (Low to High)</option>
-                        <option value="price-high">Price (High to Low)</option>
-                        <option value="rating">Rating</option>
-                        <option value="newest">Newest</option>
-                      </select>
-                    </div>
-
-                    {/* Price Range */}
-                    <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-2">
-                        Price Range: ₹{priceRange.min} - ₹{priceRange.max}
-                      </label>
-                      <div className="flex gap-2">
-                        <input
-                          type="number"
-                          placeholder="Min"
-                          value={priceRange.min}
-                          onChange={(e) => setPriceRange(prev => ({ ...prev, min: Number(e.target.value) }))}
-                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#7C3AED]"
-                        />
-                        <input
-                          type="number"
-                          placeholder="Max"
-                          value={priceRange.max}
-                          onChange={(e) => setPriceRange(prev => ({ ...prev, max: Number(e.target.value) }))}
-                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#7C3AED]"
-                        />
-                      </div>
-                    </div>
-                  </div>
-                </div>
-              )}
-
-              {/* Results Summary */}
-              <div className="flex items-center justify-between mb-6">
-                <p className="text-gray-600">
-                  Showing {filteredProducts.length} of {products.length} products
-                </p>
-              </div>
+            {/* Category Filter */}
+            <div className="mb-6 max-w-xs">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Category</label>
+              <select
+                value={filterCategory}
+                onChange={(e) => handleCategoryChange(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#7C3AED]"
+              >
+                {categories.map((category) => (
+                  <option key={category.value} value={category.value}>
+                    {category.label}
+                  </option>
+                ))}
+              </select>
             </div>
 
-            {/* Products Grid/List */}
-            {filteredProducts.length > 0 ? (
-              <div className={`${
-                viewMode === 'grid' 
-                  ? 'grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6' 
-                  : 'space-y-4'
-              }`}>
-                {filteredProducts.map((product) => (
-                  <div key={product.id} className={viewMode === 'list' ? 'border-b border-gray-200 pb-4' : ''}>
-                    <ProductCard
-                      id={parseInt(product.id)}
-                      name={product.name}
-                      price={`₹${product.price.toLocaleString()}`}
-                      image={product.images?.find(img => img.is_primary)?.image_url || product.images?.[0]?.image_url || '/placeholder.svg'}
-                      rating={product.rating || 4}
-                      colors={product.variants?.filter(v => v.color_code).map(v => ({
-                        name: v.color_name || 'Color',
-                        color: v.color_code || '#000000'
-                      })) || [
-                        { name: 'Black', color: '#000000' },
-                        { name: 'White', color: '#ffffff' },
-                        { name: 'Purple', color: '#7C3AED' }
-                      ]}
-                      onAddToCart={() => handleAddToCart(product.id)}
-                      onQuickView={() => handleQuickView(product.id)}
-                      className={viewMode === 'list' ? 'flex gap-4 items-center' : ''}
-                    />
-                  </div>
-                ))}
-              </div>
-            ) : (
-              <div className="text-center py-16">
-                <div className="text-6xl mb-4">🛍️</div>
-                <h3 className="text-xl font-semibold text-gray-900 mb-2">
-                  No products found
-                </h3>
-                <p className="text-gray-600 mb-6">
-                  Try adjusting your filters or search terms
-                </p>
-                <button
-                  onClick={() => {
-                    setFilterCategory('all');
-                    setSearchQuery('');
-                    setPriceRange({ min: 0, max: 10000 });
-                    setSearchParams(new URLSearchParams());
-                  }}
-                  className="px-6 py-2 bg-[#7C3AED] text-white rounded-lg hover:bg-[#6D28D9] transition-colors"
-                >
-                  Clear All Filters
-                </button>
-              </div>
-            )}
+            <ProductListing
+              category={filterCategory === 'all' ? undefined : filterCategory}
+              emptyTitle="No products found"
+              emptyMessage="Try adjusting your filters or search terms"
+            />
           </div>
         </div>
       )}
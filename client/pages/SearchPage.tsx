@@ -0,0 +1,86 @@
+import React, { useEffect, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Search } from "lucide-react";
+import Header from "@/components/Header";
+import Footer from "@/components/Footer";
+import PromoBanner from "@/components/PromoBanner";
+import ProductListing from "@/components/ProductListing";
+
+/**
+ * Results for /search?q=, best match first
+ */
+export default function SearchPage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get("q")?.trim() || "";
+
+  const [input, setInput] = useState(query);
+
+  // Follow the URL when it changes from elsewhere, e.g. the Header search
+  useEffect(() => {
+    setInput(query);
+  }, [query]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    // A new search starts without the previous one's filters
+    const next = input.trim();
+    setSearchParams(next ? { q: next } : {});
+  };
+
+  return (
+    <div className="min-h-screen bg-white">
+      <PromoBanner />
+      <Header />
+
+      {/* Page Header */}
+      <div className="bg-gray-50 py-8">
+        <div className="max-w-[1400px] mx-auto px-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-4">
+            {query ? `Results for "${query}"` : "Search"}
+          </h1>
+          <form onSubmit={handleSubmit} className="flex gap-2 max-w-2xl">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+              <input
+                type="text"
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                placeholder="Search for products..."
+                maxLength={100}
+                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#7C3AED] focus:border-transparent"
+              />
+            </div>
+            <button
+              type="submit"
+              className="px-6 py-2 bg-[#7C3AED] text-white rounded-lg hover:bg-[#6D28D9] transition-colors"
+            >
+              Search
+            </button>
+          </form>
+        </div>
+      </div>
+
+      <div className="max-w-[1400px] mx-auto px-8 py-8">
+        {query ? (
+          <ProductListing
+            hideSearch
+            emptyTitle={`No products match "${query}"`}
+            emptyMessage="Check the spelling or try a more general term"
+          />
+        ) : (
+          <div className="text-center py-16">
+            <div className="text-6xl mb-4">🔍</div>
+            <h3 className="text-xl font-semibold text-gray-900 mb-2">
+              What are you looking for?
+            </h3>
+            <p className="text-gray-600">
+              Search by product name, category, colour or SKU
+            </p>
+          </div>
+        )}
+      </div>
+
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { Heart, Loader2 } from "lucide-react";
+import Header from "@/components/Header";
+import Footer from "@/components/Footer";
+import PromoBanner from "@/components/PromoBanner";
+import WishlistItemCard from "@/components/WishlistItemCard";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useWishlist } from "@/hooks/useWishlist";
+import { apiFetch } from "@/lib/api";
+import type { SharedWishlistResponse, WishlistProduct } from "@shared/api";
+
+/**
+ * A wishlist opened from its share link at /wishlist/shared/:token.
+ * Visitors can save products to their own wishlist.
+ */
+export default function SharedWishlistPage() {
+  const { token } = useParams<{ token: string }>();
+  const { isWishlisted, addToWishlist } = useWishlist();
+  const { toast } = useToast();
+  const [wishlist, setWishlist] = useState<SharedWishlistResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    apiFetch<SharedWishlistResponse>(`/api/wishlists/${token}`)
+      .then((response) => {
+        if (!cancelled) setWishlist(response);
+      })
+      .catch((err) => {
+        console.error("Error loading shared wishlist:", err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "An error occurred");
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const handleSave = async (item: WishlistProduct) => {
+    try {
+      await addToWishlist(item.product.id, item.variant?.id || null);
+      toast({
+        title: "Saved to wishlist",
+        description: `${item.product.name} saved to your wishlist`,
+      });
+    } catch (err) {
+      console.error("Error updating wishlist:", err);
+      toast({
+        title: "Error",
+        description: "Error updating your wishlist. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const title = wishlist?.ownerName
+    ? `${wishlist.ownerName}'s Wishlist`
+    : "Shared Wishlist";
+
+  return (
+    <div className="min-h-screen bg-white">
+      <PromoBanner />
+      <Header />
+
+      {/* Page Header */}
+      <div className="bg-gray-50 py-8">
+        <div className="max-w-[1400px] mx-auto px-8">
+          <h1 className="text-3xl font-bold text-gray-900">
+            {loading || error ? "Shared Wishlist" : title}
+          </h1>
+        </div>
+      </div>
+
+      <div className="max-w-[1400px] mx-auto px-8 py-8">
+        {loading ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="w-8 h-8 animate-spin text-[#7C3AED]" />
+          </div>
+        ) : error || !wishlist ? (
+          <div className="text-center py-16">
+            <h3 className="text-xl font-semibold text-gray-900 mb-2">
+              {error || "Wishlist not found"}
+            </h3>
+            <p className="text-gray-600 mb-6">
+              The link may have been turned off by its owner
+            </p>
+            <Link to="/all-products">
+              <Button className="bg-[#7C3AED] hover:bg-[#6D28D9] text-white">
+                Browse Products
+              </Button>
+            </Link>
+          </div>
+        ) : wishlist.items.length === 0 ? (
+          <div className="text-center py-16">
+            <Heart className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-600">Nothing saved here yet</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
+            {wishlist.items.map((item) => (
+              <WishlistItemCard key={item.product.id} item={item}>
+                {isWishlisted(item.product.id) ? (
+                  <Button variant="outline" disabled className="flex-1">
+                    <Heart className="w-4 h-4 mr-2 fill-current text-red-500" />
+                    In Your Wishlist
+                  </Button>
+                ) : (
+                  <Button
+                    variant="outline"
+                    onClick={() => handleSave(item)}
+                    className="flex-1"
+                  >
+                    <Heart className="w-4 h-4 mr-2" />
+                    Save to My Wishlist
+                  </Button>
+                )}
+              </WishlistItemCard>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Footer />
+    </div>
+  );
+}
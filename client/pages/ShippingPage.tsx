@@ -1,30 +1,22 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { Truck, Package, MapPin, Clock, ChevronLeft } from 'lucide-react';
 import { Link } from 'react-router-dom';
+import { supabase } from '@/lib/supabase';
 
-const shippingZones = [
-  {
-    zone: 'Metro Cities',
-    cities: ['Mumbai', 'Delhi', 'Bangalore', 'Chennai', 'Kolkata', 'Hyderabad'],
-    standard: '2-3 days',
-    express: '1 day',
-    cost: 'Free above ₹999'
-  },
-  {
-    zone: 'Tier 1 Cities',
-    cities: ['Pune', 'Ahmedabad', 'Jaipur', 'Lucknow', 'Kanpur', 'Nagpur'],
-    standard: '3-4 days',
-    express: '2 days',
-    cost: 'Free above ₹999'
-  },
-  {
-    zone: 'Tier 2/3 Cities',
-    cities: ['Other cities and towns'],
-    standard: '4-6 days',
-    express: '3-4 days',
-    cost: 'Free above ₹1499'
-  }
-];
+interface ShippingZone {
+  code: string;
+  name: string;
+  description: string | null;
+  min_days: number;
+  max_days: number;
+  shipping_rate_slabs: Array<{ basis: 'weight' | 'items'; rate: number }>;
+}
+
+interface ShippingSettings {
+  free_shipping_threshold: number | null;
+  slab_basis: 'weight' | 'items';
+  dispatch_days: number;
+}
 
 const shippingOptions = [
   {
@@ -34,14 +26,52 @@ const shippingOptions = [
     features: ['Free above minimum order', 'Tracking included', 'Secure packaging']
   },
   {
-    type: 'Express Shipping',
+    type: 'Cash on Delivery',
     icon: Truck,
-    description: 'Faster delivery option',
-    features: ['Next day delivery*', 'Priority handling', 'Real-time tracking']
+    description: 'Pay when your order arrives',
+    features: ['Available on most PIN codes', 'Small handling fee', 'Check at checkout']
   }
 ];
 
 export default function ShippingPage() {
+  const [zones, setZones] = useState<ShippingZone[]>([]);
+  const [settings, setSettings] = useState<ShippingSettings | null>(null);
+
+  useEffect(() => {
+    const fetchRates = async () => {
+      const [zonesResult, settingsResult] = await Promise.all([
+        supabase
+          .from('shipping_zones')
+          .select('code, name, description, min_days, max_days, shipping_rate_slabs(basis, rate)')
+          .eq('is_active', true)
+          .order('sort_order'),
+        supabase
+          .from('shipping_settings')
+          .select('free_shipping_threshold, slab_basis, dispatch_days')
+          .single()
+      ]);
+
+      if (zonesResult.error || settingsResult.error) {
+        console.error('Error fetching shipping rates:', zonesResult.error || settingsResult.error);
+        return;
+      }
+      setZones(zonesResult.data || []);
+      setSettings(settingsResult.data);
+    };
+
+    fetchRates();
+  }, []);
+
+  const rateRange = (zone: ShippingZone) => {
+    const rates = zone.shipping_rate_slabs
+      .filter(slab => slab.basis === settings?.slab_basis)
+      .map(slab => Number(slab.rate));
+    if (rates.length === 0) return '-';
+    const min = Math.min(...rates);
+    const max = Math.max(...rates);
+    return min === max ? `₹${min}` : `₹${min} - ₹${max}`;
+  };
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -93,30 +123,37 @@ export default function ShippingPage() {
         <div className="bg-white rounded-lg shadow-lg overflow-hidden mb-12">
           <div className="bg-gradient-to-r from-pink-600 to-purple-600 text-white p-6">
             <h2 className="text-2xl font-bold">Delivery Timeline by Zone</h2>
-            <p className="text-pink-100">Estimated delivery times across India</p>
+            <p className="text-pink-100">
+              Estimated delivery times across India, including {settings?.dispatch_days ?? 1} {settings?.dispatch_days === 1 ? 'day' : 'days'} to pack your order
+            </p>
           </div>
           <div className="overflow-x-auto">
             <table className="w-full">
               <thead className="bg-gray-50">
                 <tr>
                   <th className="text-left py-4 px-6 font-semibold text-gray-900">Zone</th>
-                  <th className="text-left py-4 px-6 font-semibold text-gray-900">Cities</th>
-                  <th className="text-left py-4 px-6 font-semibold text-gray-900">Standard</th>
-                  <th className="text-left py-4 px-6 font-semibold text-gray-900">Express</th>
+                  <th className="text-left py-4 px-6 font-semibold text-gray-900">Covers</th>
+                  <th className="text-left py-4 px-6 font-semibold text-gray-900">Delivery</th>
+                  <th className="text-left py-4 px-6 font-semibold text-gray-900">
+                    Shipping ({settings?.slab_basis === 'items' ? 'by number of items' : 'by parcel weight'})
+                  </th>
                   <th className="text-left py-4 px-6 font-semibold text-gray-900">Free Shipping</th>
                 </tr>
               </thead>
               <tbody>
-                {shippingZones.map((zone, index) => (
-                  <tr key={index} className="border-b border-gray-100">
-                    <td className="py-4 px-6 font-medium text-gray-900">{zone.zone}</td>
-                    <td className="py-4 px-6 text-gray-600 text-sm">
-                      {zone.cities.slice(0, 3).join(', ')}
-                      {zone.cities.length > 3 && '...'}
+                {zones.map((zone) => (
+                  <tr key={zone.code} className="border-b border-gray-100">
+                    <td className="py-4 px-6 font-medium text-gray-900">{zone.name}</td>
+                    <td className="py-4 px-6 text-gray-600 text-sm">{zone.description}</td>
+                    <td className="py-4 px-6 text-gray-600">
+                      {zone.min_days + (settings?.dispatch_days ?? 0)}-{zone.max_days + (settings?.dispatch_days ?? 0)} days
+                    </td>
+                    <td className="py-4 px-6 text-gray-600">{rateRange(zone)}</td>
+                    <td className="py-4 px-6 text-green-600 font-medium">
+                      {settings?.free_shipping_threshold != null
+                        ? `Free above ₹${Number(settings.free_shipping_threshold).toLocaleString()}`
+                        : '-'}
                     </td>
-                    <td className="py-4 px-6 text-gray-600">{zone.standard}</td>
-                    <td className="py-4 px-6 text-gray-600">{zone.express}</td>
-                    <td className="py-4 px-6 text-green-600 font-medium">{zone.cost}</td>
                   </tr>
                 ))}
               </tbody>
@@ -1,8 +1,21 @@
 import React, { useState } from 'react';
-import { Search, Package, Truck, CheckCircle, Clock, ChevronLeft } from 'lucide-react';
+import { Search, Package, Truck, CheckCircle, Clock, ChevronLeft, XCircle, RotateCcw } from 'lucide-react';
 import { Link } from 'react-router-dom';
+import { apiFetch } from '@/lib/api';
+import type { OrderStatus, TrackOrderRequest, TrackOrderResponse } from '@shared/api';
 
-const orderStatuses = {
+const orderStatuses: Record<OrderStatus, {
+  icon: React.ElementType;
+  color: string;
+  bgColor: string;
+  description: string;
+}> = {
+  'pending': {
+    icon: Clock,
+    color: 'text-yellow-600',
+    bgColor: 'bg-yellow-100',
+    description: 'Order placed and awaiting confirmation'
+  },
   'confirmed': { 
     icon: CheckCircle, 
     color: 'text-green-600', 
@@ -26,40 +39,92 @@ const orderStatuses = {
     color: 'text-green-600', 
     bgColor: 'bg-green-100',
     description: 'Order delivered successfully'
+  },
+  'cancelled': {
+    icon: XCircle,
+    color: 'text-red-600',
+    bgColor: 'bg-red-100',
+    description: 'Order was cancelled'
+  },
+  'refunded': {
+    icon: RotateCcw,
+    color: 'text-gray-600',
+    bgColor: 'bg-gray-100',
+    description: 'Order was refunded'
   }
 };
 
+// The usual journey of an order; cancelled and refunded orders leave it
+const timelineSteps: Array<{ status: OrderStatus; label: string }> = [
+  { status: 'pending', label: 'Order Placed' },
+  { status: 'confirmed', label: 'Order Confirmed' },
+  { status: 'processing', label: 'Packed' },
+  { status: 'shipped', label: 'Shipped' },
+  { status: 'delivered', label: 'Delivered' }
+];
+
+interface TimelineStep {
+  label: string;
+  at: string | null;
+  completed: boolean;
+}
+
+function buildTimeline(order: TrackOrderResponse): TimelineStep[] {
+  const reachedAt = (status: OrderStatus) =>
+    [...order.history].reverse().find(event => event.status === status)?.at ?? null;
+
+  if (order.status === 'cancelled' || order.status === 'refunded') {
+    return [
+      { label: 'Order Placed', at: order.placedAt, completed: true },
+      ...order.history
+        .filter(event => event.status !== 'pending')
+        .map(event => ({
+          label: timelineSteps.find(step => step.status === event.status)?.label
+            ?? (event.status === 'cancelled' ? 'Cancelled' : 'Refunded'),
+          at: event.at,
+          completed: true
+        }))
+    ];
+  }
+
+  const currentIndex = timelineSteps.findIndex(step => step.status === order.status);
+  return timelineSteps.map((step, index) => ({
+    label: step.label,
+    at: step.status === 'pending' ? order.placedAt : reachedAt(step.status),
+    completed: index <= currentIndex
+  }));
+}
+
+function formatTimestamp(value: string) {
+  const date = new Date(value);
+  return `${date.toLocaleDateString()} • ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+}
+
 export default function TrackOrderPage() {
   const [orderNumber, setOrderNumber] = useState('');
   const [email, setEmail] = useState('');
-  const [trackingResult, setTrackingResult] = useState<any>(null);
+  const [trackingResult, setTrackingResult] = useState<TrackOrderResponse | null>(null);
+  const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
 
   const handleTrackOrder = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
-    
-    // Simulate API call
-    setTimeout(() => {
-      if (orderNumber && email) {
-        // Mock tracking data
-        setTrackingResult({
-          orderNumber: orderNumber,
-          status: 'shipped',
-          estimatedDelivery: '2025-01-05',
-          trackingNumber: 'TRK123456789',
-          timeline: [
-            { status: 'Order Placed', date: '2025-01-01', time: '10:30 AM', completed: true },
-            { status: 'Order Confirmed', date: '2025-01-01', time: '11:15 AM', completed: true },
-            { status: 'Packed', date: '2025-01-02', time: '02:45 PM', completed: true },
-            { status: 'Shipped', date: '2025-01-03', time: '09:20 AM', completed: true },
-            { status: 'Out for Delivery', date: '2025-01-05', time: 'Expected', completed: false },
-            { status: 'Delivered', date: '2025-01-05', time: 'Expected', completed: false }
-          ]
-        });
-      }
+    setError('');
+
+    try {
+      const request: TrackOrderRequest = { orderNumber, email };
+      const result = await apiFetch<TrackOrderResponse>('/api/orders/track', {
+        method: 'POST',
+        body: JSON.stringify(request)
+      });
+      setTrackingResult(result);
+    } catch (error) {
+      setTrackingResult(null);
+      setError(error instanceof Error ? error.message : 'Failed to look up order');
+    } finally {
       setIsLoading(false);
-    }, 1500);
+    }
   };
 
   return (
@@ -135,6 +200,9 @@ export default function TrackOrderPage() {
               )}
             </button>
           </form>
+          {error && (
+            <p className="mt-4 text-sm text-red-600">{error}</p>
+          )}
         </div>
 
         {/* Tracking Results */}
@@ -145,7 +213,13 @@ export default function TrackOrderPage() {
               <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
                 <div>
                   <h2 className="text-xl font-bold">Order #{trackingResult.orderNumber}</h2>
-                  <p className="text-pink-100">Tracking Number: {trackingResult.trackingNumber}</p>
+                  {trackingResult.awbNumber ? (
+                    <p className="text-pink-100">
+                      {trackingResult.carrier ? `${trackingResult.carrier} · ` : ''}AWB: {trackingResult.awbNumber}
+                    </p>
+                  ) : (
+                    <p className="text-pink-100">Placed on {new Date(trackingResult.placedAt).toLocaleDateString()}</p>
+                  )}
                 </div>
                 <div className="text-right">
                   <div className={`inline-flex items-center gap-2 px-3 py-1 rounded-full text-sm font-medium ${orderStatuses[trackingResult.status].bgColor} ${orderStatuses[trackingResult.status].color}`}>
@@ -153,7 +227,7 @@ export default function TrackOrderPage() {
                     {trackingResult.status.charAt(0).toUpperCase() + trackingResult.status.slice(1)}
                   </div>
                   <p className="text-pink-100 text-sm mt-1">
-                    Est. Delivery: {new Date(trackingResult.estimatedDelivery).toLocaleDateString()}
+                    {orderStatuses[trackingResult.status].description}
                   </p>
                 </div>
               </div>
@@ -163,7 +237,7 @@ export default function TrackOrderPage() {
             <div className="p-6">
               <h3 className="text-lg font-semibold text-gray-900 mb-6">Order Timeline</h3>
               <div className="space-y-4">
-                {trackingResult.timeline.map((step: any, index: number) => (
+                {buildTimeline(trackingResult).map((step, index) => (
                   <div key={index} className="flex items-start gap-4">
                     <div className={`w-10 h-10 rounded-full flex items-center justify-center ${
                       step.completed 
@@ -181,12 +255,12 @@ export default function TrackOrderPage() {
                         <h4 className={`font-medium ${
                           step.completed ? 'text-gray-900' : 'text-gray-500'
                         }`}>
-                          {step.status}
+                          {step.label}
                         </h4>
                         <div className={`text-sm ${
                           step.completed ? 'text-gray-600' : 'text-gray-400'
                         }`}>
-                          {step.date} • {step.time}
+                          {step.at ? formatTimestamp(step.at) : step.completed ? '' : 'Pending'}
                         </div>
                       </div>
                     </div>
@@ -198,9 +272,12 @@ export default function TrackOrderPage() {
             {/* Actions */}
             <div className="bg-gray-50 px-6 py-4">
               <div className="flex flex-col sm:flex-row gap-3">
-                <button className="flex-1 bg-pink-600 text-white py-2 px-4 rounded-lg hover:bg-pink-700 transition-colors">
+                <Link
+                  to="/orders"
+                  className="flex-1 bg-pink-600 text-white py-2 px-4 rounded-lg hover:bg-pink-700 transition-colors text-center"
+                >
                   View Order Details
-                </button>
+                </Link>
                 <Link 
                   to="/contact"
                   className="flex-1 border border-pink-600 text-pink-600 py-2 px-4 rounded-lg hover:bg-pink-50 transition-colors text-center"
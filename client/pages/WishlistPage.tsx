@@ -0,0 +1,334 @@
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import {
+  Copy,
+  Heart,
+  Loader2,
+  Share2,
+  ShoppingCart,
+  Trash2,
+} from "lucide-react";
+import Header from "@/components/Header";
+import Footer from "@/components/Footer";
+import PromoBanner from "@/components/PromoBanner";
+import WishlistItemCard from "@/components/WishlistItemCard";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/useAuth";
+import { useCart } from "@/hooks/useCart";
+import { useToast } from "@/hooks/use-toast";
+import { useWishlist } from "@/hooks/useWishlist";
+import { supabase } from "@/lib/supabase";
+import {
+  PRODUCT_SUMMARY_SELECT,
+  ProductSummaryRow,
+  WishlistProduct,
+  toWishlistProduct,
+} from "@shared/api";
+
+function shareUrl(token: string) {
+  return `${window.location.origin}/wishlist/shared/${token}`;
+}
+
+/**
+ * The shopper's saved products at /wishlist, with move to cart and a
+ * share link for logged-in shoppers
+ */
+export default function WishlistPage() {
+  const { user } = useAuth();
+  const { entries, loading, removeFromWishlist } = useWishlist();
+  const { addToCart } = useCart();
+  const { toast } = useToast();
+
+  const [items, setItems] = useState<WishlistProduct[]>([]);
+  const [loadingProducts, setLoadingProducts] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [shareToken, setShareToken] = useState<string | null>(null);
+  const [sharing, setSharing] = useState(false);
+
+  useEffect(() => {
+    if (entries.length === 0) {
+      setItems([]);
+      return;
+    }
+
+    let cancelled = false;
+    setLoadingProducts(true);
+    // Inactive products are hidden by RLS and drop out here
+    supabase
+      .from("products")
+      .select(PRODUCT_SUMMARY_SELECT)
+      .in(
+        "id",
+        entries.map((entry) => entry.productId),
+      )
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error("Error loading wishlist products:", error);
+        } else {
+          const rows = (data || []) as unknown as ProductSummaryRow[];
+          setItems(
+            entries.flatMap((entry) => {
+              const row = rows.find((r) => r.id === entry.productId);
+              return row ? [toWishlistProduct(row, entry)] : [];
+            }),
+          );
+        }
+        setLoadingProducts(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [entries]);
+
+  useEffect(() => {
+    if (!user) {
+      setShareToken(null);
+      return;
+    }
+
+    supabase
+      .from("wishlist_shares")
+      .select("token")
+      .eq("user_id", user.id)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) {
+          console.error("Error loading wishlist share:", error);
+          return;
+        }
+        setShareToken(data?.token || null);
+      });
+  }, [user]);
+
+  const copyShareLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(token));
+      toast({ title: "Link copied", description: "Send it to anyone" });
+    } catch {
+      // Clipboard access can be refused; the link is on screen to copy
+    }
+  };
+
+  const handleShare = async () => {
+    if (!user) return;
+
+    setSharing(true);
+    try {
+      const { data, error } = await supabase
+        .from("wishlist_shares")
+        .insert({ user_id: user.id })
+        .select("token")
+        .single();
+      if (error) throw error;
+      setShareToken(data.token);
+      await copyShareLink(data.token);
+    } catch (error) {
+      console.error("Error sharing wishlist:", error);
+      toast({
+        title: "Error",
+        description: "Couldn't create a share link. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSharing(false);
+    }
+  };
+
+  const handleStopSharing = async () => {
+    if (!user) return;
+
+    setSharing(true);
+    try {
+      const { error } = await supabase
+        .from("wishlist_shares")
+        .delete()
+        .eq("user_id", user.id);
+      if (error) throw error;
+      setShareToken(null);
+      toast({
+        title: "Sharing turned off",
+        description: "The old link no longer works",
+      });
+    } catch (error) {
+      console.error("Error turning off wishlist sharing:", error);
+      toast({
+        title: "Error",
+        description: "Couldn't turn off sharing. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSharing(false);
+    }
+  };
+
+  const handleMoveToCart = async (item: WishlistProduct) => {
+    if (!user) {
+      toast({
+        title: "Login Required",
+        description: "Please login to add items to cart",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // The chosen size, else the first one in stock, as quick add does
+    const variantId = item.variant
+      ? item.variant.id
+      : item.product.defaultVariant?.id;
+
+    setBusyId(item.product.id);
+    try {
+      await addToCart(item.product.id, variantId);
+      await removeFromWishlist(item.product.id);
+      toast({
+        title: "Moved to cart",
+        description: `${item.product.name} moved to your cart`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Error adding to cart",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRemove = async (item: WishlistProduct) => {
+    setBusyId(item.product.id);
+    try {
+      await removeFromWishlist(item.product.id);
+    } catch (error) {
+      console.error("Error removing from wishlist:", error);
+      toast({
+        title: "Error",
+        description: "Error updating your wishlist. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-white">
+      <PromoBanner />
+      <Header />
+
+      {/* Page Header */}
+      <div className="bg-gray-50 py-8">
+        <div className="max-w-[1400px] mx-auto px-8 flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">My Wishlist</h1>
+            <p className="text-gray-600 mt-1">
+              {entries.length} saved item{entries.length !== 1 ? "s" : ""}
+            </p>
+          </div>
+          {user && entries.length > 0 && !shareToken && (
+            <Button variant="outline" onClick={handleShare} disabled={sharing}>
+              <Share2 className="w-4 h-4 mr-2" />
+              Share Wishlist
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="max-w-[1400px] mx-auto px-8 py-8 space-y-6">
+        {!user && entries.length > 0 && (
+          <div className="rounded-lg bg-purple-50 px-4 py-3 text-sm text-gray-700">
+            This wishlist is saved in this browser only.{" "}
+            <Link to="/login" className="font-medium text-[#7C3AED]">
+              Log in
+            </Link>{" "}
+            to keep it on every device and share it.
+          </div>
+        )}
+
+        {shareToken && (
+          <div className="flex flex-wrap items-center gap-3 rounded-lg border border-gray-200 p-4">
+            <span className="text-sm font-medium text-gray-700">
+              Share link
+            </span>
+            <input
+              type="text"
+              readOnly
+              value={shareUrl(shareToken)}
+              onFocus={(e) => e.target.select()}
+              className="flex-1 min-w-[240px] px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-600"
+            />
+            <Button variant="outline" onClick={() => copyShareLink(shareToken)}>
+              <Copy className="w-4 h-4 mr-2" />
+              Copy
+            </Button>
+            <Button
+              variant="ghost"
+              onClick={handleStopSharing}
+              disabled={sharing}
+            >
+              Stop Sharing
+            </Button>
+          </div>
+        )}
+
+        {loading || (loadingProducts && items.length === 0) ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="w-8 h-8 animate-spin text-[#7C3AED]" />
+          </div>
+        ) : items.length === 0 ? (
+          <div className="text-center py-16">
+            <Heart className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-xl font-semibold text-gray-900 mb-2">
+              Your wishlist is empty
+            </h3>
+            <p className="text-gray-600 mb-6">
+              Tap the heart on any product to save it for later
+            </p>
+            <Link to="/all-products">
+              <Button className="bg-[#7C3AED] hover:bg-[#6D28D9] text-white">
+                Browse Products
+              </Button>
+            </Link>
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
+            {items.map((item) => {
+              const hasVariants =
+                item.product.sizes.length > 0 || item.product.colors.length > 0;
+              const available = item.variant
+                ? item.variant.inStock
+                : !hasVariants || !!item.product.defaultVariant;
+              const busy = busyId === item.product.id;
+
+              return (
+                <WishlistItemCard key={item.product.id} item={item}>
+                  <Button
+                    onClick={() => handleMoveToCart(item)}
+                    disabled={!available || busy}
+                    className="flex-1 bg-[#7C3AED] hover:bg-[#6D28D9] text-white"
+                  >
+                    <ShoppingCart className="w-4 h-4 mr-2" />
+                    Move to Cart
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => handleRemove(item)}
+                    disabled={busy}
+                    aria-label={`Remove ${item.product.name} from wishlist`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </WishlistItemCard>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+import { expireUnpaidOrders } from "../../server/lib/stock";
+
+// Scheduled in netlify.toml; cancels online-payment orders nobody paid for
+export const handler = async () => {
+  try {
+    const expired = await expireUnpaidOrders();
+    return { statusCode: 200, body: JSON.stringify({ expired }) };
+  } catch (error) {
+    console.error("Error expiring unpaid orders:", error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ error: "Failed to expire unpaid orders" }),
+    };
+  }
+};
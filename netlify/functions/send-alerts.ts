@@ -0,0 +1,15 @@
+import { sendPendingAlerts } from "../../server/lib/alerts";
+
+// Scheduled in netlify.toml; sends queued back-in-stock and price-drop emails
+export const handler = async () => {
+  try {
+    const result = await sendPendingAlerts();
+    return { statusCode: 200, body: JSON.stringify(result) };
+  } catch (error) {
+    console.error("Error sending alerts:", error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ error: "Failed to send alerts" }),
+    };
+  }
+};
@@ -1,12 +1,66 @@
 import express from "express";
 import cors from "cors";
+import { requireAuth, requirePermission } from "./middleware/auth";
+import { rateLimit } from "./middleware/rateLimit";
+import {
+  handleGetCustomer,
+  handleListCustomers,
+} from "./routes/adminCustomers";
+import { handleChangeOrderStatus } from "./routes/adminOrders";
+import {
+  handleExportProducts,
+  handleImportProducts,
+} from "./routes/adminProducts";
+import {
+  handleDeleteReviewPhoto,
+  handleListReviewsForModeration,
+  handleModerateReview,
+} from "./routes/adminReviews";
+import { handleGetAdminStats } from "./routes/adminStats";
+import { handleSendAlerts, handleUnsubscribeAlerts } from "./routes/alerts";
+import {
+  handleCheckoutQuote,
+  handleReleaseStock,
+  handleReserveStock,
+} from "./routes/checkout";
+import { handleValidateCoupon } from "./routes/coupons";
+import { handleGetInvoice } from "./routes/invoices";
+import { handlePlaceOrder } from "./routes/orders";
+import { handleListProducts } from "./routes/products";
+import {
+  handleGetMyReview,
+  handleListReviews,
+  handleSubmitReview,
+} from "./routes/reviews";
+import { handleSearchSuggestions } from "./routes/search";
+import { handleShippingEstimate } from "./routes/shipping";
+import { handleTrackOrder } from "./routes/tracking";
+import { handleGetSharedWishlist } from "./routes/wishlists";
+import {
+  handleCreatePayment,
+  handleMockPayment,
+  handlePaymentFailure,
+  handlePaymentWebhook,
+  handleVerifyPayment,
+} from "./routes/payments";
 
 export function createServer() {
   const app = express();
 
+  // In production Netlify's edge is one proxy hop in front of us; trust its
+  // X-Forwarded-For so rate limits see the real client IP
+  app.set("trust proxy", 1);
+
   // Middleware
   app.use(cors());
-  app.use(express.json());
+  app.use(
+    express.json({
+      // Payment webhooks are signed over the exact bytes we received
+      verify: (req, _res, buf) => {
+        (req as express.Request & { rawBody?: Buffer }).rawBody = buf;
+      },
+    }),
+  );
   app.use(express.urlencoded({ extended: true }));
 
   // Example API routes
@@ -14,5 +68,126 @@ export function createServer() {
     res.json({ message: "Hello from Express server v2!" });
   });
 
+  // Checkout
+  app.post("/api/checkout/reservation", requireAuth, handleReserveStock);
+  app.delete("/api/checkout/reservation", requireAuth, handleReleaseStock);
+  app.post("/api/checkout/quote", requireAuth, handleCheckoutQuote);
+
+  // Catalogue
+  app.get("/api/products", handleListProducts);
+  app.get("/api/products/:productId/reviews", handleListReviews);
+  app.get(
+    "/api/products/:productId/reviews/mine",
+    requireAuth,
+    handleGetMyReview,
+  );
+  app.post(
+    "/api/products/:productId/reviews",
+    requireAuth,
+    rateLimit({
+      name: "submit-review",
+      limit: 10,
+      windowSeconds: 60 * 60,
+      message: "Too many reviews. Please try again later.",
+    }),
+    handleSubmitReview,
+  );
+  app.get("/api/search/suggestions", handleSearchSuggestions);
+
+  // Wishlists
+  app.get("/api/wishlists/:token", handleGetSharedWishlist);
+
+  // Alerts
+  // No per-IP limit: mail providers send one-click unsubscribes from a few
+  // shared addresses, and the token is the credential
+  app.post("/api/alerts/unsubscribe", handleUnsubscribeAlerts);
+  app.post("/api/alerts/send", handleSendAlerts);
+
+  // Shipping
+  app.post("/api/shipping/estimate", handleShippingEstimate);
+
+  // Coupons
+  app.post("/api/coupons/validate", requireAuth, handleValidateCoupon);
+
+  // Orders
+  app.post("/api/orders", requireAuth, handlePlaceOrder);
+  app.get("/api/orders/:orderId/invoice", requireAuth, handleGetInvoice);
+  app.post(
+    "/api/orders/track",
+    rateLimit({
+      name: "track-order",
+      limit: 10,
+      windowSeconds: 15 * 60,
+      message: "Too many tracking attempts. Please try again in a few minutes.",
+    }),
+    handleTrackOrder,
+  );
+
+  // Payments
+  app.post("/api/payments/order", requireAuth, handleCreatePayment);
+  app.post("/api/payments/verify", requireAuth, handleVerifyPayment);
+  app.post("/api/payments/failure", requireAuth, handlePaymentFailure);
+  app.post("/api/payments/mock/pay", requireAuth, handleMockPayment);
+  app.post("/api/payments/webhook", handlePaymentWebhook);
+
+  // Admin
+  app.get(
+    "/api/admin/stats",
+    requireAuth,
+    requirePermission("reports.view"),
+    handleGetAdminStats,
+  );
+  app.get(
+    "/api/admin/products/export",
+    requireAuth,
+    requirePermission("products.write"),
+    handleExportProducts,
+  );
+  app.post(
+    "/api/admin/products/import",
+    requireAuth,
+    requirePermission("products.write"),
+    // The body is the spreadsheet file itself
+    express.raw({ type: () => true, limit: "5mb" }),
+    handleImportProducts,
+  );
+  app.post(
+    "/api/admin/orders/:orderId/status",
+    requireAuth,
+    requirePermission("orders.write"),
+    handleChangeOrderStatus,
+  );
+  app.get(
+    "/api/admin/customers",
+    requireAuth,
+    requirePermission("users.view"),
+    handleListCustomers,
+  );
+  app.get(
+    "/api/admin/customers/:userId",
+    requireAuth,
+    requirePermission("users.view"),
+    handleGetCustomer,
+  );
+
+  app.get(
+    "/api/admin/reviews",
+    requireAuth,
+    requirePermission("reviews.moderate"),
+    handleListReviewsForModeration,
+  );
+  app.post(
+    "/api/admin/reviews/:reviewId",
+    requireAuth,
+    requirePermission("reviews.moderate"),
+    handleModerateReview,
+  );
+  app.delete(
+    "/api/admin/reviews/:reviewId/photos/:photoId",
+    requireAuth,
+    requirePermission("reviews.moderate"),
+    handleDeleteReviewPhoto,
+  );
+
   return app;
 }
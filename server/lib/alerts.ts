@@ -0,0 +1,128 @@
+import { AlertKind } from "@shared/api";
+import { EmailMessage, getEmailSender } from "./email";
+import { getSupabaseAdmin } from "./supabase";
+
+interface ClaimedNotificationRow {
+  id: string;
+  kind: AlertKind;
+  email: string | null;
+  first_name: string | null;
+  product_id: string;
+  product_name: string;
+  image_url: string | null;
+  data: {
+    size?: string | null;
+    colorName?: string | null;
+    oldPrice?: number;
+    newPrice?: number;
+  };
+  unsubscribe_token: string;
+}
+
+const BATCH_SIZE = 50;
+
+function siteUrl(): string {
+  return (process.env.SITE_URL || "http://localhost:8080").replace(/\/$/, "");
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function formatPrice(amount: number): string {
+  return `₹${Number(amount).toLocaleString("en-IN")}`;
+}
+
+function alertEmail(row: ClaimedNotificationRow, email: string): EmailMessage {
+  const productUrl = `${siteUrl()}/product/${row.product_id}`;
+  const unsubscribe = new URLSearchParams({
+    token: row.unsubscribe_token,
+    type: row.kind,
+  });
+  const greeting = row.first_name ? `Hi ${row.first_name},` : "Hi,";
+
+  let subject: string;
+  let line: string;
+  if (row.kind === "back_in_stock") {
+    const variant = [row.data.size, row.data.colorName]
+      .filter(Boolean)
+      .join(" / ");
+    subject = `Back in stock: ${row.product_name}`;
+    line = `${row.product_name}${variant ? ` in ${variant}` : ""} is back in stock. Sizes sell out fast, so don't wait too long.`;
+  } else {
+    subject = `Price drop: ${row.product_name}`;
+    line = `${row.product_name} from your wishlist is now ${formatPrice(row.data.newPrice!)}, down from ${formatPrice(row.data.oldPrice!)}.`;
+  }
+
+  const unsubscribeText =
+    row.kind === "back_in_stock"
+      ? "Stop back-in-stock alerts"
+      : "Stop price-drop alerts";
+
+  return {
+    to: email,
+    subject,
+    text: `${greeting}\n\n${line}\n\n${productUrl}\n\n${unsubscribeText}: ${siteUrl()}/alerts/unsubscribe?${unsubscribe}`,
+    html: `
+      <p>${escapeHtml(greeting)}</p>
+      ${row.image_url ? `<p><img src="${escapeHtml(row.image_url)}" alt="" width="240" /></p>` : ""}
+      <p>${escapeHtml(line)}</p>
+      <p><a href="${escapeHtml(productUrl)}">Shop now</a></p>
+      <p style="font-size:12px;color:#6b7280">
+        <a href="${escapeHtml(`${siteUrl()}/alerts/unsubscribe?${unsubscribe}`)}">${unsubscribeText}</a>
+      </p>
+    `,
+    unsubscribeUrl: `${siteUrl()}/api/alerts/unsubscribe?${unsubscribe}`,
+  };
+}
+
+/**
+ * Emails a batch of queued back-in-stock and price-drop alerts. Failed
+ * sends are retried by later runs, up to five attempts each.
+ */
+export async function sendPendingAlerts(): Promise<{
+  sent: number;
+  failed: number;
+}> {
+  // Before claiming anything, so a missing provider leaves alerts queued
+  const sender = getEmailSender();
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase.rpc("claim_notifications", {
+    p_limit: BATCH_SIZE,
+  });
+  if (error) throw error;
+
+  let sent = 0;
+  let failed = 0;
+
+  for (const row of (data || []) as ClaimedNotificationRow[]) {
+    try {
+      if (!row.email) throw new Error("Customer has no email address");
+
+      await sender.send(alertEmail(row, row.email));
+      const { error: updateError } = await supabase
+        .from("notifications")
+        .update({ sent_at: new Date().toISOString(), last_error: null })
+        .eq("id", row.id);
+      if (updateError) throw updateError;
+      sent++;
+    } catch (sendError) {
+      failed++;
+      console.error(`Error sending alert ${row.id}:`, sendError);
+      await supabase
+        .from("notifications")
+        .update({
+          last_error:
+            sendError instanceof Error ? sendError.message : String(sendError),
+          locked_until: null,
+        })
+        .eq("id", row.id);
+    }
+  }
+
+  return { sent, failed };
+}
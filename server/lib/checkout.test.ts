@@ -0,0 +1,170 @@
+import { PGlite } from "@electric-sql/pglite";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { CheckoutQuoteRow, toCheckoutQuote } from "./checkout";
+import {
+  addCartLine,
+  createPricingDatabase,
+  createShopper,
+} from "./testDatabase";
+
+// The store ships from Tamil Nadu; Chennai is local, Bengaluru is not
+const STORE_STATE = "Tamil Nadu";
+const CHENNAI_PIN = "600001";
+const BENGALURU_PIN = "560001";
+
+let db: PGlite;
+
+beforeAll(async () => {
+  db = await createPricingDatabase();
+});
+
+afterAll(async () => {
+  await db.close();
+});
+
+interface TaxLineRow {
+  gst_rate: string;
+  taxable_value: string;
+  cgst_amount: string;
+  sgst_amount: string;
+  igst_amount: string;
+}
+
+async function gstRateFor(unitPrice: number): Promise<number> {
+  const { rows } = await db.query<{ rate: string }>(
+    "SELECT gst_rate_for($1) AS rate",
+    [unitPrice],
+  );
+  return Number(rows[0].rate);
+}
+
+async function taxLines(userId: string, state: string): Promise<TaxLineRow[]> {
+  const { rows } = await db.query<TaxLineRow>(
+    "SELECT * FROM cart_tax_lines($1, $2)",
+    [userId, state],
+  );
+  return rows;
+}
+
+async function quote(
+  userId: string,
+  pinCode: string,
+  state: string,
+  paymentMethod = "razorpay",
+) {
+  const { rows } = await db.query<CheckoutQuoteRow>(
+    "SELECT * FROM checkout_quote($1, $2, $3, $4)",
+    [userId, pinCode, state, paymentMethod],
+  );
+  return toCheckoutQuote(rows[0]);
+}
+
+describe("gst_rate_for", () => {
+  it("charges 5% up to ₹1,000 a piece before tax", async () => {
+    // ₹1,049 is ₹999.05 before 5% GST
+    expect(await gstRateFor(1049)).toBe(5);
+    expect(await gstRateFor(1050)).toBe(5);
+  });
+
+  it("charges 12% above ₹1,000 a piece before tax", async () => {
+    expect(await gstRateFor(1050.01)).toBe(12);
+    expect(await gstRateFor(1299)).toBe(12);
+  });
+});
+
+describe("cart_tax_lines", () => {
+  it("splits GST into CGST and SGST inside the store's state", async () => {
+    const userId = await createShopper(db);
+    await addCartLine(db, userId, { price: 1049 });
+
+    const [line] = await taxLines(userId, STORE_STATE);
+
+    // ₹1,049 includes ₹49.95 of 5% GST; the odd paisa goes to CGST
+    expect(Number(line.gst_rate)).toBe(5);
+    expect(Number(line.taxable_value)).toBe(999.05);
+    expect(Number(line.cgst_amount)).toBe(24.98);
+    expect(Number(line.sgst_amount)).toBe(24.97);
+    expect(Number(line.igst_amount)).toBe(0);
+  });
+
+  it("matches the store's state whatever the case and spacing", async () => {
+    const userId = await createShopper(db);
+    await addCartLine(db, userId, { price: 1049 });
+
+    const [line] = await taxLines(userId, "  tamil nadu ");
+
+    expect(Number(line.cgst_amount)).toBe(24.98);
+    expect(Number(line.igst_amount)).toBe(0);
+  });
+
+  it("charges IGST only outside the store's state", async () => {
+    const userId = await createShopper(db);
+    await addCartLine(db, userId, { price: 1299 });
+
+    const [line] = await taxLines(userId, "Karnataka");
+
+    // ₹1,299 is in the 12% slab: ₹1,159.82 plus ₹139.18 GST
+    expect(Number(line.gst_rate)).toBe(12);
+    expect(Number(line.taxable_value)).toBe(1159.82);
+    expect(Number(line.cgst_amount)).toBe(0);
+    expect(Number(line.sgst_amount)).toBe(0);
+    expect(Number(line.igst_amount)).toBe(139.18);
+  });
+
+  it("picks the slab on the per-piece price, not the line total", async () => {
+    const userId = await createShopper(db);
+    await addCartLine(db, userId, { price: 1049, quantity: 3 });
+
+    const [line] = await taxLines(userId, "Karnataka");
+
+    expect(Number(line.gst_rate)).toBe(5);
+    expect(Number(line.igst_amount)).toBe(149.86);
+  });
+});
+
+describe("checkout_quote", () => {
+  it("keeps GST inside the subtotal and ships free over ₹999", async () => {
+    const userId = await createShopper(db);
+    await addCartLine(db, userId, { price: 1049 });
+
+    const result = await quote(userId, CHENNAI_PIN, STORE_STATE);
+
+    expect(result.subtotal).toBe(1049);
+    expect(result.taxAmount).toBe(49.95);
+    expect(result.gst).toEqual({ cgst: 24.98, sgst: 24.97, igst: 0 });
+    expect(result.shippingAmount).toBe(0);
+    expect(result.totalAmount).toBe(1049);
+  });
+
+  it("adds shipping to the total and reports IGST for another state", async () => {
+    const userId = await createShopper(db);
+    await addCartLine(db, userId, { price: 499, weightGrams: 400 });
+
+    const result = await quote(userId, BENGALURU_PIN, "Karnataka");
+
+    // ₹499 is in the 5% slab: ₹23.76 GST
+    expect(result.gst).toEqual({ cgst: 0, sgst: 0, igst: 23.76 });
+    expect(result.taxAmount).toBe(23.76);
+    // Metro zone, up to 500 g
+    expect(result.shippingAmount).toBe(60);
+    expect(result.totalAmount).toBe(559);
+  });
+
+  it("adds the COD fee to shipping only when paying by COD", async () => {
+    const userId = await createShopper(db);
+    await addCartLine(db, userId, { price: 1049 });
+    await db.query("UPDATE cod_settings SET fee = 49");
+
+    try {
+      const online = await quote(userId, CHENNAI_PIN, STORE_STATE);
+      const cod = await quote(userId, CHENNAI_PIN, STORE_STATE, "cod");
+
+      expect(online.cod).toEqual({ eligible: true, reason: null, fee: 49 });
+      expect(online.totalAmount).toBe(1049);
+      expect(cod.shippingAmount).toBe(49);
+      expect(cod.totalAmount).toBe(1098);
+    } finally {
+      await db.query("UPDATE cod_settings SET fee = 0");
+    }
+  });
+});
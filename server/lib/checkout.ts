@@ -0,0 +1,50 @@
+import { CheckoutQuoteResponse } from "@shared/api";
+import { ShippingQuoteRow, toShippingQuote } from "./shipping";
+
+export interface CheckoutQuoteRow {
+  subtotal: number;
+  discount_amount: number;
+  tax_amount: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+  shipping_amount: number;
+  total_amount: number;
+  cod_eligible: boolean;
+  cod_reason: string | null;
+  cod_fee: number;
+  coupon_code: string | null;
+  coupon_valid: boolean;
+  coupon_message: string | null;
+  free_shipping: boolean;
+  shipping: ShippingQuoteRow;
+}
+
+export function toCheckoutQuote(row: CheckoutQuoteRow): CheckoutQuoteResponse {
+  return {
+    subtotal: Number(row.subtotal),
+    discountAmount: Number(row.discount_amount),
+    coupon: row.coupon_code
+      ? {
+          code: row.coupon_code,
+          valid: row.coupon_valid,
+          message: row.coupon_message,
+          freeShipping: row.free_shipping,
+        }
+      : null,
+    taxAmount: Number(row.tax_amount),
+    gst: {
+      cgst: Number(row.cgst_amount),
+      sgst: Number(row.sgst_amount),
+      igst: Number(row.igst_amount),
+    },
+    shippingAmount: Number(row.shipping_amount),
+    totalAmount: Number(row.total_amount),
+    cod: {
+      eligible: row.cod_eligible,
+      reason: row.cod_reason,
+      fee: Number(row.cod_fee),
+    },
+    shipping: toShippingQuote(row.shipping),
+  };
+}
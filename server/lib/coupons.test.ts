@@ -0,0 +1,185 @@
+import { PGlite } from "@electric-sql/pglite";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { DiscountLineRow, sumDiscountLines } from "./coupons";
+import {
+  addCartLine,
+  createPricingDatabase,
+  createShopper,
+} from "./testDatabase";
+
+let db: PGlite;
+
+beforeAll(async () => {
+  db = await createPricingDatabase();
+});
+
+afterAll(async () => {
+  await db.close();
+});
+
+interface CouponOptions {
+  type: "percentage" | "flat";
+  value: number;
+  maxDiscount?: number;
+  minCartValue?: number;
+  subcategories?: string[];
+}
+
+async function createCoupon(
+  code: string,
+  {
+    type,
+    value,
+    maxDiscount,
+    minCartValue = 0,
+    subcategories = [],
+  }: CouponOptions,
+): Promise<string> {
+  const { rows } = await db.query<{ id: string }>(
+    `INSERT INTO coupons (code, type, value, max_discount, min_cart_value, subcategories)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING id`,
+    [code, type, value, maxDiscount ?? null, minCartValue, subcategories],
+  );
+  return rows[0].id;
+}
+
+async function discountLines(
+  userId: string,
+  couponId: string,
+): Promise<DiscountLineRow[]> {
+  const { rows } = await db.query<DiscountLineRow>(
+    "SELECT * FROM cart_discount_lines($1, $2)",
+    [userId, couponId],
+  );
+  return rows;
+}
+
+describe("cart_discount_lines", () => {
+  it("spreads a capped discount so the lines add up to the cap", async () => {
+    const userId = await createShopper(db);
+    for (let i = 0; i < 3; i++) {
+      await addCartLine(db, userId, { price: 1299 });
+    }
+    // 20% of ₹3,897 is ₹779.40; the cap brings it down to ₹200
+    const couponId = await createCoupon("CAP200", {
+      type: "percentage",
+      value: 20,
+      maxDiscount: 200,
+    });
+
+    const lines = await discountLines(userId, couponId);
+
+    expect(lines.map((line) => Number(line.discount_amount)).sort()).toEqual([
+      66.66, 66.67, 66.67,
+    ]);
+    expect(sumDiscountLines(lines)).toBe(200);
+  });
+
+  it("gives a flat discount's rounding remainder to the dearest line", async () => {
+    const userId = await createShopper(db);
+    const first = await addCartLine(db, userId, { price: 100 });
+    const second = await addCartLine(db, userId, { price: 100 });
+    const dear = await addCartLine(db, userId, { price: 101 });
+    // ₹100 over ₹301 rounds to 33.22 + 33.22 + 33.55, a paisa short
+    const couponId = await createCoupon("FLAT100", {
+      type: "flat",
+      value: 100,
+    });
+
+    const lines = await discountLines(userId, couponId);
+    const byLine = Object.fromEntries(
+      lines.map((line) => [line.cart_item_id, Number(line.discount_amount)]),
+    );
+
+    expect(byLine).toEqual({ [first]: 33.22, [second]: 33.22, [dear]: 33.56 });
+    expect(sumDiscountLines(lines)).toBe(100);
+  });
+
+  it("never discounts more than the eligible lines are worth", async () => {
+    const userId = await createShopper(db);
+    await addCartLine(db, userId, { price: 149 });
+    const couponId = await createCoupon("FLAT500", {
+      type: "flat",
+      value: 500,
+    });
+
+    expect(sumDiscountLines(await discountLines(userId, couponId))).toBe(149);
+  });
+
+  it("only discounts lines in the coupon's subcategories", async () => {
+    const userId = await createShopper(db);
+    const leggings = await addCartLine(db, userId, {
+      price: 499,
+      subcategory: "Full Length",
+    });
+    await addCartLine(db, userId, { price: 799, subcategory: "Polo (Collar)" });
+    const couponId = await createCoupon("LEGGINGS10", {
+      type: "percentage",
+      value: 10,
+      subcategories: ["Full Length"],
+    });
+
+    const lines = await discountLines(userId, couponId);
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0].cart_item_id).toBe(leggings);
+    expect(Number(lines[0].discount_amount)).toBe(49.9);
+  });
+});
+
+describe("evaluate_coupon", () => {
+  it("turns a coupon down below its minimum cart value", async () => {
+    const userId = await createShopper(db);
+    await addCartLine(db, userId, { price: 1049 });
+    await createCoupon("MIN1500", {
+      type: "flat",
+      value: 200,
+      minCartValue: 1500,
+    });
+
+    const { rows } = await db.query<{ is_valid: boolean; message: string }>(
+      "SELECT is_valid, message FROM evaluate_coupon($1, 'min1500')",
+      [userId],
+    );
+
+    expect(rows[0]).toEqual({
+      is_valid: false,
+      message: "Add items worth ₹451.00 more to use this coupon",
+    });
+  });
+
+  it("accepts the coupon once the cart reaches the minimum", async () => {
+    const userId = await createShopper(db);
+    await addCartLine(db, userId, { price: 750, quantity: 2 });
+    await createCoupon("MIN1500B", {
+      type: "flat",
+      value: 200,
+      minCartValue: 1500,
+    });
+
+    const { rows } = await db.query<{ is_valid: boolean }>(
+      "SELECT is_valid FROM evaluate_coupon($1, 'MIN1500B')",
+      [userId],
+    );
+
+    expect(rows[0].is_valid).toBe(true);
+  });
+});
+
+describe("sumDiscountLines", () => {
+  it("adds rounded line discounts without float error", () => {
+    // 10% off lines of ₹101 and ₹202
+    expect(
+      sumDiscountLines([
+        { cart_item_id: "a", discount_amount: 10.1 },
+        { cart_item_id: "b", discount_amount: 20.2 },
+      ]),
+    ).toBe(30.3);
+  });
+
+  it("is zero when the coupon gives no line a discount", () => {
+    expect(sumDiscountLines([])).toBe(0);
+    expect(sumDiscountLines(null)).toBe(0);
+  });
+});
@@ -0,0 +1,16 @@
+export interface DiscountLineRow {
+  cart_item_id: string;
+  discount_amount: number;
+}
+
+/**
+ * Total of the per-line discounts from cart_discount_lines. Added up in
+ * paise so the rounded lines don't pick up float error on the way.
+ */
+export function sumDiscountLines(rows: DiscountLineRow[] | null): number {
+  const paise = (rows || []).reduce(
+    (sum, row) => sum + Math.round(Number(row.discount_amount) * 100),
+    0,
+  );
+  return paise / 100;
+}
@@ -0,0 +1,34 @@
+import { EmailSender } from "./sender";
+import { LogEmailSender } from "./log";
+import { ResendEmailSender } from "./resend";
+
+export type { EmailMessage, EmailSender } from "./sender";
+
+let sender: EmailSender | null = null;
+
+/**
+ * Resend when EMAIL_PROVIDER=resend and a key is configured, otherwise
+ * emails are only logged. Logging is refused in production, where it would
+ * quietly drop every email.
+ */
+export function getEmailSender(): EmailSender {
+  if (sender) return sender;
+
+  const apiKey = process.env.RESEND_API_KEY;
+  const from = process.env.EMAIL_FROM;
+
+  if (process.env.EMAIL_PROVIDER === "resend") {
+    if (!apiKey || !from) {
+      throw new Error(
+        "EMAIL_PROVIDER=resend requires RESEND_API_KEY and EMAIL_FROM",
+      );
+    }
+    sender = new ResendEmailSender(apiKey, from);
+  } else if (process.env.NODE_ENV === "production") {
+    throw new Error("Set EMAIL_PROVIDER=resend to send email in production");
+  } else {
+    sender = new LogEmailSender();
+  }
+
+  return sender;
+}
@@ -0,0 +1,15 @@
+import { EmailMessage, EmailSender } from "./sender";
+
+/**
+ * Prints emails to the server log instead of sending them, so alerts can be
+ * tried out without a provider account
+ */
+export class LogEmailSender implements EmailSender {
+  readonly name = "log" as const;
+
+  async send(message: EmailMessage): Promise<void> {
+    console.log(
+      `📧 Email to ${message.to}: ${message.subject}\n${message.text}`,
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { EmailMessage, EmailSender } from "./sender";
+
+const RESEND_API_URL = "https://api.resend.com";
+
+export class ResendEmailSender implements EmailSender {
+  readonly name = "resend" as const;
+
+  constructor(
+    private apiKey: string,
+    private from: string,
+  ) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    const response = await fetch(`${RESEND_API_URL}/emails`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        from: this.from,
+        to: [message.to],
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+        headers: message.unsubscribeUrl
+          ? {
+              "List-Unsubscribe": `<${message.unsubscribeUrl}>`,
+              "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+            }
+          : undefined,
+      }),
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(
+        `Resend email failed: ${body?.message || response.status}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,18 @@
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  /** Plain-text version for mail clients that don't show HTML */
+  text: string;
+  /** One-click unsubscribe link, sent as the List-Unsubscribe header */
+  unsubscribeUrl?: string;
+}
+
+/**
+ * What the store needs from an email provider. Implemented by Resend and by
+ * a logger for local development.
+ */
+export interface EmailSender {
+  readonly name: "resend" | "log";
+  send(message: EmailMessage): Promise<void>;
+}
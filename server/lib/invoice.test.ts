@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { amountInWords } from "./invoice";
+
+describe("amountInWords", () => {
+  it("writes rupees and paise", () => {
+    expect(amountInWords(1040.5)).toBe(
+      "Rupees One Thousand Forty and Fifty Paise Only",
+    );
+  });
+
+  it("leaves out paise on whole rupee amounts", () => {
+    expect(amountInWords(999)).toBe("Rupees Nine Hundred Ninety Nine Only");
+  });
+
+  it("groups large amounts in lakh and crore", () => {
+    expect(amountInWords(12345678)).toBe(
+      "Rupees One Crore Twenty Three Lakh Forty Five Thousand Six Hundred Seventy Eight Only",
+    );
+  });
+
+  it("rounds float error to the nearest paisa", () => {
+    // 0.1 + 0.2 is 0.30000000000000004
+    expect(amountInWords(0.1 + 0.2)).toBe("Rupees Zero and Thirty Paise Only");
+    expect(amountInWords(1128.999999)).toBe(
+      "Rupees One Thousand One Hundred Twenty Nine Only",
+    );
+  });
+});
@@ -0,0 +1,325 @@
+import PDFDocument from "pdfkit";
+
+export interface InvoiceSeller {
+  legalName: string;
+  address: string | null;
+  gstin: string | null;
+  state: string;
+}
+
+export interface InvoiceAddress {
+  name: string;
+  street: string;
+  city: string;
+  state: string;
+  postal_code: string;
+  phone?: string;
+}
+
+export interface InvoiceLine {
+  description: string;
+  hsnCode: string;
+  quantity: number;
+  gstRate: number;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  total: number;
+}
+
+export interface InvoiceData {
+  invoiceNumber: string;
+  issuedAt: Date;
+  orderNumber: string;
+  orderDate: Date;
+  seller: InvoiceSeller;
+  billTo: InvoiceAddress;
+  shipTo: InvoiceAddress;
+  lines: InvoiceLine[];
+  /** Coupon discount already taken off the line values */
+  discount: number;
+  couponCode: string | null;
+  /** Shipping and COD charges, billed without GST */
+  charges: number;
+  total: number;
+}
+
+const ONES = [
+  "",
+  "One",
+  "Two",
+  "Three",
+  "Four",
+  "Five",
+  "Six",
+  "Seven",
+  "Eight",
+  "Nine",
+  "Ten",
+  "Eleven",
+  "Twelve",
+  "Thirteen",
+  "Fourteen",
+  "Fifteen",
+  "Sixteen",
+  "Seventeen",
+  "Eighteen",
+  "Nineteen",
+];
+
+const TENS = [
+  "",
+  "",
+  "Twenty",
+  "Thirty",
+  "Forty",
+  "Fifty",
+  "Sixty",
+  "Seventy",
+  "Eighty",
+  "Ninety",
+];
+
+function belowHundred(n: number): string {
+  if (n < 20) return ONES[n];
+  return [TENS[Math.floor(n / 10)], ONES[n % 10]].filter(Boolean).join(" ");
+}
+
+function belowThousand(n: number): string {
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  return [
+    hundreds ? `${ONES[hundreds]} Hundred` : "",
+    rest ? belowHundred(rest) : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+// Indian numbering: 1,23,45,678 is one crore, twenty three lakh, ...
+function integerInWords(n: number): string {
+  if (n === 0) return "Zero";
+
+  const crore = Math.floor(n / 10000000);
+  const lakh = Math.floor((n % 10000000) / 100000);
+  const thousand = Math.floor((n % 100000) / 1000);
+  const rest = n % 1000;
+
+  return [
+    crore ? `${integerInWords(crore)} Crore` : "",
+    lakh ? `${belowHundred(lakh)} Lakh` : "",
+    thousand ? `${belowHundred(thousand)} Thousand` : "",
+    rest ? belowThousand(rest) : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+/**
+ * Amount in words for the invoice, e.g. 1040.50 is
+ * "Rupees One Thousand Forty and Fifty Paise Only"
+ */
+export function amountInWords(amount: number): string {
+  const paiseTotal = Math.round(amount * 100);
+  const rupees = Math.floor(paiseTotal / 100);
+  const paise = paiseTotal % 100;
+
+  const words = `Rupees ${integerInWords(rupees)}`;
+  return paise
+    ? `${words} and ${belowHundred(paise)} Paise Only`
+    : `${words} Only`;
+}
+
+// The built-in PDF fonts have no rupee sign
+function money(amount: number): string {
+  return amount.toLocaleString("en-IN", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString("en-IN", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+    timeZone: "Asia/Kolkata",
+  });
+}
+
+function addressLines(address: InvoiceAddress): string[] {
+  return [
+    address.name,
+    address.street,
+    `${address.city}, ${address.state} ${address.postal_code}`,
+    address.phone ? `Phone: ${address.phone}` : "",
+  ].filter(Boolean);
+}
+
+const COLUMNS = [
+  { label: "#", width: 20, align: "left" },
+  { label: "Item", width: 140, align: "left" },
+  { label: "HSN", width: 40, align: "left" },
+  { label: "Qty", width: 25, align: "right" },
+  { label: "Taxable", width: 60, align: "right" },
+  { label: "GST %", width: 35, align: "right" },
+  { label: "CGST", width: 45, align: "right" },
+  { label: "SGST", width: 45, align: "right" },
+  { label: "IGST", width: 45, align: "right" },
+  { label: "Total", width: 60, align: "right" },
+] as const;
+
+/**
+ * Renders a GST tax invoice and resolves with the PDF bytes
+ */
+export function renderInvoicePdf(invoice: InvoiceData): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "A4", margin: 40 });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    const left = doc.page.margins.left;
+    const width =
+      doc.page.width - doc.page.margins.left - doc.page.margins.right;
+
+    // Seller
+    doc.font("Helvetica-Bold").fontSize(16).text(invoice.seller.legalName);
+    doc.font("Helvetica").fontSize(9);
+    if (invoice.seller.address) doc.text(invoice.seller.address);
+    doc.text(`State: ${invoice.seller.state}`);
+    if (invoice.seller.gstin) doc.text(`GSTIN: ${invoice.seller.gstin}`);
+
+    doc
+      .moveDown()
+      .font("Helvetica-Bold")
+      .fontSize(14)
+      .text("TAX INVOICE", { align: "center" })
+      .moveDown(0.5);
+
+    // Invoice details
+    doc.font("Helvetica").fontSize(9);
+    const detailsTop = doc.y;
+    doc.text(`Invoice No: ${invoice.invoiceNumber}`, left, detailsTop);
+    doc.text(`Invoice Date: ${formatDate(invoice.issuedAt)}`);
+    doc.text(`Order No: ${invoice.orderNumber}`, left + width / 2, detailsTop);
+    doc.text(`Order Date: ${formatDate(invoice.orderDate)}`);
+    doc.text(`Place of Supply: ${invoice.shipTo.state}`);
+
+    // Addresses
+    doc.moveDown();
+    const addressTop = doc.y;
+    doc.font("Helvetica-Bold").text("Bill To", left, addressTop);
+    doc.font("Helvetica").text(addressLines(invoice.billTo).join("\n"));
+    const billBottom = doc.y;
+    doc.font("Helvetica-Bold").text("Ship To", left + width / 2, addressTop);
+    doc.font("Helvetica").text(addressLines(invoice.shipTo).join("\n"));
+    doc.y = Math.max(billBottom, doc.y);
+
+    // Line items
+    doc.moveDown();
+    const drawRow = (cells: string[], bold = false) => {
+      const top = doc.y;
+      let x = left;
+      let bottom = top;
+      doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(8);
+      COLUMNS.forEach((column, index) => {
+        doc.text(cells[index], x, top, {
+          width: column.width - 4,
+          align: column.align,
+        });
+        bottom = Math.max(bottom, doc.y);
+        x += column.width;
+      });
+      doc.y = bottom + 4;
+      doc
+        .moveTo(left, doc.y - 2)
+        .lineTo(left + width, doc.y - 2)
+        .strokeColor("#dddddd")
+        .stroke();
+    };
+
+    drawRow(
+      COLUMNS.map((column) => column.label),
+      true,
+    );
+    invoice.lines.forEach((line, index) => {
+      drawRow([
+        String(index + 1),
+        line.description,
+        line.hsnCode,
+        String(line.quantity),
+        money(line.taxableValue),
+        `${line.gstRate}%`,
+        money(line.cgst),
+        money(line.sgst),
+        money(line.igst),
+        money(line.total),
+      ]);
+    });
+
+    // Totals
+    const sum = (pick: (line: InvoiceLine) => number) =>
+      invoice.lines.reduce((total, line) => total + pick(line), 0);
+
+    const totals: Array<[string, number]> = [
+      ["Taxable Value", sum((line) => line.taxableValue)],
+      ["CGST", sum((line) => line.cgst)],
+      ["SGST", sum((line) => line.sgst)],
+      ["IGST", sum((line) => line.igst)],
+    ];
+    if (invoice.charges > 0) {
+      totals.push(["Shipping & Handling", invoice.charges]);
+    }
+
+    doc.moveDown(0.5).fontSize(9);
+    totals.forEach(([label, amount]) => {
+      const top = doc.y;
+      doc.font("Helvetica").text(label, left + width - 220, top, {
+        width: 120,
+      });
+      doc.text(money(amount), left + width - 100, top, {
+        width: 100,
+        align: "right",
+      });
+    });
+
+    const grandTop = doc.y + 4;
+    doc
+      .font("Helvetica-Bold")
+      .fontSize(11)
+      .text("Grand Total (INR)", left + width - 220, grandTop, { width: 120 });
+    doc.text(money(invoice.total), left + width - 100, grandTop, {
+      width: 100,
+      align: "right",
+    });
+
+    doc
+      .moveDown()
+      .font("Helvetica")
+      .fontSize(9)
+      .text(`Amount in words: ${amountInWords(invoice.total)}`, left);
+
+    if (invoice.discount > 0) {
+      const coupon = invoice.couponCode
+        ? ` (coupon ${invoice.couponCode})`
+        : "";
+      doc.text(
+        `Line values are after a discount of ${money(invoice.discount)}${coupon}.`,
+      );
+    }
+
+    doc
+      .moveDown(2)
+      .fontSize(8)
+      .fillColor("#666666")
+      .text(
+        "This is a computer generated invoice and does not require a signature.",
+        { align: "center" },
+      );
+
+    doc.end();
+  });
+}
@@ -0,0 +1,35 @@
+export interface CreateGatewayOrderInput {
+  /** Amount in the smallest currency unit (paise for INR) */
+  amount: number;
+  currency: string;
+  /** Our order number, shown in the gateway dashboard */
+  receipt: string;
+  notes?: Record<string, string>;
+}
+
+export interface GatewayOrder {
+  id: string;
+  amount: number;
+  currency: string;
+}
+
+export interface PaymentSignatureInput {
+  gatewayOrderId: string;
+  gatewayPaymentId: string;
+  signature: string;
+}
+
+/**
+ * What checkout needs from a payment provider. Implemented by the real
+ * Razorpay client and by a local mock so the flow can be tested offline.
+ */
+export interface PaymentGateway {
+  readonly name: "razorpay" | "mock";
+  /** Public key handed to the browser checkout widget, if any */
+  readonly publicKey: string | null;
+  createOrder(input: CreateGatewayOrderInput): Promise<GatewayOrder>;
+  /** Checks the signature the checkout widget returns after payment */
+  verifyPaymentSignature(input: PaymentSignatureInput): boolean;
+  /** Checks the signature header sent with a webhook call */
+  verifyWebhookSignature(rawBody: Buffer, signature: string): boolean;
+}
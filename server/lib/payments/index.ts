@@ -0,0 +1,43 @@
+import { PaymentGateway } from "./gateway";
+import { MockPaymentGateway } from "./mock";
+import { RazorpayGateway } from "./razorpay";
+
+export type { PaymentGateway } from "./gateway";
+export { MockPaymentGateway } from "./mock";
+
+let gateway: PaymentGateway | null = null;
+
+/**
+ * Razorpay when PAYMENT_GATEWAY=razorpay and keys are configured. The local
+ * mock gateway is only allowed outside production and with its own signing
+ * secret, since anyone holding that secret can mark orders paid.
+ */
+export function getPaymentGateway(): PaymentGateway {
+  if (gateway) return gateway;
+
+  const keyId = process.env.RAZORPAY_KEY_ID;
+  const keySecret = process.env.RAZORPAY_KEY_SECRET;
+
+  if (process.env.PAYMENT_GATEWAY === "razorpay") {
+    if (!keyId || !keySecret) {
+      throw new Error(
+        "PAYMENT_GATEWAY=razorpay requires RAZORPAY_KEY_ID and RAZORPAY_KEY_SECRET",
+      );
+    }
+    gateway = new RazorpayGateway(
+      keyId,
+      keySecret,
+      process.env.RAZORPAY_WEBHOOK_SECRET || "",
+    );
+  } else {
+    const mockSecret = process.env.MOCK_PAYMENT_SECRET;
+    if (process.env.NODE_ENV === "production" || !mockSecret) {
+      throw new Error(
+        "Set PAYMENT_GATEWAY=razorpay, or MOCK_PAYMENT_SECRET outside production to use the mock gateway",
+      );
+    }
+    gateway = new MockPaymentGateway(mockSecret);
+  }
+
+  return gateway;
+}
@@ -0,0 +1,51 @@
+import crypto from "crypto";
+import {
+  CreateGatewayOrderInput,
+  GatewayOrder,
+  PaymentGateway,
+  PaymentSignatureInput,
+} from "./gateway";
+import { hmacSha256, signatureMatches } from "./signature";
+
+/**
+ * Offline stand-in for Razorpay. Uses the same `order_id|payment_id` HMAC
+ * scheme with a local secret, so verification code paths are identical.
+ */
+export class MockPaymentGateway implements PaymentGateway {
+  readonly name = "mock" as const;
+  readonly publicKey = null;
+
+  constructor(private secret: string) {}
+
+  async createOrder(input: CreateGatewayOrderInput): Promise<GatewayOrder> {
+    return {
+      id: `order_mock_${crypto.randomBytes(7).toString("hex")}`,
+      amount: input.amount,
+      currency: input.currency,
+    };
+  }
+
+  /**
+   * Plays the part of the checkout widget: returns a payment id and a
+   * signature. A failed payment gets a signature that won't verify.
+   */
+  simulatePayment(gatewayOrderId: string, succeed: boolean) {
+    const gatewayPaymentId = `pay_mock_${crypto.randomBytes(7).toString("hex")}`;
+    const signature = succeed
+      ? hmacSha256(`${gatewayOrderId}|${gatewayPaymentId}`, this.secret)
+      : "invalid";
+    return { gatewayPaymentId, signature };
+  }
+
+  verifyPaymentSignature(input: PaymentSignatureInput): boolean {
+    return signatureMatches(
+      `${input.gatewayOrderId}|${input.gatewayPaymentId}`,
+      this.secret,
+      input.signature,
+    );
+  }
+
+  verifyWebhookSignature(rawBody: Buffer, signature: string): boolean {
+    return signatureMatches(rawBody, this.secret, signature);
+  }
+}
@@ -0,0 +1,65 @@
+import {
+  CreateGatewayOrderInput,
+  GatewayOrder,
+  PaymentGateway,
+  PaymentSignatureInput,
+} from "./gateway";
+import { signatureMatches } from "./signature";
+
+const RAZORPAY_API_URL = "https://api.razorpay.com/v1";
+
+export class RazorpayGateway implements PaymentGateway {
+  readonly name = "razorpay" as const;
+
+  constructor(
+    private keyId: string,
+    private keySecret: string,
+    private webhookSecret: string,
+  ) {}
+
+  get publicKey() {
+    return this.keyId;
+  }
+
+  async createOrder(input: CreateGatewayOrderInput): Promise<GatewayOrder> {
+    const auth = Buffer.from(`${this.keyId}:${this.keySecret}`).toString(
+      "base64",
+    );
+
+    const response = await fetch(`${RAZORPAY_API_URL}/orders`, {
+      method: "POST",
+      headers: {
+        Authorization: `Basic ${auth}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        amount: input.amount,
+        currency: input.currency,
+        receipt: input.receipt,
+        notes: input.notes,
+      }),
+    });
+
+    const body = await response.json();
+    if (!response.ok) {
+      throw new Error(
+        `Razorpay order creation failed: ${body?.error?.description || response.status}`,
+      );
+    }
+
+    return { id: body.id, amount: body.amount, currency: body.currency };
+  }
+
+  verifyPaymentSignature(input: PaymentSignatureInput): boolean {
+    return signatureMatches(
+      `${input.gatewayOrderId}|${input.gatewayPaymentId}`,
+      this.keySecret,
+      input.signature,
+    );
+  }
+
+  verifyWebhookSignature(rawBody: Buffer, signature: string): boolean {
+    if (!this.webhookSecret) return false;
+    return signatureMatches(rawBody, this.webhookSecret, signature);
+  }
+}
@@ -0,0 +1,21 @@
+import crypto from "crypto";
+
+export function hmacSha256(payload: string | Buffer, secret: string): string {
+  return crypto.createHmac("sha256", secret).update(payload).digest("hex");
+}
+
+/**
+ * Constant-time comparison of a hex HMAC against the expected value
+ */
+export function signatureMatches(
+  payload: string | Buffer,
+  secret: string,
+  signature: string,
+): boolean {
+  const expected = Buffer.from(hmacSha256(payload, secret));
+  const actual = Buffer.from(signature || "");
+  return (
+    expected.length === actual.length &&
+    crypto.timingSafeEqual(expected, actual)
+  );
+}
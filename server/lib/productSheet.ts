@@ -0,0 +1,123 @@
+import ExcelJS from "exceljs";
+import { ProductSheetFormat } from "@shared/api";
+
+const CONTENT_TYPES: Record<ProductSheetFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+export function sheetContentType(format: ProductSheetFormat): string {
+  return CONTENT_TYPES[format];
+}
+
+/**
+ * RFC 4180 CSV: quoted fields may hold commas, quotes ("") and line breaks
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+type SheetValue = string | number;
+
+function toCsv(rows: SheetValue[][]): string {
+  return rows
+    .map((row) =>
+      row
+        .map(String)
+        .map((value) =>
+          /[",\r\n]/.test(value) || value !== value.trim()
+            ? `"${value.replace(/"/g, '""')}"`
+            : value,
+        )
+        .join(","),
+    )
+    .join("\r\n");
+}
+
+/**
+ * Every row of the first sheet as text, blank rows included so indexes
+ * line up with the spreadsheet's row numbers
+ */
+export async function readSheet(
+  file: Buffer,
+  format: ProductSheetFormat,
+): Promise<string[][]> {
+  if (format === "csv") {
+    return parseCsv(file.toString("utf8").replace(/^\uFEFF/, ""));
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(file);
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) return [];
+
+  const rows: string[][] = [];
+  for (let r = 1; r <= worksheet.rowCount; r++) {
+    const row = worksheet.getRow(r);
+    const values: string[] = [];
+    for (let c = 1; c <= worksheet.columnCount; c++) {
+      values.push(row.getCell(c).text ?? "");
+    }
+    rows.push(values);
+  }
+  return rows;
+}
+
+/**
+ * Numbers stay numbers in XLSX so spreadsheet apps can sum and sort them
+ */
+export async function writeSheet(
+  rows: SheetValue[][],
+  format: ProductSheetFormat,
+): Promise<Buffer> {
+  if (format === "csv") {
+    // The BOM makes Excel read the file as UTF-8
+    return Buffer.from("\uFEFF" + toCsv(rows), "utf8");
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  const worksheet = workbook.addWorksheet("Products");
+  worksheet.addRows(rows);
+  worksheet.getRow(1).font = { bold: true };
+  worksheet.views = [{ state: "frozen", ySplit: 1 }];
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
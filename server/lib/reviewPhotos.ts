@@ -0,0 +1,152 @@
+import {
+  REVIEW_PHOTO_BUCKET,
+  REVIEW_PHOTO_MAX_BYTES,
+  REVIEW_PHOTO_MAX_DIMENSION,
+  ReviewPhoto,
+} from "@shared/api";
+import { getSupabaseAdmin } from "./supabase";
+
+export interface ReviewPhotoRow {
+  id: string;
+  review_id: string;
+  storage_path: string;
+  is_approved: boolean;
+}
+
+// The bucket is private so photos waiting for a moderator can't be opened
+// by guessing their URL; every photo is shown through a signed URL
+const SIGNED_URL_SECONDS = 60 * 60;
+
+/**
+ * Photos as sent to the browser, each with a signed URL, in `rows` order
+ */
+export async function toReviewPhotos(
+  rows: ReviewPhotoRow[],
+): Promise<ReviewPhoto[]> {
+  if (rows.length === 0) return [];
+
+  const { data, error } = await getSupabaseAdmin()
+    .storage.from(REVIEW_PHOTO_BUCKET)
+    .createSignedUrls(
+      rows.map((row) => row.storage_path),
+      SIGNED_URL_SECONDS,
+    );
+  if (error) throw error;
+
+  const urls = new Map(data.map((signed) => [signed.path, signed.signedUrl]));
+  return rows.map((row) => ({
+    id: row.id,
+    path: row.storage_path,
+    url: urls.get(row.storage_path) || "",
+    approved: row.is_approved,
+  }));
+}
+
+/**
+ * Photos of each review, in the customer's order. With `approvedOnly`,
+ * photos still waiting for a moderator are left out.
+ */
+export async function getReviewPhotos(
+  reviewIds: string[],
+  approvedOnly: boolean,
+): Promise<Map<string, ReviewPhoto[]>> {
+  const photos = new Map<string, ReviewPhoto[]>();
+  if (reviewIds.length === 0) return photos;
+
+  let query = getSupabaseAdmin()
+    .from("review_photos")
+    .select("id, review_id, storage_path, is_approved")
+    .in("review_id", reviewIds)
+    .order("sort_order");
+  if (approvedOnly) query = query.eq("is_approved", true);
+
+  const { data, error } = await query.returns<ReviewPhotoRow[]>();
+  if (error) throw error;
+
+  const rows = data || [];
+  const signed = await toReviewPhotos(rows);
+  rows.forEach((row, index) => {
+    photos.set(row.review_id, [
+      ...(photos.get(row.review_id) || []),
+      signed[index],
+    ]);
+  });
+  return photos;
+}
+
+/**
+ * Deletes photo files from storage. Failures are only logged: the rows are
+ * already gone, and a stray file is harmless.
+ */
+export async function removeReviewPhotoFiles(paths: string[]): Promise<void> {
+  if (paths.length === 0) return;
+
+  const { error } = await getSupabaseAdmin()
+    .storage.from(REVIEW_PHOTO_BUCKET)
+    .remove(paths);
+  if (error) {
+    console.error("Error removing review photo files:", error);
+  }
+}
+
+// Start-of-frame markers, which carry the image size; C4, C8 and CC share
+// the range but are other segments
+const JPEG_SOF_MARKERS = new Set([
+  0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf,
+]);
+
+/**
+ * Width and height of a JPEG, or null if `data` isn't one
+ */
+export function jpegDimensions(
+  data: Buffer,
+): { width: number; height: number } | null {
+  if (data.length < 4 || data[0] !== 0xff || data[1] !== 0xd8) return null;
+
+  let offset = 2;
+  while (offset + 9 <= data.length) {
+    if (data[offset] !== 0xff) return null;
+    const marker = data[offset + 1];
+    // Padding before a marker
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (JPEG_SOF_MARKERS.has(marker)) {
+      return {
+        height: data.readUInt16BE(offset + 5),
+        width: data.readUInt16BE(offset + 7),
+      };
+    }
+    // Start of scan or end of image before any frame header
+    if (marker === 0xda || marker === 0xd9) return null;
+    offset += 2 + data.readUInt16BE(offset + 2);
+  }
+  return null;
+}
+
+/**
+ * Checks uploaded photos before they're attached to a review: the browser
+ * resizes them, but the storage API takes whatever it's sent. Returns why
+ * a photo was refused, or null when they're all fine.
+ */
+export async function checkReviewPhotoFiles(
+  paths: string[],
+): Promise<string | null> {
+  for (const path of paths) {
+    const { data, error } = await getSupabaseAdmin()
+      .storage.from(REVIEW_PHOTO_BUCKET)
+      .download(path);
+    if (error || !data) return "Photo not found. Please upload it again.";
+
+    if (data.size > REVIEW_PHOTO_MAX_BYTES) {
+      return "Photos must be under 2MB";
+    }
+    const size = jpegDimensions(Buffer.from(await data.arrayBuffer()));
+    if (!size) return "Photos must be JPEG images";
+    if (Math.max(size.width, size.height) > REVIEW_PHOTO_MAX_DIMENSION) {
+      return `Photos can be at most ${REVIEW_PHOTO_MAX_DIMENSION}px on each side`;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,180 @@
+import { PGlite } from "@electric-sql/pglite";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import {
+  deliveryEstimate,
+  ShippingQuoteRow,
+  toShippingQuote,
+} from "./shipping";
+import { createPricingDatabase } from "./testDatabase";
+
+let db: PGlite;
+
+beforeAll(async () => {
+  db = await createPricingDatabase();
+});
+
+afterAll(async () => {
+  await db.close();
+});
+
+async function shippingQuote(
+  pinCode: string,
+  { weightGrams = 300, itemCount = 1, orderValue = 499 } = {},
+) {
+  const { rows } = await db.query<ShippingQuoteRow>(
+    "SELECT * FROM shipping_quote($1, $2, $3, $4)",
+    [pinCode, weightGrams, itemCount, orderValue],
+  );
+  return toShippingQuote(rows[0]);
+}
+
+describe("deliveryEstimate", () => {
+  it("skips Sundays when counting delivery days", () => {
+    // Saturday 5 July 2025, 10:00 IST
+    const from = new Date("2025-07-05T04:30:00Z");
+
+    expect(deliveryEstimate(2, 4, from)).toEqual({
+      earliest: "2025-07-08",
+      latest: "2025-07-10",
+    });
+  });
+
+  it("counts from the date in India, not UTC", () => {
+    // Still Friday in UTC but already 01:30 on Saturday in India
+    const from = new Date("2025-07-04T20:00:00Z");
+
+    expect(deliveryEstimate(2, 4, from)).toEqual({
+      earliest: "2025-07-08",
+      latest: "2025-07-10",
+    });
+  });
+});
+
+describe("shipping_quote", () => {
+  beforeEach(() => {
+    // Saturday 5 July 2025, 10:00 IST
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2025-07-05T04:30:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("charges the zone's smallest slab that fits the parcel", async () => {
+    const quote = await shippingQuote("600001", { orderValue: 599 });
+
+    expect(quote).toEqual({
+      serviceable: true,
+      message: null,
+      zone: { code: "local", name: "Tamil Nadu" },
+      fee: 40,
+      freeShipping: false,
+      freeShippingThreshold: 999,
+      amountToFreeShipping: 400,
+      // A day to dispatch, then 1-2 days in transit
+      delivery: { earliest: "2025-07-08", latest: "2025-07-09" },
+    });
+  });
+
+  it("moves up a slab once the parcel is heavier", async () => {
+    expect((await shippingQuote("600001", { weightGrams: 500 })).fee).toBe(40);
+    expect((await shippingQuote("600001", { weightGrams: 501 })).fee).toBe(60);
+    expect((await shippingQuote("600001", { weightGrams: 1500 })).fee).toBe(90);
+    expect((await shippingQuote("600001", { weightGrams: 5000 })).fee).toBe(
+      130,
+    );
+  });
+
+  it("picks the zone with the longest matching PIN prefix", async () => {
+    // Bengaluru (560) is a metro even though 56 is the rest of the south
+    const bengaluru = await shippingQuote("560001");
+    const mysuru = await shippingQuote("570001");
+
+    expect(bengaluru.zone?.code).toBe("metro");
+    expect(bengaluru.fee).toBe(60);
+    expect(mysuru.zone?.code).toBe("south");
+    expect(mysuru.fee).toBe(50);
+  });
+
+  it("falls back to the rest-of-India zone", async () => {
+    const quote = await shippingQuote("781001", { weightGrams: 800 });
+
+    expect(quote.zone).toEqual({ code: "rest", name: "Rest of India" });
+    expect(quote.fee).toBe(110);
+    // A day to dispatch, then 4-7 days in transit, skipping Sundays
+    expect(quote.delivery).toEqual({
+      earliest: "2025-07-11",
+      latest: "2025-07-15",
+    });
+  });
+
+  it("ships free once the order reaches the threshold", async () => {
+    const below = await shippingQuote("110001", { orderValue: 998.99 });
+    const at = await shippingQuote("110001", { orderValue: 999 });
+
+    expect(below.fee).toBe(60);
+    expect(below.freeShipping).toBe(false);
+    expect(below.amountToFreeShipping).toBe(0.01);
+    expect(at.fee).toBe(0);
+    expect(at.freeShipping).toBe(true);
+    expect(at.amountToFreeShipping).toBe(0);
+  });
+
+  it("has no threshold fields when free shipping is turned off", async () => {
+    await db.query(
+      "UPDATE shipping_settings SET free_shipping_threshold = NULL",
+    );
+
+    try {
+      const quote = await shippingQuote("110001", { orderValue: 5000 });
+
+      expect(quote.fee).toBe(60);
+      expect(quote.freeShipping).toBe(false);
+      expect(quote.freeShippingThreshold).toBeNull();
+      expect(quote.amountToFreeShipping).toBeNull();
+    } finally {
+      await db.query(
+        "UPDATE shipping_settings SET free_shipping_threshold = 999",
+      );
+    }
+  });
+
+  it("turns down a PIN code that isn't six digits", async () => {
+    const quote = await shippingQuote("06001");
+
+    expect(quote.serviceable).toBe(false);
+    expect(quote.message).toBe("Enter a valid 6-digit PIN code");
+    expect(quote.zone).toBeNull();
+    expect(quote.delivery).toBeNull();
+  });
+
+  it("gives no zone or delivery dates for a PIN code no zone covers", async () => {
+    await db.query(
+      "UPDATE shipping_zones SET is_active = false WHERE code = 'rest'",
+    );
+
+    try {
+      const quote = await shippingQuote("781001");
+
+      expect(quote.serviceable).toBe(false);
+      expect(quote.message).toBe("We don't deliver to PIN code 781001 yet");
+      expect(quote.zone).toBeNull();
+      expect(quote.fee).toBe(0);
+      expect(quote.delivery).toBeNull();
+    } finally {
+      await db.query(
+        "UPDATE shipping_zones SET is_active = true WHERE code = 'rest'",
+      );
+    }
+  });
+});
@@ -0,0 +1,68 @@
+import { DeliveryEstimate, ShippingQuote } from "@shared/api";
+
+export interface ShippingQuoteRow {
+  serviceable: boolean;
+  message: string | null;
+  zone_code: string | null;
+  zone_name: string | null;
+  fee: number;
+  free_shipping: boolean;
+  free_shipping_threshold: number | null;
+  amount_to_free_shipping: number | null;
+  min_days: number | null;
+  max_days: number | null;
+}
+
+// India has no daylight saving, so a fixed offset gives the local date
+const IST_OFFSET_MS = 330 * 60 * 1000;
+
+// Couriers don't deliver on Sundays
+function addDeliveryDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  let remaining = days;
+  while (remaining > 0) {
+    result.setUTCDate(result.getUTCDate() + 1);
+    if (result.getUTCDay() !== 0) remaining--;
+  }
+  return result;
+}
+
+/**
+ * Delivery dates `minDays` to `maxDays` working days after `from`
+ */
+export function deliveryEstimate(
+  minDays: number,
+  maxDays: number,
+  from: Date = new Date(),
+): DeliveryEstimate {
+  const today = new Date(from.getTime() + IST_OFFSET_MS);
+  return {
+    earliest: addDeliveryDays(today, minDays).toISOString().slice(0, 10),
+    latest: addDeliveryDays(today, maxDays).toISOString().slice(0, 10),
+  };
+}
+
+export function toShippingQuote(row: ShippingQuoteRow): ShippingQuote {
+  return {
+    serviceable: row.serviceable,
+    message: row.message,
+    zone:
+      row.zone_code && row.zone_name
+        ? { code: row.zone_code, name: row.zone_name }
+        : null,
+    fee: Number(row.fee),
+    freeShipping: row.free_shipping,
+    freeShippingThreshold:
+      row.free_shipping_threshold === null
+        ? null
+        : Number(row.free_shipping_threshold),
+    amountToFreeShipping:
+      row.amount_to_free_shipping === null
+        ? null
+        : Number(row.amount_to_free_shipping),
+    delivery:
+      row.serviceable && row.min_days !== null && row.max_days !== null
+        ? deliveryEstimate(row.min_days, row.max_days)
+        : null,
+  };
+}
@@ -0,0 +1,53 @@
+import { StockIssue } from "@shared/api";
+import { getSupabaseAdmin } from "./supabase";
+
+// How long a checkout may hold stock before other shoppers can buy it
+export const RESERVATION_MINUTES = 15;
+
+interface StockIssueRow {
+  cart_item_id: string;
+  variant_id: string;
+  product_name: string;
+  size: string | null;
+  color_name: string | null;
+  requested: number;
+  available: number;
+}
+
+export function toStockIssues(rows: StockIssueRow[] | null): StockIssue[] {
+  return (rows || []).map((row) => ({
+    cartItemId: row.cart_item_id,
+    variantId: row.variant_id,
+    productName: row.product_name,
+    size: row.size,
+    colorName: row.color_name,
+    requested: row.requested,
+    available: row.available,
+  }));
+}
+
+/**
+ * Cart lines for `userId` that ask for more than is currently available
+ */
+export async function getCartStockIssues(
+  userId: string,
+): Promise<StockIssue[]> {
+  const { data, error } = await getSupabaseAdmin().rpc("cart_stock_issues", {
+    p_user_id: userId,
+  });
+  if (error) throw error;
+  return toStockIssues(data);
+}
+
+/**
+ * Cancels online-payment orders still unpaid once the reservation window
+ * has passed, giving their stock back and returning the items to the
+ * shopper's cart. Returns how many orders were cancelled.
+ */
+export async function expireUnpaidOrders(): Promise<number> {
+  const { data, error } = await getSupabaseAdmin().rpc("expire_unpaid_orders", {
+    p_minutes: RESERVATION_MINUTES,
+  });
+  if (error) throw error;
+  return data;
+}
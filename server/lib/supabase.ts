@@ -0,0 +1,36 @@
+import { createClient, SupabaseClient } from "@supabase/supabase-js";
+
+let supabaseAdmin: SupabaseClient | null = null;
+
+/**
+ * Service-role client for API routes. It bypasses RLS, so every route must
+ * check the caller itself. Created lazily so the dev server can load `.env`
+ * into `process.env` before the first request.
+ */
+export function getSupabaseAdmin(): SupabaseClient {
+  if (supabaseAdmin) return supabaseAdmin;
+
+  const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    console.error(
+      "❌ Missing server Supabase environment variables. API routes that touch the database will fail.",
+    );
+    console.error(
+      "Expected variables: SUPABASE_URL (or VITE_SUPABASE_URL), SUPABASE_SERVICE_ROLE_KEY",
+    );
+  }
+
+  supabaseAdmin = createClient(
+    supabaseUrl || "https://dummy.supabase.co",
+    serviceRoleKey || "dummy-key",
+    {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    },
+  );
+  return supabaseAdmin;
+}
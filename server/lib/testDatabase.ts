@@ -0,0 +1,99 @@
+import fs from "node:fs";
+import path from "node:path";
+import { PGlite } from "@electric-sql/pglite";
+
+const MIGRATIONS_DIR = path.resolve(__dirname, "../../supabase/migrations");
+
+// The original catalog, cart and order tables, then every migration up to
+// and including shipping rates, which between them define how a cart is
+// priced. The admin and profile migrations in between don't replay on a
+// fresh database and nothing here needs them.
+const MIGRATIONS = [
+  "20250629103556_patient_ember.sql",
+  "20250629103605_wooden_dune.sql",
+  "20250629103621_dusty_dune.sql",
+  "20250629120000_add_subcategory_to_products.sql",
+  "20250701090000_place_order.sql",
+  "20250701100000_stock_reservations.sql",
+  "20250701110000_order_payments.sql",
+  "20250701120000_cod_rules.sql",
+  "20250701130000_gst.sql",
+  "20250701140000_invoices.sql",
+  "20250701150000_coupons.sql",
+  "20250701160000_shipping_rates.sql",
+];
+
+// What Supabase provides, plus the admin check from the migrations that
+// aren't replayed
+const SUPABASE_STUBS = `
+  CREATE SCHEMA auth;
+  CREATE ROLE anon;
+  CREATE ROLE authenticated;
+  CREATE ROLE service_role;
+  CREATE TABLE auth.users (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    email text,
+    raw_user_meta_data jsonb DEFAULT '{}',
+    created_at timestamptz DEFAULT now()
+  );
+  CREATE FUNCTION auth.uid() RETURNS uuid LANGUAGE sql STABLE AS $$ SELECT NULL::uuid $$;
+  CREATE FUNCTION public.is_admin() RETURNS boolean LANGUAGE sql STABLE AS $$ SELECT false $$;
+`;
+
+export interface CartLineOptions {
+  price: number;
+  quantity?: number;
+  weightGrams?: number;
+  subcategory?: string;
+}
+
+/**
+ * In-memory Postgres with the pricing migrations applied, for testing the
+ * SQL that prices carts
+ */
+export async function createPricingDatabase(): Promise<PGlite> {
+  const db = new PGlite();
+  await db.exec(SUPABASE_STUBS);
+  for (const file of MIGRATIONS) {
+    await db.exec(fs.readFileSync(path.join(MIGRATIONS_DIR, file), "utf8"));
+  }
+  return db;
+}
+
+/**
+ * A new customer with an empty cart
+ */
+export async function createShopper(db: PGlite): Promise<string> {
+  const { rows } = await db.query<{ id: string }>(
+    "INSERT INTO auth.users DEFAULT VALUES RETURNING id",
+  );
+  return rows[0].id;
+}
+
+/**
+ * Puts a new single-variant product in the shopper's cart. Returns the
+ * cart item id.
+ */
+export async function addCartLine(
+  db: PGlite,
+  userId: string,
+  { price, quantity = 1, weightGrams, subcategory }: CartLineOptions,
+): Promise<string> {
+  const { rows } = await db.query<{ id: string }>(
+    `WITH product AS (
+       INSERT INTO products (name, slug, price, weight_grams, subcategory)
+       VALUES ('Test product', gen_random_uuid()::text, $1, $2, $3)
+       RETURNING id
+     ),
+     variant AS (
+       INSERT INTO product_variants (product_id, size, stock_quantity)
+       SELECT id, 'M', 100 FROM product
+       RETURNING id, product_id
+     )
+     INSERT INTO cart_items (user_id, product_id, variant_id, quantity)
+     SELECT $4, product_id, id, $5 FROM variant
+     RETURNING id`,
+    [price, weightGrams ?? null, subcategory ?? null, userId, quantity],
+  );
+  return rows[0].id;
+}
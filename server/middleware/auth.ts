@@ -0,0 +1,72 @@
+import { RequestHandler, Response } from "express";
+import { User } from "@supabase/supabase-js";
+import { AdminPermission } from "@shared/api";
+import { getSupabaseAdmin } from "../lib/supabase";
+
+/**
+ * Resolves the Supabase user from the `Authorization: Bearer <access token>`
+ * header and stores it on `res.locals.user`. Responds 401 otherwise.
+ */
+export const requireAuth: RequestHandler = async (req, res, next) => {
+  const header = req.headers.authorization || "";
+  const token = header.startsWith("Bearer ") ? header.slice(7) : null;
+
+  if (!token) {
+    res.status(401).json({ error: "Please login to continue" });
+    return;
+  }
+
+  const { data, error } = await getSupabaseAdmin().auth.getUser(token);
+
+  if (error || !data.user) {
+    res
+      .status(401)
+      .json({ error: "Your session has expired, please login again" });
+    return;
+  }
+
+  res.locals.user = data.user;
+  next();
+};
+
+export function getAuthUser(res: Response): User {
+  return res.locals.user as User;
+}
+
+/**
+ * Whether `userId` is an active admin holding `permission`; super admins
+ * hold them all (see admin_has_permission)
+ */
+export async function hasAdminPermission(
+  userId: string,
+  permission: AdminPermission,
+): Promise<boolean> {
+  const { data, error } = await getSupabaseAdmin().rpc("admin_has_permission", {
+    p_user_id: userId,
+    p_permission: permission,
+  });
+
+  if (error) throw error;
+  return data === true;
+}
+
+/**
+ * Runs after `requireAuth`; responds 403 unless the user is an active admin
+ * holding `permission`
+ */
+export function requirePermission(permission: AdminPermission): RequestHandler {
+  return async (_req, res, next) => {
+    try {
+      if (!(await hasAdminPermission(getAuthUser(res).id, permission))) {
+        res.status(403).json({ error: "You don't have permission to do that" });
+        return;
+      }
+    } catch (error) {
+      console.error("Error checking admin permission:", error);
+      res.status(500).json({ error: "Failed to check admin access" });
+      return;
+    }
+
+    next();
+  };
+}
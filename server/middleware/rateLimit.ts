@@ -0,0 +1,59 @@
+import { RequestHandler } from "express";
+import { getSupabaseAdmin } from "../lib/supabase";
+
+interface RateLimitOptions {
+  /** Bucket prefix; each client IP gets its own bucket under it */
+  name: string;
+  limit: number;
+  windowSeconds: number;
+  message: string;
+}
+
+interface RateLimitRow {
+  allowed: boolean;
+  retry_after_seconds: number;
+}
+
+/**
+ * Counts one hit from `client` (an IP, or a hash of one where the IP
+ * mustn't be stored) against the `name` bucket
+ */
+export async function hitRateLimit(
+  options: Omit<RateLimitOptions, "message">,
+  client: string | undefined,
+): Promise<RateLimitRow> {
+  const { data, error } = await getSupabaseAdmin()
+    .rpc("hit_rate_limit", {
+      p_bucket: `${options.name}:${client}`,
+      p_limit: options.limit,
+      p_window_seconds: options.windowSeconds,
+    })
+    .single<RateLimitRow>();
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Allows each client IP `limit` requests per `windowSeconds`, then responds
+ * 429 with Retry-After. Counts live in the database (hit_rate_limit) so the
+ * limit holds across serverless instances.
+ */
+export function rateLimit(options: RateLimitOptions): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const data = await hitRateLimit(options, req.ip);
+
+      if (!data.allowed) {
+        res.setHeader("Retry-After", String(data.retry_after_seconds));
+        res.status(429).json({ error: options.message });
+        return;
+      }
+    } catch (error) {
+      console.error("Error checking rate limit:", error);
+      res.status(500).json({ error: "Something went wrong, please try again" });
+      return;
+    }
+
+    next();
+  };
+}
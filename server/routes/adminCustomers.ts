@@ -0,0 +1,191 @@
+import { RequestHandler } from "express";
+import { z } from "zod";
+import {
+  AdminCustomer,
+  AdminCustomerAddress,
+  AdminCustomerDetailResponse,
+  AdminCustomerListResponse,
+  AdminCustomerOrder,
+  AdminRole,
+} from "@shared/api";
+import { getSupabaseAdmin } from "../lib/supabase";
+
+interface AdminCustomerRow {
+  id: string;
+  email: string;
+  first_name: string | null;
+  last_name: string | null;
+  phone: string | null;
+  created_at: string;
+  last_sign_in_at: string | null;
+  order_count: number;
+  lifetime_value: number;
+  last_order_at: string | null;
+  admin_role: AdminRole | null;
+  admin_is_active: boolean | null;
+  admin_permissions: Record<string, boolean> | null;
+  total_count: number;
+}
+
+// Two migrations create `addresses` with different columns, so read either
+interface AddressRow {
+  id: string;
+  name?: string | null;
+  first_name?: string | null;
+  last_name?: string | null;
+  phone: string | null;
+  street?: string | null;
+  address_line_1?: string | null;
+  address_line_2?: string | null;
+  city: string;
+  state: string;
+  postal_code: string;
+  country: string;
+  is_default: boolean | null;
+}
+
+interface CustomerOrderRow {
+  id: string;
+  order_number: string;
+  status: AdminCustomerOrder["status"];
+  payment_status: AdminCustomerOrder["paymentStatus"];
+  total_amount: number;
+  created_at: string;
+}
+
+const PAGE_SIZE = 20;
+
+const listCustomersSchema = z.object({
+  search: z.string().trim().max(100).optional(),
+  page: z.coerce.number().int().min(0).default(0),
+});
+
+function toCustomer(row: AdminCustomerRow): AdminCustomer {
+  return {
+    id: row.id,
+    email: row.email,
+    firstName: row.first_name,
+    lastName: row.last_name,
+    phone: row.phone,
+    createdAt: row.created_at,
+    lastSignInAt: row.last_sign_in_at,
+    orderCount: Number(row.order_count),
+    lifetimeValue: Number(row.lifetime_value),
+    lastOrderAt: row.last_order_at,
+    admin: row.admin_role
+      ? {
+          role: row.admin_role,
+          isActive: Boolean(row.admin_is_active),
+          permissions: row.admin_permissions || {},
+        }
+      : null,
+  };
+}
+
+function toAddress(row: AddressRow): AdminCustomerAddress {
+  return {
+    id: row.id,
+    name: row.name || [row.first_name, row.last_name].filter(Boolean).join(" "),
+    phone: row.phone,
+    street:
+      row.street ||
+      [row.address_line_1, row.address_line_2].filter(Boolean).join(", "),
+    city: row.city,
+    state: row.state,
+    postalCode: row.postal_code,
+    country: row.country,
+    isDefault: Boolean(row.is_default),
+  };
+}
+
+export const handleListCustomers: RequestHandler = async (req, res) => {
+  const parsed = listCustomersSchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: parsed.error.issues[0].message });
+    return;
+  }
+
+  const { search, page } = parsed.data;
+
+  try {
+    const { data, error } = await getSupabaseAdmin()
+      .rpc("admin_customers", {
+        p_search: search || null,
+        p_limit: PAGE_SIZE,
+        p_offset: page * PAGE_SIZE,
+      });
+    if (error) throw error;
+
+    const rows = (data || []) as AdminCustomerRow[];
+    const response: AdminCustomerListResponse = {
+      customers: rows.map(toCustomer),
+      total: rows.length > 0 ? Number(rows[0].total_count) : 0,
+      pageSize: PAGE_SIZE,
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Error listing customers:", error);
+    res.status(500).json({ error: "Failed to load customers" });
+  }
+};
+
+export const handleGetCustomer: RequestHandler = async (req, res) => {
+  const { userId } = req.params;
+  if (!z.string().uuid().safeParse(userId).success) {
+    res.status(404).json({ error: "Customer not found" });
+    return;
+  }
+
+  const supabase = getSupabaseAdmin();
+
+  try {
+    const [
+      { data: customer, error: customerError },
+      { data: addresses, error: addressesError },
+      { data: orders, error: ordersError },
+    ] = await Promise.all([
+      supabase
+        .rpc("admin_customers", { p_user_id: userId, p_limit: 1 })
+        .maybeSingle<AdminCustomerRow>(),
+      supabase
+        .from("addresses")
+        .select("*")
+        .eq("user_id", userId)
+        .order("is_default", { ascending: false })
+        .returns<AddressRow[]>(),
+      supabase
+        .from("orders")
+        .select(
+          "id, order_number, status, payment_status, total_amount, created_at",
+        )
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false })
+        .returns<CustomerOrderRow[]>(),
+    ]);
+    if (customerError) throw customerError;
+    if (addressesError) throw addressesError;
+    if (ordersError) throw ordersError;
+
+    if (!customer) {
+      res.status(404).json({ error: "Customer not found" });
+      return;
+    }
+
+    const response: AdminCustomerDetailResponse = {
+      customer: toCustomer(customer),
+      addresses: (addresses || []).map(toAddress),
+      orders: (orders || []).map((order) => ({
+        id: order.id,
+        orderNumber: order.order_number,
+        status: order.status,
+        paymentStatus: order.payment_status,
+        totalAmount: Number(order.total_amount),
+        createdAt: order.created_at,
+      })),
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Error fetching customer:", error);
+    res.status(500).json({ error: "Failed to load customer" });
+  }
+};
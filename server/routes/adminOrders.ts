@@ -0,0 +1,95 @@
+import { RequestHandler } from "express";
+import { z } from "zod";
+import {
+  ChangeOrderStatusRequest,
+  ChangeOrderStatusResponse,
+} from "@shared/api";
+import { getSupabaseAdmin } from "../lib/supabase";
+import { getAuthUser, hasAdminPermission } from "../middleware/auth";
+
+interface ChangedOrderRow {
+  id: string;
+  status: ChangeOrderStatusResponse["status"];
+  payment_status: ChangeOrderStatusResponse["paymentStatus"];
+}
+
+const changeOrderStatusSchema = z.object({
+  status: z.enum([
+    "pending",
+    "confirmed",
+    "processing",
+    "shipped",
+    "delivered",
+    "cancelled",
+    "refunded",
+  ]),
+  note: z.string().trim().max(500).optional(),
+  carrier: z.string().trim().max(100).optional(),
+  awbNumber: z.string().trim().max(100).optional(),
+  codRefused: z.boolean().optional(),
+});
+
+/**
+ * Moves an order to a new status. Which moves are allowed, and what happens
+ * alongside them, lives in change_order_status.
+ */
+export const handleChangeOrderStatus: RequestHandler = async (req, res) => {
+  const { orderId } = req.params;
+  if (!z.string().uuid().safeParse(orderId).success) {
+    res.status(404).json({ error: "Order not found" });
+    return;
+  }
+
+  const parsed = changeOrderStatusSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: parsed.error.issues[0].message });
+    return;
+  }
+
+  const admin = getAuthUser(res);
+  const body = parsed.data as ChangeOrderStatusRequest;
+
+  try {
+    // The route already requires orders.write
+    if (
+      body.status === "refunded" &&
+      !(await hasAdminPermission(admin.id, "orders.refund"))
+    ) {
+      res
+        .status(403)
+        .json({ error: "You don't have permission to refund orders" });
+      return;
+    }
+
+    const { data, error } = await getSupabaseAdmin()
+      .rpc("change_order_status", {
+        p_order_id: orderId,
+        p_status: body.status,
+        p_admin_id: admin.id,
+        p_note: body.note || null,
+        p_carrier: body.carrier || null,
+        p_awb_number: body.awbNumber || null,
+        p_cod_refused: body.codRefused ?? false,
+      })
+      .single<ChangedOrderRow>();
+
+    if (error) {
+      // P0001 covers moves the workflow doesn't allow
+      if (error.code === "P0001") {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+      throw error;
+    }
+
+    const response: ChangeOrderStatusResponse = {
+      orderId: data.id,
+      status: data.status,
+      paymentStatus: data.payment_status,
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Error changing order status:", error);
+    res.status(500).json({ error: "Failed to change order status" });
+  }
+};
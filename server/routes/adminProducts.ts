@@ -0,0 +1,725 @@
+import { RequestHandler } from "express";
+import { z } from "zod";
+import {
+  PRODUCT_SHEET_COLUMNS,
+  ProductImportError,
+  ProductImportPreview,
+  ProductImportResponse,
+  ProductSheetColumn,
+  ProductSheetFormat,
+} from "@shared/api";
+import { getSupabaseAdmin } from "../lib/supabase";
+import { getAuthUser } from "../middleware/auth";
+import { readSheet, sheetContentType, writeSheet } from "../lib/productSheet";
+
+interface CategoryRow {
+  id: string;
+  name: string;
+  slug: string;
+  parent_id: string | null;
+}
+
+interface ExistingProductRow {
+  id: string;
+  sku: string;
+  slug: string;
+  name: string;
+  category_id: string | null;
+}
+
+interface ExistingVariantRow {
+  id: string;
+  sku: string;
+  product_id: string;
+}
+
+interface ExportProductRow {
+  sku: string | null;
+  name: string;
+  slug: string;
+  description: string | null;
+  price: number;
+  original_price: number | null;
+  weight_grams: number | null;
+  is_active: boolean;
+  is_hot_sale: boolean;
+  subcategory: string | null;
+  category: { slug: string } | null;
+  images: { image_url: string; sort_order: number | null }[];
+  variants: {
+    sku: string | null;
+    size: string | null;
+    color_name: string | null;
+    color_code: string | null;
+    stock_quantity: number | null;
+    price_adjustment: number | null;
+    is_active: boolean;
+  }[];
+}
+
+/** One spreadsheet row after validation; undefined means the cell was blank */
+type SheetRow = z.infer<typeof sheetRowSchema> & { rowNumber: number };
+
+const PRODUCT_COLUMNS = [
+  "name",
+  "slug",
+  "category",
+  "subcategory",
+  "description",
+  "price",
+  "original_price",
+  "weight_grams",
+  "is_active",
+  "is_hot_sale",
+  "image_urls",
+] as const;
+
+const VARIANT_COLUMNS = [
+  "size",
+  "color_name",
+  "color_code",
+  "stock_quantity",
+  "price_adjustment",
+  "variant_is_active",
+] as const;
+
+const MAX_ROWS = 5000;
+// Keeps .in() filters well inside URL length limits
+const LOOKUP_CHUNK = 200;
+// PostgREST returns at most this many rows per request by default
+const EXPORT_PAGE = 1000;
+
+const blank = (value: unknown) =>
+  typeof value === "string" && value.trim() === "" ? undefined : value;
+
+const text = (max: number) =>
+  z.preprocess(blank, z.string().trim().max(max).optional());
+
+const amount = z.preprocess(
+  blank,
+  z.coerce
+    .number({ invalid_type_error: "Must be a number" })
+    .min(0, "Can't be negative")
+    .optional(),
+);
+
+const count = z.preprocess(
+  blank,
+  z.coerce
+    .number({ invalid_type_error: "Must be a whole number" })
+    .int("Must be a whole number")
+    .min(0, "Can't be negative")
+    .optional(),
+);
+
+const flag = z.preprocess(
+  (value) => {
+    const cell = blank(value);
+    if (typeof cell !== "string") return cell;
+    const normalized = cell.trim().toLowerCase();
+    if (["true", "yes", "y", "1"].includes(normalized)) return true;
+    if (["false", "no", "n", "0"].includes(normalized)) return false;
+    return cell;
+  },
+  z.boolean({ invalid_type_error: "Use true or false" }).optional(),
+);
+
+const sheetRowSchema = z.object({
+  product_sku: z
+    .string()
+    .trim()
+    .min(1, "Every row needs a product SKU")
+    .max(100),
+  name: text(200),
+  slug: z.preprocess(
+    blank,
+    z
+      .string()
+      .trim()
+      .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "Use lowercase letters, numbers and -")
+      .optional(),
+  ),
+  category: text(100),
+  subcategory: text(100),
+  description: text(5000),
+  price: amount,
+  original_price: amount,
+  weight_grams: z.preprocess(
+    blank,
+    z.coerce
+      .number({ invalid_type_error: "Must be a whole number" })
+      .int("Must be a whole number")
+      .positive("Must be more than 0")
+      .optional(),
+  ),
+  is_active: flag,
+  is_hot_sale: flag,
+  image_urls: z.preprocess(
+    (value) =>
+      typeof blank(value) === "string"
+        ? (value as string)
+            .split("|")
+            .map((url) => url.trim())
+            .filter(Boolean)
+        : undefined,
+    z.array(z.string().url("Image URLs must be full URLs")).optional(),
+  ),
+  variant_sku: text(100),
+  size: text(20),
+  color_name: text(50),
+  color_code: z.preprocess(
+    blank,
+    z
+      .string()
+      .trim()
+      .regex(/^#[0-9a-fA-F]{6}$/, "Use a hex colour like #000000")
+      .optional(),
+  ),
+  stock_quantity: count,
+  price_adjustment: z.preprocess(
+    blank,
+    z.coerce.number({ invalid_type_error: "Must be a number" }).optional(),
+  ),
+  variant_is_active: flag,
+});
+
+const importQuerySchema = z.object({
+  format: z.enum(["csv", "xlsx"]),
+  dryRun: z.enum(["true", "false"]).default("true"),
+});
+
+const exportQuerySchema = z.object({
+  format: z.enum(["csv", "xlsx"]).default("csv"),
+});
+
+function slugify(value: string) {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/(^-|-$)/g, "");
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+function findCategory(
+  categories: CategoryRow[],
+  value: string,
+  parentId: string | null,
+) {
+  const wanted = value.toLowerCase();
+  return categories.find(
+    (category) =>
+      category.parent_id === parentId &&
+      (category.slug === wanted || category.name.toLowerCase() === wanted),
+  );
+}
+
+/**
+ * Reads a header row and the rows below it, reporting cells that don't
+ * parse. Unknown columns are ignored; missing ones read as blank.
+ */
+function parseRows(sheet: string[][], errors: ProductImportError[]) {
+  const header = (sheet[0] || []).map((cell) => cell.trim().toLowerCase());
+  const rows: SheetRow[] = [];
+
+  sheet.slice(1).forEach((cells, index) => {
+    const rowNumber = index + 2;
+    if (cells.every((cell) => cell.trim() === "")) return;
+
+    const raw: Record<string, string> = {};
+    for (const column of PRODUCT_SHEET_COLUMNS) {
+      const position = header.indexOf(column);
+      raw[column] = position >= 0 ? (cells[position] ?? "") : "";
+    }
+
+    const parsed = sheetRowSchema.safeParse(raw);
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        errors.push({
+          row: rowNumber,
+          column: issue.path[0] as ProductSheetColumn,
+          message: issue.message,
+        });
+      }
+      return;
+    }
+
+    rows.push({ ...parsed.data, rowNumber });
+  });
+
+  return rows;
+}
+
+/**
+ * Checks a whole sheet against the catalogue and works out what importing
+ * it would change. Products match on product_sku and variants on
+ * variant_sku; blank cells leave existing values alone.
+ */
+export const handleImportProducts: RequestHandler = async (req, res) => {
+  const query = importQuerySchema.safeParse(req.query);
+  if (!query.success) {
+    res.status(400).json({ error: "Choose a CSV or XLSX file" });
+    return;
+  }
+
+  const format = query.data.format as ProductSheetFormat;
+  const dryRun = query.data.dryRun === "true";
+
+  if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+    res.status(400).json({ error: "The file is empty" });
+    return;
+  }
+
+  let sheet: string[][];
+  try {
+    sheet = await readSheet(req.body, format);
+  } catch (error) {
+    console.error("Error reading product sheet:", error);
+    res.status(400).json({ error: `Couldn't read the file as ${format}` });
+    return;
+  }
+
+  const header = (sheet[0] || []).map((cell) => cell.trim().toLowerCase());
+  if (!header.includes("product_sku")) {
+    res.status(400).json({
+      error: "The first row must be the column headings, with product_sku",
+    });
+    return;
+  }
+  if (sheet.length - 1 > MAX_ROWS) {
+    res
+      .status(400)
+      .json({ error: `Import at most ${MAX_ROWS} rows at a time` });
+    return;
+  }
+
+  const errors: ProductImportError[] = [];
+  const rows = parseRows(sheet, errors);
+
+  const groups = new Map<string, SheetRow[]>();
+  for (const row of rows) {
+    groups.set(row.product_sku, [...(groups.get(row.product_sku) || []), row]);
+  }
+
+  const supabase = getSupabaseAdmin();
+
+  try {
+    const productSkus = [...groups.keys()];
+    const variantSkus = rows
+      .map((row) => row.variant_sku)
+      .filter((sku): sku is string => Boolean(sku));
+
+    const [categoriesResult, productResults, variantResults] =
+      await Promise.all([
+        supabase
+          .from("categories")
+          .select("id, name, slug, parent_id")
+          .returns<CategoryRow[]>(),
+        Promise.all(
+          chunk(productSkus, LOOKUP_CHUNK).map((skus) =>
+            supabase
+              .from("products")
+              .select("id, sku, slug, name, category_id")
+              .in("sku", skus)
+              .returns<ExistingProductRow[]>(),
+          ),
+        ),
+        Promise.all(
+          chunk(variantSkus, LOOKUP_CHUNK).map((skus) =>
+            supabase
+              .from("product_variants")
+              .select("id, sku, product_id")
+              .in("sku", skus)
+              .returns<ExistingVariantRow[]>(),
+          ),
+        ),
+      ]);
+
+    for (const result of [
+      categoriesResult,
+      ...productResults,
+      ...variantResults,
+    ]) {
+      if (result.error) throw result.error;
+    }
+
+    const categories = categoriesResult.data || [];
+    const existingProducts = new Map(
+      productResults
+        .flatMap((result) => result.data || [])
+        .map((product) => [product.sku, product]),
+    );
+    const existingVariants = new Map(
+      variantResults
+        .flatMap((result) => result.data || [])
+        .map((variant) => [variant.sku, variant]),
+    );
+
+    const plans: {
+      id: string | null;
+      sku: string;
+      fields: Record<string, unknown>;
+      images: string[] | null;
+      variants: Record<string, unknown>[];
+      slugRow: number;
+    }[] = [];
+    const previews: ProductImportPreview[] = [];
+    const seenVariantSkus = new Map<string, number>();
+
+    for (const [sku, group] of groups) {
+      const first = group[0];
+      const existing = existingProducts.get(sku);
+
+      // Product columns may repeat on every row of a product, but must agree
+      const product: Partial<SheetRow> = {};
+      const sourceRow: Partial<Record<ProductSheetColumn, number>> = {};
+      for (const row of group) {
+        for (const column of PRODUCT_COLUMNS) {
+          const value = row[column];
+          if (value === undefined) continue;
+          if (product[column] === undefined) {
+            (product as Record<string, unknown>)[column] = value;
+            sourceRow[column] = row.rowNumber;
+          } else if (
+            JSON.stringify(product[column]) !== JSON.stringify(value)
+          ) {
+            errors.push({
+              row: row.rowNumber,
+              column,
+              message: `Doesn't match row ${sourceRow[column]} for ${sku}`,
+            });
+          }
+        }
+      }
+
+      if (!existing) {
+        for (const column of ["name", "category", "price"] as const) {
+          if (product[column] === undefined) {
+            errors.push({
+              row: first.rowNumber,
+              column,
+              message: `Needed to create product ${sku}`,
+            });
+          }
+        }
+      }
+
+      const fields: Record<string, unknown> = {};
+      for (const column of [
+        "name",
+        "description",
+        "price",
+        "original_price",
+        "weight_grams",
+        "is_active",
+        "is_hot_sale",
+      ] as const) {
+        if (product[column] !== undefined) fields[column] = product[column];
+      }
+
+      // The subcategory is read together with the category, so a product
+      // moved to another category doesn't keep a subcategory from the old one
+      let categoryId = existing?.category_id || null;
+      if (product.category !== undefined) {
+        const category = findCategory(categories, product.category, null);
+        if (category) {
+          categoryId = category.id;
+          fields.category_id = category.id;
+          fields.subcategory_id = null;
+        } else {
+          errors.push({
+            row: sourceRow.category!,
+            column: "category",
+            message: `No top-level category called ${product.category}`,
+          });
+        }
+      }
+      if (product.subcategory !== undefined) {
+        const subcategory = categoryId
+          ? findCategory(categories, product.subcategory, categoryId)
+          : undefined;
+        if (subcategory) {
+          fields.subcategory_id = subcategory.id;
+        } else {
+          errors.push({
+            row: sourceRow.subcategory!,
+            column: "subcategory",
+            message: `No subcategory called ${product.subcategory} in this category`,
+          });
+        }
+      }
+
+      const slug =
+        product.slug ??
+        (existing ? undefined : slugify(product.name || sku) || slugify(sku));
+      if (slug !== undefined && slug !== existing?.slug) fields.slug = slug;
+
+      const variants: Record<string, unknown>[] = [];
+      let variantsCreated = 0;
+      let variantsUpdated = 0;
+      for (const row of group) {
+        const hasVariant =
+          row.variant_sku !== undefined ||
+          VARIANT_COLUMNS.some((column) => row[column] !== undefined);
+        if (!hasVariant) continue;
+
+        if (!row.variant_sku) {
+          errors.push({
+            row: row.rowNumber,
+            column: "variant_sku",
+            message: "Needed for rows with size, colour or stock",
+          });
+          continue;
+        }
+
+        const duplicateRow = seenVariantSkus.get(row.variant_sku);
+        if (duplicateRow) {
+          errors.push({
+            row: row.rowNumber,
+            column: "variant_sku",
+            message: `Also used on row ${duplicateRow}`,
+          });
+          continue;
+        }
+        seenVariantSkus.set(row.variant_sku, row.rowNumber);
+
+        const existingVariant = existingVariants.get(row.variant_sku);
+        if (existingVariant && existingVariant.product_id !== existing?.id) {
+          errors.push({
+            row: row.rowNumber,
+            column: "variant_sku",
+            message: "Already belongs to another product",
+          });
+          continue;
+        }
+
+        if (!existingVariant) {
+          for (const column of ["size", "color_name"] as const) {
+            if (row[column] === undefined) {
+              errors.push({
+                row: row.rowNumber,
+                column,
+                message: `Needed to create variant ${row.variant_sku}`,
+              });
+            }
+          }
+        }
+
+        const variant: Record<string, unknown> = {
+          id: existingVariant?.id || null,
+          sku: row.variant_sku,
+        };
+        if (row.size !== undefined) variant.size = row.size;
+        if (row.color_name !== undefined) variant.color_name = row.color_name;
+        if (row.color_code !== undefined) variant.color_code = row.color_code;
+        if (row.stock_quantity !== undefined) {
+          variant.stock_quantity = row.stock_quantity;
+        }
+        if (row.price_adjustment !== undefined) {
+          variant.price_adjustment = row.price_adjustment;
+        }
+        if (row.variant_is_active !== undefined) {
+          variant.is_active = row.variant_is_active;
+        }
+        variants.push(variant);
+
+        if (existingVariant) variantsUpdated++;
+        else variantsCreated++;
+      }
+
+      plans.push({
+        id: existing?.id || null,
+        sku,
+        fields,
+        images: product.image_urls ?? null,
+        variants,
+        slugRow: sourceRow.slug ?? sourceRow.name ?? first.rowNumber,
+      });
+      previews.push({
+        sku,
+        name: product.name || existing?.name || sku,
+        action: existing ? "update" : "create",
+        variantsCreated,
+        variantsUpdated,
+        replacesImages: product.image_urls !== undefined,
+      });
+    }
+
+    // Slugs must be unique across the sheet and the rest of the catalogue
+    const slugOwners = new Map<string, string>();
+    for (const plan of plans) {
+      const slug = plan.fields.slug as string | undefined;
+      if (!slug) continue;
+      if (slugOwners.has(slug)) {
+        errors.push({
+          row: plan.slugRow,
+          column: "slug",
+          message: `${slug} is also used by ${slugOwners.get(slug)} in this file`,
+        });
+      }
+      slugOwners.set(slug, plan.sku);
+    }
+
+    const slugResults = await Promise.all(
+      chunk([...slugOwners.keys()], LOOKUP_CHUNK).map((slugs) =>
+        supabase
+          .from("products")
+          .select("sku, slug")
+          .in("slug", slugs)
+          .returns<{ sku: string | null; slug: string }[]>(),
+      ),
+    );
+    for (const result of slugResults) {
+      if (result.error) throw result.error;
+      for (const taken of result.data || []) {
+        const plan = plans.find(
+          (p) => p.fields.slug === taken.slug && p.sku !== taken.sku,
+        );
+        if (plan) {
+          errors.push({
+            row: plan.slugRow,
+            column: "slug",
+            message: `${taken.slug} is already used by ${taken.sku || "another product"}`,
+          });
+        }
+      }
+    }
+
+    errors.sort((a, b) => a.row - b.row);
+
+    const response: ProductImportResponse = {
+      dryRun,
+      imported: false,
+      errors,
+      products: previews,
+      summary: {
+        productsCreated: previews.filter((p) => p.action === "create").length,
+        productsUpdated: previews.filter((p) => p.action === "update").length,
+        variantsCreated: previews.reduce(
+          (sum, p) => sum + p.variantsCreated,
+          0,
+        ),
+        variantsUpdated: previews.reduce(
+          (sum, p) => sum + p.variantsUpdated,
+          0,
+        ),
+      },
+    };
+
+    if (!dryRun && errors.length === 0 && plans.length > 0) {
+      const { error } = await supabase.rpc("import_products", {
+        p_products: plans.map(({ slugRow, ...plan }) => plan),
+        p_admin_id: getAuthUser(res).id,
+      });
+      if (error) {
+        // Another admin changed the same SKUs or slugs since the preview
+        if (error.code === "23505") {
+          res.status(409).json({
+            error: "Some SKUs or slugs were taken meanwhile. Preview again.",
+          });
+          return;
+        }
+        throw error;
+      }
+      response.imported = true;
+    }
+
+    res.json(response);
+  } catch (error) {
+    console.error("Error importing products:", error);
+    res.status(500).json({ error: "Failed to import products" });
+  }
+};
+
+/**
+ * The whole catalogue in the import format, one row per variant
+ */
+export const handleExportProducts: RequestHandler = async (req, res) => {
+  const query = exportQuerySchema.safeParse(req.query);
+  if (!query.success) {
+    res.status(400).json({ error: "Export as csv or xlsx" });
+    return;
+  }
+
+  const format = query.data.format as ProductSheetFormat;
+  const supabase = getSupabaseAdmin();
+
+  try {
+    const products: ExportProductRow[] = [];
+    for (let from = 0; ; from += EXPORT_PAGE) {
+      const { data, error } = await supabase
+        .from("products")
+        .select(
+          `sku, name, slug, description, price, original_price, weight_grams,
+          is_active, is_hot_sale, subcategory,
+          category:categories!products_category_id_fkey(slug),
+          images:product_images(image_url, sort_order),
+          variants:product_variants(sku, size, color_name, color_code, stock_quantity, price_adjustment, is_active)`,
+        )
+        .order("sku")
+        .range(from, from + EXPORT_PAGE - 1)
+        .returns<ExportProductRow[]>();
+      if (error) throw error;
+
+      products.push(...(data || []));
+      if (!data || data.length < EXPORT_PAGE) break;
+    }
+
+    const rows: (string | number)[][] = [[...PRODUCT_SHEET_COLUMNS]];
+    for (const product of products) {
+      const images = [...product.images]
+        .sort((a, b) => (a.sort_order ?? 0) - (b.sort_order ?? 0))
+        .map((image) => image.image_url)
+        .join("|");
+      const productCells = [
+        product.sku || "",
+        product.name,
+        product.slug,
+        product.category?.slug || "",
+        product.subcategory || "",
+        product.description || "",
+        Number(product.price),
+        product.original_price === null ? "" : Number(product.original_price),
+        product.weight_grams ?? "",
+        String(product.is_active),
+        String(product.is_hot_sale),
+        images,
+      ];
+
+      const variants = [...product.variants].sort((a, b) =>
+        (a.sku || "").localeCompare(b.sku || ""),
+      );
+      if (variants.length === 0) {
+        rows.push([...productCells, "", "", "", "", "", "", ""]);
+      }
+      for (const variant of variants) {
+        rows.push([
+          ...productCells,
+          variant.sku || "",
+          variant.size || "",
+          variant.color_name || "",
+          variant.color_code || "",
+          variant.stock_quantity ?? 0,
+          Number(variant.price_adjustment ?? 0),
+          String(variant.is_active),
+        ]);
+      }
+    }
+
+    const file = await writeSheet(rows, format);
+    const filename = `products-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    res.setHeader("Content-Type", sheetContentType(format));
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+    res.send(file);
+  } catch (error) {
+    console.error("Error exporting products:", error);
+    res.status(500).json({ error: "Failed to export products" });
+  }
+};
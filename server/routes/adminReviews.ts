@@ -0,0 +1,220 @@
+import { RequestHandler } from "express";
+import { z } from "zod";
+import {
+  AdminReview,
+  AdminReviewListResponse,
+  ReviewFit,
+  ReviewPhoto,
+  ReviewStatus,
+} from "@shared/api";
+import { getReviewPhotos, removeReviewPhotoFiles } from "../lib/reviewPhotos";
+import { getSupabaseAdmin } from "../lib/supabase";
+import { getAuthUser } from "../middleware/auth";
+
+interface AdminReviewRow {
+  id: string;
+  product_id: string;
+  product_name: string;
+  user_id: string;
+  reviewer_email: string | null;
+  rating: number;
+  title: string;
+  body: string;
+  size_purchased: string | null;
+  fit: ReviewFit | null;
+  status: ReviewStatus;
+  hold_reason: string | null;
+  admin_reply: string | null;
+  admin_replied_at: string | null;
+  is_verified_purchase: boolean;
+  moderated_at: string | null;
+  created_at: string;
+  updated_at: string;
+  total_count: number;
+}
+
+const PAGE_SIZE = 20;
+
+const listReviewsSchema = z.object({
+  status: z
+    .enum(["pending", "approved", "rejected", "flagged"])
+    .default("pending"),
+  page: z.coerce.number().int().min(0).default(0),
+});
+
+const moderateReviewSchema = z
+  .object({
+    status: z.enum(["approved", "rejected", "flagged"]).optional(),
+    reply: z
+      .string()
+      .trim()
+      .max(2000, "Keep the reply under 2000 characters")
+      .nullish(),
+  })
+  .refine((body) => body.status !== undefined || body.reply !== undefined, {
+    message: "Nothing to change",
+  });
+
+function toAdminReview(
+  row: AdminReviewRow,
+  photos: ReviewPhoto[],
+): AdminReview {
+  return {
+    id: row.id,
+    productId: row.product_id,
+    productName: row.product_name,
+    userId: row.user_id,
+    reviewerEmail: row.reviewer_email,
+    rating: row.rating,
+    title: row.title,
+    body: row.body,
+    sizePurchased: row.size_purchased,
+    fit: row.fit,
+    status: row.status,
+    holdReason: row.hold_reason,
+    photos,
+    reply:
+      row.admin_reply && row.admin_replied_at
+        ? { body: row.admin_reply, repliedAt: row.admin_replied_at }
+        : null,
+    verifiedPurchase: row.is_verified_purchase,
+    moderatedAt: row.moderated_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export const handleListReviewsForModeration: RequestHandler = async (
+  req,
+  res,
+) => {
+  const parsed = listReviewsSchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: parsed.error.issues[0].message });
+    return;
+  }
+
+  const { status, page } = parsed.data;
+
+  try {
+    const { data, error } = await getSupabaseAdmin().rpc(
+      "admin_product_reviews",
+      {
+        p_status: status,
+        p_limit: PAGE_SIZE,
+        p_offset: page * PAGE_SIZE,
+      },
+    );
+    if (error) throw error;
+
+    const rows = (data || []) as AdminReviewRow[];
+    const photos = await getReviewPhotos(
+      rows.map((row) => row.id),
+      false,
+    );
+    const response: AdminReviewListResponse = {
+      reviews: rows.map((row) => toAdminReview(row, photos.get(row.id) || [])),
+      total: rows.length > 0 ? Number(rows[0].total_count) : 0,
+      pageSize: PAGE_SIZE,
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Error listing reviews for moderation:", error);
+    res.status(500).json({ error: "Failed to load reviews" });
+  }
+};
+
+/**
+ * Approves, rejects or flags a review, and sets or removes the store's
+ * public reply. Approving also approves the review's photos.
+ */
+export const handleModerateReview: RequestHandler = async (req, res) => {
+  const { reviewId } = req.params;
+  if (!z.string().uuid().safeParse(reviewId).success) {
+    res.status(404).json({ error: "Review not found" });
+    return;
+  }
+
+  const parsed = moderateReviewSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: parsed.error.issues[0].message });
+    return;
+  }
+
+  const { status, reply } = parsed.data;
+  const supabase = getSupabaseAdmin();
+  const changes: Record<string, unknown> = {
+    moderated_by: getAuthUser(res).id,
+    moderated_at: new Date().toISOString(),
+  };
+  if (status) changes.status = status;
+  if (reply !== undefined) {
+    changes.admin_reply = reply || null;
+    changes.admin_replied_at = reply ? new Date().toISOString() : null;
+  }
+
+  try {
+    const { data: review, error } = await supabase
+      .from("product_reviews")
+      .update(changes)
+      .eq("id", reviewId)
+      .select("id")
+      .maybeSingle();
+    if (error) throw error;
+
+    if (!review) {
+      res.status(404).json({ error: "Review not found" });
+      return;
+    }
+
+    if (status === "approved") {
+      const { error: photoError } = await supabase
+        .from("review_photos")
+        .update({ is_approved: true })
+        .eq("review_id", reviewId)
+        .eq("is_approved", false);
+      if (photoError) throw photoError;
+    }
+
+    res.status(204).end();
+  } catch (error) {
+    console.error("Error moderating review:", error);
+    res.status(500).json({ error: "Failed to update the review" });
+  }
+};
+
+/**
+ * Removes one photo from a review, e.g. before approving the rest
+ */
+export const handleDeleteReviewPhoto: RequestHandler = async (req, res) => {
+  const { reviewId, photoId } = req.params;
+  if (
+    !z.string().uuid().safeParse(reviewId).success ||
+    !z.string().uuid().safeParse(photoId).success
+  ) {
+    res.status(404).json({ error: "Photo not found" });
+    return;
+  }
+
+  try {
+    const { data: photo, error } = await getSupabaseAdmin()
+      .from("review_photos")
+      .delete()
+      .eq("id", photoId)
+      .eq("review_id", reviewId)
+      .select("storage_path")
+      .maybeSingle<{ storage_path: string }>();
+    if (error) throw error;
+
+    if (!photo) {
+      res.status(404).json({ error: "Photo not found" });
+      return;
+    }
+
+    await removeReviewPhotoFiles([photo.storage_path]);
+    res.status(204).end();
+  } catch (error) {
+    console.error("Error deleting review photo:", error);
+    res.status(500).json({ error: "Failed to delete the photo" });
+  }
+};
@@ -0,0 +1,35 @@
+import { RequestHandler } from "express";
+import { AdminStatsResponse } from "@shared/api";
+import { getSupabaseAdmin } from "../lib/supabase";
+
+/**
+ * Headline numbers for the admin dashboard
+ */
+export const handleGetAdminStats: RequestHandler = async (_req, res) => {
+  const supabase = getSupabaseAdmin();
+
+  try {
+    const [products, orders, users, revenue] = await Promise.all([
+      supabase.from("products").select("id", { count: "exact", head: true }),
+      supabase.from("orders").select("id", { count: "exact", head: true }),
+      supabase
+        .from("user_profiles")
+        .select("id", { count: "exact", head: true }),
+      supabase.rpc("paid_order_revenue"),
+    ]);
+    for (const { error } of [products, orders, users, revenue]) {
+      if (error) throw error;
+    }
+
+    const response: AdminStatsResponse = {
+      totalProducts: products.count || 0,
+      totalOrders: orders.count || 0,
+      totalUsers: users.count || 0,
+      revenue: Number(revenue.data) || 0,
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Error fetching admin stats:", error);
+    res.status(500).json({ error: "Failed to load stats" });
+  }
+};
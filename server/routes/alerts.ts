@@ -0,0 +1,77 @@
+import crypto from "crypto";
+import { RequestHandler } from "express";
+import { z } from "zod";
+import { SendAlertsResponse } from "@shared/api";
+import { sendPendingAlerts } from "../lib/alerts";
+import { getSupabaseAdmin } from "../lib/supabase";
+
+const unsubscribeSchema = z.object({
+  token: z.string().regex(/^[0-9a-f]{32}$/),
+  type: z.enum(["back_in_stock", "price_drop"]),
+});
+
+/**
+ * One-click unsubscribe from an alert email. The token and type arrive in
+ * the query string (List-Unsubscribe-Post) or the body (unsubscribe page).
+ */
+export const handleUnsubscribeAlerts: RequestHandler = async (req, res) => {
+  const parsed = unsubscribeSchema.safeParse({
+    token: req.body?.token ?? req.query.token,
+    type: req.body?.type ?? req.query.type,
+  });
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid unsubscribe link" });
+    return;
+  }
+
+  try {
+    const { data, error } = await getSupabaseAdmin().rpc(
+      "unsubscribe_notifications",
+      { p_token: parsed.data.token, p_kind: parsed.data.type },
+    );
+    if (error) throw error;
+
+    if (!data) {
+      res.status(404).json({ error: "Invalid unsubscribe link" });
+      return;
+    }
+
+    res.status(204).end();
+  } catch (error) {
+    console.error("Error unsubscribing from alerts:", error);
+    res.status(500).json({ error: "Failed to unsubscribe" });
+  }
+};
+
+function bearerMatches(header: string | undefined, secret: string): boolean {
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(header || "");
+  return (
+    expected.length === actual.length &&
+    crypto.timingSafeEqual(expected, actual)
+  );
+}
+
+/**
+ * Sends queued alert emails. Called by a scheduler with
+ * `Authorization: Bearer $ALERTS_CRON_SECRET`.
+ */
+export const handleSendAlerts: RequestHandler = async (req, res) => {
+  const secret = process.env.ALERTS_CRON_SECRET;
+  if (!secret) {
+    res.status(503).json({ error: "Alert sending is not configured" });
+    return;
+  }
+  if (!bearerMatches(req.headers.authorization, secret)) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+
+  try {
+    const result: SendAlertsResponse = await sendPendingAlerts();
+    res.json(result);
+  } catch (error) {
+    console.error("Error sending alerts:", error);
+    res.status(500).json({ error: "Failed to send alerts" });
+  }
+};
@@ -0,0 +1,94 @@
+import { RequestHandler } from "express";
+import { z } from "zod";
+import { ReserveStockResponse, StockIssueResponse } from "@shared/api";
+import { CheckoutQuoteRow, toCheckoutQuote } from "../lib/checkout";
+import { getSupabaseAdmin } from "../lib/supabase";
+import { RESERVATION_MINUTES, toStockIssues } from "../lib/stock";
+import { getAuthUser } from "../middleware/auth";
+
+const quoteSchema = z.object({
+  pinCode: z.string().trim().optional(),
+  state: z.string().trim().optional(),
+  paymentMethod: z.enum(["razorpay", "cod"]),
+  couponCode: z.string().trim().max(50).optional(),
+});
+
+export const handleReserveStock: RequestHandler = async (_req, res) => {
+  const user = getAuthUser(res);
+
+  try {
+    const { data, error } = await getSupabaseAdmin().rpc("reserve_cart_stock", {
+      p_user_id: user.id,
+      p_minutes: RESERVATION_MINUTES,
+    });
+    if (error) throw error;
+
+    const lines = toStockIssues(data);
+    if (lines.length > 0) {
+      const response: StockIssueResponse = {
+        error: "Some items in your cart are out of stock",
+        lines,
+      };
+      res.status(409).json(response);
+      return;
+    }
+
+    const response: ReserveStockResponse = {
+      expiresAt: new Date(
+        Date.now() + RESERVATION_MINUTES * 60 * 1000,
+      ).toISOString(),
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Error reserving stock:", error);
+    res.status(500).json({ error: "Failed to reserve stock" });
+  }
+};
+
+export const handleReleaseStock: RequestHandler = async (_req, res) => {
+  const user = getAuthUser(res);
+
+  try {
+    const { error } = await getSupabaseAdmin().rpc(
+      "release_stock_reservations",
+      { p_user_id: user.id },
+    );
+    if (error) throw error;
+    res.status(204).end();
+  } catch (error) {
+    console.error("Error releasing stock:", error);
+    res.status(500).json({ error: "Failed to release stock" });
+  }
+};
+
+/**
+ * Prices the caller's cart for the given address and payment method using
+ * the same rules as place_order
+ */
+export const handleCheckoutQuote: RequestHandler = async (req, res) => {
+  const parsed = quoteSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "A valid payment method is required" });
+    return;
+  }
+
+  const user = getAuthUser(res);
+
+  try {
+    const { data, error } = await getSupabaseAdmin()
+      .rpc("checkout_quote", {
+        p_user_id: user.id,
+        p_pin_code: parsed.data.pinCode || null,
+        p_state: parsed.data.state || null,
+        p_payment_method: parsed.data.paymentMethod,
+        p_coupon_code: parsed.data.couponCode || null,
+      })
+      .single<CheckoutQuoteRow>();
+    if (error) throw error;
+
+    res.json(toCheckoutQuote(data));
+  } catch (error) {
+    console.error("Error quoting checkout:", error);
+    res.status(500).json({ error: "Failed to calculate order total" });
+  }
+};
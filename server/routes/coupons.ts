@@ -0,0 +1,68 @@
+import { RequestHandler } from "express";
+import { z } from "zod";
+import { ValidateCouponResponse } from "@shared/api";
+import { sumDiscountLines } from "../lib/coupons";
+import { getSupabaseAdmin } from "../lib/supabase";
+import { getAuthUser } from "../middleware/auth";
+
+interface CouponEvaluationRow {
+  coupon_id: string | null;
+  coupon_code: string;
+  coupon_description: string | null;
+  is_valid: boolean;
+  message: string | null;
+  free_shipping: boolean;
+}
+
+const validateCouponSchema = z.object({
+  code: z.string().trim().min(1, "Enter a coupon code").max(50),
+});
+
+/**
+ * Checks a coupon code against the caller's cart and reports the discount
+ * it would give. Nothing is reserved; place_order checks again.
+ */
+export const handleValidateCoupon: RequestHandler = async (req, res) => {
+  const parsed = validateCouponSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: parsed.error.issues[0].message });
+    return;
+  }
+
+  const user = getAuthUser(res);
+  const supabase = getSupabaseAdmin();
+
+  try {
+    const { data: coupon, error } = await supabase
+      .rpc("evaluate_coupon", {
+        p_user_id: user.id,
+        p_code: parsed.data.code,
+      })
+      .single<CouponEvaluationRow>();
+    if (error) throw error;
+
+    if (!coupon.is_valid) {
+      res
+        .status(409)
+        .json({ error: coupon.message || "This coupon code is not valid" });
+      return;
+    }
+
+    const { data: lines, error: linesError } = await supabase.rpc(
+      "cart_discount_lines",
+      { p_user_id: user.id, p_coupon_id: coupon.coupon_id },
+    );
+    if (linesError) throw linesError;
+
+    const response: ValidateCouponResponse = {
+      code: coupon.coupon_code,
+      description: coupon.coupon_description,
+      discountAmount: sumDiscountLines(lines),
+      freeShipping: coupon.free_shipping,
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Error validating coupon:", error);
+    res.status(500).json({ error: "Failed to check coupon" });
+  }
+};
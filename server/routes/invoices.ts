@@ -0,0 +1,170 @@
+import { RequestHandler } from "express";
+import { z } from "zod";
+import { getSupabaseAdmin } from "../lib/supabase";
+import { InvoiceAddress, InvoiceLine, renderInvoicePdf } from "../lib/invoice";
+import { getAuthUser, hasAdminPermission } from "../middleware/auth";
+
+interface InvoiceRow {
+  invoice_number: string;
+  issued_at: string;
+}
+
+interface InvoiceOrderItemRow {
+  quantity: number;
+  total_price: number;
+  discount_amount: number;
+  gst_rate: number;
+  taxable_value: number | null;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+  hsn_code: string | null;
+  product_snapshot: {
+    name?: string;
+    size?: string | null;
+    color_name?: string | null;
+  } | null;
+}
+
+interface InvoiceOrderRow {
+  id: string;
+  user_id: string;
+  order_number: string;
+  created_at: string;
+  shipping_amount: number;
+  discount_amount: number;
+  coupon_code: string | null;
+  total_amount: number;
+  shipping_address: InvoiceAddress;
+  billing_address: InvoiceAddress | null;
+  order_items: InvoiceOrderItemRow[];
+}
+
+interface SellerRow {
+  legal_name: string;
+  address: string | null;
+  gstin: string | null;
+  store_state: string;
+  default_hsn_code: string;
+}
+
+function toInvoiceLine(
+  item: InvoiceOrderItemRow,
+  defaultHsnCode: string,
+): InvoiceLine {
+  const snapshot = item.product_snapshot || {};
+  const variant = [snapshot.size, snapshot.color_name]
+    .filter(Boolean)
+    .join(" / ");
+
+  return {
+    description: variant
+      ? `${snapshot.name || "Product"} (${variant})`
+      : snapshot.name || "Product",
+    hsnCode: item.hsn_code || defaultHsnCode,
+    quantity: item.quantity,
+    gstRate: Number(item.gst_rate),
+    // Orders placed before GST was tracked have no breakdown
+    taxableValue: Number(
+      item.taxable_value ?? item.total_price - item.discount_amount,
+    ),
+    cgst: Number(item.cgst_amount),
+    sgst: Number(item.sgst_amount),
+    igst: Number(item.igst_amount),
+    total: Number(item.total_price) - Number(item.discount_amount),
+  };
+}
+
+/**
+ * Streams the GST tax invoice for an order as a PDF. Available to the
+ * customer who placed the order and to admins.
+ */
+export const handleGetInvoice: RequestHandler = async (req, res) => {
+  const user = getAuthUser(res);
+  const { orderId } = req.params;
+  const supabase = getSupabaseAdmin();
+
+  if (!z.string().uuid().safeParse(orderId).success) {
+    res.status(404).json({ error: "Order not found" });
+    return;
+  }
+
+  try {
+    const { data: owner, error: ownerError } = await supabase
+      .from("orders")
+      .select("user_id")
+      .eq("id", orderId)
+      .maybeSingle<{ user_id: string }>();
+    if (ownerError) throw ownerError;
+
+    if (
+      !owner ||
+      (owner.user_id !== user.id &&
+        !(await hasAdminPermission(user.id, "orders.view")))
+    ) {
+      res.status(404).json({ error: "Order not found" });
+      return;
+    }
+
+    const { data: invoice, error: invoiceError } = await supabase
+      .rpc("issue_invoice", { p_order_id: orderId })
+      .single<InvoiceRow>();
+
+    if (invoiceError) {
+      if (invoiceError.code === "P0001") {
+        res.status(409).json({ error: invoiceError.message });
+        return;
+      }
+      throw invoiceError;
+    }
+
+    const [
+      { data: order, error: orderError },
+      { data: seller, error: sellerError },
+    ] = await Promise.all([
+      supabase
+        .from("orders")
+        .select(
+          "id, user_id, order_number, created_at, shipping_amount, discount_amount, coupon_code, total_amount, shipping_address, billing_address, order_items(quantity, total_price, discount_amount, gst_rate, taxable_value, cgst_amount, sgst_amount, igst_amount, hsn_code, product_snapshot)",
+        )
+        .eq("id", orderId)
+        .single<InvoiceOrderRow>(),
+      supabase
+        .from("tax_settings")
+        .select("legal_name, address, gstin, store_state, default_hsn_code")
+        .single<SellerRow>(),
+    ]);
+    if (orderError) throw orderError;
+    if (sellerError) throw sellerError;
+
+    const pdf = await renderInvoicePdf({
+      invoiceNumber: invoice.invoice_number,
+      issuedAt: new Date(invoice.issued_at),
+      orderNumber: order.order_number,
+      orderDate: new Date(order.created_at),
+      seller: {
+        legalName: seller.legal_name,
+        address: seller.address,
+        gstin: seller.gstin,
+        state: seller.store_state,
+      },
+      billTo: order.billing_address || order.shipping_address,
+      shipTo: order.shipping_address,
+      lines: order.order_items.map((item) =>
+        toInvoiceLine(item, seller.default_hsn_code),
+      ),
+      discount: Number(order.discount_amount),
+      couponCode: order.coupon_code,
+      charges: Number(order.shipping_amount),
+      total: Number(order.total_amount),
+    });
+
+    const filename = `${invoice.invoice_number.replace(/\//g, "-")}.pdf`;
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+    res.send(pdf);
+  } catch (error) {
+    console.error("Error generating invoice:", error);
+    res.status(500).json({ error: "Failed to generate invoice" });
+  }
+};
@@ -0,0 +1,113 @@
+import { RequestHandler } from "express";
+import { z } from "zod";
+import {
+  CheckoutAddress,
+  PlaceOrderRequest,
+  PlaceOrderResponse,
+  StockIssueResponse,
+} from "@shared/api";
+import { getSupabaseAdmin } from "../lib/supabase";
+import { getCartStockIssues } from "../lib/stock";
+import { getAuthUser } from "../middleware/auth";
+
+interface OrderRow {
+  id: string;
+  order_number: string;
+  total_amount: number;
+}
+
+const addressSchema = z.object({
+  firstName: z.string().trim().min(1, "First name is required"),
+  lastName: z.string().trim().min(1, "Last name is required"),
+  company: z.string().trim().optional(),
+  address: z.string().trim().min(1, "Address is required"),
+  apartment: z.string().trim().optional(),
+  city: z.string().trim().min(1, "City is required"),
+  state: z.string().trim().min(1, "State is required"),
+  pinCode: z
+    .string()
+    .trim()
+    .regex(/^\d{6}$/, "PIN code must be 6 digits"),
+  phone: z.string().trim().min(10, "Phone number is required"),
+});
+
+const placeOrderSchema = z.object({
+  email: z.string().trim().email("A valid email is required"),
+  paymentMethod: z.enum(["razorpay", "cod"]),
+  shippingAddress: addressSchema,
+  billingAddress: addressSchema.optional(),
+  notes: z.string().trim().max(500).optional(),
+  couponCode: z.string().trim().max(50).optional(),
+});
+
+/**
+ * Stores a checkout address in the same shape as the `addresses` table so
+ * OrdersPage can render it without knowing where it came from.
+ */
+function toOrderAddress(address: CheckoutAddress, email: string) {
+  return {
+    name: `${address.firstName} ${address.lastName}`,
+    company: address.company || null,
+    street: [address.address, address.apartment].filter(Boolean).join(", "),
+    city: address.city,
+    state: address.state,
+    postal_code: address.pinCode,
+    country: "India",
+    phone: address.phone,
+    email,
+  };
+}
+
+export const handlePlaceOrder: RequestHandler = async (req, res) => {
+  const parsed = placeOrderSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: parsed.error.issues[0].message });
+    return;
+  }
+
+  const user = getAuthUser(res);
+  const body: PlaceOrderRequest = parsed.data as PlaceOrderRequest;
+
+  try {
+    const { data: order, error } = await getSupabaseAdmin()
+      .rpc("place_order", {
+        p_user_id: user.id,
+        p_payment_method: body.paymentMethod,
+        p_shipping_address: toOrderAddress(body.shippingAddress, body.email),
+        p_billing_address: body.billingAddress
+          ? toOrderAddress(body.billingAddress, body.email)
+          : null,
+        p_notes: body.notes || null,
+        p_coupon_code: body.couponCode || null,
+      })
+      .single<OrderRow>();
+
+    if (error) {
+      // P0001 is raised by place_order for problems the shopper can fix
+      if (error.code === "P0001") {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+      // P0002 means at least one line is out of stock
+      if (error.code === "P0002") {
+        const response: StockIssueResponse = {
+          error: error.message,
+          lines: await getCartStockIssues(user.id),
+        };
+        res.status(409).json(response);
+        return;
+      }
+      throw error;
+    }
+
+    const response: PlaceOrderResponse = {
+      orderId: order.id,
+      orderNumber: order.order_number,
+      totalAmount: Number(order.total_amount),
+    };
+    res.status(201).json(response);
+  } catch (error) {
+    console.error("Error placing order:", error);
+    res.status(500).json({ error: "Failed to place order" });
+  }
+};
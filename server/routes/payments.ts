@@ -0,0 +1,301 @@
+import { Request, RequestHandler } from "express";
+import { z } from "zod";
+import {
+  CreatePaymentResponse,
+  MockPaymentResponse,
+  PaymentResultResponse,
+} from "@shared/api";
+import { getSupabaseAdmin } from "../lib/supabase";
+import { getPaymentGateway, MockPaymentGateway } from "../lib/payments";
+import { getAuthUser } from "../middleware/auth";
+
+interface PayableOrderRow {
+  id: string;
+  user_id: string;
+  order_number: string;
+  status: string;
+  total_amount: number;
+  currency: string;
+  payment_method: string | null;
+  payment_status: PaymentResultResponse["paymentStatus"];
+  gateway_order_id: string | null;
+}
+
+interface RequestWithRawBody extends Request {
+  rawBody?: Buffer;
+}
+
+const createPaymentSchema = z.object({
+  orderId: z.string().uuid(),
+});
+
+const verifyPaymentSchema = z.object({
+  orderId: z.string().uuid(),
+  gatewayOrderId: z.string().min(1),
+  gatewayPaymentId: z.string().min(1),
+  signature: z.string().min(1),
+});
+
+const paymentFailureSchema = z.object({
+  orderId: z.string().uuid(),
+});
+
+const mockPaymentSchema = z.object({
+  gatewayOrderId: z.string().min(1),
+  succeed: z.boolean(),
+});
+
+async function getOwnOrder(orderId: string, userId: string) {
+  const { data, error } = await getSupabaseAdmin()
+    .from("orders")
+    .select(
+      "id, user_id, order_number, status, total_amount, currency, payment_method, payment_status, gateway_order_id",
+    )
+    .eq("id", orderId)
+    .eq("user_id", userId)
+    .maybeSingle<PayableOrderRow>();
+
+  if (error) throw error;
+  return data;
+}
+
+async function recordPayment(
+  orderId: string,
+  paid: boolean,
+  gatewayPaymentId?: string,
+): Promise<PaymentResultResponse> {
+  const { data, error } = await getSupabaseAdmin()
+    .rpc("record_order_payment", {
+      p_order_id: orderId,
+      p_paid: paid,
+      p_gateway_payment_id: gatewayPaymentId || null,
+    })
+    .single<PayableOrderRow>();
+
+  if (error) throw error;
+  return { orderId: data.id, paymentStatus: data.payment_status };
+}
+
+/**
+ * Creates a gateway order for one of the caller's pending online-payment
+ * orders. The amount always comes from `orders.total_amount`.
+ */
+export const handleCreatePayment: RequestHandler = async (req, res) => {
+  const parsed = createPaymentSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "A valid order id is required" });
+    return;
+  }
+
+  const user = getAuthUser(res);
+
+  try {
+    const order = await getOwnOrder(parsed.data.orderId, user.id);
+    if (!order) {
+      res.status(404).json({ error: "Order not found" });
+      return;
+    }
+    if (order.payment_method !== "razorpay") {
+      res.status(400).json({ error: "This order is not paid online" });
+      return;
+    }
+    if (order.payment_status !== "pending") {
+      res
+        .status(409)
+        .json({ error: `This order is already ${order.payment_status}` });
+      return;
+    }
+
+    const gateway = getPaymentGateway();
+    const gatewayOrder = await gateway.createOrder({
+      amount: Math.round(Number(order.total_amount) * 100),
+      currency: order.currency || "INR",
+      receipt: order.order_number,
+      notes: { order_id: order.id },
+    });
+
+    const { error } = await getSupabaseAdmin()
+      .from("orders")
+      .update({
+        payment_gateway: gateway.name,
+        gateway_order_id: gatewayOrder.id,
+      })
+      .eq("id", order.id);
+    if (error) throw error;
+
+    const response: CreatePaymentResponse = {
+      gateway: gateway.name,
+      keyId: gateway.publicKey,
+      gatewayOrderId: gatewayOrder.id,
+      amount: gatewayOrder.amount,
+      currency: gatewayOrder.currency,
+      orderNumber: order.order_number,
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Error creating payment:", error);
+    res.status(500).json({ error: "Failed to start payment" });
+  }
+};
+
+/**
+ * Checkout callback: verifies the signature returned by the gateway widget
+ */
+export const handleVerifyPayment: RequestHandler = async (req, res) => {
+  const parsed = verifyPaymentSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid payment details" });
+    return;
+  }
+
+  const user = getAuthUser(res);
+  const body = parsed.data;
+
+  try {
+    const order = await getOwnOrder(body.orderId, user.id);
+    if (!order || order.gateway_order_id !== body.gatewayOrderId) {
+      res.status(404).json({ error: "Order not found" });
+      return;
+    }
+
+    const verified = getPaymentGateway().verifyPaymentSignature({
+      gatewayOrderId: body.gatewayOrderId,
+      gatewayPaymentId: body.gatewayPaymentId,
+      signature: body.signature,
+    });
+
+    const result = await recordPayment(
+      order.id,
+      verified,
+      body.gatewayPaymentId,
+    );
+
+    if (!verified) {
+      res.status(400).json({ error: "Payment verification failed" });
+      return;
+    }
+    res.json(result);
+  } catch (error) {
+    console.error("Error verifying payment:", error);
+    res.status(500).json({ error: "Failed to verify payment" });
+  }
+};
+
+/**
+ * Called by the browser when the shopper abandons the checkout widget or
+ * the payment couldn't be started. Only an online-payment order still
+ * waiting for its payment can fail.
+ */
+export const handlePaymentFailure: RequestHandler = async (req, res) => {
+  const parsed = paymentFailureSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "A valid order id is required" });
+    return;
+  }
+
+  const user = getAuthUser(res);
+
+  try {
+    const order = await getOwnOrder(parsed.data.orderId, user.id);
+    if (!order || order.payment_method !== "razorpay") {
+      res.status(404).json({ error: "Order not found" });
+      return;
+    }
+    if (order.status !== "pending" || order.payment_status !== "pending") {
+      res
+        .status(409)
+        .json({ error: "This order is no longer awaiting payment" });
+      return;
+    }
+
+    res.json(await recordPayment(order.id, false));
+  } catch (error) {
+    console.error("Error recording payment failure:", error);
+    res.status(500).json({ error: "Failed to record payment failure" });
+  }
+};
+
+/**
+ * Gateway webhook. Authenticated only by the HMAC signature header.
+ */
+export const handlePaymentWebhook: RequestHandler = async (req, res) => {
+  const rawBody = (req as RequestWithRawBody).rawBody;
+  const signature = req.header("x-razorpay-signature") || "";
+
+  let verified: boolean;
+  try {
+    verified =
+      !!rawBody &&
+      getPaymentGateway().verifyWebhookSignature(rawBody, signature);
+  } catch (error) {
+    console.error("Error handling payment webhook:", error);
+    res.status(500).json({ error: "Failed to process webhook" });
+    return;
+  }
+  if (!verified) {
+    res.status(400).json({ error: "Invalid webhook signature" });
+    return;
+  }
+
+  const event: string = req.body?.event;
+  const payment = req.body?.payload?.payment?.entity;
+  const gatewayOrderId: string | undefined =
+    payment?.order_id || req.body?.payload?.order?.entity?.id;
+
+  // payment.failed is not acted on: the shopper can retry on the same
+  // gateway order, so one failed attempt doesn't fail the order
+  const paidEvents = ["payment.captured", "order.paid"];
+
+  if (event === "payment.failed") {
+    console.warn(
+      `Payment attempt failed for gateway order ${gatewayOrderId}:`,
+      payment?.error_description,
+    );
+  }
+
+  if (!paidEvents.includes(event) || !gatewayOrderId) {
+    // Acknowledge events we don't act on so the gateway stops retrying
+    res.json({ received: true });
+    return;
+  }
+
+  try {
+    const { data: order, error } = await getSupabaseAdmin()
+      .from("orders")
+      .select("id")
+      .eq("gateway_order_id", gatewayOrderId)
+      .maybeSingle<{ id: string }>();
+    if (error) throw error;
+
+    if (order) {
+      await recordPayment(order.id, true, payment?.id);
+    }
+    res.json({ received: true });
+  } catch (error) {
+    console.error("Error handling payment webhook:", error);
+    res.status(500).json({ error: "Failed to process webhook" });
+  }
+};
+
+/**
+ * Mock gateway only: stands in for the hosted checkout widget
+ */
+export const handleMockPayment: RequestHandler = (req, res) => {
+  const gateway = getPaymentGateway();
+  if (!(gateway instanceof MockPaymentGateway)) {
+    res.status(404).json({ error: "API endpoint not found" });
+    return;
+  }
+
+  const parsed = mockPaymentSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid mock payment request" });
+    return;
+  }
+
+  const response: MockPaymentResponse = gateway.simulatePayment(
+    parsed.data.gatewayOrderId,
+    parsed.data.succeed,
+  );
+  res.json(response);
+};
@@ -0,0 +1,224 @@
+import crypto from "crypto";
+import { RequestHandler } from "express";
+import { z } from "zod";
+import {
+  PRICE_BANDS,
+  PRODUCT_SUMMARY_SELECT,
+  ProductFacets,
+  ProductFacetValue,
+  ProductListingResponse,
+  ProductSummaryRow,
+  toProductSummary,
+} from "@shared/api";
+import { getSupabaseAdmin } from "../lib/supabase";
+import { hitRateLimit } from "../middleware/rateLimit";
+
+interface FilteredProductRow {
+  product_id: string;
+  total_count: number;
+}
+
+interface FacetRow {
+  facet: "size" | "color" | "subcategory" | "price";
+  value: string;
+  label: string;
+  swatch: string | null;
+  product_count: number;
+}
+
+// Comma-separated in the URL; an empty list means no filter
+const listParam = z
+  .string()
+  .max(500)
+  .optional()
+  .transform((value) =>
+    (value || "")
+      .split(",")
+      .map((item) => item.trim())
+      .filter(Boolean),
+  );
+
+const listingSchema = z.object({
+  category: z.string().trim().max(100).optional(),
+  onSale: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) => value === "true"),
+  q: z.string().trim().max(100).default(""),
+  size: listParam,
+  color: listParam,
+  subcategory: listParam,
+  price: listParam,
+  sort: z
+    .enum([
+      "relevance",
+      "name",
+      "price-low",
+      "price-high",
+      "rating",
+      "newest",
+      "popularity",
+    ])
+    .optional(),
+  page: z.coerce.number().int().min(1).max(1000).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(24),
+});
+
+const SIZE_ORDER = [
+  "XS",
+  "S",
+  "M",
+  "L",
+  "XL",
+  "XXL",
+  "3XL",
+  "4XL",
+  "5XL",
+  "Free Size",
+];
+
+function compareSizes(a: ProductFacetValue, b: ProductFacetValue): number {
+  const indexA = SIZE_ORDER.indexOf(a.value);
+  const indexB = SIZE_ORDER.indexOf(b.value);
+  if (indexA !== -1 && indexB !== -1) return indexA - indexB;
+  if (indexA !== -1) return -1;
+  if (indexB !== -1) return 1;
+  return a.value.localeCompare(b.value, undefined, { numeric: true });
+}
+
+function toFacets(rows: FacetRow[]): ProductFacets {
+  const values = (facet: FacetRow["facet"]): ProductFacetValue[] =>
+    rows
+      .filter((row) => row.facet === facet)
+      .map((row) => ({
+        value: row.value,
+        label: row.label,
+        count: row.product_count,
+        ...(facet === "color" ? { swatch: row.swatch } : {}),
+      }));
+
+  return {
+    sizes: values("size").sort(compareSizes),
+    colors: values("color").sort((a, b) => a.label.localeCompare(b.label)),
+    subcategories: values("subcategory").sort((a, b) =>
+      a.label.localeCompare(b.label),
+    ),
+    priceBands: PRICE_BANDS.flatMap((band) => {
+      const row = rows.find(
+        (r) => r.facet === "price" && r.value === band.value,
+      );
+      return row
+        ? [{ value: band.value, label: band.label, count: row.product_count }]
+        : [];
+    }),
+  };
+}
+
+/**
+ * Counts a search towards popular queries, once per client. Clients are
+ * kept as a hash of their IP, in the rate limit too, and one running more
+ * than 30 searches an hour stops being counted, so a script can't fill
+ * everyone's suggestions.
+ */
+async function recordSearchQuery(query: string, ip: string | undefined) {
+  const client = crypto
+    .createHash("sha256")
+    .update(ip || "")
+    .digest("hex");
+
+  const { allowed } = await hitRateLimit(
+    { name: "record-search", limit: 30, windowSeconds: 60 * 60 },
+    client,
+  );
+  if (!allowed) return;
+
+  const { error } = await getSupabaseAdmin().rpc("record_search_query", {
+    p_query: query,
+    p_client: client,
+  });
+  if (error) throw error;
+}
+
+/**
+ * Product listing for the category, all-products, search and hot sales
+ * pages: one page of the products passing the filters, in order, with
+ * facet counts on the first page. Open to guests.
+ */
+export const handleListProducts: RequestHandler = async (req, res) => {
+  const parsed = listingSchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid product filters" });
+    return;
+  }
+
+  const { category, onSale, q, size, color, subcategory, price } = parsed.data;
+  const { page, pageSize } = parsed.data;
+  const sort = parsed.data.sort || (q ? "relevance" : "name");
+  const filters = {
+    p_category: category || null,
+    p_query: q,
+    p_on_sale: onSale,
+    p_sizes: size.length ? size : null,
+    p_colors: color.length ? color : null,
+    p_subcategories: subcategory.length ? subcategory : null,
+    p_price_bands: price.length ? price : null,
+  };
+
+  const supabase = getSupabaseAdmin();
+
+  try {
+    const [filtered, facets] = await Promise.all([
+      supabase.rpc("filter_products", {
+        ...filters,
+        p_sort: sort,
+        p_limit: pageSize,
+        p_offset: (page - 1) * pageSize,
+      }),
+      page === 1
+        ? supabase.rpc("product_facets", filters)
+        : Promise.resolve(null),
+    ]);
+    if (filtered.error) throw filtered.error;
+    if (facets?.error) throw facets.error;
+
+    const matches = (filtered.data || []) as FilteredProductRow[];
+    const ids = matches.map((m) => m.product_id);
+
+    let products: ProductSummaryRow[] = [];
+    if (ids.length > 0) {
+      const { data, error } = await supabase
+        .from("products")
+        .select(PRODUCT_SUMMARY_SELECT)
+        .in("id", ids);
+      if (error) throw error;
+      products = (data || []) as unknown as ProductSummaryRow[];
+    }
+
+    // Only searches that found something count towards popular queries,
+    // so typos don't get suggested to other shoppers. Narrowing the results
+    // with facets isn't a new search.
+    const narrowed = Object.values(filters).some(Array.isArray);
+    if (q && ids.length > 0 && !narrowed && page === 1) {
+      recordSearchQuery(q, req.ip).catch((recordError) => {
+        console.error("Error recording search query:", recordError);
+      });
+    }
+
+    // The total comes with each row, so a page past the end reads 0
+    const total = matches[0]?.total_count || 0;
+    const response: ProductListingResponse = {
+      products: products
+        .sort((a, b) => ids.indexOf(a.id) - ids.indexOf(b.id))
+        .map(toProductSummary),
+      total,
+      page,
+      pageSize,
+      hasMore: page * pageSize < total,
+      facets: facets ? toFacets((facets.data || []) as FacetRow[]) : null,
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Error listing products:", error);
+    res.status(500).json({ error: "Failed to load products" });
+  }
+};
@@ -0,0 +1,431 @@
+import { RequestHandler } from "express";
+import { z } from "zod";
+import {
+  MAX_REVIEW_PHOTOS,
+  MyProductReviewResponse,
+  ProductReview,
+  ProductReviewSummary,
+  ProductReviewsResponse,
+  REVIEW_FITS,
+  ReviewFit,
+  ReviewPhoto,
+  ReviewStatus,
+} from "@shared/api";
+import {
+  checkReviewPhotoFiles,
+  getReviewPhotos,
+  removeReviewPhotoFiles,
+  ReviewPhotoRow,
+  toReviewPhotos,
+} from "../lib/reviewPhotos";
+import { getSupabaseAdmin } from "../lib/supabase";
+import { getAuthUser } from "../middleware/auth";
+
+interface ReviewRow {
+  id: string;
+  rating: number;
+  title: string;
+  body: string;
+  size_purchased: string | null;
+  fit: ReviewFit | null;
+  status: ReviewStatus;
+  admin_reply: string | null;
+  admin_replied_at: string | null;
+  reviewer_name: string;
+  is_verified_purchase: boolean;
+  created_at: string;
+  updated_at: string;
+  total_count: number;
+}
+
+interface GalleryPhotoRow extends ReviewPhotoRow {
+  review: { product_id: string; status: ReviewStatus };
+}
+
+interface ReviewStatRow {
+  stat: "rating" | "fit";
+  value: string;
+  review_count: number;
+}
+
+const GALLERY_SIZE = 24;
+
+const listReviewsSchema = z.object({
+  sort: z.enum(["newest", "oldest", "highest", "lowest"]).default("newest"),
+  page: z.coerce.number().int().min(1).max(1000).default(1),
+  pageSize: z.coerce.number().int().min(1).max(50).default(10),
+});
+
+const fitValues = REVIEW_FITS.map((fit) => fit.value) as [
+  ReviewFit,
+  ...ReviewFit[],
+];
+
+const submitReviewSchema = z.object({
+  rating: z
+    .number({
+      required_error: "Choose a star rating",
+      invalid_type_error: "Choose a star rating",
+    })
+    .int()
+    .min(1, "Choose a star rating")
+    .max(5),
+  title: z
+    .string()
+    .trim()
+    .min(1, "Give your review a title")
+    .max(120, "Keep the title under 120 characters"),
+  body: z
+    .string()
+    .trim()
+    .min(10, "Tell us a little more about the product")
+    .max(2000, "Keep your review under 2000 characters"),
+  sizePurchased: z.string().trim().max(20).nullish(),
+  fit: z.enum(fitValues).nullish(),
+  photos: z
+    .array(z.string().max(200))
+    .max(MAX_REVIEW_PHOTOS, `Add up to ${MAX_REVIEW_PHOTOS} photos`)
+    .default([]),
+});
+
+function toReview(row: ReviewRow, photos: ReviewPhoto[]): ProductReview {
+  return {
+    id: row.id,
+    rating: row.rating,
+    title: row.title,
+    body: row.body,
+    sizePurchased: row.size_purchased,
+    fit: row.fit,
+    status: row.status,
+    photos,
+    reply:
+      row.admin_reply && row.admin_replied_at
+        ? { body: row.admin_reply, repliedAt: row.admin_replied_at }
+        : null,
+    reviewerName: row.reviewer_name,
+    verifiedPurchase: row.is_verified_purchase,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toSummary(rows: ReviewStatRow[]): ProductReviewSummary {
+  const ratings = [5, 4, 3, 2, 1].map((stars) => ({
+    stars,
+    count:
+      rows.find((r) => r.stat === "rating" && Number(r.value) === stars)
+        ?.review_count || 0,
+  }));
+  const count = ratings.reduce((sum, r) => sum + r.count, 0);
+  const totalStars = ratings.reduce((sum, r) => sum + r.stars * r.count, 0);
+
+  return {
+    // Rounded like products.rating
+    average: count > 0 ? Math.round((totalStars / count) * 10) / 10 : 0,
+    count,
+    ratings,
+    fits: REVIEW_FITS.map(({ value }) => ({
+      value,
+      count:
+        rows.find((r) => r.stat === "fit" && r.value === value)?.review_count ||
+        0,
+    })),
+  };
+}
+
+async function getMyReview(
+  productId: string,
+  userId: string,
+): Promise<MyProductReviewResponse> {
+  const supabase = getSupabaseAdmin();
+  const [review, verified] = await Promise.all([
+    supabase
+      .rpc("product_reviews_page", {
+        p_product_id: productId,
+        p_user_id: userId,
+        p_limit: 1,
+      })
+      .maybeSingle<ReviewRow>(),
+    supabase.rpc("is_verified_purchase", {
+      p_user_id: userId,
+      p_product_id: productId,
+    }),
+  ]);
+  if (review.error) throw review.error;
+  if (verified.error) throw verified.error;
+
+  // Customers see their own photos before they're approved
+  const photos = review.data
+    ? await getReviewPhotos([review.data.id], false)
+    : null;
+
+  return {
+    review: review.data
+      ? toReview(review.data, photos?.get(review.data.id) || [])
+      : null,
+    verifiedPurchase: verified.data === true,
+  };
+}
+
+async function getGallery(
+  productId: string,
+): Promise<ProductReviewsResponse["gallery"]> {
+  const { data, error } = await getSupabaseAdmin()
+    .from("review_photos")
+    .select(
+      "id, review_id, storage_path, is_approved, review:product_reviews!inner(product_id, status)",
+    )
+    .eq("review.product_id", productId)
+    .eq("review.status", "approved")
+    .eq("is_approved", true)
+    .order("created_at", { ascending: false })
+    .limit(GALLERY_SIZE)
+    .returns<GalleryPhotoRow[]>();
+  if (error) throw error;
+
+  const rows = data || [];
+  const photos = await toReviewPhotos(rows);
+  return photos.map((photo, index) => ({
+    ...photo,
+    reviewId: rows[index].review_id,
+  }));
+}
+
+/**
+ * Replaces the photos on a review with `paths`, in that order. New photos
+ * wait for approval; ones already on the review keep their approval.
+ */
+async function setReviewPhotos(
+  reviewId: string,
+  paths: string[],
+): Promise<void> {
+  const supabase = getSupabaseAdmin();
+  const { data: current, error } = await supabase
+    .from("review_photos")
+    .select("id, storage_path")
+    .eq("review_id", reviewId)
+    .returns<Pick<ReviewPhotoRow, "id" | "storage_path">[]>();
+  if (error) throw error;
+
+  const removed = (current || []).filter(
+    (p) => !paths.includes(p.storage_path),
+  );
+  if (removed.length > 0) {
+    const { error: deleteError } = await supabase
+      .from("review_photos")
+      .delete()
+      .in(
+        "id",
+        removed.map((p) => p.id),
+      );
+    if (deleteError) throw deleteError;
+    await removeReviewPhotoFiles(removed.map((p) => p.storage_path));
+  }
+
+  // Photos staying on the review keep their row, and with it their approval
+  const kept = new Map((current || []).map((p) => [p.storage_path, p.id]));
+  for (const [index, path] of paths.entries()) {
+    const id = kept.get(path);
+    if (!id) continue;
+    const { error: updateError } = await supabase
+      .from("review_photos")
+      .update({ sort_order: index })
+      .eq("id", id);
+    if (updateError) throw updateError;
+  }
+
+  const added = paths.filter((path) => !kept.has(path));
+  if (added.length > 0) {
+    const { error: insertError } = await supabase.from("review_photos").insert(
+      added.map((path) => ({
+        review_id: reviewId,
+        storage_path: path,
+        sort_order: paths.indexOf(path),
+      })),
+    );
+    if (insertError) throw insertError;
+  }
+}
+
+/**
+ * One page of a product's reviews, with the star and fit breakdown on the
+ * first page. Open to guests.
+ */
+export const handleListReviews: RequestHandler = async (req, res) => {
+  const { productId } = req.params;
+  if (!z.string().uuid().safeParse(productId).success) {
+    res.status(404).json({ error: "Product not found" });
+    return;
+  }
+
+  const parsed = listReviewsSchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid review filters" });
+    return;
+  }
+
+  const { sort, page, pageSize } = parsed.data;
+  const supabase = getSupabaseAdmin();
+
+  try {
+    const [reviews, stats, gallery] = await Promise.all([
+      supabase.rpc("product_reviews_page", {
+        p_product_id: productId,
+        p_sort: sort,
+        p_limit: pageSize,
+        p_offset: (page - 1) * pageSize,
+      }),
+      page === 1
+        ? supabase.rpc("product_review_stats", { p_product_id: productId })
+        : Promise.resolve(null),
+      page === 1 ? getGallery(productId) : Promise.resolve([]),
+    ]);
+    if (reviews.error) throw reviews.error;
+    if (stats?.error) throw stats.error;
+
+    const rows = (reviews.data || []) as ReviewRow[];
+    const photos = await getReviewPhotos(
+      rows.map((row) => row.id),
+      true,
+    );
+    const total = rows[0]?.total_count || 0;
+    const response: ProductReviewsResponse = {
+      reviews: rows.map((row) => toReview(row, photos.get(row.id) || [])),
+      total,
+      page,
+      pageSize,
+      hasMore: page * pageSize < total,
+      summary: stats ? toSummary((stats.data || []) as ReviewStatRow[]) : null,
+      gallery,
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Error listing reviews:", error);
+    res.status(500).json({ error: "Failed to load reviews" });
+  }
+};
+
+/**
+ * The caller's review of a product, if any, for editing
+ */
+export const handleGetMyReview: RequestHandler = async (req, res) => {
+  const { productId } = req.params;
+  if (!z.string().uuid().safeParse(productId).success) {
+    res.status(404).json({ error: "Product not found" });
+    return;
+  }
+
+  try {
+    res.json(await getMyReview(productId, getAuthUser(res).id));
+  } catch (error) {
+    console.error("Error fetching review:", error);
+    res.status(500).json({ error: "Failed to load your review" });
+  }
+};
+
+/**
+ * Creates or replaces the caller's review of a product. Anyone signed in
+ * can review; the verified purchase badge comes from their orders. The
+ * database holds reviews with links or banned words for moderation.
+ */
+export const handleSubmitReview: RequestHandler = async (req, res) => {
+  const { productId } = req.params;
+  if (!z.string().uuid().safeParse(productId).success) {
+    res.status(404).json({ error: "Product not found" });
+    return;
+  }
+
+  const parsed = submitReviewSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: parsed.error.issues[0].message });
+    return;
+  }
+
+  const user = getAuthUser(res);
+  const supabase = getSupabaseAdmin();
+  const { rating, title, body, sizePurchased, fit, photos } = parsed.data;
+
+  // Photos must already be in the caller's own folder of the bucket
+  if (
+    photos.some(
+      (path) =>
+        !path.startsWith(`${user.id}/`) || !/^[\w-]+\/[\w.-]+$/.test(path),
+    )
+  ) {
+    res.status(400).json({ error: "Invalid photo" });
+    return;
+  }
+
+  try {
+    const { data: product, error: productError } = await supabase
+      .from("products")
+      .select("id")
+      .eq("id", productId)
+      .eq("is_active", true)
+      .maybeSingle();
+    if (productError) throw productError;
+
+    if (!product) {
+      res.status(404).json({ error: "Product not found" });
+      return;
+    }
+
+    const { data: existing, error: existingError } = await supabase
+      .from("product_reviews")
+      .select("id")
+      .eq("product_id", productId)
+      .eq("user_id", user.id)
+      .maybeSingle<{ id: string }>();
+    if (existingError) throw existingError;
+
+    const uniquePhotos = [...new Set(photos)];
+    const { data: attached, error: attachedError } = await supabase
+      .from("review_photos")
+      .select("review_id, storage_path")
+      .in("storage_path", uniquePhotos)
+      .returns<Pick<ReviewPhotoRow, "review_id" | "storage_path">[]>();
+    if (attachedError) throw attachedError;
+
+    // A photo can't be moved over from the caller's review of another product
+    if ((attached || []).some((p) => p.review_id !== existing?.id)) {
+      res.status(400).json({ error: "Invalid photo" });
+      return;
+    }
+
+    // Photos already on this review were checked when they were added
+    const photoError = await checkReviewPhotoFiles(
+      uniquePhotos.filter(
+        (path) => !(attached || []).some((p) => p.storage_path === path),
+      ),
+    );
+    if (photoError) {
+      res.status(400).json({ error: photoError });
+      return;
+    }
+
+    const { data: saved, error } = await supabase
+      .from("product_reviews")
+      .upsert(
+        {
+          product_id: productId,
+          user_id: user.id,
+          rating,
+          title,
+          body,
+          size_purchased: sizePurchased || null,
+          fit: fit || null,
+        },
+        { onConflict: "product_id,user_id" },
+      )
+      .select("id")
+      .single<{ id: string }>();
+    if (error) throw error;
+
+    await setReviewPhotos(saved.id, uniquePhotos);
+
+    res.json(await getMyReview(productId, user.id));
+  } catch (error) {
+    console.error("Error saving review:", error);
+    res.status(500).json({ error: "Failed to save your review" });
+  }
+};
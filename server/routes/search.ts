@@ -0,0 +1,189 @@
+import { RequestHandler } from "express";
+import { z } from "zod";
+import {
+  SearchSuggestionCategory,
+  SearchSuggestionsResponse,
+} from "@shared/api";
+import { getSupabaseAdmin } from "../lib/supabase";
+
+interface SearchMatchRow {
+  product_id: string;
+  rank: number;
+}
+
+const searchSchema = z.object({
+  q: z.string().trim().max(100).default(""),
+});
+
+interface CategoryRow {
+  id: string;
+  name: string;
+  slug: string;
+  parent_id: string | null;
+}
+
+interface SuggestionProductRow {
+  id: string;
+  name: string;
+  price: number;
+  images: { image_url: string; is_primary: boolean; sort_order: number }[];
+}
+
+const MAX_SUGGESTED_PRODUCTS = 5;
+const MAX_SUGGESTED_CATEGORIES = 4;
+const MAX_POPULAR_QUERIES = 5;
+
+// Suggestions are requested on every pause in typing, and most shoppers
+// type the same few prefixes, so answers are kept briefly per instance
+const SUGGESTION_TTL_MS = 60 * 1000;
+const MAX_CACHED_SUGGESTIONS = 500;
+const suggestionCache = new Map<
+  string,
+  { expires: number; response: SearchSuggestionsResponse }
+>();
+
+let categoryCache: { expires: number; rows: CategoryRow[] } | null = null;
+
+// Same as normalize_search_text in the database
+function normalizeSearchText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+async function getActiveCategories(): Promise<CategoryRow[]> {
+  if (categoryCache && categoryCache.expires > Date.now()) {
+    return categoryCache.rows;
+  }
+
+  const { data, error } = await getSupabaseAdmin()
+    .from("categories")
+    .select("id, name, slug, parent_id")
+    .eq("is_active", true)
+    .order("sort_order");
+  if (error) throw error;
+
+  const rows = (data || []) as CategoryRow[];
+  categoryCache = { expires: Date.now() + SUGGESTION_TTL_MS, rows };
+  return rows;
+}
+
+async function suggestProducts(query: string) {
+  const supabase = getSupabaseAdmin();
+
+  const { data: matches, error } = await supabase.rpc("search_products", {
+    p_query: query,
+    p_limit: MAX_SUGGESTED_PRODUCTS,
+  });
+  if (error) throw error;
+
+  const ids = ((matches || []) as SearchMatchRow[]).map((m) => m.product_id);
+  if (ids.length === 0) return [];
+
+  const { data, error: productsError } = await supabase
+    .from("products")
+    .select(
+      "id, name, price, images:product_images(image_url, is_primary, sort_order)",
+    )
+    .in("id", ids)
+    .eq("is_active", true);
+  if (productsError) throw productsError;
+
+  return ((data || []) as SuggestionProductRow[])
+    .sort((a, b) => ids.indexOf(a.id) - ids.indexOf(b.id))
+    .map((row) => {
+      const images = [...(row.images || [])].sort(
+        (a, b) =>
+          Number(b.is_primary) - Number(a.is_primary) ||
+          a.sort_order - b.sort_order,
+      );
+      return {
+        id: row.id,
+        name: row.name,
+        price: Number(row.price),
+        imageUrl: images[0]?.image_url || null,
+      };
+    });
+}
+
+async function suggestCategories(
+  query: string,
+): Promise<SearchSuggestionCategory[]> {
+  const words = normalizeSearchText(query).split(" ");
+  const categories = await getActiveCategories();
+
+  return categories
+    .filter((category) => {
+      const name = ` ${normalizeSearchText(category.name)}`;
+      return words.every((word) => name.includes(` ${word}`));
+    })
+    .slice(0, MAX_SUGGESTED_CATEGORIES)
+    .map((category) => ({
+      name: category.name,
+      slug: category.slug,
+      parentName:
+        categories.find((c) => c.id === category.parent_id)?.name || null,
+    }));
+}
+
+async function suggestPopularQueries(query: string): Promise<string[]> {
+  const { data, error } = await getSupabaseAdmin().rpc(
+    "popular_search_queries",
+    { p_prefix: query, p_limit: MAX_POPULAR_QUERIES },
+  );
+  if (error) throw error;
+  return ((data || []) as { query: string }[]).map((row) => row.query);
+}
+
+/**
+ * Search-as-you-type suggestions for the Header and mobile search boxes:
+ * a few matching products, categories and popular queries. Open to guests.
+ */
+export const handleSearchSuggestions: RequestHandler = async (req, res) => {
+  const parsed = searchSchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Search terms are too long" });
+    return;
+  }
+
+  const query = parsed.data.q;
+  const cacheKey = normalizeSearchText(query);
+  const cached = suggestionCache.get(cacheKey);
+  if (cached && cached.expires > Date.now()) {
+    res.set("Cache-Control", "public, max-age=60");
+    res.json({ ...cached.response, query });
+    return;
+  }
+
+  try {
+    const [products, categories, popularQueries] = await Promise.all([
+      cacheKey ? suggestProducts(query) : [],
+      cacheKey ? suggestCategories(query) : [],
+      suggestPopularQueries(query),
+    ]);
+
+    const response: SearchSuggestionsResponse = {
+      query,
+      products,
+      categories,
+      popularQueries,
+    };
+
+    suggestionCache.delete(cacheKey);
+    if (suggestionCache.size >= MAX_CACHED_SUGGESTIONS) {
+      // Maps iterate in insertion order, so the first key is the oldest
+      suggestionCache.delete(suggestionCache.keys().next().value!);
+    }
+    suggestionCache.set(cacheKey, {
+      expires: Date.now() + SUGGESTION_TTL_MS,
+      response,
+    });
+
+    res.set("Cache-Control", "public, max-age=60");
+    res.json(response);
+  } catch (error) {
+    console.error("Error fetching search suggestions:", error);
+    res.status(500).json({ error: "Failed to load suggestions" });
+  }
+};
@@ -0,0 +1,47 @@
+import { RequestHandler } from "express";
+import { z } from "zod";
+import { ShippingQuote } from "@shared/api";
+import { getSupabaseAdmin } from "../lib/supabase";
+import { ShippingQuoteRow, toShippingQuote } from "../lib/shipping";
+
+const estimateSchema = z.object({
+  pinCode: z.string().trim().min(1, "Enter a PIN code"),
+  productId: z.string().uuid("Invalid product"),
+  variantId: z.string().uuid("Invalid variant").optional(),
+  quantity: z.number().int().min(1).max(50).default(1),
+});
+
+/**
+ * Shipping fee and delivery dates for a product, for the PIN code checker
+ * on the product page. Open to guests.
+ */
+export const handleShippingEstimate: RequestHandler = async (req, res) => {
+  const parsed = estimateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: parsed.error.issues[0].message });
+    return;
+  }
+
+  try {
+    const { data, error } = await getSupabaseAdmin()
+      .rpc("product_shipping_quote", {
+        p_pin_code: parsed.data.pinCode,
+        p_product_id: parsed.data.productId,
+        p_variant_id: parsed.data.variantId || null,
+        p_quantity: parsed.data.quantity,
+      })
+      .maybeSingle<ShippingQuoteRow>();
+    if (error) throw error;
+
+    if (!data) {
+      res.status(404).json({ error: "Product not found" });
+      return;
+    }
+
+    const response: ShippingQuote = toShippingQuote(data);
+    res.json(response);
+  } catch (error) {
+    console.error("Error estimating shipping:", error);
+    res.status(500).json({ error: "Failed to check delivery" });
+  }
+};
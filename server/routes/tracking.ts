@@ -0,0 +1,78 @@
+import { RequestHandler } from "express";
+import { z } from "zod";
+import { OrderStatus, TrackOrderResponse } from "@shared/api";
+import { getSupabaseAdmin } from "../lib/supabase";
+
+interface TrackedOrderRow {
+  order_id: string;
+  order_number: string;
+  status: OrderStatus;
+  created_at: string;
+  carrier: string | null;
+  awb_number: string | null;
+}
+
+const trackOrderSchema = z.object({
+  orderNumber: z
+    .string()
+    .trim()
+    .transform((value) => value.replace(/^#/, ""))
+    .pipe(z.string().min(1).max(50)),
+  email: z.string().trim().email(),
+});
+
+// Same answer for a wrong number and a wrong email, so neither can be probed
+const NOT_FOUND = "We couldn't find an order with that number and email";
+
+/**
+ * Public order lookup for TrackOrderPage. Rate limited in server/index.ts.
+ */
+export const handleTrackOrder: RequestHandler = async (req, res) => {
+  const parsed = trackOrderSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res
+      .status(400)
+      .json({ error: "Enter your order number and a valid email address" });
+    return;
+  }
+
+  const supabase = getSupabaseAdmin();
+
+  try {
+    const { data: order, error } = await supabase
+      .rpc("find_order_for_tracking", {
+        p_order_number: parsed.data.orderNumber,
+        p_email: parsed.data.email,
+      })
+      .maybeSingle<TrackedOrderRow>();
+    if (error) throw error;
+
+    if (!order) {
+      res.status(404).json({ error: NOT_FOUND });
+      return;
+    }
+
+    const { data: history, error: historyError } = await supabase
+      .from("order_status_history")
+      .select("status, created_at")
+      .eq("order_id", order.order_id)
+      .order("created_at");
+    if (historyError) throw historyError;
+
+    const response: TrackOrderResponse = {
+      orderNumber: order.order_number,
+      status: order.status,
+      placedAt: order.created_at,
+      carrier: order.carrier,
+      awbNumber: order.awb_number,
+      history: (history || []).map((event) => ({
+        status: event.status as OrderStatus,
+        at: event.created_at,
+      })),
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Error tracking order:", error);
+    res.status(500).json({ error: "Failed to look up order" });
+  }
+};
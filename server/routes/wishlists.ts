@@ -0,0 +1,79 @@
+import { RequestHandler } from "express";
+import { z } from "zod";
+import {
+  PRODUCT_SUMMARY_SELECT,
+  ProductSummaryRow,
+  SharedWishlistResponse,
+  toWishlistProduct,
+} from "@shared/api";
+import { getSupabaseAdmin } from "../lib/supabase";
+
+interface SharedWishlistRow {
+  owner_name: string | null;
+  product_id: string | null;
+  variant_id: string | null;
+  created_at: string | null;
+}
+
+const tokenSchema = z.string().regex(/^[0-9a-f]{32}$/);
+
+/**
+ * A wishlist opened from its share link. Products that are no longer
+ * active are left out.
+ */
+export const handleGetSharedWishlist: RequestHandler = async (req, res) => {
+  const { token } = req.params;
+  if (!tokenSchema.safeParse(token).success) {
+    res.status(404).json({ error: "Wishlist not found" });
+    return;
+  }
+
+  const supabase = getSupabaseAdmin();
+
+  try {
+    const { data, error } = await supabase.rpc("shared_wishlist", {
+      p_token: token,
+    });
+    if (error) throw error;
+
+    const rows = (data || []) as SharedWishlistRow[];
+    if (rows.length === 0) {
+      res.status(404).json({ error: "Wishlist not found" });
+      return;
+    }
+
+    const entries = rows
+      .filter((row) => row.product_id)
+      .map((row) => ({
+        productId: row.product_id!,
+        variantId: row.variant_id,
+        addedAt: row.created_at!,
+      }));
+
+    let products: ProductSummaryRow[] = [];
+    if (entries.length > 0) {
+      const { data: productData, error: productError } = await supabase
+        .from("products")
+        .select(PRODUCT_SUMMARY_SELECT)
+        .in(
+          "id",
+          entries.map((entry) => entry.productId),
+        )
+        .eq("is_active", true);
+      if (productError) throw productError;
+      products = (productData || []) as unknown as ProductSummaryRow[];
+    }
+
+    const response: SharedWishlistResponse = {
+      ownerName: rows[0].owner_name,
+      items: entries.flatMap((entry) => {
+        const product = products.find((p) => p.id === entry.productId);
+        return product ? [toWishlistProduct(product, entry)] : [];
+      }),
+    };
+    res.json(response);
+  } catch (error) {
+    console.error("Error loading shared wishlist:", error);
+    res.status(500).json({ error: "Failed to load the wishlist" });
+  }
+};
@@ -0,0 +1,922 @@
+/**
+ * Shared code between client and server
+ * Useful to share types between client and server
+ * and/or small pure JS functions that can be used on both client and server
+ */
+
+/**
+ * Error body returned by every /api route on failure
+ */
+export interface ApiErrorResponse {
+  error: string;
+}
+
+export type CheckoutPaymentMethod = "razorpay" | "cod";
+
+/**
+ * Address as entered on the checkout form
+ */
+export interface CheckoutAddress {
+  firstName: string;
+  lastName: string;
+  company?: string;
+  address: string;
+  apartment?: string;
+  city: string;
+  state: string;
+  pinCode: string;
+  phone: string;
+}
+
+/**
+ * Request body for POST /api/orders
+ */
+export interface PlaceOrderRequest {
+  email: string;
+  paymentMethod: CheckoutPaymentMethod;
+  shippingAddress: CheckoutAddress;
+  billingAddress?: CheckoutAddress;
+  notes?: string;
+  couponCode?: string;
+}
+
+/**
+ * Response body for POST /api/orders
+ */
+export interface PlaceOrderResponse {
+  orderId: string;
+  orderNumber: string;
+  totalAmount: number;
+}
+
+/**
+ * A cart line that asks for more stock than is available
+ */
+export interface StockIssue {
+  cartItemId: string;
+  variantId: string;
+  productName: string;
+  size: string | null;
+  colorName: string | null;
+  requested: number;
+  available: number;
+}
+
+/**
+ * 409 body returned by POST /api/checkout/reservation and POST /api/orders
+ * when any cart line is out of stock
+ */
+export interface StockIssueResponse extends ApiErrorResponse {
+  lines: StockIssue[];
+}
+
+/**
+ * Response body for POST /api/checkout/reservation
+ */
+export interface ReserveStockResponse {
+  expiresAt: string;
+}
+
+/**
+ * Request body for POST /api/checkout/quote
+ */
+export interface CheckoutQuoteRequest {
+  pinCode?: string;
+  /** Shipping state; decides between CGST + SGST and IGST */
+  state?: string;
+  paymentMethod: CheckoutPaymentMethod;
+  couponCode?: string;
+}
+
+/**
+ * Whether cash on delivery is offered for this cart and address
+ */
+export interface CodEligibility {
+  eligible: boolean;
+  /** Why COD is unavailable; null when eligible */
+  reason: string | null;
+  /** COD handling fee, added to shipping when COD is chosen */
+  fee: number;
+}
+
+/**
+ * Outcome of checking a coupon code against the cart
+ */
+export interface CouponStatus {
+  code: string;
+  valid: boolean;
+  /** Why the coupon can't be used; null when valid */
+  message: string | null;
+  freeShipping: boolean;
+}
+
+/**
+ * Request body for POST /api/coupons/validate
+ */
+export interface ValidateCouponRequest {
+  code: string;
+}
+
+/**
+ * Response body for POST /api/coupons/validate. Invalid codes get a 409
+ * whose `error` explains why.
+ */
+export interface ValidateCouponResponse {
+  code: string;
+  description: string | null;
+  discountAmount: number;
+  freeShipping: boolean;
+}
+
+/**
+ * GST split. Intra-state supplies pay CGST + SGST, inter-state ones IGST.
+ */
+export interface GstBreakdown {
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+/**
+ * Delivery window as calendar dates (YYYY-MM-DD, India time)
+ */
+export interface DeliveryEstimate {
+  earliest: string;
+  latest: string;
+}
+
+/**
+ * Shipping fee and delivery time for a PIN code
+ */
+export interface ShippingQuote {
+  /** False for malformed PIN codes and ones outside every shipping zone */
+  serviceable: boolean;
+  /** Why the PIN code can't be served; null when serviceable */
+  message: string | null;
+  zone: { code: string; name: string } | null;
+  /** Shipping fee after free-shipping rules; excludes the COD fee */
+  fee: number;
+  freeShipping: boolean;
+  /** Order value that ships free; null when there's no such offer */
+  freeShippingThreshold: number | null;
+  amountToFreeShipping: number | null;
+  delivery: DeliveryEstimate | null;
+}
+
+/**
+ * Request body for POST /api/shipping/estimate
+ */
+export interface ShippingEstimateRequest {
+  pinCode: string;
+  productId: string;
+  variantId?: string;
+  quantity?: number;
+}
+
+/**
+ * Response body for POST /api/checkout/quote. These are the amounts
+ * POST /api/orders will charge.
+ */
+export interface CheckoutQuoteResponse {
+  subtotal: number;
+  discountAmount: number;
+  /** Set when a coupon code was sent */
+  coupon: CouponStatus | null;
+  /** GST included in the subtotal */
+  taxAmount: number;
+  gst: GstBreakdown;
+  /** Shipping fee plus the COD fee when paying by COD */
+  shippingAmount: number;
+  totalAmount: number;
+  cod: CodEligibility;
+  shipping: ShippingQuote;
+}
+
+export type OrderStatus =
+  | "pending"
+  | "confirmed"
+  | "processing"
+  | "shipped"
+  | "delivered"
+  | "cancelled"
+  | "refunded";
+
+/**
+ * Request body for POST /api/orders/track
+ */
+export interface TrackOrderRequest {
+  orderNumber: string;
+  /** Email on the order or on the customer's account */
+  email: string;
+}
+
+export interface OrderStatusEvent {
+  status: OrderStatus;
+  at: string;
+}
+
+/**
+ * Response body for POST /api/orders/track
+ */
+export interface TrackOrderResponse {
+  orderNumber: string;
+  status: OrderStatus;
+  placedAt: string;
+  carrier: string | null;
+  awbNumber: string | null;
+  /** Oldest first */
+  history: OrderStatusEvent[];
+}
+
+/**
+ * Statuses an admin can move an order to from each status; the database
+ * enforces the same rules
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["confirmed", "cancelled"],
+  confirmed: ["processing", "cancelled"],
+  processing: ["shipped", "cancelled"],
+  shipped: ["delivered", "cancelled"],
+  delivered: ["refunded"],
+  cancelled: ["refunded"],
+  refunded: [],
+};
+
+/**
+ * Request body for POST /api/admin/orders/:orderId/status
+ */
+export interface ChangeOrderStatusRequest {
+  status: OrderStatus;
+  note?: string;
+  /** Required with the AWB number when moving to 'shipped' */
+  carrier?: string;
+  awbNumber?: string;
+  /** When cancelling a shipped COD order: the customer refused it */
+  codRefused?: boolean;
+}
+
+/**
+ * Response body for POST /api/admin/orders/:orderId/status
+ */
+export interface ChangeOrderStatusResponse {
+  orderId: string;
+  status: OrderStatus;
+  paymentStatus: PaymentResultResponse["paymentStatus"];
+}
+
+export type AdminRole = "admin" | "super_admin";
+
+/**
+ * What an admin can be allowed to do, keyed as stored in
+ * `admin_users.permissions`. Super admins have every permission. The same
+ * keys are checked by the RLS policies (`has_permission`) and the server
+ * (`requirePermission`).
+ */
+export const ADMIN_PERMISSIONS = {
+  "products.write": "Add, edit and delete products",
+  "categories.write": "Manage categories",
+  "orders.view": "View orders and invoices",
+  "orders.write": "Change order status",
+  "orders.refund": "Refund orders",
+  "coupons.write": "Manage coupons",
+  "users.view": "View customers",
+  "users.manage": "Manage admin access",
+  "settings.write": "Change store settings",
+  "reports.view": "View sales reports",
+  "audit.view": "View the audit log",
+  "reviews.moderate": "Moderate product reviews",
+} as const;
+
+export type AdminPermission = keyof typeof ADMIN_PERMISSIONS;
+
+/**
+ * Response body for GET /api/admin/stats
+ */
+export interface AdminStatsResponse {
+  totalProducts: number;
+  totalOrders: number;
+  totalUsers: number;
+  /** Total of paid orders */
+  revenue: number;
+}
+
+export interface AdminCustomer {
+  id: string;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+  phone: string | null;
+  createdAt: string;
+  lastSignInAt: string | null;
+  orderCount: number;
+  /** Total of the customer's paid orders */
+  lifetimeValue: number;
+  lastOrderAt: string | null;
+  /** Null when the user isn't in admin_users */
+  admin: {
+    role: AdminRole;
+    isActive: boolean;
+    permissions: Partial<Record<AdminPermission, boolean>>;
+  } | null;
+}
+
+/**
+ * Response body for GET /api/admin/customers?search=&page=
+ */
+export interface AdminCustomerListResponse {
+  customers: AdminCustomer[];
+  total: number;
+  pageSize: number;
+}
+
+export interface AdminCustomerAddress {
+  id: string;
+  name: string;
+  phone: string | null;
+  street: string;
+  city: string;
+  state: string;
+  postalCode: string;
+  country: string;
+  isDefault: boolean;
+}
+
+export interface AdminCustomerOrder {
+  id: string;
+  orderNumber: string;
+  status: OrderStatus;
+  paymentStatus: PaymentResultResponse["paymentStatus"];
+  totalAmount: number;
+  createdAt: string;
+}
+
+/**
+ * Response body for GET /api/admin/customers/:userId
+ */
+export interface AdminCustomerDetailResponse {
+  customer: AdminCustomer;
+  addresses: AdminCustomerAddress[];
+  /** Newest first */
+  orders: AdminCustomerOrder[];
+}
+
+/**
+ * Columns of the product spreadsheet used by import and export, in order.
+ * One row per variant; the product columns repeat on each of its rows, and
+ * `image_urls` is a `|`-separated list with the primary image first.
+ */
+export const PRODUCT_SHEET_COLUMNS = [
+  "product_sku",
+  "name",
+  "slug",
+  "category",
+  "subcategory",
+  "description",
+  "price",
+  "original_price",
+  "weight_grams",
+  "is_active",
+  "is_hot_sale",
+  "image_urls",
+  "variant_sku",
+  "size",
+  "color_name",
+  "color_code",
+  "stock_quantity",
+  "price_adjustment",
+  "variant_is_active",
+] as const;
+
+export type ProductSheetColumn = (typeof PRODUCT_SHEET_COLUMNS)[number];
+
+export type ProductSheetFormat = "csv" | "xlsx";
+
+export interface ProductImportError {
+  /** Spreadsheet row number; the header is row 1 */
+  row: number;
+  column?: ProductSheetColumn;
+  message: string;
+}
+
+export interface ProductImportPreview {
+  sku: string;
+  name: string;
+  action: "create" | "update";
+  variantsCreated: number;
+  variantsUpdated: number;
+  /** The sheet lists images, which replace the product's current ones */
+  replacesImages: boolean;
+}
+
+/**
+ * Response body for POST /api/admin/products/import?format=&dryRun=, whose
+ * request body is the file itself. Nothing is saved while there are errors.
+ */
+export interface ProductImportResponse {
+  dryRun: boolean;
+  imported: boolean;
+  errors: ProductImportError[];
+  products: ProductImportPreview[];
+  summary: {
+    productsCreated: number;
+    productsUpdated: number;
+    variantsCreated: number;
+    variantsUpdated: number;
+  };
+}
+
+/**
+ * A product as listings show it: enough for a product card and the
+ * listing's sort and filter controls
+ */
+export interface ProductSummary {
+  id: string;
+  name: string;
+  slug: string;
+  subcategory: string | null;
+  price: number;
+  originalPrice: number | null;
+  rating: number;
+  reviewCount: number;
+  isHotSale: boolean;
+  createdAt: string;
+  category: { name: string; slug: string } | null;
+  /** Primary image, else the first one */
+  imageUrl: string | null;
+  /** Colours and sizes of the active variants, without repeats */
+  colors: { name: string; code: string }[];
+  sizes: string[];
+  /** First active variant with stock, which quick add puts in the cart */
+  defaultVariant: {
+    id: string;
+    size: string | null;
+    colorName: string | null;
+  } | null;
+}
+
+/**
+ * PostgREST select on `products` giving the rows toProductSummary takes
+ */
+export const PRODUCT_SUMMARY_SELECT = `
+  id, name, slug, subcategory, price, original_price, rating, review_count,
+  is_hot_sale, created_at,
+  category:categories!products_category_id_fkey(name, slug),
+  images:product_images(image_url, is_primary, sort_order),
+  variants:product_variants(id, size, color_name, color_code, stock_quantity, is_active)
+`;
+
+export interface ProductSummaryRow {
+  id: string;
+  name: string;
+  slug: string;
+  subcategory: string | null;
+  price: number;
+  original_price: number | null;
+  rating: number | null;
+  review_count: number | null;
+  is_hot_sale: boolean;
+  created_at: string;
+  category?: { name: string; slug: string } | null;
+  images: { image_url: string; is_primary: boolean; sort_order: number }[];
+  variants: {
+    id: string;
+    size: string | null;
+    color_name: string | null;
+    color_code: string | null;
+    stock_quantity: number;
+    is_active: boolean;
+  }[];
+}
+
+export function toProductSummary(row: ProductSummaryRow): ProductSummary {
+  const images = [...(row.images || [])].sort(
+    (a, b) =>
+      Number(b.is_primary) - Number(a.is_primary) ||
+      a.sort_order - b.sort_order,
+  );
+  const variants = (row.variants || []).filter((v) => v.is_active);
+  const colors = new Map<string, string>();
+  for (const variant of variants) {
+    if (variant.color_name && !colors.has(variant.color_name)) {
+      colors.set(variant.color_name, variant.color_code || "#000000");
+    }
+  }
+  const defaultVariant = variants.find((v) => v.stock_quantity > 0);
+
+  return {
+    id: row.id,
+    name: row.name,
+    slug: row.slug,
+    subcategory: row.subcategory,
+    price: Number(row.price),
+    originalPrice:
+      row.original_price === null ? null : Number(row.original_price),
+    rating: Number(row.rating) || 0,
+    reviewCount: row.review_count || 0,
+    isHotSale: row.is_hot_sale,
+    createdAt: row.created_at,
+    category: row.category || null,
+    imageUrl: images[0]?.image_url || null,
+    colors: Array.from(colors, ([name, code]) => ({ name, code })),
+    sizes: [
+      ...new Set(
+        variants.map((v) => v.size).filter((size): size is string => !!size),
+      ),
+    ],
+    defaultVariant: defaultVariant
+      ? {
+          id: defaultVariant.id,
+          size: defaultVariant.size,
+          colorName: defaultVariant.color_name,
+        }
+      : null,
+  };
+}
+
+/**
+ * Listing orders. "relevance" only means something with a search query.
+ */
+export type ProductSort =
+  | "relevance"
+  | "name"
+  | "price-low"
+  | "price-high"
+  | "rating"
+  | "newest"
+  | "popularity";
+
+/**
+ * Price facet bands, cheapest first. The boundaries live in the database's
+ * price_band function.
+ */
+export const PRICE_BANDS = [
+  { value: "under-500", label: "Under ₹500" },
+  { value: "500-999", label: "₹500 – ₹999" },
+  { value: "1000-1999", label: "₹1,000 – ₹1,999" },
+  { value: "2000-and-above", label: "₹2,000 and above" },
+];
+
+export interface ProductFacetValue {
+  value: string;
+  label: string;
+  /** Products this value would show, given the other facets' filters */
+  count: number;
+  /** Colour code, for colour values */
+  swatch?: string | null;
+}
+
+export interface ProductFacets {
+  sizes: ProductFacetValue[];
+  colors: ProductFacetValue[];
+  subcategories: ProductFacetValue[];
+  priceBands: ProductFacetValue[];
+}
+
+/**
+ * Query for GET /api/products. Listing pages keep the same fields in their
+ * URL: `q`, `sort`, and comma-separated `size`, `color`, `subcategory` and
+ * `price` (price band values), plus `category` (a slug). The API also takes
+ * `onSale=true`, and `page` (from 1) and `pageSize` (up to 100).
+ */
+export interface ProductListingQuery {
+  category?: string;
+  /** Only hot sale products and products priced below their original price */
+  onSale?: boolean;
+  q: string;
+  sizes: string[];
+  colors: string[];
+  subcategories: string[];
+  priceBands: string[];
+  sort: ProductSort;
+}
+
+/**
+ * Response body for GET /api/products: one page of the listing
+ */
+export interface ProductListingResponse {
+  products: ProductSummary[];
+  /** Products matching the filters, across all pages */
+  total: number;
+  page: number;
+  pageSize: number;
+  hasMore: boolean;
+  /** Only on the first page; later pages share its counts */
+  facets: ProductFacets | null;
+}
+
+export interface SearchSuggestionProduct {
+  id: string;
+  name: string;
+  price: number;
+  imageUrl: string | null;
+}
+
+export interface SearchSuggestionCategory {
+  name: string;
+  slug: string;
+  /** Set for subcategories, e.g. "Men's T-Shirts" for "Polo Collar" */
+  parentName: string | null;
+}
+
+/**
+ * Response body for GET /api/search/suggestions?q=. An empty query returns
+ * only popular queries.
+ */
+export interface SearchSuggestionsResponse {
+  query: string;
+  products: SearchSuggestionProduct[];
+  categories: SearchSuggestionCategory[];
+  popularQueries: string[];
+}
+
+export type ReviewFit = "runs-small" | "true-to-size" | "runs-large";
+
+export const REVIEW_FITS: { value: ReviewFit; label: string }[] = [
+  { value: "runs-small", label: "Runs small" },
+  { value: "true-to-size", label: "True to size" },
+  { value: "runs-large", label: "Runs large" },
+];
+
+export type ReviewSort = "newest" | "oldest" | "highest" | "lowest";
+
+/**
+ * Only approved reviews are shown and counted. Reviews with links or
+ * banned words wait as pending; flagged ones were abusive.
+ */
+export type ReviewStatus = "pending" | "approved" | "rejected" | "flagged";
+
+/**
+ * Storage bucket for review photos. Customers upload into a folder named
+ * after their user id.
+ */
+export const REVIEW_PHOTO_BUCKET = "review-photos";
+
+export const MAX_REVIEW_PHOTOS = 5;
+
+/**
+ * Review photos are JPEGs no wider or taller than this, resized in the
+ * browser and checked by the API before they're attached
+ */
+export const REVIEW_PHOTO_MAX_DIMENSION = 1600;
+
+/** Matches the review-photos bucket's file size limit */
+export const REVIEW_PHOTO_MAX_BYTES = 2 * 1024 * 1024;
+
+export interface ReviewPhoto {
+  id: string;
+  /** Path in the review photo bucket */
+  path: string;
+  url: string;
+  /** Photos stay hidden until a moderator approves them */
+  approved: boolean;
+}
+
+export interface ProductReview {
+  id: string;
+  rating: number;
+  title: string;
+  body: string;
+  sizePurchased: string | null;
+  fit: ReviewFit | null;
+  /** Always "approved" in public listings */
+  status: ReviewStatus;
+  /** Approved photos only, except on the customer's own review */
+  photos: ReviewPhoto[];
+  /** The store's public reply */
+  reply: { body: string; repliedAt: string } | null;
+  /** First name and last initial */
+  reviewerName: string;
+  /** The reviewer has a delivered order containing the product */
+  verifiedPurchase: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ProductReviewSummary {
+  /** Average stars to one decimal place, 0 without reviews */
+  average: number;
+  count: number;
+  /** Reviews giving each star rating, from 5 stars down to 1 */
+  ratings: { stars: number; count: number }[];
+  fits: { value: ReviewFit; count: number }[];
+}
+
+/**
+ * Response body for GET /api/products/:productId/reviews?sort=&page=
+ */
+export interface ProductReviewsResponse {
+  reviews: ProductReview[];
+  total: number;
+  page: number;
+  pageSize: number;
+  hasMore: boolean;
+  /** Only on the first page */
+  summary: ProductReviewSummary | null;
+  /** Approved photos across all reviews, newest first; only on the first page */
+  gallery: (ReviewPhoto & { reviewId: string })[];
+}
+
+/**
+ * Request body for POST /api/products/:productId/reviews. A customer has
+ * one review per product; posting again replaces it.
+ */
+export interface SubmitReviewRequest {
+  rating: number;
+  title: string;
+  body: string;
+  sizePurchased?: string | null;
+  fit?: ReviewFit | null;
+  /**
+   * Paths of photos already uploaded to the review photo bucket, at most
+   * MAX_REVIEW_PHOTOS. Photos left out are removed from the review.
+   */
+  photos?: string[];
+}
+
+/**
+ * Response body for GET /api/products/:productId/reviews/mine and
+ * POST /api/products/:productId/reviews
+ */
+export interface MyProductReviewResponse {
+  review: ProductReview | null;
+  /** Whether a review written now would carry the verified purchase badge */
+  verifiedPurchase: boolean;
+}
+
+export interface AdminReview {
+  id: string;
+  productId: string;
+  productName: string;
+  userId: string;
+  reviewerEmail: string | null;
+  rating: number;
+  title: string;
+  body: string;
+  sizePurchased: string | null;
+  fit: ReviewFit | null;
+  status: ReviewStatus;
+  /** Why the review was held for moderation, e.g. "Contains a link" */
+  holdReason: string | null;
+  photos: ReviewPhoto[];
+  reply: { body: string; repliedAt: string } | null;
+  verifiedPurchase: boolean;
+  moderatedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Response body for GET /api/admin/reviews?status=&page=. The pending
+ * queue also lists published reviews with photos awaiting approval.
+ */
+export interface AdminReviewListResponse {
+  reviews: AdminReview[];
+  total: number;
+  pageSize: number;
+}
+
+/**
+ * Request body for POST /api/admin/reviews/:reviewId. Approving a review
+ * approves its photos too. A null reply removes the store's reply.
+ */
+export interface ModerateReviewRequest {
+  status?: Exclude<ReviewStatus, "pending">;
+  reply?: string | null;
+}
+
+/**
+ * A product on a wishlist. Guests keep these in localStorage until they
+ * log in.
+ */
+export interface WishlistEntry {
+  productId: string;
+  /** The size and colour the shopper had chosen, if any */
+  variantId: string | null;
+  addedAt: string;
+}
+
+export interface WishlistProduct {
+  product: ProductSummary;
+  variant: {
+    id: string;
+    size: string | null;
+    colorName: string | null;
+    inStock: boolean;
+  } | null;
+  addedAt: string;
+}
+
+export function toWishlistProduct(
+  row: ProductSummaryRow,
+  entry: WishlistEntry,
+): WishlistProduct {
+  const variant = entry.variantId
+    ? row.variants.find((v) => v.id === entry.variantId && v.is_active)
+    : undefined;
+
+  return {
+    product: toProductSummary(row),
+    variant: variant
+      ? {
+          id: variant.id,
+          size: variant.size,
+          colorName: variant.color_name,
+          inStock: variant.stock_quantity > 0,
+        }
+      : null,
+    addedAt: entry.addedAt,
+  };
+}
+
+/**
+ * Response body for GET /api/wishlists/:token
+ */
+export interface SharedWishlistResponse {
+  /** The owner's first name, if they gave one */
+  ownerName: string | null;
+  items: WishlistProduct[];
+}
+
+/**
+ * Emails a customer can get: a sold-out size they asked about is back,
+ * or a wishlisted product got cheaper
+ */
+export type AlertKind = "back_in_stock" | "price_drop";
+
+/**
+ * Request body for POST /api/alerts/unsubscribe, from the link in an alert
+ * email
+ */
+export interface UnsubscribeAlertsRequest {
+  token: string;
+  type: AlertKind;
+}
+
+/**
+ * Response body for POST /api/alerts/send
+ */
+export interface SendAlertsResponse {
+  sent: number;
+  failed: number;
+}
+
+export type PaymentGatewayName = "razorpay" | "mock";
+
+/**
+ * Request body for POST /api/payments/order
+ */
+export interface CreatePaymentRequest {
+  orderId: string;
+}
+
+/**
+ * Everything the browser needs to open the gateway checkout
+ */
+export interface CreatePaymentResponse {
+  gateway: PaymentGatewayName;
+  /** Razorpay key id for checkout.js; null for the mock gateway */
+  keyId: string | null;
+  gatewayOrderId: string;
+  /** In paise */
+  amount: number;
+  currency: string;
+  orderNumber: string;
+}
+
+/**
+ * Request body for POST /api/payments/verify
+ */
+export interface VerifyPaymentRequest {
+  orderId: string;
+  gatewayOrderId: string;
+  gatewayPaymentId: string;
+  signature: string;
+}
+
+/**
+ * Response body for POST /api/payments/verify and /api/payments/failure
+ */
+export interface PaymentResultResponse {
+  orderId: string;
+  paymentStatus: "pending" | "paid" | "failed" | "refunded";
+}
+
+/**
+ * Request body for POST /api/payments/failure
+ */
+export interface PaymentFailureRequest {
+  orderId: string;
+}
+
+/**
+ * Request body for POST /api/payments/mock/pay (mock gateway only)
+ */
+export interface MockPaymentRequest {
+  gatewayOrderId: string;
+  succeed: boolean;
+}
+
+export interface MockPaymentResponse {
+  gatewayPaymentId: string;
+  signature: string;
+}
@@ -0,0 +1,131 @@
+/*
+  # Server-side Order Placement
+
+  1. Functions
+    - `place_order` - turns the user's `cart_items` into an `orders` row and
+      its `order_items` snapshot rows, then empties the cart
+
+  2. Pricing
+    - Every line is re-priced from `products.price` plus
+      `product_variants.price_adjustment`; client-side prices are never trusted
+    - `order_items.product_snapshot` keeps name, SKU, size, colour and image so
+      the order still renders after the product is edited or deleted
+
+  3. Security
+    - Runs as SECURITY DEFINER in a single transaction
+    - Only the service role (our Express API) may execute it
+*/
+
+CREATE OR REPLACE FUNCTION place_order(
+  p_user_id uuid,
+  p_payment_method text,
+  p_shipping_address jsonb,
+  p_billing_address jsonb DEFAULT NULL,
+  p_notes text DEFAULT NULL
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_order orders;
+  order_subtotal decimal(10,2);
+BEGIN
+  -- Lock the cart so a concurrent add/remove can't change it mid-checkout
+  PERFORM 1 FROM cart_items WHERE user_id = p_user_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Your cart is empty' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM cart_items ci
+    JOIN products p ON p.id = ci.product_id
+    LEFT JOIN product_variants v ON v.id = ci.variant_id
+    WHERE ci.user_id = p_user_id
+    AND (
+      p.is_active IS NOT TRUE
+      OR (ci.variant_id IS NOT NULL AND v.is_active IS NOT TRUE)
+    )
+  ) THEN
+    RAISE EXCEPTION 'Some items in your cart are no longer available' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT COALESCE(SUM((p.price + COALESCE(v.price_adjustment, 0)) * ci.quantity), 0)
+  INTO order_subtotal
+  FROM cart_items ci
+  JOIN products p ON p.id = ci.product_id
+  LEFT JOIN product_variants v ON v.id = ci.variant_id
+  WHERE ci.user_id = p_user_id;
+
+  -- order_number is filled in by set_order_number_trigger
+  INSERT INTO orders (
+    user_id,
+    subtotal,
+    total_amount,
+    payment_method,
+    payment_status,
+    shipping_address,
+    billing_address,
+    notes
+  )
+  VALUES (
+    p_user_id,
+    order_subtotal,
+    order_subtotal,
+    p_payment_method,
+    'pending',
+    p_shipping_address,
+    COALESCE(p_billing_address, p_shipping_address),
+    p_notes
+  )
+  RETURNING * INTO new_order;
+
+  INSERT INTO order_items (
+    order_id,
+    product_id,
+    variant_id,
+    quantity,
+    unit_price,
+    total_price,
+    product_snapshot
+  )
+  SELECT
+    new_order.id,
+    p.id,
+    v.id,
+    ci.quantity,
+    p.price + COALESCE(v.price_adjustment, 0),
+    (p.price + COALESCE(v.price_adjustment, 0)) * ci.quantity,
+    jsonb_build_object(
+      'name', p.name,
+      'slug', p.slug,
+      'sku', COALESCE(v.sku, p.sku),
+      'size', v.size,
+      'color_name', v.color_name,
+      'color_code', v.color_code,
+      'image', (
+        SELECT pi.image_url
+        FROM product_images pi
+        WHERE pi.product_id = p.id
+        ORDER BY pi.is_primary DESC, pi.sort_order
+        LIMIT 1
+      )
+    )
+  FROM cart_items ci
+  JOIN products p ON p.id = ci.product_id
+  LEFT JOIN product_variants v ON v.id = ci.variant_id
+  WHERE ci.user_id = p_user_id;
+
+  DELETE FROM cart_items WHERE user_id = p_user_id;
+
+  RETURN new_order;
+END;
+$$;
+
+-- Only the API (service role) may place orders
+REVOKE ALL ON FUNCTION place_order(uuid, text, jsonb, jsonb, text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION place_order(uuid, text, jsonb, jsonb, text) FROM anon, authenticated;
+GRANT EXECUTE ON FUNCTION place_order(uuid, text, jsonb, jsonb, text) TO service_role;
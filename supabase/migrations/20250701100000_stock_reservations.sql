@@ -0,0 +1,320 @@
+/*
+  # Stock Reservation for Checkout
+
+  1. New Tables
+    - `stock_reservations`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, the shopper holding the stock)
+      - `variant_id` (uuid, the reserved product_variant)
+      - `quantity` (integer)
+      - `status` (text) - 'active', 'committed', 'released' or 'expired'
+      - `order_id` (uuid, set when the reservation is committed)
+      - `expires_at` (timestamp)
+      - `created_at` (timestamp)
+
+  2. Functions
+    - `cart_stock_issues` - cart lines asking for more than is available
+    - `reserve_cart_stock` - holds stock for the whole cart when checkout starts
+    - `release_stock_reservations` - gives a shopper's hold back
+    - `expire_stock_reservations` - housekeeping for timed-out holds
+    - `place_order` - now decrements `stock_quantity` and commits the hold
+
+  3. Availability
+    - available = `stock_quantity` minus other shoppers' active, unexpired holds
+    - Variant rows are locked in id order while reserving or ordering so two
+      checkouts can't both take the last piece
+
+  4. Security
+    - Enable RLS; users can see their own reservations, admins all of them
+    - Writes only happen through the SECURITY DEFINER functions above
+*/
+
+CREATE TABLE IF NOT EXISTS stock_reservations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  variant_id uuid NOT NULL REFERENCES product_variants(id) ON DELETE CASCADE,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'committed', 'released', 'expired')),
+  order_id uuid REFERENCES orders(id) ON DELETE SET NULL,
+  expires_at timestamptz NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE stock_reservations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own stock reservations"
+  ON stock_reservations FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all stock reservations"
+  ON stock_reservations FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE INDEX IF NOT EXISTS idx_stock_reservations_active
+  ON stock_reservations(variant_id, expires_at)
+  WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_stock_reservations_user_id ON stock_reservations(user_id);
+
+-- Cart lines that ask for more than is currently available
+CREATE OR REPLACE FUNCTION cart_stock_issues(p_user_id uuid)
+RETURNS TABLE (
+  cart_item_id uuid,
+  variant_id uuid,
+  product_name text,
+  size text,
+  color_name text,
+  requested integer,
+  available integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    lines.cart_item_id,
+    lines.variant_id,
+    lines.product_name,
+    lines.size,
+    lines.color_name,
+    lines.requested,
+    GREATEST(lines.available, 0)
+  FROM (
+    SELECT
+      ci.id AS cart_item_id,
+      v.id AS variant_id,
+      p.name AS product_name,
+      v.size,
+      v.color_name,
+      ci.quantity AS requested,
+      COALESCE(v.stock_quantity, 0) - COALESCE((
+        SELECT SUM(r.quantity)
+        FROM stock_reservations r
+        WHERE r.variant_id = v.id
+        AND r.status = 'active'
+        AND r.expires_at > now()
+        AND r.user_id <> p_user_id
+      ), 0)::integer AS available
+    FROM cart_items ci
+    JOIN products p ON p.id = ci.product_id
+    JOIN product_variants v ON v.id = ci.variant_id
+    WHERE ci.user_id = p_user_id
+  ) lines
+  WHERE lines.requested > lines.available;
+$$;
+
+-- Hold stock for every cart line. Returns the failing lines and reserves
+-- nothing if any line can't be satisfied.
+CREATE OR REPLACE FUNCTION reserve_cart_stock(p_user_id uuid, p_minutes integer DEFAULT 15)
+RETURNS TABLE (
+  cart_item_id uuid,
+  variant_id uuid,
+  product_name text,
+  size text,
+  color_name text,
+  requested integer,
+  available integer
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM 1
+  FROM product_variants v
+  WHERE v.id IN (SELECT ci.variant_id FROM cart_items ci WHERE ci.user_id = p_user_id)
+  ORDER BY v.id
+  FOR UPDATE;
+
+  -- A new checkout replaces any hold the shopper already has
+  UPDATE stock_reservations r
+  SET status = 'released'
+  WHERE r.user_id = p_user_id
+  AND r.status = 'active';
+
+  RETURN QUERY SELECT * FROM cart_stock_issues(p_user_id);
+  IF FOUND THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO stock_reservations (user_id, variant_id, quantity, expires_at)
+  SELECT p_user_id, ci.variant_id, ci.quantity, now() + make_interval(mins => p_minutes)
+  FROM cart_items ci
+  WHERE ci.user_id = p_user_id
+  AND ci.variant_id IS NOT NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION release_stock_reservations(p_user_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE stock_reservations
+  SET status = 'released'
+  WHERE user_id = p_user_id
+  AND status = 'active';
+$$;
+
+-- Expired holds are already ignored when computing availability; this just
+-- keeps the table tidy. Schedule it with pg_cron, e.g. every 5 minutes.
+CREATE OR REPLACE FUNCTION expire_stock_reservations()
+RETURNS integer
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH expired AS (
+    UPDATE stock_reservations
+    SET status = 'expired'
+    WHERE status = 'active'
+    AND expires_at <= now()
+    RETURNING 1
+  )
+  SELECT COUNT(*)::integer FROM expired;
+$$;
+
+-- Same as before, plus the stock check and decrement
+CREATE OR REPLACE FUNCTION place_order(
+  p_user_id uuid,
+  p_payment_method text,
+  p_shipping_address jsonb,
+  p_billing_address jsonb DEFAULT NULL,
+  p_notes text DEFAULT NULL
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_order orders;
+  order_subtotal decimal(10,2);
+BEGIN
+  -- Lock the cart so a concurrent add/remove can't change it mid-checkout
+  PERFORM 1 FROM cart_items WHERE user_id = p_user_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Your cart is empty' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM cart_items ci
+    JOIN products p ON p.id = ci.product_id
+    LEFT JOIN product_variants v ON v.id = ci.variant_id
+    WHERE ci.user_id = p_user_id
+    AND (
+      p.is_active IS NOT TRUE
+      OR (ci.variant_id IS NOT NULL AND v.is_active IS NOT TRUE)
+    )
+  ) THEN
+    RAISE EXCEPTION 'Some items in your cart are no longer available' USING ERRCODE = 'P0001';
+  END IF;
+
+  PERFORM 1
+  FROM product_variants v
+  WHERE v.id IN (SELECT ci.variant_id FROM cart_items ci WHERE ci.user_id = p_user_id)
+  ORDER BY v.id
+  FOR UPDATE;
+
+  -- P0002 tells the API to report cart_stock_issues line by line
+  IF EXISTS (SELECT 1 FROM cart_stock_issues(p_user_id)) THEN
+    RAISE EXCEPTION 'Some items in your cart are out of stock' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT COALESCE(SUM((p.price + COALESCE(v.price_adjustment, 0)) * ci.quantity), 0)
+  INTO order_subtotal
+  FROM cart_items ci
+  JOIN products p ON p.id = ci.product_id
+  LEFT JOIN product_variants v ON v.id = ci.variant_id
+  WHERE ci.user_id = p_user_id;
+
+  -- order_number is filled in by set_order_number_trigger
+  INSERT INTO orders (
+    user_id,
+    subtotal,
+    total_amount,
+    payment_method,
+    payment_status,
+    shipping_address,
+    billing_address,
+    notes
+  )
+  VALUES (
+    p_user_id,
+    order_subtotal,
+    order_subtotal,
+    p_payment_method,
+    'pending',
+    p_shipping_address,
+    COALESCE(p_billing_address, p_shipping_address),
+    p_notes
+  )
+  RETURNING * INTO new_order;
+
+  INSERT INTO order_items (
+    order_id,
+    product_id,
+    variant_id,
+    quantity,
+    unit_price,
+    total_price,
+    product_snapshot
+  )
+  SELECT
+    new_order.id,
+    p.id,
+    v.id,
+    ci.quantity,
+    p.price + COALESCE(v.price_adjustment, 0),
+    (p.price + COALESCE(v.price_adjustment, 0)) * ci.quantity,
+    jsonb_build_object(
+      'name', p.name,
+      'slug', p.slug,
+      'sku', COALESCE(v.sku, p.sku),
+      'size', v.size,
+      'color_name', v.color_name,
+      'color_code', v.color_code,
+      'image', (
+        SELECT pi.image_url
+        FROM product_images pi
+        WHERE pi.product_id = p.id
+        ORDER BY pi.is_primary DESC, pi.sort_order
+        LIMIT 1
+      )
+    )
+  FROM cart_items ci
+  JOIN products p ON p.id = ci.product_id
+  LEFT JOIN product_variants v ON v.id = ci.variant_id
+  WHERE ci.user_id = p_user_id;
+
+  UPDATE product_variants v
+  SET stock_quantity = v.stock_quantity - ci.quantity
+  FROM cart_items ci
+  WHERE ci.user_id = p_user_id
+  AND ci.variant_id = v.id;
+
+  UPDATE stock_reservations
+  SET status = 'committed', order_id = new_order.id
+  WHERE user_id = p_user_id
+  AND status = 'active';
+
+  DELETE FROM cart_items WHERE user_id = p_user_id;
+
+  RETURN new_order;
+END;
+$$;
+
+-- Only the API (service role) may reserve, release or expire stock
+REVOKE ALL ON FUNCTION cart_stock_issues(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION reserve_cart_stock(uuid, integer) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION release_stock_reservations(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION expire_stock_reservations() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION cart_stock_issues(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION reserve_cart_stock(uuid, integer) TO service_role;
+GRANT EXECUTE ON FUNCTION release_stock_reservations(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION expire_stock_reservations() TO service_role;
@@ -0,0 +1,145 @@
+/*
+  # Online Payments for Orders
+
+  1. Changes to `orders`
+    - `payment_gateway` (text) - 'razorpay' or 'mock'
+    - `gateway_order_id` (text, unique) - the gateway's order id
+    - `gateway_payment_id` (text) - the gateway's payment id once paid
+    - `paid_at` (timestamp)
+
+  2. Functions
+    - `record_order_payment` - moves `payment_status` from 'pending' to
+      'paid' or 'failed'. A failed payment cancels the order, puts the stock
+      back on the variants and returns the items to the shopper's cart.
+      Only online-payment orders can be recorded, and only ones with a
+      gateway order can be paid.
+      Repeat calls are ignored, so the checkout callback and the gateway
+      webhook can both report the result, and a failure is ignored once the
+      order has left 'pending'. A payment captured after the order failed
+      is still recorded as paid, leaving a cancelled paid order to refund.
+    - `expire_unpaid_orders` - fails online-payment orders still unpaid
+      after the given number of minutes, so abandoned checkouts give their
+      stock back
+
+  3. Security
+    - Only the service role (our Express API) may record payments
+*/
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS payment_gateway text;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS gateway_order_id text;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS gateway_payment_id text;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS paid_at timestamptz;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_orders_gateway_order_id
+  ON orders(gateway_order_id)
+  WHERE gateway_order_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION record_order_payment(
+  p_order_id uuid,
+  p_paid boolean,
+  p_gateway_payment_id text DEFAULT NULL
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_order orders;
+BEGIN
+  SELECT * INTO target_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- An order whose gateway order was never created can still fail, but
+  -- nothing can have been paid against it
+  IF target_order.payment_method IS DISTINCT FROM 'razorpay'
+    OR (p_paid AND target_order.gateway_order_id IS NULL) THEN
+    RAISE EXCEPTION 'Order is not awaiting an online payment'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_paid THEN
+    IF target_order.payment_status NOT IN ('pending', 'failed') THEN
+      RETURN target_order;
+    END IF;
+
+    -- A late capture on a failed order keeps it cancelled, now refundable
+    UPDATE orders
+    SET
+      payment_status = 'paid',
+      status = CASE WHEN status = 'pending' THEN 'confirmed' ELSE status END,
+      gateway_payment_id = COALESCE(p_gateway_payment_id, gateway_payment_id),
+      paid_at = now()
+    WHERE id = p_order_id
+    RETURNING * INTO target_order;
+
+    RETURN target_order;
+  END IF;
+
+  IF target_order.payment_status <> 'pending'
+    OR target_order.status <> 'pending' THEN
+    RETURN target_order;
+  END IF;
+
+  UPDATE orders
+  SET
+    payment_status = 'failed',
+    status = 'cancelled',
+    gateway_payment_id = COALESCE(p_gateway_payment_id, gateway_payment_id)
+  WHERE id = p_order_id
+  RETURNING * INTO target_order;
+
+  -- Give the stock back
+  UPDATE product_variants v
+  SET stock_quantity = v.stock_quantity + oi.quantity
+  FROM order_items oi
+  WHERE oi.order_id = p_order_id
+  AND oi.variant_id = v.id;
+
+  -- Put the items back in the cart so the shopper can try again
+  INSERT INTO cart_items (user_id, product_id, variant_id, quantity)
+  SELECT target_order.user_id, oi.product_id, oi.variant_id, oi.quantity
+  FROM order_items oi
+  WHERE oi.order_id = p_order_id
+  ON CONFLICT (user_id, product_id, variant_id)
+  DO UPDATE SET quantity = cart_items.quantity + EXCLUDED.quantity;
+
+  RETURN target_order;
+END;
+$$;
+
+-- Fails online-payment orders nobody paid for within `p_minutes`, e.g.
+-- because the shopper closed the tab before the result was reported
+CREATE OR REPLACE FUNCTION expire_unpaid_orders(p_minutes integer)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  unpaid record;
+  expired integer := 0;
+BEGIN
+  FOR unpaid IN
+    SELECT id
+    FROM orders
+    WHERE payment_method = 'razorpay'
+    AND payment_status = 'pending'
+    AND status = 'pending'
+    AND created_at <= now() - make_interval(mins => p_minutes)
+  LOOP
+    PERFORM record_order_payment(unpaid.id, false);
+    expired := expired + 1;
+  END LOOP;
+
+  RETURN expired;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION record_order_payment(uuid, boolean, text) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION expire_unpaid_orders(integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_order_payment(uuid, boolean, text) TO service_role;
+GRANT EXECUTE ON FUNCTION expire_unpaid_orders(integer) TO service_role;
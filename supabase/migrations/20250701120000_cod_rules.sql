@@ -0,0 +1,325 @@
+/*
+  # Cash on Delivery Rules
+
+  1. New Tables
+    - `cod_settings` (single row)
+      - `is_enabled` (boolean) - master switch for COD
+      - `max_order_amount` (decimal, nullable) - largest order COD is offered for
+      - `fee` (decimal) - COD handling fee, charged as shipping
+      - `allowed_pin_codes` (text[]) - if not empty, COD is only offered here
+      - `blocked_pin_codes` (text[]) - COD is never offered here
+      - `max_refused_orders` (integer, nullable) - customers with this many
+        refused COD deliveries must pay online
+    - PIN code entries match as prefixes, so '600' covers all of Chennai
+
+  2. Changes to `orders`
+    - `cod_refused` (boolean) - the customer refused a COD delivery
+
+  3. Functions
+    - `cart_subtotal` - cart value at current prices
+    - `cod_eligibility` - evaluates the rules above for a shopper, PIN and total
+    - `checkout_quote` - subtotal, charges and COD eligibility for the cart
+    - `place_order` - now rejects ineligible COD orders and charges the COD
+      fee in `shipping_amount`
+
+  4. Security
+    - Enable RLS; only admins can read or change `cod_settings`
+    - The functions above are for the service role only
+*/
+
+CREATE TABLE IF NOT EXISTS cod_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  is_enabled boolean NOT NULL DEFAULT true,
+  max_order_amount decimal(10,2) CHECK (max_order_amount > 0),
+  fee decimal(10,2) NOT NULL DEFAULT 0 CHECK (fee >= 0),
+  allowed_pin_codes text[] NOT NULL DEFAULT '{}',
+  blocked_pin_codes text[] NOT NULL DEFAULT '{}',
+  max_refused_orders integer DEFAULT 2 CHECK (max_refused_orders > 0),
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO cod_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE cod_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view cod settings"
+  ON cod_settings FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can update cod settings"
+  ON cod_settings FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE TRIGGER update_cod_settings_updated_at
+  BEFORE UPDATE ON cod_settings
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS cod_refused boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_orders_cod_refused
+  ON orders(user_id)
+  WHERE cod_refused;
+
+CREATE OR REPLACE FUNCTION cart_subtotal(p_user_id uuid)
+RETURNS decimal(10,2)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM((p.price + COALESCE(v.price_adjustment, 0)) * ci.quantity), 0)
+  FROM cart_items ci
+  JOIN products p ON p.id = ci.product_id
+  LEFT JOIN product_variants v ON v.id = ci.variant_id
+  WHERE ci.user_id = p_user_id;
+$$;
+
+CREATE OR REPLACE FUNCTION cod_eligibility(
+  p_user_id uuid,
+  p_pin_code text,
+  p_order_total decimal
+)
+RETURNS TABLE (eligible boolean, reason text, fee decimal(10,2))
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  settings cod_settings;
+  refused_count integer;
+BEGIN
+  SELECT * INTO settings FROM cod_settings WHERE id;
+
+  IF NOT FOUND OR NOT settings.is_enabled THEN
+    RETURN QUERY SELECT false, 'Cash on delivery is currently unavailable', 0::decimal(10,2);
+    RETURN;
+  END IF;
+
+  IF p_pin_code IS NULL OR p_pin_code !~ '^[0-9]{6}$' THEN
+    RETURN QUERY SELECT false, 'Enter a valid PIN code to check cash on delivery', 0::decimal(10,2);
+    RETURN;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(settings.blocked_pin_codes) pin
+    WHERE p_pin_code LIKE pin || '%'
+  ) OR (
+    cardinality(settings.allowed_pin_codes) > 0
+    AND NOT EXISTS (
+      SELECT 1 FROM unnest(settings.allowed_pin_codes) pin
+      WHERE p_pin_code LIKE pin || '%'
+    )
+  ) THEN
+    RETURN QUERY SELECT false, format('Cash on delivery is not available for PIN code %s', p_pin_code), 0::decimal(10,2);
+    RETURN;
+  END IF;
+
+  IF settings.max_order_amount IS NOT NULL AND p_order_total > settings.max_order_amount THEN
+    RETURN QUERY SELECT false, format('Cash on delivery is available only for orders up to ₹%s', settings.max_order_amount), 0::decimal(10,2);
+    RETURN;
+  END IF;
+
+  IF settings.max_refused_orders IS NOT NULL THEN
+    SELECT COUNT(*) INTO refused_count
+    FROM orders
+    WHERE user_id = p_user_id
+    AND payment_method = 'cod'
+    AND cod_refused;
+
+    IF refused_count >= settings.max_refused_orders THEN
+      RETURN QUERY SELECT false, 'Cash on delivery is unavailable for your account because of earlier refused deliveries. Please pay online.', 0::decimal(10,2);
+      RETURN;
+    END IF;
+  END IF;
+
+  RETURN QUERY SELECT true, NULL::text, settings.fee;
+END;
+$$;
+
+-- Everything the shopper pays for the current cart. COD is evaluated on the
+-- order value before its own fee.
+CREATE OR REPLACE FUNCTION checkout_quote(
+  p_user_id uuid,
+  p_pin_code text,
+  p_payment_method text
+)
+RETURNS TABLE (
+  subtotal decimal(10,2),
+  shipping_amount decimal(10,2),
+  total_amount decimal(10,2),
+  cod_eligible boolean,
+  cod_reason text,
+  cod_fee decimal(10,2)
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cart_value decimal(10,2);
+  cod record;
+  charges decimal(10,2) := 0;
+BEGIN
+  cart_value := cart_subtotal(p_user_id);
+
+  SELECT * INTO cod FROM cod_eligibility(p_user_id, p_pin_code, cart_value);
+
+  IF p_payment_method = 'cod' AND cod.eligible THEN
+    charges := charges + cod.fee;
+  END IF;
+
+  RETURN QUERY SELECT
+    cart_value,
+    charges,
+    cart_value + charges,
+    cod.eligible,
+    cod.reason,
+    cod.fee;
+END;
+$$;
+
+-- Same as before, priced through checkout_quote
+CREATE OR REPLACE FUNCTION place_order(
+  p_user_id uuid,
+  p_payment_method text,
+  p_shipping_address jsonb,
+  p_billing_address jsonb DEFAULT NULL,
+  p_notes text DEFAULT NULL
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_order orders;
+  quote record;
+BEGIN
+  -- Lock the cart so a concurrent add/remove can't change it mid-checkout
+  PERFORM 1 FROM cart_items WHERE user_id = p_user_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Your cart is empty' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM cart_items ci
+    JOIN products p ON p.id = ci.product_id
+    LEFT JOIN product_variants v ON v.id = ci.variant_id
+    WHERE ci.user_id = p_user_id
+    AND (
+      p.is_active IS NOT TRUE
+      OR (ci.variant_id IS NOT NULL AND v.is_active IS NOT TRUE)
+    )
+  ) THEN
+    RAISE EXCEPTION 'Some items in your cart are no longer available' USING ERRCODE = 'P0001';
+  END IF;
+
+  PERFORM 1
+  FROM product_variants v
+  WHERE v.id IN (SELECT ci.variant_id FROM cart_items ci WHERE ci.user_id = p_user_id)
+  ORDER BY v.id
+  FOR UPDATE;
+
+  -- P0002 tells the API to report cart_stock_issues line by line
+  IF EXISTS (SELECT 1 FROM cart_stock_issues(p_user_id)) THEN
+    RAISE EXCEPTION 'Some items in your cart are out of stock' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO quote
+  FROM checkout_quote(p_user_id, p_shipping_address->>'postal_code', p_payment_method);
+
+  IF p_payment_method = 'cod' AND NOT quote.cod_eligible THEN
+    RAISE EXCEPTION '%', quote.cod_reason USING ERRCODE = 'P0001';
+  END IF;
+
+  -- order_number is filled in by set_order_number_trigger
+  INSERT INTO orders (
+    user_id,
+    subtotal,
+    shipping_amount,
+    total_amount,
+    payment_method,
+    payment_status,
+    shipping_address,
+    billing_address,
+    notes
+  )
+  VALUES (
+    p_user_id,
+    quote.subtotal,
+    quote.shipping_amount,
+    quote.total_amount,
+    p_payment_method,
+    'pending',
+    p_shipping_address,
+    COALESCE(p_billing_address, p_shipping_address),
+    p_notes
+  )
+  RETURNING * INTO new_order;
+
+  INSERT INTO order_items (
+    order_id,
+    product_id,
+    variant_id,
+    quantity,
+    unit_price,
+    total_price,
+    product_snapshot
+  )
+  SELECT
+    new_order.id,
+    p.id,
+    v.id,
+    ci.quantity,
+    p.price + COALESCE(v.price_adjustment, 0),
+    (p.price + COALESCE(v.price_adjustment, 0)) * ci.quantity,
+    jsonb_build_object(
+      'name', p.name,
+      'slug', p.slug,
+      'sku', COALESCE(v.sku, p.sku),
+      'size', v.size,
+      'color_name', v.color_name,
+      'color_code', v.color_code,
+      'image', (
+        SELECT pi.image_url
+        FROM product_images pi
+        WHERE pi.product_id = p.id
+        ORDER BY pi.is_primary DESC, pi.sort_order
+        LIMIT 1
+      )
+    )
+  FROM cart_items ci
+  JOIN products p ON p.id = ci.product_id
+  LEFT JOIN product_variants v ON v.id = ci.variant_id
+  WHERE ci.user_id = p_user_id;
+
+  UPDATE product_variants v
+  SET stock_quantity = v.stock_quantity - ci.quantity
+  FROM cart_items ci
+  WHERE ci.user_id = p_user_id
+  AND ci.variant_id = v.id;
+
+  UPDATE stock_reservations
+  SET status = 'committed', order_id = new_order.id
+  WHERE user_id = p_user_id
+  AND status = 'active';
+
+  DELETE FROM cart_items WHERE user_id = p_user_id;
+
+  RETURN new_order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION cart_subtotal(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION cod_eligibility(uuid, text, decimal) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION checkout_quote(uuid, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION cart_subtotal(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION cod_eligibility(uuid, text, decimal) TO service_role;
+GRANT EXECUTE ON FUNCTION checkout_quote(uuid, text, text) TO service_role;
@@ -0,0 +1,349 @@
+/*
+  # GST on Orders
+
+  1. New Tables
+    - `tax_settings` (single row)
+      - `store_state` (text) - state we ship from; deliveries inside it pay
+        CGST + SGST, everywhere else IGST
+      - `gstin` (text)
+      - `slab_threshold` (decimal) - per-piece taxable value up to which
+        `lower_rate` applies; above it `higher_rate` applies
+      - `lower_rate`, `higher_rate` (decimal, percent)
+
+  2. Changes to `order_items`
+    - `gst_rate` (decimal, percent)
+    - `taxable_value` (decimal) - line total without GST
+    - `cgst_amount`, `sgst_amount`, `igst_amount` (decimal)
+
+  3. Functions
+    - `gst_rate_for` - slab for a GST-inclusive per-piece price
+    - `cart_tax_lines` - GST breakdown for every cart line
+    - `checkout_quote` - now takes the shipping state and reports GST
+    - `place_order` - stores the GST breakdown per item and in
+      `orders.tax_amount`
+
+  4. Notes
+    - Product prices include GST. Tax is worked backwards from the line total
+      and the slab is chosen on the per-piece value before tax.
+
+  5. Security
+    - Enable RLS; everyone can read `tax_settings`, only admins can change it
+*/
+
+CREATE TABLE IF NOT EXISTS tax_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  store_state text NOT NULL DEFAULT 'Tamil Nadu',
+  gstin text,
+  slab_threshold decimal(10,2) NOT NULL DEFAULT 1000 CHECK (slab_threshold > 0),
+  lower_rate decimal(5,2) NOT NULL DEFAULT 5 CHECK (lower_rate >= 0),
+  higher_rate decimal(5,2) NOT NULL DEFAULT 12 CHECK (higher_rate >= 0),
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO tax_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE tax_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view tax settings"
+  ON tax_settings FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Admins can update tax settings"
+  ON tax_settings FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE TRIGGER update_tax_settings_updated_at
+  BEFORE UPDATE ON tax_settings
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS gst_rate decimal(5,2) NOT NULL DEFAULT 0;
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS taxable_value decimal(10,2);
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS cgst_amount decimal(10,2) NOT NULL DEFAULT 0;
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS sgst_amount decimal(10,2) NOT NULL DEFAULT 0;
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS igst_amount decimal(10,2) NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION gst_rate_for(p_unit_price decimal)
+RETURNS decimal(5,2)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_unit_price / (1 + s.lower_rate / 100) <= s.slab_threshold THEN s.lower_rate
+    ELSE s.higher_rate
+  END
+  FROM tax_settings s
+  WHERE s.id;
+$$;
+
+CREATE OR REPLACE FUNCTION cart_tax_lines(p_user_id uuid, p_state text)
+RETURNS TABLE (
+  cart_item_id uuid,
+  unit_price decimal(10,2),
+  line_total decimal(10,2),
+  gst_rate decimal(5,2),
+  taxable_value decimal(10,2),
+  cgst_amount decimal(10,2),
+  sgst_amount decimal(10,2),
+  igst_amount decimal(10,2)
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH lines AS (
+    SELECT
+      ci.id AS cart_item_id,
+      p.price + COALESCE(v.price_adjustment, 0) AS unit_price,
+      (p.price + COALESCE(v.price_adjustment, 0)) * ci.quantity AS line_total,
+      gst_rate_for(p.price + COALESCE(v.price_adjustment, 0)) AS gst_rate
+    FROM cart_items ci
+    JOIN products p ON p.id = ci.product_id
+    LEFT JOIN product_variants v ON v.id = ci.variant_id
+    WHERE ci.user_id = p_user_id
+  ),
+  taxed AS (
+    SELECT
+      lines.*,
+      ROUND(lines.line_total - lines.line_total / (1 + lines.gst_rate / 100), 2) AS gst,
+      lower(trim(COALESCE(p_state, ''))) = lower(trim(s.store_state)) AS intra_state
+    FROM lines
+    CROSS JOIN tax_settings s
+    WHERE s.id
+  )
+  SELECT
+    taxed.cart_item_id,
+    taxed.unit_price,
+    taxed.line_total,
+    taxed.gst_rate,
+    taxed.line_total - taxed.gst,
+    CASE WHEN taxed.intra_state THEN ROUND(taxed.gst / 2, 2) ELSE 0 END,
+    CASE WHEN taxed.intra_state THEN taxed.gst - ROUND(taxed.gst / 2, 2) ELSE 0 END,
+    CASE WHEN taxed.intra_state THEN 0 ELSE taxed.gst END
+  FROM taxed;
+$$;
+
+-- The quote now depends on the shipping state
+DROP FUNCTION IF EXISTS checkout_quote(uuid, text, text);
+
+-- Now with the GST contained in the cart. Prices already include GST, so
+-- the tax is reported but doesn't change the total.
+CREATE OR REPLACE FUNCTION checkout_quote(
+  p_user_id uuid,
+  p_pin_code text,
+  p_state text,
+  p_payment_method text
+)
+RETURNS TABLE (
+  subtotal decimal(10,2),
+  tax_amount decimal(10,2),
+  cgst_amount decimal(10,2),
+  sgst_amount decimal(10,2),
+  igst_amount decimal(10,2),
+  shipping_amount decimal(10,2),
+  total_amount decimal(10,2),
+  cod_eligible boolean,
+  cod_reason text,
+  cod_fee decimal(10,2)
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cart_value decimal(10,2);
+  cod record;
+  tax record;
+  charges decimal(10,2) := 0;
+BEGIN
+  cart_value := cart_subtotal(p_user_id);
+
+  SELECT
+    COALESCE(SUM(t.cgst_amount + t.sgst_amount + t.igst_amount), 0) AS total,
+    COALESCE(SUM(t.cgst_amount), 0) AS cgst,
+    COALESCE(SUM(t.sgst_amount), 0) AS sgst,
+    COALESCE(SUM(t.igst_amount), 0) AS igst
+  INTO tax
+  FROM cart_tax_lines(p_user_id, p_state) t;
+
+  SELECT * INTO cod FROM cod_eligibility(p_user_id, p_pin_code, cart_value);
+
+  IF p_payment_method = 'cod' AND cod.eligible THEN
+    charges := charges + cod.fee;
+  END IF;
+
+  RETURN QUERY SELECT
+    cart_value,
+    tax.total,
+    tax.cgst,
+    tax.sgst,
+    tax.igst,
+    charges,
+    cart_value + charges,
+    cod.eligible,
+    cod.reason,
+    cod.fee;
+END;
+$$;
+
+-- Same as before, storing the GST breakdown
+CREATE OR REPLACE FUNCTION place_order(
+  p_user_id uuid,
+  p_payment_method text,
+  p_shipping_address jsonb,
+  p_billing_address jsonb DEFAULT NULL,
+  p_notes text DEFAULT NULL
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_order orders;
+  quote record;
+BEGIN
+  -- Lock the cart so a concurrent add/remove can't change it mid-checkout
+  PERFORM 1 FROM cart_items WHERE user_id = p_user_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Your cart is empty' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM cart_items ci
+    JOIN products p ON p.id = ci.product_id
+    LEFT JOIN product_variants v ON v.id = ci.variant_id
+    WHERE ci.user_id = p_user_id
+    AND (
+      p.is_active IS NOT TRUE
+      OR (ci.variant_id IS NOT NULL AND v.is_active IS NOT TRUE)
+    )
+  ) THEN
+    RAISE EXCEPTION 'Some items in your cart are no longer available' USING ERRCODE = 'P0001';
+  END IF;
+
+  PERFORM 1
+  FROM product_variants v
+  WHERE v.id IN (SELECT ci.variant_id FROM cart_items ci WHERE ci.user_id = p_user_id)
+  ORDER BY v.id
+  FOR UPDATE;
+
+  -- P0002 tells the API to report cart_stock_issues line by line
+  IF EXISTS (SELECT 1 FROM cart_stock_issues(p_user_id)) THEN
+    RAISE EXCEPTION 'Some items in your cart are out of stock' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO quote
+  FROM checkout_quote(
+    p_user_id,
+    p_shipping_address->>'postal_code',
+    p_shipping_address->>'state',
+    p_payment_method
+  );
+
+  IF p_payment_method = 'cod' AND NOT quote.cod_eligible THEN
+    RAISE EXCEPTION '%', quote.cod_reason USING ERRCODE = 'P0001';
+  END IF;
+
+  -- order_number is filled in by set_order_number_trigger
+  INSERT INTO orders (
+    user_id,
+    subtotal,
+    tax_amount,
+    shipping_amount,
+    total_amount,
+    payment_method,
+    payment_status,
+    shipping_address,
+    billing_address,
+    notes
+  )
+  VALUES (
+    p_user_id,
+    quote.subtotal,
+    quote.tax_amount,
+    quote.shipping_amount,
+    quote.total_amount,
+    p_payment_method,
+    'pending',
+    p_shipping_address,
+    COALESCE(p_billing_address, p_shipping_address),
+    p_notes
+  )
+  RETURNING * INTO new_order;
+
+  INSERT INTO order_items (
+    order_id,
+    product_id,
+    variant_id,
+    quantity,
+    unit_price,
+    total_price,
+    gst_rate,
+    taxable_value,
+    cgst_amount,
+    sgst_amount,
+    igst_amount,
+    product_snapshot
+  )
+  SELECT
+    new_order.id,
+    p.id,
+    v.id,
+    ci.quantity,
+    t.unit_price,
+    t.line_total,
+    t.gst_rate,
+    t.taxable_value,
+    t.cgst_amount,
+    t.sgst_amount,
+    t.igst_amount,
+    jsonb_build_object(
+      'name', p.name,
+      'slug', p.slug,
+      'sku', COALESCE(v.sku, p.sku),
+      'size', v.size,
+      'color_name', v.color_name,
+      'color_code', v.color_code,
+      'image', (
+        SELECT pi.image_url
+        FROM product_images pi
+        WHERE pi.product_id = p.id
+        ORDER BY pi.is_primary DESC, pi.sort_order
+        LIMIT 1
+      )
+    )
+  FROM cart_items ci
+  JOIN products p ON p.id = ci.product_id
+  LEFT JOIN product_variants v ON v.id = ci.variant_id
+  JOIN cart_tax_lines(p_user_id, p_shipping_address->>'state') t ON t.cart_item_id = ci.id
+  WHERE ci.user_id = p_user_id;
+
+  UPDATE product_variants v
+  SET stock_quantity = v.stock_quantity - ci.quantity
+  FROM cart_items ci
+  WHERE ci.user_id = p_user_id
+  AND ci.variant_id = v.id;
+
+  UPDATE stock_reservations
+  SET status = 'committed', order_id = new_order.id
+  WHERE user_id = p_user_id
+  AND status = 'active';
+
+  DELETE FROM cart_items WHERE user_id = p_user_id;
+
+  RETURN new_order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION cart_tax_lines(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION checkout_quote(uuid, text, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION cart_tax_lines(uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION checkout_quote(uuid, text, text, text) TO service_role;
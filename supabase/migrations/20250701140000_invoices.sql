@@ -0,0 +1,175 @@
+/*
+  # GST Tax Invoices
+
+  1. New Tables
+    - `invoices`
+      - `id` (uuid, primary key)
+      - `order_id` (uuid, unique) - one invoice per order
+      - `invoice_number` (text, unique) - e.g. INV/2025-26/000001
+      - `financial_year` (text) - e.g. 2025-26
+      - `issued_at` (timestamp)
+    - `invoice_series`
+      - `financial_year` (text, primary key)
+      - `last_number` (integer) - numbers restart every April
+
+  2. Changes to existing tables
+    - `categories.hsn_code` (text) - HSN code printed for products in the
+      category; 4, 6 or 8 digits
+    - `order_items.hsn_code` (text) - frozen when the invoice is issued
+    - `tax_settings` gains the seller details printed on the invoice:
+      `legal_name`, `address`, `invoice_prefix`, `default_hsn_code`
+
+  3. Data
+    - HSN codes for the existing categories: 6109 for T-shirts, 6103 for
+      men's track pants and shorts, 6104 for leggings and 6108 for
+      shapewear, night wear and innerwear (all knitted)
+
+  4. Functions
+    - `issue_invoice` - returns the order's invoice, allocating the next
+      number in the series the first time
+
+  5. Security
+    - Enable RLS; users can view invoices for their own orders, admins all
+    - Numbers are only allocated by the service role
+*/
+
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS hsn_code text
+  CHECK (hsn_code ~ '^[0-9]{4}([0-9]{2}){0,2}$');
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS hsn_code text;
+
+ALTER TABLE tax_settings ADD COLUMN IF NOT EXISTS legal_name text NOT NULL DEFAULT 'Garments';
+ALTER TABLE tax_settings ADD COLUMN IF NOT EXISTS address text;
+ALTER TABLE tax_settings ADD COLUMN IF NOT EXISTS invoice_prefix text NOT NULL DEFAULT 'INV';
+ALTER TABLE tax_settings ADD COLUMN IF NOT EXISTS default_hsn_code text NOT NULL DEFAULT '6211';
+
+UPDATE categories c
+SET hsn_code = hsn.code
+FROM (
+  VALUES
+    ('mens-t-shirts', '6109'),
+    ('mens-bottomwear', '6103'),
+    ('womens-leggings', '6104'),
+    ('womens-sarees-shapewear', '6108'),
+    ('saree-shapewear', '6108'),
+    ('womens-night-wear', '6108'),
+    ('night-wear', '6108'),
+    ('womens-innerwear', '6108')
+) AS hsn(slug, code)
+WHERE c.slug = hsn.slug
+AND c.hsn_code IS NULL;
+
+CREATE TABLE IF NOT EXISTS invoice_series (
+  financial_year text PRIMARY KEY,
+  last_number integer NOT NULL DEFAULT 0
+);
+
+CREATE TABLE IF NOT EXISTS invoices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL UNIQUE REFERENCES orders(id) ON DELETE RESTRICT,
+  invoice_number text NOT NULL UNIQUE,
+  financial_year text NOT NULL,
+  issued_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE invoice_series ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own invoices"
+  ON invoices FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = invoices.order_id
+      AND orders.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all invoices"
+  ON invoices FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can view invoice series"
+  ON invoice_series FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE OR REPLACE FUNCTION issue_invoice(p_order_id uuid)
+RETURNS invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  existing invoices;
+  target_order orders;
+  settings tax_settings;
+  fy_start integer;
+  fy text;
+  next_number integer;
+BEGIN
+  SELECT * INTO existing FROM invoices WHERE order_id = p_order_id;
+  IF FOUND THEN
+    RETURN existing;
+  END IF;
+
+  SELECT * INTO target_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF target_order.status IN ('cancelled', 'refunded')
+    OR target_order.payment_status = 'failed'
+    OR (target_order.payment_method <> 'cod' AND target_order.payment_status <> 'paid')
+  THEN
+    RAISE EXCEPTION 'An invoice is not available for this order' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Another request may have issued it while we waited for the lock
+  SELECT * INTO existing FROM invoices WHERE order_id = p_order_id;
+  IF FOUND THEN
+    RETURN existing;
+  END IF;
+
+  SELECT * INTO settings FROM tax_settings WHERE id;
+
+  -- Indian financial years run April to March
+  fy_start := EXTRACT(YEAR FROM (now() AT TIME ZONE 'Asia/Kolkata') - interval '3 months');
+  fy := fy_start || '-' || lpad(((fy_start + 1) % 100)::text, 2, '0');
+
+  INSERT INTO invoice_series (financial_year, last_number)
+  VALUES (fy, 1)
+  ON CONFLICT (financial_year)
+  DO UPDATE SET last_number = invoice_series.last_number + 1
+  RETURNING last_number INTO next_number;
+
+  UPDATE order_items oi
+  SET hsn_code = COALESCE(c.hsn_code, settings.default_hsn_code)
+  FROM products p
+  LEFT JOIN categories c ON c.id = p.category_id
+  WHERE oi.order_id = p_order_id
+  AND p.id = oi.product_id
+  AND oi.hsn_code IS NULL;
+
+  -- Items whose product has since been deleted
+  UPDATE order_items
+  SET hsn_code = settings.default_hsn_code
+  WHERE order_id = p_order_id
+  AND hsn_code IS NULL;
+
+  INSERT INTO invoices (order_id, invoice_number, financial_year)
+  VALUES (
+    p_order_id,
+    settings.invoice_prefix || '/' || fy || '/' || lpad(next_number::text, 6, '0'),
+    fy
+  )
+  RETURNING * INTO existing;
+
+  RETURN existing;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION issue_invoice(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION issue_invoice(uuid) TO service_role;
@@ -0,0 +1,649 @@
+/*
+  # Coupons
+
+  1. New Tables
+    - `coupons`
+      - `id` (uuid, primary key)
+      - `code` (text, unique, case-insensitive)
+      - `description` (text)
+      - `type` (text) - 'percentage', 'flat', 'free_shipping' or 'bxgy'
+      - `value` (decimal) - percent off or rupees off
+      - `max_discount` (decimal, nullable) - cap for percentage coupons
+      - `buy_quantity`, `get_quantity` (integer) - for 'bxgy': of every
+        buy + get eligible pieces, the cheapest `get_quantity` are free
+      - `min_cart_value` (decimal)
+      - `category_ids` (uuid[]), `subcategories` (text[]) - limit the coupon
+        to these products; both empty means the whole cart
+      - `usage_limit` (integer, nullable) - total redemptions
+      - `per_user_limit` (integer, nullable) - redemptions per customer
+      - `starts_at`, `ends_at` (timestamp, nullable) - validity window
+      - `is_active` (boolean)
+    - `coupon_redemptions`
+      - `coupon_id`, `user_id`, `order_id` (unique), `discount_amount`
+      - Redemptions on cancelled orders don't count towards the limits
+
+  2. Changes to existing tables
+    - `orders.coupon_code` (text)
+    - `order_items.discount_amount` (decimal) - the line's share of the discount
+
+  3. Functions
+    - `evaluate_coupon` - validates a code against the shopper's cart
+    - `coupon_cart_lines` - cart lines a coupon applies to
+    - `cart_discount_lines` - discount per cart line, adding up to exactly
+      the coupon's discount
+    - `cart_tax_lines` - GST is now charged on the discounted line value
+    - `checkout_quote`, `place_order` - take an optional coupon code
+
+  4. Security
+    - Enable RLS; admins manage coupons, customers see their own redemptions
+*/
+
+CREATE TABLE IF NOT EXISTS coupons (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text NOT NULL,
+  description text,
+  type text NOT NULL CHECK (type IN ('percentage', 'flat', 'free_shipping', 'bxgy')),
+  value decimal(10,2) NOT NULL DEFAULT 0 CHECK (value >= 0),
+  max_discount decimal(10,2) CHECK (max_discount > 0),
+  buy_quantity integer CHECK (buy_quantity > 0),
+  get_quantity integer CHECK (get_quantity > 0),
+  min_cart_value decimal(10,2) NOT NULL DEFAULT 0 CHECK (min_cart_value >= 0),
+  category_ids uuid[] NOT NULL DEFAULT '{}',
+  subcategories text[] NOT NULL DEFAULT '{}',
+  usage_limit integer CHECK (usage_limit > 0),
+  per_user_limit integer DEFAULT 1 CHECK (per_user_limit > 0),
+  starts_at timestamptz,
+  ends_at timestamptz,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (type <> 'percentage' OR value <= 100),
+  CHECK (type <> 'bxgy' OR (buy_quantity IS NOT NULL AND get_quantity IS NOT NULL)),
+  CHECK (ends_at IS NULL OR starts_at IS NULL OR ends_at > starts_at)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_coupons_code ON coupons(upper(code));
+
+CREATE TABLE IF NOT EXISTS coupon_redemptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  coupon_id uuid NOT NULL REFERENCES coupons(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  order_id uuid NOT NULL UNIQUE REFERENCES orders(id) ON DELETE CASCADE,
+  discount_amount decimal(10,2) NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_coupon_id ON coupon_redemptions(coupon_id);
+CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_user_id ON coupon_redemptions(user_id);
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS coupon_code text;
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS discount_amount decimal(10,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE coupons ENABLE ROW LEVEL SECURITY;
+ALTER TABLE coupon_redemptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage coupons"
+  ON coupons FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Users can view own coupon redemptions"
+  ON coupon_redemptions FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all coupon redemptions"
+  ON coupon_redemptions FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE TRIGGER update_coupons_updated_at
+  BEFORE UPDATE ON coupons
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Cart lines the coupon applies to
+CREATE OR REPLACE FUNCTION coupon_cart_lines(p_user_id uuid, p_coupon_id uuid)
+RETURNS TABLE (
+  cart_item_id uuid,
+  unit_price decimal(10,2),
+  quantity integer,
+  line_total decimal(10,2)
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    ci.id,
+    p.price + COALESCE(v.price_adjustment, 0),
+    ci.quantity,
+    (p.price + COALESCE(v.price_adjustment, 0)) * ci.quantity
+  FROM coupons c
+  JOIN cart_items ci ON ci.user_id = p_user_id
+  JOIN products p ON p.id = ci.product_id
+  LEFT JOIN product_variants v ON v.id = ci.variant_id
+  WHERE c.id = p_coupon_id
+  AND (
+    (cardinality(c.category_ids) = 0 AND cardinality(c.subcategories) = 0)
+    OR p.category_id = ANY(c.category_ids)
+    OR p.subcategory = ANY(c.subcategories)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION evaluate_coupon(p_user_id uuid, p_code text)
+RETURNS TABLE (
+  coupon_id uuid,
+  coupon_code text,
+  coupon_description text,
+  is_valid boolean,
+  message text,
+  free_shipping boolean
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  c coupons;
+  cart_value decimal(10,2);
+  eligible_units integer;
+  used integer;
+BEGIN
+  SELECT * INTO c FROM coupons WHERE upper(coupons.code) = upper(trim(p_code));
+
+  IF NOT FOUND OR NOT c.is_active THEN
+    RETURN QUERY SELECT NULL::uuid, upper(trim(p_code)), NULL::text, false, 'This coupon code is not valid', false;
+    RETURN;
+  END IF;
+
+  IF c.starts_at IS NOT NULL AND c.starts_at > now() THEN
+    RETURN QUERY SELECT c.id, c.code, c.description, false, 'This coupon is not active yet', false;
+    RETURN;
+  END IF;
+
+  IF c.ends_at IS NOT NULL AND c.ends_at <= now() THEN
+    RETURN QUERY SELECT c.id, c.code, c.description, false, 'This coupon has expired', false;
+    RETURN;
+  END IF;
+
+  cart_value := cart_subtotal(p_user_id);
+  IF cart_value < c.min_cart_value THEN
+    RETURN QUERY SELECT c.id, c.code, c.description, false,
+      format('Add items worth ₹%s more to use this coupon', c.min_cart_value - cart_value), false;
+    RETURN;
+  END IF;
+
+  IF c.usage_limit IS NOT NULL THEN
+    SELECT COUNT(*) INTO used
+    FROM coupon_redemptions r
+    JOIN orders o ON o.id = r.order_id
+    WHERE r.coupon_id = c.id
+    AND o.status <> 'cancelled';
+
+    IF used >= c.usage_limit THEN
+      RETURN QUERY SELECT c.id, c.code, c.description, false, 'This coupon has reached its usage limit', false;
+      RETURN;
+    END IF;
+  END IF;
+
+  IF c.per_user_limit IS NOT NULL THEN
+    SELECT COUNT(*) INTO used
+    FROM coupon_redemptions r
+    JOIN orders o ON o.id = r.order_id
+    WHERE r.coupon_id = c.id
+    AND r.user_id = p_user_id
+    AND o.status <> 'cancelled';
+
+    IF used >= c.per_user_limit THEN
+      RETURN QUERY SELECT c.id, c.code, c.description, false, 'You have already used this coupon', false;
+      RETURN;
+    END IF;
+  END IF;
+
+  SELECT COALESCE(SUM(l.quantity), 0) INTO eligible_units
+  FROM coupon_cart_lines(p_user_id, c.id) l;
+
+  IF eligible_units = 0 THEN
+    RETURN QUERY SELECT c.id, c.code, c.description, false, 'This coupon does not apply to the items in your cart', false;
+    RETURN;
+  END IF;
+
+  IF c.type = 'bxgy' AND eligible_units < c.buy_quantity + c.get_quantity THEN
+    RETURN QUERY SELECT c.id, c.code, c.description, false,
+      format('Add %s more eligible items to use this offer', c.buy_quantity + c.get_quantity - eligible_units), false;
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT c.id, c.code, c.description, true, NULL::text, c.type = 'free_shipping';
+END;
+$$;
+
+-- Spreads the coupon's discount over the lines it applies to
+CREATE OR REPLACE FUNCTION cart_discount_lines(p_user_id uuid, p_coupon_id uuid)
+RETURNS TABLE (cart_item_id uuid, discount_amount decimal(10,2))
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  c coupons;
+  eligible_total decimal(10,2);
+  total_discount decimal(10,2);
+BEGIN
+  SELECT * INTO c FROM coupons WHERE id = p_coupon_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF c.type IN ('percentage', 'flat') THEN
+    SELECT SUM(l.line_total) INTO eligible_total
+    FROM coupon_cart_lines(p_user_id, c.id) l;
+
+    IF COALESCE(eligible_total, 0) = 0 THEN
+      RETURN;
+    END IF;
+
+    total_discount := CASE
+      WHEN c.type = 'percentage' THEN eligible_total * c.value / 100
+      ELSE c.value
+    END;
+    IF c.max_discount IS NOT NULL THEN
+      total_discount := LEAST(total_discount, c.max_discount);
+    END IF;
+    total_discount := LEAST(total_discount, eligible_total);
+
+    -- Split in proportion to each line's value. The dearest line takes the
+    -- rounding remainder so the lines add up to exactly total_discount.
+    RETURN QUERY
+    WITH shares AS (
+      SELECT
+        l.cart_item_id,
+        ROUND(l.line_total * total_discount / eligible_total, 2) AS share,
+        row_number() OVER (ORDER BY l.line_total DESC, l.cart_item_id) AS position
+      FROM coupon_cart_lines(p_user_id, c.id) l
+    )
+    SELECT
+      shares.cart_item_id,
+      CASE
+        WHEN shares.position = 1
+          THEN total_discount - (SUM(shares.share) OVER () - shares.share)
+        ELSE shares.share
+      END::decimal(10,2)
+    FROM shares;
+
+  ELSIF c.type = 'bxgy' THEN
+    -- One row per piece, dearest first; the cheapest pieces go free
+    RETURN QUERY
+    WITH pieces AS (
+      SELECT
+        l.cart_item_id,
+        l.unit_price,
+        row_number() OVER (ORDER BY l.unit_price DESC, l.cart_item_id) AS position,
+        COUNT(*) OVER () AS piece_count
+      FROM coupon_cart_lines(p_user_id, c.id) l
+      CROSS JOIN generate_series(1, l.quantity)
+    )
+    SELECT pieces.cart_item_id, SUM(pieces.unit_price)::decimal(10,2)
+    FROM pieces
+    WHERE pieces.position > pieces.piece_count
+      - (pieces.piece_count / (c.buy_quantity + c.get_quantity)) * c.get_quantity
+    GROUP BY pieces.cart_item_id;
+  END IF;
+END;
+$$;
+
+-- The quote and place_order take a coupon now
+DROP FUNCTION IF EXISTS checkout_quote(uuid, text, text, text);
+DROP FUNCTION IF EXISTS cart_tax_lines(uuid, text);
+DROP FUNCTION IF EXISTS place_order(uuid, text, jsonb, jsonb, text);
+
+-- Same as before, with GST on the value after discount
+CREATE OR REPLACE FUNCTION cart_tax_lines(
+  p_user_id uuid,
+  p_state text,
+  p_coupon_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  cart_item_id uuid,
+  unit_price decimal(10,2),
+  line_total decimal(10,2),
+  discount_amount decimal(10,2),
+  gst_rate decimal(5,2),
+  taxable_value decimal(10,2),
+  cgst_amount decimal(10,2),
+  sgst_amount decimal(10,2),
+  igst_amount decimal(10,2)
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH lines AS (
+    SELECT
+      ci.id AS cart_item_id,
+      ci.quantity,
+      p.price + COALESCE(v.price_adjustment, 0) AS unit_price,
+      (p.price + COALESCE(v.price_adjustment, 0)) * ci.quantity AS line_total,
+      COALESCE(d.discount_amount, 0) AS discount_amount
+    FROM cart_items ci
+    JOIN products p ON p.id = ci.product_id
+    LEFT JOIN product_variants v ON v.id = ci.variant_id
+    LEFT JOIN cart_discount_lines(p_user_id, p_coupon_id) d ON d.cart_item_id = ci.id
+    WHERE ci.user_id = p_user_id
+  ),
+  rated AS (
+    SELECT
+      lines.*,
+      lines.line_total - lines.discount_amount AS net_total,
+      gst_rate_for((lines.line_total - lines.discount_amount) / lines.quantity) AS gst_rate
+    FROM lines
+  ),
+  taxed AS (
+    SELECT
+      rated.*,
+      ROUND(rated.net_total - rated.net_total / (1 + rated.gst_rate / 100), 2) AS gst,
+      lower(trim(COALESCE(p_state, ''))) = lower(trim(s.store_state)) AS intra_state
+    FROM rated
+    CROSS JOIN tax_settings s
+    WHERE s.id
+  )
+  SELECT
+    taxed.cart_item_id,
+    taxed.unit_price,
+    taxed.line_total,
+    taxed.discount_amount,
+    taxed.gst_rate,
+    taxed.net_total - taxed.gst,
+    CASE WHEN taxed.intra_state THEN ROUND(taxed.gst / 2, 2) ELSE 0 END,
+    CASE WHEN taxed.intra_state THEN taxed.gst - ROUND(taxed.gst / 2, 2) ELSE 0 END,
+    CASE WHEN taxed.intra_state THEN 0 ELSE taxed.gst END
+  FROM taxed;
+$$;
+
+-- Same as before, plus the coupon. An invalid coupon is reported rather
+-- than raised so the checkout page can show why.
+CREATE OR REPLACE FUNCTION checkout_quote(
+  p_user_id uuid,
+  p_pin_code text,
+  p_state text,
+  p_payment_method text,
+  p_coupon_code text DEFAULT NULL
+)
+RETURNS TABLE (
+  subtotal decimal(10,2),
+  discount_amount decimal(10,2),
+  tax_amount decimal(10,2),
+  cgst_amount decimal(10,2),
+  sgst_amount decimal(10,2),
+  igst_amount decimal(10,2),
+  shipping_amount decimal(10,2),
+  total_amount decimal(10,2),
+  cod_eligible boolean,
+  cod_reason text,
+  cod_fee decimal(10,2),
+  coupon_id uuid,
+  coupon_code text,
+  coupon_valid boolean,
+  coupon_message text,
+  free_shipping boolean
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cart_value decimal(10,2);
+  discount decimal(10,2) := 0;
+  coupon record;
+  applied_coupon uuid;
+  cod record;
+  tax record;
+  charges decimal(10,2) := 0;
+BEGIN
+  cart_value := cart_subtotal(p_user_id);
+
+  SELECT
+    NULL::uuid AS coupon_id,
+    NULL::text AS coupon_code,
+    false AS is_valid,
+    NULL::text AS message,
+    false AS free_shipping
+  INTO coupon;
+
+  IF NULLIF(trim(p_coupon_code), '') IS NOT NULL THEN
+    SELECT * INTO coupon FROM evaluate_coupon(p_user_id, p_coupon_code);
+    IF coupon.is_valid THEN
+      applied_coupon := coupon.coupon_id;
+    END IF;
+
+    SELECT COALESCE(SUM(d.discount_amount), 0) INTO discount
+    FROM cart_discount_lines(p_user_id, applied_coupon) d;
+  END IF;
+
+  SELECT
+    COALESCE(SUM(t.cgst_amount + t.sgst_amount + t.igst_amount), 0) AS total,
+    COALESCE(SUM(t.cgst_amount), 0) AS cgst,
+    COALESCE(SUM(t.sgst_amount), 0) AS sgst,
+    COALESCE(SUM(t.igst_amount), 0) AS igst
+  INTO tax
+  FROM cart_tax_lines(p_user_id, p_state, applied_coupon) t;
+
+  SELECT * INTO cod FROM cod_eligibility(p_user_id, p_pin_code, cart_value - discount);
+
+  IF p_payment_method = 'cod' AND cod.eligible THEN
+    charges := charges + cod.fee;
+  END IF;
+
+  RETURN QUERY SELECT
+    cart_value,
+    discount,
+    tax.total,
+    tax.cgst,
+    tax.sgst,
+    tax.igst,
+    charges,
+    cart_value - discount + charges,
+    cod.eligible,
+    cod.reason,
+    cod.fee,
+    applied_coupon,
+    coupon.coupon_code,
+    coupon.is_valid,
+    coupon.message,
+    coupon.free_shipping;
+END;
+$$;
+
+-- Same as before, with the coupon discount and redemption
+CREATE OR REPLACE FUNCTION place_order(
+  p_user_id uuid,
+  p_payment_method text,
+  p_shipping_address jsonb,
+  p_billing_address jsonb DEFAULT NULL,
+  p_notes text DEFAULT NULL,
+  p_coupon_code text DEFAULT NULL
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_order orders;
+  quote record;
+BEGIN
+  -- Lock the cart so a concurrent add/remove can't change it mid-checkout
+  PERFORM 1 FROM cart_items WHERE user_id = p_user_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Your cart is empty' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM cart_items ci
+    JOIN products p ON p.id = ci.product_id
+    LEFT JOIN product_variants v ON v.id = ci.variant_id
+    WHERE ci.user_id = p_user_id
+    AND (
+      p.is_active IS NOT TRUE
+      OR (ci.variant_id IS NOT NULL AND v.is_active IS NOT TRUE)
+    )
+  ) THEN
+    RAISE EXCEPTION 'Some items in your cart are no longer available' USING ERRCODE = 'P0001';
+  END IF;
+
+  PERFORM 1
+  FROM product_variants v
+  WHERE v.id IN (SELECT ci.variant_id FROM cart_items ci WHERE ci.user_id = p_user_id)
+  ORDER BY v.id
+  FOR UPDATE;
+
+  -- P0002 tells the API to report cart_stock_issues line by line
+  IF EXISTS (SELECT 1 FROM cart_stock_issues(p_user_id)) THEN
+    RAISE EXCEPTION 'Some items in your cart are out of stock' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Serialise checkouts using the same coupon so usage limits hold
+  PERFORM 1 FROM coupons
+  WHERE upper(code) = upper(trim(p_coupon_code))
+  FOR UPDATE;
+
+  SELECT * INTO quote
+  FROM checkout_quote(
+    p_user_id,
+    p_shipping_address->>'postal_code',
+    p_shipping_address->>'state',
+    p_payment_method,
+    p_coupon_code
+  );
+
+  IF NULLIF(trim(p_coupon_code), '') IS NOT NULL AND NOT quote.coupon_valid THEN
+    RAISE EXCEPTION '%', quote.coupon_message USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_payment_method = 'cod' AND NOT quote.cod_eligible THEN
+    RAISE EXCEPTION '%', quote.cod_reason USING ERRCODE = 'P0001';
+  END IF;
+
+  -- order_number is filled in by set_order_number_trigger
+  INSERT INTO orders (
+    user_id,
+    subtotal,
+    discount_amount,
+    coupon_code,
+    tax_amount,
+    shipping_amount,
+    total_amount,
+    payment_method,
+    payment_status,
+    shipping_address,
+    billing_address,
+    notes
+  )
+  VALUES (
+    p_user_id,
+    quote.subtotal,
+    quote.discount_amount,
+    quote.coupon_code,
+    quote.tax_amount,
+    quote.shipping_amount,
+    quote.total_amount,
+    p_payment_method,
+    'pending',
+    p_shipping_address,
+    COALESCE(p_billing_address, p_shipping_address),
+    p_notes
+  )
+  RETURNING * INTO new_order;
+
+  INSERT INTO order_items (
+    order_id,
+    product_id,
+    variant_id,
+    quantity,
+    unit_price,
+    total_price,
+    discount_amount,
+    gst_rate,
+    taxable_value,
+    cgst_amount,
+    sgst_amount,
+    igst_amount,
+    product_snapshot
+  )
+  SELECT
+    new_order.id,
+    p.id,
+    v.id,
+    ci.quantity,
+    t.unit_price,
+    t.line_total,
+    t.discount_amount,
+    t.gst_rate,
+    t.taxable_value,
+    t.cgst_amount,
+    t.sgst_amount,
+    t.igst_amount,
+    jsonb_build_object(
+      'name', p.name,
+      'slug', p.slug,
+      'sku', COALESCE(v.sku, p.sku),
+      'size', v.size,
+      'color_name', v.color_name,
+      'color_code', v.color_code,
+      'image', (
+        SELECT pi.image_url
+        FROM product_images pi
+        WHERE pi.product_id = p.id
+        ORDER BY pi.is_primary DESC, pi.sort_order
+        LIMIT 1
+      )
+    )
+  FROM cart_items ci
+  JOIN products p ON p.id = ci.product_id
+  LEFT JOIN product_variants v ON v.id = ci.variant_id
+  JOIN cart_tax_lines(p_user_id, p_shipping_address->>'state', quote.coupon_id) t
+    ON t.cart_item_id = ci.id
+  WHERE ci.user_id = p_user_id;
+
+  UPDATE product_variants v
+  SET stock_quantity = v.stock_quantity - ci.quantity
+  FROM cart_items ci
+  WHERE ci.user_id = p_user_id
+  AND ci.variant_id = v.id;
+
+  UPDATE stock_reservations
+  SET status = 'committed', order_id = new_order.id
+  WHERE user_id = p_user_id
+  AND status = 'active';
+
+  IF quote.coupon_id IS NOT NULL THEN
+    INSERT INTO coupon_redemptions (coupon_id, user_id, order_id, discount_amount)
+    VALUES (quote.coupon_id, p_user_id, new_order.id, quote.discount_amount);
+  END IF;
+
+  DELETE FROM cart_items WHERE user_id = p_user_id;
+
+  RETURN new_order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION coupon_cart_lines(uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION evaluate_coupon(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION cart_discount_lines(uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION cart_tax_lines(uuid, text, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION checkout_quote(uuid, text, text, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION place_order(uuid, text, jsonb, jsonb, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION coupon_cart_lines(uuid, uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION evaluate_coupon(uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION cart_discount_lines(uuid, uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION cart_tax_lines(uuid, text, uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION checkout_quote(uuid, text, text, text, text) TO service_role;
+GRANT EXECUTE ON FUNCTION place_order(uuid, text, jsonb, jsonb, text, text) TO service_role;
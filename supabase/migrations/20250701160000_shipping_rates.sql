@@ -0,0 +1,634 @@
+/*
+  # Shipping Rates
+
+  1. New Tables
+    - `shipping_settings` (single row)
+      - `free_shipping_threshold` (decimal, nullable) - orders worth at least
+        this much (after discounts) ship free; null turns it off
+      - `slab_basis` (text) - 'weight' or 'items'; which slabs price an order
+      - `default_weight_grams` (integer) - used for products without a weight
+      - `dispatch_days` (integer) - days to pack an order before it ships
+    - `shipping_zones`
+      - `code` (text, primary key), `name`, `description`
+      - `pin_prefixes` (text[]) - PIN codes starting with one of these belong
+        to the zone; the longest match wins, so '560' (metro) beats '56'
+        (south). A zone with no prefixes catches every other PIN code.
+      - `min_days`, `max_days` (integer) - transit time once dispatched
+      - `sort_order`, `is_active`
+    - `shipping_rate_slabs`
+      - `zone_code`, `basis` ('weight' or 'items')
+      - `up_to` (integer, nullable) - grams or pieces; null is the open-ended
+        top slab
+      - `rate` (decimal)
+
+  2. Changes to existing tables
+    - `products.weight_grams` (integer, nullable) - packed weight
+
+  3. Functions
+    - `shipping_zone_for` - zone for a PIN code
+    - `shipping_quote` - fee and delivery time for a PIN, weight, piece count
+      and order value
+    - `product_shipping_quote` - the same for some pieces of one product
+    - `checkout_quote` - now charges shipping and returns the shipping quote
+    - `place_order` - rejects PIN codes we can't deliver to
+
+  4. Security
+    - Enable RLS; anyone can read shipping rates, admins change them
+*/
+
+CREATE TABLE IF NOT EXISTS shipping_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  free_shipping_threshold decimal(10,2) DEFAULT 999 CHECK (free_shipping_threshold >= 0),
+  slab_basis text NOT NULL DEFAULT 'weight' CHECK (slab_basis IN ('weight', 'items')),
+  default_weight_grams integer NOT NULL DEFAULT 300 CHECK (default_weight_grams > 0),
+  dispatch_days integer NOT NULL DEFAULT 1 CHECK (dispatch_days >= 0),
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO shipping_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS shipping_zones (
+  code text PRIMARY KEY,
+  name text NOT NULL,
+  description text,
+  pin_prefixes text[] NOT NULL DEFAULT '{}',
+  min_days integer NOT NULL CHECK (min_days >= 0),
+  max_days integer NOT NULL,
+  sort_order integer NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (max_days >= min_days)
+);
+
+CREATE TABLE IF NOT EXISTS shipping_rate_slabs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  zone_code text NOT NULL REFERENCES shipping_zones(code) ON UPDATE CASCADE ON DELETE CASCADE,
+  basis text NOT NULL CHECK (basis IN ('weight', 'items')),
+  up_to integer CHECK (up_to > 0),
+  rate decimal(10,2) NOT NULL CHECK (rate >= 0),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE NULLS NOT DISTINCT (zone_code, basis, up_to)
+);
+
+CREATE INDEX IF NOT EXISTS idx_shipping_rate_slabs_zone ON shipping_rate_slabs(zone_code, basis);
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS weight_grams integer CHECK (weight_grams > 0);
+
+INSERT INTO shipping_zones (code, name, description, pin_prefixes, min_days, max_days, sort_order) VALUES
+  ('local', 'Tamil Nadu', 'Chennai, Coimbatore, Madurai and the rest of Tamil Nadu',
+    ARRAY['60', '61', '62', '63', '640', '641', '642', '643'], 1, 2, 1),
+  ('metro', 'Metro Cities', 'Delhi, Mumbai, Kolkata, Bengaluru, Hyderabad, Pune and Ahmedabad',
+    ARRAY['110', '400', '700', '560', '500', '411', '380'], 2, 4, 2),
+  ('south', 'Rest of South India', 'Kerala, Karnataka, Andhra Pradesh and Telangana',
+    ARRAY['50', '51', '52', '53', '56', '57', '58', '59', '67', '68', '69'], 2, 4, 3),
+  ('rest', 'Rest of India', 'All other serviceable PIN codes', '{}', 4, 7, 4)
+ON CONFLICT (code) DO NOTHING;
+
+INSERT INTO shipping_rate_slabs (zone_code, basis, up_to, rate) VALUES
+  ('local', 'weight', 500, 40), ('local', 'weight', 1000, 60), ('local', 'weight', 2000, 90), ('local', 'weight', NULL, 130),
+  ('metro', 'weight', 500, 60), ('metro', 'weight', 1000, 90), ('metro', 'weight', 2000, 130), ('metro', 'weight', NULL, 180),
+  ('south', 'weight', 500, 50), ('south', 'weight', 1000, 80), ('south', 'weight', 2000, 110), ('south', 'weight', NULL, 160),
+  ('rest', 'weight', 500, 80), ('rest', 'weight', 1000, 110), ('rest', 'weight', 2000, 150), ('rest', 'weight', NULL, 220),
+  ('local', 'items', 2, 40), ('local', 'items', 5, 60), ('local', 'items', NULL, 90),
+  ('metro', 'items', 2, 60), ('metro', 'items', 5, 90), ('metro', 'items', NULL, 130),
+  ('south', 'items', 2, 50), ('south', 'items', 5, 80), ('south', 'items', NULL, 110),
+  ('rest', 'items', 2, 80), ('rest', 'items', 5, 110), ('rest', 'items', NULL, 160)
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE shipping_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE shipping_zones ENABLE ROW LEVEL SECURITY;
+ALTER TABLE shipping_rate_slabs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view shipping settings"
+  ON shipping_settings FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Admins can update shipping settings"
+  ON shipping_settings FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Anyone can view shipping zones"
+  ON shipping_zones FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage shipping zones"
+  ON shipping_zones FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Anyone can view shipping rate slabs"
+  ON shipping_rate_slabs FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage shipping rate slabs"
+  ON shipping_rate_slabs FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE TRIGGER update_shipping_settings_updated_at
+  BEFORE UPDATE ON shipping_settings
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_shipping_zones_updated_at
+  BEFORE UPDATE ON shipping_zones
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION shipping_zone_for(p_pin_code text)
+RETURNS shipping_zones
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT z.*
+  FROM shipping_zones z
+  LEFT JOIN LATERAL (
+    SELECT MAX(length(prefix)) AS matched
+    FROM unnest(z.pin_prefixes) prefix
+    WHERE p_pin_code LIKE prefix || '%'
+  ) m ON true
+  WHERE z.is_active
+  AND (m.matched IS NOT NULL OR cardinality(z.pin_prefixes) = 0)
+  ORDER BY m.matched DESC NULLS LAST, z.sort_order
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION shipping_quote(
+  p_pin_code text,
+  p_weight_grams integer,
+  p_item_count integer,
+  p_order_value decimal
+)
+RETURNS TABLE (
+  serviceable boolean,
+  message text,
+  zone_code text,
+  zone_name text,
+  fee decimal(10,2),
+  free_shipping boolean,
+  free_shipping_threshold decimal(10,2),
+  amount_to_free_shipping decimal(10,2),
+  min_days integer,
+  max_days integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  settings shipping_settings;
+  zone shipping_zones;
+  units integer;
+  rate decimal(10,2);
+  is_free boolean;
+  to_free decimal(10,2);
+BEGIN
+  SELECT * INTO settings FROM shipping_settings WHERE id;
+
+  is_free := settings.free_shipping_threshold IS NOT NULL
+    AND p_order_value >= settings.free_shipping_threshold;
+  -- GREATEST skips nulls, so with free shipping off this stays null
+  -- rather than becoming 0
+  to_free := CASE WHEN settings.free_shipping_threshold IS NOT NULL
+    THEN GREATEST(settings.free_shipping_threshold - p_order_value, 0)
+  END;
+
+  IF p_pin_code IS NULL OR p_pin_code !~ '^[1-9][0-9]{5}$' THEN
+    RETURN QUERY SELECT
+      false,
+      'Enter a valid 6-digit PIN code',
+      NULL::text,
+      NULL::text,
+      0::decimal(10,2),
+      is_free,
+      settings.free_shipping_threshold,
+      to_free,
+      NULL::integer,
+      NULL::integer;
+    RETURN;
+  END IF;
+
+  zone := shipping_zone_for(p_pin_code);
+
+  IF zone.code IS NULL THEN
+    RETURN QUERY SELECT
+      false,
+      format('We don''t deliver to PIN code %s yet', p_pin_code),
+      NULL::text,
+      NULL::text,
+      0::decimal(10,2),
+      is_free,
+      settings.free_shipping_threshold,
+      to_free,
+      NULL::integer,
+      NULL::integer;
+    RETURN;
+  END IF;
+
+  units := CASE settings.slab_basis
+    WHEN 'weight' THEN p_weight_grams
+    ELSE p_item_count
+  END;
+
+  -- The smallest slab that fits; past the last one, the dearest slab applies
+  SELECT s.rate INTO rate
+  FROM shipping_rate_slabs s
+  WHERE s.zone_code = zone.code
+  AND s.basis = settings.slab_basis
+  AND (s.up_to IS NULL OR s.up_to >= units)
+  ORDER BY s.up_to NULLS LAST
+  LIMIT 1;
+
+  IF rate IS NULL THEN
+    SELECT COALESCE(MAX(s.rate), 0) INTO rate
+    FROM shipping_rate_slabs s
+    WHERE s.zone_code = zone.code
+    AND s.basis = settings.slab_basis;
+  END IF;
+
+  RETURN QUERY SELECT
+    true,
+    NULL::text,
+    zone.code,
+    zone.name,
+    CASE WHEN is_free THEN 0 ELSE rate END::decimal(10,2),
+    is_free,
+    settings.free_shipping_threshold,
+    to_free,
+    settings.dispatch_days + zone.min_days,
+    settings.dispatch_days + zone.max_days;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION product_shipping_quote(
+  p_pin_code text,
+  p_product_id uuid,
+  p_variant_id uuid,
+  p_quantity integer
+)
+RETURNS TABLE (
+  serviceable boolean,
+  message text,
+  zone_code text,
+  zone_name text,
+  fee decimal(10,2),
+  free_shipping boolean,
+  free_shipping_threshold decimal(10,2),
+  amount_to_free_shipping decimal(10,2),
+  min_days integer,
+  max_days integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT q.*
+  FROM products p
+  LEFT JOIN product_variants v ON v.id = p_variant_id AND v.product_id = p.id
+  CROSS JOIN shipping_settings s
+  CROSS JOIN LATERAL shipping_quote(
+    p_pin_code,
+    COALESCE(p.weight_grams, s.default_weight_grams) * p_quantity,
+    p_quantity,
+    (p.price + COALESCE(v.price_adjustment, 0)) * p_quantity
+  ) q
+  WHERE p.id = p_product_id
+  AND p.is_active
+  AND s.id;
+$$;
+
+CREATE OR REPLACE FUNCTION cart_shipping_weight(p_user_id uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(COALESCE(p.weight_grams, s.default_weight_grams) * ci.quantity), 0)::integer
+  FROM cart_items ci
+  JOIN products p ON p.id = ci.product_id
+  CROSS JOIN shipping_settings s
+  WHERE ci.user_id = p_user_id
+  AND s.id;
+$$;
+
+-- The result gains a `shipping` column, so the old function has to go
+DROP FUNCTION IF EXISTS checkout_quote(uuid, text, text, text, text);
+
+CREATE OR REPLACE FUNCTION checkout_quote(
+  p_user_id uuid,
+  p_pin_code text,
+  p_state text,
+  p_payment_method text,
+  p_coupon_code text DEFAULT NULL
+)
+RETURNS TABLE (
+  subtotal decimal(10,2),
+  discount_amount decimal(10,2),
+  tax_amount decimal(10,2),
+  cgst_amount decimal(10,2),
+  sgst_amount decimal(10,2),
+  igst_amount decimal(10,2),
+  shipping_amount decimal(10,2),
+  total_amount decimal(10,2),
+  cod_eligible boolean,
+  cod_reason text,
+  cod_fee decimal(10,2),
+  coupon_id uuid,
+  coupon_code text,
+  coupon_valid boolean,
+  coupon_message text,
+  free_shipping boolean,
+  shipping jsonb
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cart_value decimal(10,2);
+  item_count integer;
+  discount decimal(10,2) := 0;
+  coupon record;
+  applied_coupon uuid;
+  cod record;
+  tax record;
+  ship record;
+  charges decimal(10,2) := 0;
+BEGIN
+  cart_value := cart_subtotal(p_user_id);
+
+  SELECT COALESCE(SUM(quantity), 0) INTO item_count
+  FROM cart_items
+  WHERE user_id = p_user_id;
+
+  SELECT
+    NULL::uuid AS coupon_id,
+    NULL::text AS coupon_code,
+    false AS is_valid,
+    NULL::text AS message,
+    false AS free_shipping
+  INTO coupon;
+
+  IF NULLIF(trim(p_coupon_code), '') IS NOT NULL THEN
+    SELECT * INTO coupon FROM evaluate_coupon(p_user_id, p_coupon_code);
+    IF coupon.is_valid THEN
+      applied_coupon := coupon.coupon_id;
+    END IF;
+
+    SELECT COALESCE(SUM(d.discount_amount), 0) INTO discount
+    FROM cart_discount_lines(p_user_id, applied_coupon) d;
+  END IF;
+
+  SELECT
+    COALESCE(SUM(t.cgst_amount + t.sgst_amount + t.igst_amount), 0) AS total,
+    COALESCE(SUM(t.cgst_amount), 0) AS cgst,
+    COALESCE(SUM(t.sgst_amount), 0) AS sgst,
+    COALESCE(SUM(t.igst_amount), 0) AS igst
+  INTO tax
+  FROM cart_tax_lines(p_user_id, p_state, applied_coupon) t;
+
+  SELECT * INTO ship
+  FROM shipping_quote(
+    p_pin_code,
+    cart_shipping_weight(p_user_id),
+    item_count,
+    cart_value - discount
+  );
+
+  IF applied_coupon IS NOT NULL AND coupon.free_shipping THEN
+    ship.fee := 0;
+    ship.free_shipping := true;
+  END IF;
+
+  charges := charges + ship.fee;
+
+  SELECT * INTO cod FROM cod_eligibility(p_user_id, p_pin_code, cart_value - discount);
+
+  IF p_payment_method = 'cod' AND cod.eligible THEN
+    charges := charges + cod.fee;
+  END IF;
+
+  RETURN QUERY SELECT
+    cart_value,
+    discount,
+    tax.total,
+    tax.cgst,
+    tax.sgst,
+    tax.igst,
+    charges,
+    cart_value - discount + charges,
+    cod.eligible,
+    cod.reason,
+    cod.fee,
+    applied_coupon,
+    coupon.coupon_code,
+    coupon.is_valid,
+    coupon.message,
+    coupon.free_shipping,
+    to_jsonb(ship);
+END;
+$$;
+
+-- Same as before, but refuses PIN codes outside every shipping zone
+CREATE OR REPLACE FUNCTION place_order(
+  p_user_id uuid,
+  p_payment_method text,
+  p_shipping_address jsonb,
+  p_billing_address jsonb DEFAULT NULL,
+  p_notes text DEFAULT NULL,
+  p_coupon_code text DEFAULT NULL
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_order orders;
+  quote record;
+BEGIN
+  -- Lock the cart so a concurrent add/remove can't change it mid-checkout
+  PERFORM 1 FROM cart_items WHERE user_id = p_user_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Your cart is empty' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM cart_items ci
+    JOIN products p ON p.id = ci.product_id
+    LEFT JOIN product_variants v ON v.id = ci.variant_id
+    WHERE ci.user_id = p_user_id
+    AND (
+      p.is_active IS NOT TRUE
+      OR (ci.variant_id IS NOT NULL AND v.is_active IS NOT TRUE)
+    )
+  ) THEN
+    RAISE EXCEPTION 'Some items in your cart are no longer available' USING ERRCODE = 'P0001';
+  END IF;
+
+  PERFORM 1
+  FROM product_variants v
+  WHERE v.id IN (SELECT ci.variant_id FROM cart_items ci WHERE ci.user_id = p_user_id)
+  ORDER BY v.id
+  FOR UPDATE;
+
+  -- P0002 tells the API to report cart_stock_issues line by line
+  IF EXISTS (SELECT 1 FROM cart_stock_issues(p_user_id)) THEN
+    RAISE EXCEPTION 'Some items in your cart are out of stock' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Serialise checkouts using the same coupon so usage limits hold
+  PERFORM 1 FROM coupons
+  WHERE upper(code) = upper(trim(p_coupon_code))
+  FOR UPDATE;
+
+  SELECT * INTO quote
+  FROM checkout_quote(
+    p_user_id,
+    p_shipping_address->>'postal_code',
+    p_shipping_address->>'state',
+    p_payment_method,
+    p_coupon_code
+  );
+
+  IF NULLIF(trim(p_coupon_code), '') IS NOT NULL AND NOT quote.coupon_valid THEN
+    RAISE EXCEPTION '%', quote.coupon_message USING ERRCODE = 'P0001';
+  END IF;
+
+  IF NOT (quote.shipping->>'serviceable')::boolean THEN
+    RAISE EXCEPTION '%', quote.shipping->>'message' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_payment_method = 'cod' AND NOT quote.cod_eligible THEN
+    RAISE EXCEPTION '%', quote.cod_reason USING ERRCODE = 'P0001';
+  END IF;
+
+  -- order_number is filled in by set_order_number_trigger
+  INSERT INTO orders (
+    user_id,
+    subtotal,
+    discount_amount,
+    coupon_code,
+    tax_amount,
+    shipping_amount,
+    total_amount,
+    payment_method,
+    payment_status,
+    shipping_address,
+    billing_address,
+    notes
+  )
+  VALUES (
+    p_user_id,
+    quote.subtotal,
+    quote.discount_amount,
+    quote.coupon_code,
+    quote.tax_amount,
+    quote.shipping_amount,
+    quote.total_amount,
+    p_payment_method,
+    'pending',
+    p_shipping_address,
+    COALESCE(p_billing_address, p_shipping_address),
+    p_notes
+  )
+  RETURNING * INTO new_order;
+
+  INSERT INTO order_items (
+    order_id,
+    product_id,
+    variant_id,
+    quantity,
+    unit_price,
+    total_price,
+    discount_amount,
+    gst_rate,
+    taxable_value,
+    cgst_amount,
+    sgst_amount,
+    igst_amount,
+    product_snapshot
+  )
+  SELECT
+    new_order.id,
+    p.id,
+    v.id,
+    ci.quantity,
+    t.unit_price,
+    t.line_total,
+    t.discount_amount,
+    t.gst_rate,
+    t.taxable_value,
+    t.cgst_amount,
+    t.sgst_amount,
+    t.igst_amount,
+    jsonb_build_object(
+      'name', p.name,
+      'slug', p.slug,
+      'sku', COALESCE(v.sku, p.sku),
+      'size', v.size,
+      'color_name', v.color_name,
+      'color_code', v.color_code,
+      'image', (
+        SELECT pi.image_url
+        FROM product_images pi
+        WHERE pi.product_id = p.id
+        ORDER BY pi.is_primary DESC, pi.sort_order
+        LIMIT 1
+      )
+    )
+  FROM cart_items ci
+  JOIN products p ON p.id = ci.product_id
+  LEFT JOIN product_variants v ON v.id = ci.variant_id
+  JOIN cart_tax_lines(p_user_id, p_shipping_address->>'state', quote.coupon_id) t
+    ON t.cart_item_id = ci.id
+  WHERE ci.user_id = p_user_id;
+
+  UPDATE product_variants v
+  SET stock_quantity = v.stock_quantity - ci.quantity
+  FROM cart_items ci
+  WHERE ci.user_id = p_user_id
+  AND ci.variant_id = v.id;
+
+  UPDATE stock_reservations
+  SET status = 'committed', order_id = new_order.id
+  WHERE user_id = p_user_id
+  AND status = 'active';
+
+  IF quote.coupon_id IS NOT NULL THEN
+    INSERT INTO coupon_redemptions (coupon_id, user_id, order_id, discount_amount)
+    VALUES (quote.coupon_id, p_user_id, new_order.id, quote.discount_amount);
+  END IF;
+
+  DELETE FROM cart_items WHERE user_id = p_user_id;
+
+  RETURN new_order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION shipping_zone_for(text) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION shipping_quote(text, integer, integer, decimal) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION product_shipping_quote(text, uuid, uuid, integer) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION cart_shipping_weight(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION checkout_quote(uuid, text, text, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION place_order(uuid, text, jsonb, jsonb, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION shipping_zone_for(text) TO service_role;
+GRANT EXECUTE ON FUNCTION shipping_quote(text, integer, integer, decimal) TO service_role;
+GRANT EXECUTE ON FUNCTION product_shipping_quote(text, uuid, uuid, integer) TO service_role;
+GRANT EXECUTE ON FUNCTION cart_shipping_weight(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION checkout_quote(uuid, text, text, text, text) TO service_role;
+GRANT EXECUTE ON FUNCTION place_order(uuid, text, jsonb, jsonb, text, text) TO service_role;
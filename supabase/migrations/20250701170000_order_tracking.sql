@@ -0,0 +1,184 @@
+/*
+  # Order Tracking
+
+  1. New Tables
+    - `order_status_history`
+      - `order_id` (uuid), `status` (text), `changed_by` (uuid, nullable -
+        null when the system made the change), `note` (text), `created_at`
+      - Written by a trigger whenever `orders.status` is set or changes
+    - `rate_limit_hits`
+      - One row per request in a rate-limited bucket such as
+        'track-order:<ip>'; old rows are pruned as new ones arrive
+
+  2. Changes to `orders`
+    - `carrier` (text) - courier handling the shipment
+    - `awb_number` (text) - the courier's air waybill / tracking number
+
+  3. Functions
+    - `log_order_status_change` - trigger behind `order_status_history`
+    - `find_order_for_tracking` - an order by number, only if the email
+      matches the one on the order or the customer's account
+    - `hit_rate_limit` - counts a request against a bucket and says whether
+      it is allowed
+
+  4. Security
+    - Enable RLS; customers see the history of their own orders, admins see
+      all of it. `rate_limit_hits` is only reachable through the service role.
+*/
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS carrier text;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS awb_number text;
+
+CREATE TABLE IF NOT EXISTS order_status_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  status text NOT NULL,
+  changed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  note text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_status_history_order
+  ON order_status_history(order_id, created_at);
+
+ALTER TABLE order_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own order status history"
+  ON order_status_history FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_status_history.order_id
+      AND orders.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all order status history"
+  ON order_status_history FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE OR REPLACE FUNCTION log_order_status_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO order_status_history (order_id, status, changed_by)
+    VALUES (NEW.id, NEW.status, auth.uid());
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_order_status_change ON orders;
+CREATE TRIGGER log_order_status_change
+  AFTER INSERT OR UPDATE OF status ON orders
+  FOR EACH ROW EXECUTE FUNCTION log_order_status_change();
+
+-- Existing orders: when they were placed, and when they last changed
+INSERT INTO order_status_history (order_id, status, created_at)
+SELECT o.id, 'pending', o.created_at
+FROM orders o
+WHERE o.status <> 'pending'
+AND NOT EXISTS (SELECT 1 FROM order_status_history h WHERE h.order_id = o.id);
+
+INSERT INTO order_status_history (order_id, status, created_at)
+SELECT o.id, o.status, COALESCE(o.updated_at, o.created_at)
+FROM orders o
+WHERE NOT EXISTS (
+  SELECT 1 FROM order_status_history h
+  WHERE h.order_id = o.id
+  AND h.status = o.status
+);
+
+CREATE OR REPLACE FUNCTION find_order_for_tracking(
+  p_order_number text,
+  p_email text
+)
+RETURNS TABLE (
+  order_id uuid,
+  order_number text,
+  status text,
+  created_at timestamptz,
+  carrier text,
+  awb_number text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT o.id, o.order_number, o.status, o.created_at, o.carrier, o.awb_number
+  FROM orders o
+  LEFT JOIN auth.users u ON u.id = o.user_id
+  WHERE upper(o.order_number) = upper(trim(p_order_number))
+  AND lower(trim(p_email)) IN (
+    lower(o.shipping_address->>'email'),
+    lower(u.email)
+  );
+$$;
+
+CREATE TABLE IF NOT EXISTS rate_limit_hits (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  bucket text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_hits_bucket
+  ON rate_limit_hits(bucket, created_at);
+
+ALTER TABLE rate_limit_hits ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION hit_rate_limit(
+  p_bucket text,
+  p_limit integer,
+  p_window_seconds integer
+)
+RETURNS TABLE (allowed boolean, retry_after_seconds integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  window_start timestamptz := now() - make_interval(secs => p_window_seconds);
+  hits integer;
+  oldest timestamptz;
+BEGIN
+  -- Serialise requests in the same bucket so a burst can't slip past the count
+  PERFORM pg_advisory_xact_lock(hashtext('rate_limit:' || p_bucket));
+
+  DELETE FROM rate_limit_hits
+  WHERE bucket = p_bucket
+  AND created_at < window_start;
+
+  -- Buckets that go quiet are never revisited, so sweep them now and then
+  IF random() < 0.01 THEN
+    DELETE FROM rate_limit_hits WHERE created_at < now() - interval '1 day';
+  END IF;
+
+  SELECT COUNT(*), MIN(h.created_at) INTO hits, oldest
+  FROM rate_limit_hits h
+  WHERE h.bucket = p_bucket;
+
+  IF hits >= p_limit THEN
+    RETURN QUERY SELECT
+      false,
+      GREATEST(CEIL(EXTRACT(EPOCH FROM oldest + make_interval(secs => p_window_seconds) - now())), 1)::integer;
+    RETURN;
+  END IF;
+
+  INSERT INTO rate_limit_hits (bucket) VALUES (p_bucket);
+
+  RETURN QUERY SELECT true, 0;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION find_order_for_tracking(text, text) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION hit_rate_limit(text, integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION find_order_for_tracking(text, text) TO service_role;
+GRANT EXECUTE ON FUNCTION hit_rate_limit(text, integer, integer) TO service_role;
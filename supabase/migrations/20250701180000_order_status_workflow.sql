@@ -0,0 +1,174 @@
+/*
+  # Order Status Workflow
+
+  1. Status transitions
+    - `orders.status` may only move along
+        pending → confirmed → processing → shipped → delivered
+      with these branches:
+        pending, confirmed, processing → cancelled
+        shipped → cancelled (refused at the door or returned to origin)
+        delivered, cancelled → refunded (only once the order was paid)
+    - Enforced by a trigger, so direct updates under the admin RLS policy
+      follow the same rules as `change_order_status`
+
+  2. Functions
+    - `enforce_order_status_transition` - the trigger above
+    - `log_order_status_change` - now records the admin and note passed in
+      by `change_order_status`, falling back to `auth.uid()`
+    - `change_order_status` - moves an order to a new status on behalf of an
+      admin:
+      - shipping needs a carrier and AWB number
+      - cancelling puts the stock back; a shipped COD order can be flagged
+        as refused (`orders.cod_refused`)
+      - delivering a COD order marks it paid
+      - refunding marks the payment refunded
+
+  3. Security
+    - `change_order_status` is only reachable through the service role
+*/
+
+CREATE OR REPLACE FUNCTION enforce_order_status_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  allowed text[];
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  allowed := CASE OLD.status
+    WHEN 'pending' THEN ARRAY['confirmed', 'cancelled']
+    WHEN 'confirmed' THEN ARRAY['processing', 'cancelled']
+    WHEN 'processing' THEN ARRAY['shipped', 'cancelled']
+    WHEN 'shipped' THEN ARRAY['delivered', 'cancelled']
+    WHEN 'delivered' THEN ARRAY['refunded']
+    WHEN 'cancelled' THEN ARRAY['refunded']
+    ELSE ARRAY[]::text[]
+  END;
+
+  IF NOT NEW.status = ANY(allowed) THEN
+    RAISE EXCEPTION 'An order can''t move from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  IF NEW.status = 'refunded' AND OLD.payment_status <> 'paid' THEN
+    RAISE EXCEPTION 'Only paid orders can be refunded' USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_order_status_transition ON orders;
+CREATE TRIGGER enforce_order_status_transition
+  BEFORE UPDATE OF status ON orders
+  FOR EACH ROW EXECUTE FUNCTION enforce_order_status_transition();
+
+-- change_order_status runs as the service role, where auth.uid() is null, so
+-- it hands the admin and note over in transaction-local settings
+CREATE OR REPLACE FUNCTION log_order_status_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO order_status_history (order_id, status, changed_by, note)
+    VALUES (
+      NEW.id,
+      NEW.status,
+      COALESCE(
+        NULLIF(current_setting('app.order_status_actor', true), '')::uuid,
+        auth.uid()
+      ),
+      NULLIF(current_setting('app.order_status_note', true), '')
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION change_order_status(
+  p_order_id uuid,
+  p_status text,
+  p_admin_id uuid,
+  p_note text DEFAULT NULL,
+  p_carrier text DEFAULT NULL,
+  p_awb_number text DEFAULT NULL,
+  p_cod_refused boolean DEFAULT false
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_order orders;
+BEGIN
+  SELECT * INTO target_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF target_order.status = p_status THEN
+    RAISE EXCEPTION 'The order is already %', p_status USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_status = 'shipped' AND (
+    COALESCE(NULLIF(trim(p_carrier), ''), target_order.carrier) IS NULL
+    OR COALESCE(NULLIF(trim(p_awb_number), ''), target_order.awb_number) IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Enter the carrier and AWB number to mark the order shipped'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  PERFORM set_config('app.order_status_actor', p_admin_id::text, true);
+  PERFORM set_config('app.order_status_note', COALESCE(trim(p_note), ''), true);
+
+  UPDATE orders
+  SET
+    status = p_status,
+    carrier = COALESCE(NULLIF(trim(p_carrier), ''), carrier),
+    awb_number = COALESCE(NULLIF(trim(p_awb_number), ''), awb_number),
+    cod_refused = cod_refused OR (
+      p_cod_refused
+      AND p_status = 'cancelled'
+      AND target_order.status = 'shipped'
+      AND target_order.payment_method = 'cod'
+    ),
+    payment_status = CASE
+      WHEN p_status = 'delivered' AND payment_method = 'cod' THEN 'paid'
+      WHEN p_status = 'refunded' THEN 'refunded'
+      ELSE payment_status
+    END,
+    paid_at = CASE
+      WHEN p_status = 'delivered' AND payment_method = 'cod' THEN now()
+      ELSE paid_at
+    END
+  WHERE id = p_order_id
+  RETURNING * INTO target_order;
+
+  -- Nothing was delivered, so the stock comes back
+  IF p_status = 'cancelled' THEN
+    UPDATE product_variants v
+    SET stock_quantity = v.stock_quantity + oi.quantity
+    FROM order_items oi
+    WHERE oi.order_id = p_order_id
+    AND oi.variant_id = v.id;
+  END IF;
+
+  PERFORM set_config('app.order_status_actor', '', true);
+  PERFORM set_config('app.order_status_note', '', true);
+
+  RETURN target_order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION change_order_status(uuid, text, uuid, text, text, text, boolean) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION change_order_status(uuid, text, uuid, text, text, text, boolean) TO service_role;
@@ -0,0 +1,183 @@
+/*
+  # Category Hierarchy
+
+  1. Changes to `categories`
+    - `parent_id` (uuid, nullable) - the top-level category a subcategory
+      belongs to. Only two levels: a parent can't itself have a parent.
+    - `default_sizes` (text[]) - sizes the product editor starts with for
+      products in this category; a subcategory's own list wins over its
+      parent's
+    - `updated_at`
+    - Names are unique among siblings instead of globally, so "Shimmer" can
+      sit under both Leggings and Sarees & Shapewear
+
+  2. Changes to `products`
+    - `subcategory_id` (uuid, nullable) - a child of `category_id`
+    - `subcategory` is kept as the subcategory's name so existing pages and
+      coupon rules that match on it keep working
+
+  3. Data
+    - Subcategories and default sizes for the existing categories, taken
+      from the lists the product editor used to hard-code
+    - Products linked to the subcategory matching their `subcategory` text
+
+  4. Security
+    - Covered by the existing category policies
+*/
+
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS parent_id uuid REFERENCES categories(id) ON DELETE RESTRICT;
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS default_sizes text[] NOT NULL DEFAULT '{}';
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now();
+
+ALTER TABLE categories DROP CONSTRAINT IF EXISTS categories_name_key;
+CREATE UNIQUE INDEX IF NOT EXISTS categories_parent_name_key
+  ON categories (parent_id, lower(name)) NULLS NOT DISTINCT;
+
+CREATE INDEX IF NOT EXISTS idx_categories_parent_id ON categories(parent_id, sort_order);
+
+DROP TRIGGER IF EXISTS update_categories_updated_at ON categories;
+CREATE TRIGGER update_categories_updated_at
+  BEFORE UPDATE ON categories
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION check_category_parent()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.parent_id = NEW.id THEN
+    RAISE EXCEPTION 'A category can''t be its own parent' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM categories WHERE id = NEW.parent_id AND parent_id IS NOT NULL) THEN
+    RAISE EXCEPTION 'Subcategories can''t have subcategories of their own' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM categories WHERE parent_id = NEW.id) THEN
+    RAISE EXCEPTION 'Move this category''s subcategories before nesting it' USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_category_parent ON categories;
+CREATE TRIGGER check_category_parent
+  BEFORE INSERT OR UPDATE OF parent_id ON categories
+  FOR EACH ROW EXECUTE FUNCTION check_category_parent();
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS subcategory_id uuid REFERENCES categories(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_products_subcategory_id ON products(subcategory_id);
+
+-- Keeps products.subcategory in step with the linked subcategory's name
+CREATE OR REPLACE FUNCTION sync_product_subcategory()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  sub categories;
+BEGIN
+  IF NEW.subcategory_id IS NULL THEN
+    IF TG_OP = 'UPDATE' AND OLD.subcategory_id IS NOT NULL THEN
+      NEW.subcategory := NULL;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO sub FROM categories WHERE id = NEW.subcategory_id;
+
+  IF sub.parent_id IS DISTINCT FROM NEW.category_id THEN
+    RAISE EXCEPTION 'The subcategory doesn''t belong to the product''s category'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  NEW.subcategory := sub.name;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_product_subcategory ON products;
+CREATE TRIGGER sync_product_subcategory
+  BEFORE INSERT OR UPDATE OF subcategory_id, category_id ON products
+  FOR EACH ROW EXECUTE FUNCTION sync_product_subcategory();
+
+CREATE OR REPLACE FUNCTION rename_product_subcategory()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE products SET subcategory = NEW.name WHERE subcategory_id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS rename_product_subcategory ON categories;
+CREATE TRIGGER rename_product_subcategory
+  AFTER UPDATE OF name ON categories
+  FOR EACH ROW
+  WHEN (NEW.name IS DISTINCT FROM OLD.name)
+  EXECUTE FUNCTION rename_product_subcategory();
+
+-- Default sizes
+UPDATE categories SET default_sizes = ARRAY['S', 'M', 'L', 'XL', 'XXL']
+WHERE slug IN ('mens-t-shirts', 'womens-sarees-shapewear', 'womens-night-wear', 'womens-innerwear')
+AND default_sizes = '{}';
+
+UPDATE categories SET default_sizes = ARRAY['M', 'L', 'XL', 'XXL']
+WHERE slug = 'mens-bottomwear'
+AND default_sizes = '{}';
+
+UPDATE categories SET default_sizes = ARRAY['S', 'M', 'L', 'XL', 'XXL', '3XL', '4XL', '5XL']
+WHERE slug = 'womens-leggings'
+AND default_sizes = '{}';
+
+-- Subcategories
+INSERT INTO categories (name, slug, parent_id, is_active, sort_order)
+SELECT
+  sub.name,
+  parent.slug || '-' || trim(BOTH '-' FROM regexp_replace(lower(sub.name), '[^a-z0-9]+', '-', 'g')),
+  parent.id,
+  true,
+  sub.position
+FROM (
+  VALUES
+    ('mens-t-shirts', 'Round Neck', 1),
+    ('mens-t-shirts', 'V-Neck', 2),
+    ('mens-t-shirts', 'Polo (Collar)', 3),
+    ('mens-t-shirts', 'Long Sleeve', 4),
+    ('mens-t-shirts', 'Sleeveless', 5),
+    ('mens-t-shirts', 'Full Hand', 6),
+    ('mens-bottomwear', 'Track Pants', 1),
+    ('mens-bottomwear', 'Shorts', 2),
+    ('womens-leggings', 'Flat Ankle', 1),
+    ('womens-leggings', 'Full Length', 2),
+    ('womens-leggings', 'Churidhar Ankle', 3),
+    ('womens-leggings', 'Churidhar Full Length', 4),
+    ('womens-leggings', 'Shimmer', 5),
+    ('womens-leggings', '3/4 Length', 6),
+    ('womens-sarees-shapewear', 'Lycra Cotton', 1),
+    ('womens-sarees-shapewear', 'Polyester', 2),
+    ('womens-sarees-shapewear', 'Shimmer', 3),
+    ('womens-night-wear', 'Night T-Shirt (Top)', 1),
+    ('womens-night-wear', '3/4 Leggings (Night)', 2),
+    ('womens-night-wear', 'Shorts (Night)', 3),
+    ('womens-innerwear', 'Basic Slips', 1),
+    ('womens-innerwear', 'Adjustment Slips', 2),
+    ('womens-innerwear', 'Panties', 3)
+) AS sub(parent_slug, name, position)
+JOIN categories parent ON parent.slug = sub.parent_slug
+ON CONFLICT DO NOTHING;
+
+UPDATE products p
+SET subcategory_id = c.id
+FROM categories c
+WHERE p.subcategory_id IS NULL
+AND c.parent_id = p.category_id
+AND lower(c.name) = lower(p.subcategory);
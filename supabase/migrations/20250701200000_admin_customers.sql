@@ -0,0 +1,129 @@
+/*
+  # Admin Customers
+
+  1. Functions
+    - `admin_customers` - customers for the admin Users tab, newest first,
+      optionally filtered by email, name or phone. Combines `auth.users`
+      (email, last login), the two profile tables and order totals.
+      Lifetime value counts paid orders only, so refunds drop out.
+    - `keep_active_super_admin` - trigger on `admin_users` that refuses to
+      demote, deactivate or remove the last active super admin
+
+  2. Security
+    - `admin_customers` reads `auth.users`, so it is only reachable through
+      the service role. Role changes go through the existing "Super admins
+      can manage admin users" policy.
+*/
+
+CREATE OR REPLACE FUNCTION admin_customers(
+  p_search text DEFAULT NULL,
+  p_user_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  email text,
+  first_name text,
+  last_name text,
+  phone text,
+  created_at timestamptz,
+  last_sign_in_at timestamptz,
+  order_count bigint,
+  lifetime_value numeric,
+  last_order_at timestamptz,
+  admin_role text,
+  admin_is_active boolean,
+  admin_permissions jsonb,
+  total_count bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH customers AS (
+    SELECT
+      u.id,
+      u.email::text AS email,
+      COALESCE(NULLIF(p.first_name, ''), NULLIF(up.first_name, ''), u.raw_user_meta_data->>'first_name') AS first_name,
+      COALESCE(NULLIF(p.last_name, ''), NULLIF(up.last_name, ''), u.raw_user_meta_data->>'last_name') AS last_name,
+      COALESCE(NULLIF(p.phone, ''), NULLIF(up.phone, '')) AS phone,
+      u.created_at,
+      u.last_sign_in_at
+    FROM auth.users u
+    LEFT JOIN profiles p ON p.id = u.id
+    LEFT JOIN user_profiles up ON up.id = u.id
+  )
+  SELECT
+    c.id,
+    c.email,
+    c.first_name,
+    c.last_name,
+    c.phone,
+    c.created_at,
+    c.last_sign_in_at,
+    COALESCE(o.order_count, 0),
+    COALESCE(o.lifetime_value, 0),
+    o.last_order_at,
+    a.role,
+    a.is_active,
+    a.permissions,
+    COUNT(*) OVER ()
+  FROM customers c
+  LEFT JOIN LATERAL (
+    SELECT
+      COUNT(*) AS order_count,
+      SUM(total_amount) FILTER (WHERE payment_status = 'paid') AS lifetime_value,
+      MAX(orders.created_at) AS last_order_at
+    FROM orders
+    WHERE orders.user_id = c.id
+  ) o ON true
+  LEFT JOIN admin_users a ON a.id = c.id
+  WHERE (p_user_id IS NULL OR c.id = p_user_id)
+  AND (
+    NULLIF(trim(p_search), '') IS NULL
+    OR c.email ILIKE '%' || trim(p_search) || '%'
+    OR c.phone ILIKE '%' || trim(p_search) || '%'
+    OR concat_ws(' ', c.first_name, c.last_name) ILIKE '%' || trim(p_search) || '%'
+  )
+  ORDER BY c.created_at DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+$$;
+
+CREATE OR REPLACE FUNCTION keep_active_super_admin()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.role <> 'super_admin' OR NOT OLD.is_active THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.role = 'super_admin' AND NEW.is_active THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM admin_users
+    WHERE role = 'super_admin'
+    AND is_active = true
+    AND id <> OLD.id
+  ) THEN
+    RAISE EXCEPTION 'There must be at least one active super admin'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS keep_active_super_admin ON admin_users;
+CREATE TRIGGER keep_active_super_admin
+  BEFORE UPDATE OR DELETE ON admin_users
+  FOR EACH ROW EXECUTE FUNCTION keep_active_super_admin();
+
+REVOKE ALL ON FUNCTION admin_customers(text, uuid, integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION admin_customers(text, uuid, integer, integer) TO service_role;
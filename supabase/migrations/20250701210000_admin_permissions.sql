@@ -0,0 +1,325 @@
+/*
+  # Admin Permissions
+
+  1. Permission catalogue
+    - `admin_users.permissions` now holds these keys (see ADMIN_PERMISSIONS
+      in shared/api.ts):
+        products.write, categories.write, orders.view, orders.write,
+        orders.refund, coupons.write, users.view, users.manage,
+        settings.write, reports.view
+    - Active super admins have every permission
+    - Existing admins keep what they could do before: the old `products`,
+      `categories`, `orders` and `users` flags carry over to their new keys,
+      and coupons, settings and reports, which every admin could manage,
+      are granted outright. Managing admin access stays with super admins.
+
+  2. Functions
+    - `admin_has_permission` - whether a user is an active admin holding a
+      permission; used by the server
+    - `has_permission` - the same for the signed-in user; used by RLS
+    - `can_upload_product_images` - now needs products.write or
+      categories.write
+    - `guard_admin_user_changes` - trigger on `admin_users`: admins with
+      users.manage who aren't super admins can't touch super admins or
+      their own row, or grant permissions they don't hold themselves
+    - `enforce_order_status_transition` - refunding now needs orders.refund
+    - `paid_order_revenue` - total of paid orders for the dashboard, summed
+      in the database rather than row by row in the API
+
+  3. Security
+    - Every admin write policy checks a permission instead of `is_admin()`.
+      Read-only policies on settings stay open to all admins.
+*/
+
+CREATE OR REPLACE FUNCTION admin_has_permission(p_user_id uuid, p_permission text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM admin_users
+    WHERE id = p_user_id
+    AND is_active = true
+    AND (role = 'super_admin' OR permissions->p_permission = 'true'::jsonb)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION has_permission(p_permission text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT admin_has_permission(auth.uid(), p_permission);
+$$;
+
+REVOKE ALL ON FUNCTION admin_has_permission(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION admin_has_permission(uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION has_permission(text) TO authenticated, anon;
+
+-- Carry the old flags over; anything not explicitly false counted as allowed
+UPDATE admin_users
+SET permissions = jsonb_build_object(
+  'products.write', COALESCE(permissions->'products', 'true') <> 'false',
+  'categories.write', COALESCE(permissions->'categories', 'true') <> 'false',
+  'orders.view', COALESCE(permissions->'orders', 'true') <> 'false',
+  'orders.write', COALESCE(permissions->'orders', 'true') <> 'false',
+  'orders.refund', COALESCE(permissions->'orders', 'true') <> 'false',
+  'coupons.write', true,
+  'users.view', COALESCE(permissions->'users', 'true') <> 'false',
+  'users.manage', false,
+  'settings.write', true,
+  'reports.view', true
+)
+WHERE NOT permissions ? 'orders.view';
+
+ALTER TABLE admin_users ALTER COLUMN permissions
+  SET DEFAULT '{"orders.view": true, "reports.view": true}';
+
+CREATE OR REPLACE FUNCTION can_upload_product_images()
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT has_permission('products.write') OR has_permission('categories.write');
+$$;
+
+-- Catalogue
+DROP POLICY IF EXISTS "Admins can manage categories" ON categories;
+CREATE POLICY "Admins can manage categories"
+  ON categories FOR ALL
+  TO authenticated
+  USING (has_permission('categories.write'))
+  WITH CHECK (has_permission('categories.write'));
+
+DROP POLICY IF EXISTS "Admins can manage products" ON products;
+CREATE POLICY "Admins can manage products"
+  ON products FOR ALL
+  TO authenticated
+  USING (has_permission('products.write'))
+  WITH CHECK (has_permission('products.write'));
+
+DROP POLICY IF EXISTS "Admins can manage product images" ON product_images;
+CREATE POLICY "Admins can manage product images"
+  ON product_images FOR ALL
+  TO authenticated
+  USING (has_permission('products.write'))
+  WITH CHECK (has_permission('products.write'));
+
+DROP POLICY IF EXISTS "Admins can manage product variants" ON product_variants;
+CREATE POLICY "Admins can manage product variants"
+  ON product_variants FOR ALL
+  TO authenticated
+  USING (has_permission('products.write'))
+  WITH CHECK (has_permission('products.write'));
+
+-- Orders
+DROP POLICY IF EXISTS "Admins can view all orders" ON orders;
+CREATE POLICY "Admins can view all orders"
+  ON orders FOR SELECT
+  TO authenticated
+  USING (has_permission('orders.view'));
+
+DROP POLICY IF EXISTS "Admins can update order status" ON orders;
+DROP POLICY IF EXISTS "Admins can update all orders" ON orders;
+CREATE POLICY "Admins can update orders"
+  ON orders FOR UPDATE
+  TO authenticated
+  USING (has_permission('orders.write'))
+  WITH CHECK (has_permission('orders.write'));
+
+DROP POLICY IF EXISTS "Admins can view all order items" ON order_items;
+CREATE POLICY "Admins can view all order items"
+  ON order_items FOR SELECT
+  TO authenticated
+  USING (has_permission('orders.view'));
+
+DROP POLICY IF EXISTS "Admins can update all order items" ON order_items;
+CREATE POLICY "Admins can update all order items"
+  ON order_items FOR UPDATE
+  TO authenticated
+  USING (has_permission('orders.write'))
+  WITH CHECK (has_permission('orders.write'));
+
+DROP POLICY IF EXISTS "Admins can view all order status history" ON order_status_history;
+CREATE POLICY "Admins can view all order status history"
+  ON order_status_history FOR SELECT
+  TO authenticated
+  USING (has_permission('orders.view'));
+
+DROP POLICY IF EXISTS "Admins can view all stock reservations" ON stock_reservations;
+CREATE POLICY "Admins can view all stock reservations"
+  ON stock_reservations FOR SELECT
+  TO authenticated
+  USING (has_permission('orders.view'));
+
+DROP POLICY IF EXISTS "Admins can view all invoices" ON invoices;
+CREATE POLICY "Admins can view all invoices"
+  ON invoices FOR SELECT
+  TO authenticated
+  USING (has_permission('orders.view'));
+
+-- Coupons
+DROP POLICY IF EXISTS "Admins can manage coupons" ON coupons;
+CREATE POLICY "Admins can manage coupons"
+  ON coupons FOR ALL
+  TO authenticated
+  USING (has_permission('coupons.write'))
+  WITH CHECK (has_permission('coupons.write'));
+
+DROP POLICY IF EXISTS "Admins can view all coupon redemptions" ON coupon_redemptions;
+CREATE POLICY "Admins can view all coupon redemptions"
+  ON coupon_redemptions FOR SELECT
+  TO authenticated
+  USING (has_permission('coupons.write'));
+
+-- Settings
+DROP POLICY IF EXISTS "Admins can update cod settings" ON cod_settings;
+CREATE POLICY "Admins can update cod settings"
+  ON cod_settings FOR UPDATE
+  TO authenticated
+  USING (has_permission('settings.write'))
+  WITH CHECK (has_permission('settings.write'));
+
+DROP POLICY IF EXISTS "Admins can update tax settings" ON tax_settings;
+CREATE POLICY "Admins can update tax settings"
+  ON tax_settings FOR UPDATE
+  TO authenticated
+  USING (has_permission('settings.write'))
+  WITH CHECK (has_permission('settings.write'));
+
+DROP POLICY IF EXISTS "Admins can update shipping settings" ON shipping_settings;
+CREATE POLICY "Admins can update shipping settings"
+  ON shipping_settings FOR UPDATE
+  TO authenticated
+  USING (has_permission('settings.write'))
+  WITH CHECK (has_permission('settings.write'));
+
+DROP POLICY IF EXISTS "Admins can manage shipping zones" ON shipping_zones;
+CREATE POLICY "Admins can manage shipping zones"
+  ON shipping_zones FOR ALL
+  TO authenticated
+  USING (has_permission('settings.write'))
+  WITH CHECK (has_permission('settings.write'));
+
+DROP POLICY IF EXISTS "Admins can manage shipping rate slabs" ON shipping_rate_slabs;
+CREATE POLICY "Admins can manage shipping rate slabs"
+  ON shipping_rate_slabs FOR ALL
+  TO authenticated
+  USING (has_permission('settings.write'))
+  WITH CHECK (has_permission('settings.write'));
+
+-- Admin access
+DROP POLICY IF EXISTS "Super admins can manage admin users" ON admin_users;
+DROP POLICY IF EXISTS "Admins can manage admin users" ON admin_users;
+CREATE POLICY "Admins can manage admin users"
+  ON admin_users FOR ALL
+  TO authenticated
+  USING (has_permission('users.manage'))
+  WITH CHECK (has_permission('users.manage'));
+
+CREATE OR REPLACE FUNCTION guard_admin_user_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  permission text;
+BEGIN
+  -- The service role and super admins aren't limited
+  IF auth.uid() IS NULL OR is_super_admin() THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF COALESCE(NEW.id, OLD.id) = auth.uid() THEN
+    RAISE EXCEPTION 'You can''t change your own admin access' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF (TG_OP <> 'INSERT' AND OLD.role = 'super_admin')
+    OR (TG_OP <> 'DELETE' AND NEW.role = 'super_admin') THEN
+    RAISE EXCEPTION 'Only super admins can change super admin access' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF TG_OP <> 'DELETE' THEN
+    FOR permission IN
+      SELECT key FROM jsonb_each(NEW.permissions)
+      WHERE value = 'true'::jsonb
+      AND (TG_OP = 'INSERT' OR OLD.permissions->key IS DISTINCT FROM 'true'::jsonb)
+    LOOP
+      IF NOT has_permission(permission) THEN
+        RAISE EXCEPTION 'You can''t grant % without having it yourself', permission
+          USING ERRCODE = 'P0001';
+      END IF;
+    END LOOP;
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_admin_user_changes ON admin_users;
+CREATE TRIGGER guard_admin_user_changes
+  BEFORE INSERT OR UPDATE OR DELETE ON admin_users
+  FOR EACH ROW EXECUTE FUNCTION guard_admin_user_changes();
+
+-- Refunds: the server checks orders.refund before calling change_order_status
+-- as the service role, so only direct updates need checking here
+CREATE OR REPLACE FUNCTION enforce_order_status_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  allowed text[];
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  allowed := CASE OLD.status
+    WHEN 'pending' THEN ARRAY['confirmed', 'cancelled']
+    WHEN 'confirmed' THEN ARRAY['processing', 'cancelled']
+    WHEN 'processing' THEN ARRAY['shipped', 'cancelled']
+    WHEN 'shipped' THEN ARRAY['delivered', 'cancelled']
+    WHEN 'delivered' THEN ARRAY['refunded']
+    WHEN 'cancelled' THEN ARRAY['refunded']
+    ELSE ARRAY[]::text[]
+  END;
+
+  IF NOT NEW.status = ANY(allowed) THEN
+    RAISE EXCEPTION 'An order can''t move from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  IF NEW.status = 'refunded' AND OLD.payment_status <> 'paid' THEN
+    RAISE EXCEPTION 'Only paid orders can be refunded' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF NEW.status = 'refunded' AND auth.uid() IS NOT NULL AND NOT has_permission('orders.refund') THEN
+    RAISE EXCEPTION 'You don''t have permission to refund orders' USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION paid_order_revenue()
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(sum(total_amount), 0)
+  FROM orders
+  WHERE payment_status = 'paid';
+$$;
+
+REVOKE ALL ON FUNCTION paid_order_revenue() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION paid_order_revenue() TO service_role;
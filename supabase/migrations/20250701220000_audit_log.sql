@@ -0,0 +1,186 @@
+/*
+  # Audit Log
+
+  1. New Tables
+    - `audit_log` - one row per change to the catalogue, orders, coupons,
+      store settings or admin access
+      - `actor_id` (uuid, nullable - null when the system or a customer's
+        checkout made the change), `actor_email` (text, as it was at the
+        time). Not a foreign key, so entries outlive deleted accounts.
+      - `action` ('insert', 'update' or 'delete')
+      - `entity_type` (the table), `entity_id` (text), `entity_label` (the
+        row's name, order number, coupon code or email, for display)
+      - `before` / `after` (jsonb) - for updates, only the columns that
+        changed; for inserts and deletes, the whole row
+      - `ip_address` (text) - taken from the request when the change came
+        through the Supabase API; changes made by our server record the
+        server's address
+      - `created_at`
+
+  2. Functions
+    - `record_audit_log` - AFTER trigger on the audited tables. Updates that
+      only touch `updated_at` aren't recorded. The acting admin is
+      `auth.uid()`, or the admin `change_order_status` hands over. Orders
+      and stock are only recorded when an admin changes them, not on every
+      checkout, and order addresses are never recorded.
+    - `prevent_audit_log_changes` - rows can't be updated or deleted, even
+      by the service role
+
+  3. Security
+    - Enable RLS; readable with the new audit.view permission, which only
+      super admins have until it's granted. Nobody can write to it
+      directly; only the trigger inserts.
+*/
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor_id uuid,
+  actor_email text,
+  action text NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+  entity_type text NOT NULL,
+  entity_id text,
+  entity_label text,
+  before jsonb,
+  after jsonb,
+  ip_address text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log(entity_type, entity_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON audit_log(actor_id, created_at DESC);
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view audit log"
+  ON audit_log FOR SELECT
+  TO authenticated
+  USING (has_permission('audit.view'));
+
+CREATE OR REPLACE FUNCTION prevent_audit_log_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RAISE EXCEPTION 'The audit log is append-only' USING ERRCODE = 'P0001';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_audit_log_changes ON audit_log;
+CREATE TRIGGER prevent_audit_log_changes
+  BEFORE UPDATE OR DELETE ON audit_log
+  FOR EACH ROW EXECUTE FUNCTION prevent_audit_log_changes();
+
+CREATE OR REPLACE FUNCTION record_audit_log()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- Customers' addresses stay out of the log
+  old_row jsonb := CASE WHEN TG_OP = 'INSERT' THEN NULL
+    ELSE to_jsonb(OLD) - 'shipping_address' - 'billing_address' END;
+  new_row jsonb := CASE WHEN TG_OP = 'DELETE' THEN NULL
+    ELSE to_jsonb(NEW) - 'shipping_address' - 'billing_address' END;
+  row_data jsonb := COALESCE(new_row, old_row);
+  before_data jsonb := old_row;
+  after_data jsonb := new_row;
+  actor uuid;
+BEGIN
+  actor := COALESCE(
+    NULLIF(current_setting('app.order_status_actor', true), '')::uuid,
+    auth.uid()
+  );
+
+  -- Checkouts, payments and stock reservations change orders and stock
+  -- all day; only what an admin does to them is worth keeping
+  IF TG_TABLE_NAME IN ('orders', 'product_variants')
+  AND NOT EXISTS (SELECT 1 FROM admin_users WHERE id = actor AND is_active) THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT
+      jsonb_object_agg(o.key, o.value),
+      jsonb_object_agg(o.key, new_row->o.key)
+    INTO before_data, after_data
+    FROM jsonb_each(old_row) o
+    WHERE o.key <> 'updated_at'
+    AND o.value IS DISTINCT FROM new_row->o.key;
+
+    IF before_data IS NULL THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  INSERT INTO audit_log (
+    actor_id,
+    actor_email,
+    action,
+    entity_type,
+    entity_id,
+    entity_label,
+    before,
+    after,
+    ip_address
+  )
+  VALUES (
+    actor,
+    (SELECT email FROM auth.users WHERE id = actor),
+    lower(TG_OP),
+    TG_TABLE_NAME,
+    row_data->>'id',
+    COALESCE(
+      row_data->>'name',
+      row_data->>'order_number',
+      row_data->>'code',
+      row_data->>'email',
+      row_data->>'sku'
+    ),
+    before_data,
+    after_data,
+    NULLIF(
+      trim(split_part(
+        NULLIF(current_setting('request.headers', true), '')::json->>'x-forwarded-for',
+        ',',
+        1
+      )),
+      ''
+    )
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DO $$
+DECLARE
+  audited text;
+BEGIN
+  FOREACH audited IN ARRAY ARRAY[
+    'products',
+    'product_variants',
+    'product_images',
+    'categories',
+    'orders',
+    'coupons',
+    'admin_users',
+    'cod_settings',
+    'tax_settings',
+    'shipping_settings',
+    'shipping_zones',
+    'shipping_rate_slabs'
+  ]
+  LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS record_audit_log ON %I', audited);
+    EXECUTE format(
+      'CREATE TRIGGER record_audit_log
+        AFTER INSERT OR UPDATE OR DELETE ON %I
+        FOR EACH ROW EXECUTE FUNCTION record_audit_log()',
+      audited
+    );
+  END LOOP;
+END;
+$$;
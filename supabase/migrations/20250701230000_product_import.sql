@@ -0,0 +1,221 @@
+/*
+  # Product Import
+
+  1. Functions
+    - `import_products` - saves a spreadsheet import that the server has
+      already validated, in one transaction. Each element of `p_products`:
+        - `id` - the product to update, or null to create one
+        - `sku`
+        - `fields` - product columns to set; columns left out keep their
+          current value
+        - `images` - image URLs replacing the product's images, primary
+          first, or null to leave them alone
+        - `variants` - each with `id` (null to create) and the variant
+          columns to set
+    - `record_audit_log` - also reads the acting admin from
+      `app.audit_actor`, which `import_products` sets, so imported changes
+      are attributed to the admin who ran them
+
+  2. Security
+    - `import_products` is only reachable through the service role
+*/
+
+CREATE OR REPLACE FUNCTION import_products(p_products jsonb, p_admin_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  item jsonb;
+  fields jsonb;
+  variant jsonb;
+  target_id uuid;
+BEGIN
+  PERFORM set_config('app.audit_actor', p_admin_id::text, true);
+
+  FOR item IN SELECT * FROM jsonb_array_elements(p_products)
+  LOOP
+    fields := item->'fields';
+
+    IF item->>'id' IS NULL THEN
+      INSERT INTO products (
+        sku,
+        name,
+        slug,
+        description,
+        price,
+        original_price,
+        weight_grams,
+        is_active,
+        is_hot_sale,
+        category_id,
+        subcategory_id
+      )
+      VALUES (
+        item->>'sku',
+        fields->>'name',
+        fields->>'slug',
+        fields->>'description',
+        (fields->>'price')::decimal,
+        (fields->>'original_price')::decimal,
+        (fields->>'weight_grams')::integer,
+        COALESCE((fields->>'is_active')::boolean, true),
+        COALESCE((fields->>'is_hot_sale')::boolean, false),
+        (fields->>'category_id')::uuid,
+        (fields->>'subcategory_id')::uuid
+      )
+      RETURNING id INTO target_id;
+    ELSE
+      target_id := (item->>'id')::uuid;
+
+      UPDATE products SET
+        name = CASE WHEN fields ? 'name' THEN fields->>'name' ELSE name END,
+        slug = CASE WHEN fields ? 'slug' THEN fields->>'slug' ELSE slug END,
+        description = CASE WHEN fields ? 'description' THEN fields->>'description' ELSE description END,
+        price = CASE WHEN fields ? 'price' THEN (fields->>'price')::decimal ELSE price END,
+        original_price = CASE WHEN fields ? 'original_price' THEN (fields->>'original_price')::decimal ELSE original_price END,
+        weight_grams = CASE WHEN fields ? 'weight_grams' THEN (fields->>'weight_grams')::integer ELSE weight_grams END,
+        is_active = CASE WHEN fields ? 'is_active' THEN (fields->>'is_active')::boolean ELSE is_active END,
+        is_hot_sale = CASE WHEN fields ? 'is_hot_sale' THEN (fields->>'is_hot_sale')::boolean ELSE is_hot_sale END,
+        category_id = CASE WHEN fields ? 'category_id' THEN (fields->>'category_id')::uuid ELSE category_id END,
+        subcategory_id = CASE WHEN fields ? 'subcategory_id' THEN (fields->>'subcategory_id')::uuid ELSE subcategory_id END
+      WHERE id = target_id;
+    END IF;
+
+    IF jsonb_typeof(item->'images') = 'array' THEN
+      DELETE FROM product_images WHERE product_id = target_id;
+
+      INSERT INTO product_images (product_id, image_url, alt_text, sort_order, is_primary)
+      SELECT target_id, image.url, p.name, image.position - 1, image.position = 1
+      FROM jsonb_array_elements_text(item->'images') WITH ORDINALITY AS image(url, position)
+      JOIN products p ON p.id = target_id;
+    END IF;
+
+    FOR variant IN SELECT * FROM jsonb_array_elements(COALESCE(item->'variants', '[]'))
+    LOOP
+      IF variant->>'id' IS NULL THEN
+        INSERT INTO product_variants (
+          product_id,
+          sku,
+          size,
+          color_name,
+          color_code,
+          stock_quantity,
+          price_adjustment,
+          is_active
+        )
+        VALUES (
+          target_id,
+          variant->>'sku',
+          variant->>'size',
+          variant->>'color_name',
+          variant->>'color_code',
+          COALESCE((variant->>'stock_quantity')::integer, 0),
+          COALESCE((variant->>'price_adjustment')::decimal, 0),
+          COALESCE((variant->>'is_active')::boolean, true)
+        );
+      ELSE
+        UPDATE product_variants SET
+          size = CASE WHEN variant ? 'size' THEN variant->>'size' ELSE size END,
+          color_name = CASE WHEN variant ? 'color_name' THEN variant->>'color_name' ELSE color_name END,
+          color_code = CASE WHEN variant ? 'color_code' THEN variant->>'color_code' ELSE color_code END,
+          stock_quantity = CASE WHEN variant ? 'stock_quantity' THEN (variant->>'stock_quantity')::integer ELSE stock_quantity END,
+          price_adjustment = CASE WHEN variant ? 'price_adjustment' THEN (variant->>'price_adjustment')::decimal ELSE price_adjustment END,
+          is_active = CASE WHEN variant ? 'is_active' THEN (variant->>'is_active')::boolean ELSE is_active END
+        WHERE id = (variant->>'id')::uuid
+        AND product_id = target_id;
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  PERFORM set_config('app.audit_actor', '', true);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION import_products(jsonb, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION import_products(jsonb, uuid) TO service_role;
+
+CREATE OR REPLACE FUNCTION record_audit_log()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- Customers' addresses stay out of the log
+  old_row jsonb := CASE WHEN TG_OP = 'INSERT' THEN NULL
+    ELSE to_jsonb(OLD) - 'shipping_address' - 'billing_address' END;
+  new_row jsonb := CASE WHEN TG_OP = 'DELETE' THEN NULL
+    ELSE to_jsonb(NEW) - 'shipping_address' - 'billing_address' END;
+  row_data jsonb := COALESCE(new_row, old_row);
+  before_data jsonb := old_row;
+  after_data jsonb := new_row;
+  actor uuid;
+BEGIN
+  actor := COALESCE(
+    NULLIF(current_setting('app.audit_actor', true), '')::uuid,
+    NULLIF(current_setting('app.order_status_actor', true), '')::uuid,
+    auth.uid()
+  );
+
+  -- Checkouts, payments and stock reservations change orders and stock
+  -- all day; only what an admin does to them is worth keeping
+  IF TG_TABLE_NAME IN ('orders', 'product_variants')
+  AND NOT EXISTS (SELECT 1 FROM admin_users WHERE id = actor AND is_active) THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT
+      jsonb_object_agg(o.key, o.value),
+      jsonb_object_agg(o.key, new_row->o.key)
+    INTO before_data, after_data
+    FROM jsonb_each(old_row) o
+    WHERE o.key <> 'updated_at'
+    AND o.value IS DISTINCT FROM new_row->o.key;
+
+    IF before_data IS NULL THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  INSERT INTO audit_log (
+    actor_id,
+    actor_email,
+    action,
+    entity_type,
+    entity_id,
+    entity_label,
+    before,
+    after,
+    ip_address
+  )
+  VALUES (
+    actor,
+    (SELECT email FROM auth.users WHERE id = actor),
+    lower(TG_OP),
+    TG_TABLE_NAME,
+    row_data->>'id',
+    COALESCE(
+      row_data->>'name',
+      row_data->>'order_number',
+      row_data->>'code',
+      row_data->>'email',
+      row_data->>'sku'
+    ),
+    before_data,
+    after_data,
+    NULLIF(
+      trim(split_part(
+        NULLIF(current_setting('request.headers', true), '')::json->>'x-forwarded-for',
+        ',',
+        1
+      )),
+      ''
+    )
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
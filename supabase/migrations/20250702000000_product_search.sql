@@ -0,0 +1,241 @@
+/*
+  # Product Search
+
+  1. New Tables
+    - `product_search` - one row per product, kept up to date by triggers
+      - `product_id` (uuid, primary key)
+      - `document` (text) - name, category, subcategory, colours and SKUs,
+        normalised, for typo-tolerant trigram matching
+      - `vector` (tsvector) - the same plus the description, weighted
+        name > category > colours and SKUs > description, for ranking
+      - `updated_at`
+    - `search_synonyms` - groups of interchangeable terms such as
+      "tshirt", "t-shirt" and "tee". A query containing any term of a group
+      also matches products that use one of the others.
+
+  2. Functions
+    - `normalize_search_text` - lower case, with anything that isn't a
+      letter or digit turned into a single space, so "T-Shirt" and
+      "t shirt" read the same
+    - `refresh_product_search` - rebuilds a product's search row
+    - `search_products` - product ids ranked for a query. Every word must
+      match the start of a word in the product (full-text), or the query
+      must be close enough to part of the document (trigram word
+      similarity of at least 0.5, through the indexable `<%` operator),
+      which is what tolerates typos.
+
+  3. Triggers
+    - Search rows follow changes to products, their variants and the
+      names of their categories
+
+  4. Security
+    - Enable RLS on both tables with no policies; only the service role
+      reads them, through `search_products`
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+CREATE OR REPLACE FUNCTION normalize_search_text(p_text text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT trim(regexp_replace(lower(coalesce(p_text, '')), '[^a-z0-9]+', ' ', 'g'));
+$$;
+
+CREATE TABLE IF NOT EXISTS product_search (
+  product_id uuid PRIMARY KEY REFERENCES products(id) ON DELETE CASCADE,
+  document text NOT NULL DEFAULT '',
+  vector tsvector NOT NULL DEFAULT ''::tsvector,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_search_vector ON product_search USING gin (vector);
+CREATE INDEX IF NOT EXISTS idx_product_search_document
+  ON product_search USING gin (document extensions.gin_trgm_ops);
+
+ALTER TABLE product_search ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS search_synonyms (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  terms text[] NOT NULL CHECK (cardinality(terms) > 1),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE search_synonyms ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION refresh_product_search(p_product_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO product_search (product_id, document, vector, updated_at)
+  SELECT
+    p.id,
+    normalize_search_text(concat_ws(' ', p.name, c.name, p.subcategory, v.colours, p.sku, v.skus)),
+    setweight(to_tsvector('simple', normalize_search_text(p.name)), 'A') ||
+    setweight(to_tsvector('simple', normalize_search_text(concat_ws(' ', c.name, p.subcategory))), 'B') ||
+    setweight(to_tsvector('simple', normalize_search_text(concat_ws(' ', v.colours, p.sku, v.skus))), 'C') ||
+    setweight(to_tsvector('simple', normalize_search_text(p.description)), 'D'),
+    now()
+  FROM products p
+  LEFT JOIN categories c ON c.id = p.category_id
+  LEFT JOIN LATERAL (
+    SELECT
+      string_agg(DISTINCT pv.color_name, ' ') AS colours,
+      string_agg(pv.sku, ' ') AS skus
+    FROM product_variants pv
+    WHERE pv.product_id = p.id
+    AND pv.is_active = true
+  ) v ON true
+  WHERE p.id = p_product_id
+  ON CONFLICT (product_id) DO UPDATE SET
+    document = EXCLUDED.document,
+    vector = EXCLUDED.vector,
+    updated_at = EXCLUDED.updated_at;
+$$;
+
+REVOKE ALL ON FUNCTION refresh_product_search(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION refresh_product_search_for_product()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM refresh_product_search(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_product_search ON products;
+CREATE TRIGGER refresh_product_search
+  AFTER INSERT OR UPDATE OF name, description, sku, subcategory, category_id ON products
+  FOR EACH ROW EXECUTE FUNCTION refresh_product_search_for_product();
+
+CREATE OR REPLACE FUNCTION refresh_product_search_for_variant()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- When a product is deleted its variants go with it; refreshing then
+  -- finds no product and writes nothing
+  PERFORM refresh_product_search(COALESCE(NEW.product_id, OLD.product_id));
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_product_search ON product_variants;
+CREATE TRIGGER refresh_product_search
+  AFTER INSERT OR DELETE OR UPDATE OF color_name, sku, is_active, product_id ON product_variants
+  FOR EACH ROW EXECUTE FUNCTION refresh_product_search_for_variant();
+
+-- Subcategory renames already reach products.subcategory, which fires the
+-- products trigger; top-level renames need this one
+CREATE OR REPLACE FUNCTION refresh_product_search_for_category()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM refresh_product_search(p.id)
+  FROM products p
+  WHERE p.category_id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_product_search ON categories;
+CREATE TRIGGER refresh_product_search
+  AFTER UPDATE OF name ON categories
+  FOR EACH ROW
+  WHEN (NEW.name IS DISTINCT FROM OLD.name)
+  EXECUTE FUNCTION refresh_product_search_for_category();
+
+CREATE OR REPLACE FUNCTION search_products(p_query text, p_limit integer DEFAULT 200)
+RETURNS TABLE (product_id uuid, rank real)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+-- What <% counts as close enough
+SET pg_trgm.word_similarity_threshold = 0.5
+AS $$
+  WITH query AS (
+    SELECT normalize_search_text(p_query) AS q
+  ),
+  -- The query as typed, plus one copy per synonym with that synonym
+  -- swapped in for the term it matched
+  alternatives AS (
+    SELECT q AS text FROM query
+    UNION
+    SELECT trim(replace(' ' || query.q || ' ', ' ' || matched.term || ' ', ' ' || other.term || ' '))
+    FROM query
+    CROSS JOIN search_synonyms s
+    CROSS JOIN LATERAL unnest(s.terms) AS matched(term)
+    CROSS JOIN LATERAL unnest(s.terms) AS other(term)
+    WHERE other.term <> matched.term
+    AND ' ' || query.q || ' ' LIKE '% ' || matched.term || ' %'
+  ),
+  queries AS (
+    SELECT
+      a.text,
+      to_tsquery(
+        'simple',
+        (
+          SELECT string_agg(quote_literal(word) || ':*', ' & ')
+          FROM unnest(string_to_array(a.text, ' ')) AS word
+          WHERE word <> ''
+        )
+      ) AS tsquery
+    FROM alternatives a
+    WHERE a.text <> ''
+  )
+  SELECT
+    ps.product_id,
+    max(
+      CASE WHEN ps.vector @@ qs.tsquery THEN ts_rank(ps.vector, qs.tsquery) + 1 ELSE 0 END +
+      word_similarity(qs.text, ps.document)
+    )::real AS rank
+  FROM product_search ps
+  JOIN products p ON p.id = ps.product_id AND p.is_active = true
+  CROSS JOIN queries qs
+  WHERE ps.vector @@ qs.tsquery
+  -- word_similarity() >= 0.5, but written with the operator so the
+  -- trigram index on document can serve it
+  OR qs.text <% ps.document
+  GROUP BY ps.product_id
+  ORDER BY rank DESC
+  LIMIT least(greatest(p_limit, 1), 500);
+$$;
+
+REVOKE ALL ON FUNCTION search_products(text, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION search_products(text, integer) TO service_role;
+
+-- Terms are stored normalised, the way normalize_search_text leaves them
+INSERT INTO search_synonyms (terms)
+SELECT terms
+FROM (
+  VALUES
+    (ARRAY['t shirt', 't shirts', 'tshirt', 'tshirts', 'tee', 'tees']),
+    (ARRAY['night wear', 'nightwear', 'nightie', 'nighties', 'nighty', 'sleepwear']),
+    (ARRAY['track pants', 'track pant', 'trackpants', 'joggers']),
+    (ARRAY['leggings', 'legging', 'tights']),
+    (ARRAY['shapewear', 'shape wear', 'body shaper']),
+    (ARRAY['innerwear', 'inner wear', 'undergarments']),
+    (ARRAY['full hand', 'full sleeve', 'long sleeve']),
+    (ARRAY['sleeveless', 'vest']),
+    (ARRAY['polo', 'collar']),
+    (ARRAY['panties', 'panty', 'briefs']),
+    (ARRAY['slips', 'slip', 'petticoat']),
+    (ARRAY['grey', 'gray'])
+) AS seed(terms)
+WHERE NOT EXISTS (SELECT 1 FROM search_synonyms);
+
+SELECT refresh_product_search(id) FROM products;
@@ -0,0 +1,122 @@
+/*
+  # Search Suggestions
+
+  1. New Tables
+    - `search_queries` - how many shoppers ran each search that found
+      something
+      - `query` (text, primary key) - normalised with `normalize_search_text`
+      - `search_count` (integer) - distinct clients, not searches
+      - `last_searched_at` (timestamptz)
+    - `search_query_clients` - which clients have been counted for a query,
+      so repeating a search doesn't push it up
+      - `client` (text) - a hash of the client's IP, never the IP itself
+      - Rows older than 90 days are swept as new searches arrive, after
+        which the client's next search counts again
+
+  2. Functions
+    - `record_search_query` - counts a search once per client; called by
+      the search API
+    - `popular_search_queries` - the most searched queries starting with
+      a prefix, or overall when the prefix is empty. Only queries run by at
+      least three clients are suggested, so one visitor can't put text in
+      everyone's search box.
+
+  3. Security
+    - Enable RLS on both tables with no policies; only the service role
+      reaches them, through the functions above
+*/
+
+CREATE TABLE IF NOT EXISTS search_queries (
+  query text PRIMARY KEY CHECK (query <> ''),
+  search_count integer NOT NULL DEFAULT 1,
+  last_searched_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_queries_popularity
+  ON search_queries(search_count DESC);
+
+CREATE TABLE IF NOT EXISTS search_query_clients (
+  query text NOT NULL,
+  client text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (query, client)
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_query_clients_created_at
+  ON search_query_clients(created_at);
+
+ALTER TABLE search_queries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE search_query_clients ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION record_search_query(p_query text, p_client text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_query text := normalize_search_text(p_query);
+BEGIN
+  IF v_query = '' THEN
+    RETURN;
+  END IF;
+
+  -- Same window as popular_search_queries; swept now and then rather than
+  -- on every search
+  IF random() < 0.01 THEN
+    DELETE FROM search_query_clients WHERE created_at < now() - interval '90 days';
+  END IF;
+
+  INSERT INTO search_query_clients (query, client)
+  VALUES (v_query, p_client)
+  ON CONFLICT (query, client) DO NOTHING;
+
+  IF NOT FOUND THEN
+    -- Already counted for this client; the search is still recent
+    UPDATE search_queries SET last_searched_at = now() WHERE query = v_query;
+    RETURN;
+  END IF;
+
+  INSERT INTO search_queries (query)
+  VALUES (v_query)
+  ON CONFLICT (query) DO UPDATE SET
+    search_count = search_queries.search_count + 1,
+    last_searched_at = now();
+END;
+$$;
+
+REVOKE ALL ON FUNCTION record_search_query(text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_search_query(text, text) TO service_role;
+
+-- Queries nobody has run for 90 days drop out, so seasonal spikes fade
+CREATE OR REPLACE FUNCTION popular_search_queries(p_prefix text, p_limit integer DEFAULT 5)
+RETURNS TABLE (query text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT sq.query
+  FROM search_queries sq
+  -- Normalising leaves only letters, digits and spaces, so no LIKE wildcards
+  WHERE sq.query LIKE normalize_search_text(p_prefix) || '%'
+  AND sq.last_searched_at > now() - interval '90 days'
+  AND sq.search_count >= 3
+  ORDER BY sq.search_count DESC, sq.query
+  LIMIT least(greatest(p_limit, 1), 20);
+$$;
+
+REVOKE ALL ON FUNCTION popular_search_queries(text, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION popular_search_queries(text, integer) TO service_role;
+
+-- Start from the terms the Header used to suggest until real searches
+-- outnumber them
+INSERT INTO search_queries (query, search_count)
+VALUES
+  ('t shirts', 5),
+  ('leggings', 5),
+  ('track pants', 5),
+  ('shapewear', 5),
+  ('night wear', 5),
+  ('shorts', 5)
+ON CONFLICT (query) DO NOTHING;
@@ -0,0 +1,204 @@
+/*
+  # Product Facets
+
+  1. Functions
+    - `price_band` - the price band a price falls in. The bands are
+      listed, with labels, in PRICE_BANDS in shared/api.ts.
+    - `product_listing_base` - the active products in a category (top level
+      or subcategory, or all when null) that match a search query (all when
+      empty), with what the facets filter on: sizes and colours of active
+      variants, subcategory and price band
+    - `filter_products` - ids of the products passing every facet filter,
+      sorted, with the total before the limit
+    - `product_facets` - product counts per size, colour, subcategory and
+      price band. Each facet counts the products that pass the other
+      facets' filters, so a shopper who picked "M" still sees how many
+      products "L" would add.
+
+  2. Security
+    - Executable by the service role only; the listing API calls them
+*/
+
+CREATE OR REPLACE FUNCTION price_band(p_price numeric)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_price < 500 THEN 'under-500'
+    WHEN p_price < 1000 THEN '500-999'
+    WHEN p_price < 2000 THEN '1000-1999'
+    ELSE '2000-and-above'
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION product_listing_base(p_category text, p_query text)
+RETURNS TABLE (
+  product_id uuid,
+  name text,
+  price numeric,
+  rating numeric,
+  created_at timestamptz,
+  rank real,
+  subcategory_slug text,
+  subcategory_name text,
+  price_band text,
+  sizes text[],
+  colors text[]
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH scope AS (
+    SELECT c.id, c.parent_id
+    FROM categories c
+    WHERE c.slug = p_category
+  ),
+  matches AS (
+    SELECT m.product_id, m.rank
+    FROM search_products(p_query, 500) m
+  )
+  SELECT
+    p.id,
+    p.name,
+    p.price,
+    p.rating,
+    p.created_at,
+    m.rank,
+    sc.slug,
+    sc.name,
+    price_band(p.price),
+    coalesce(v.sizes, '{}'),
+    coalesce(v.colors, '{}')
+  FROM products p
+  LEFT JOIN matches m ON m.product_id = p.id
+  LEFT JOIN categories sc ON sc.id = p.subcategory_id
+  LEFT JOIN LATERAL (
+    SELECT
+      array_agg(DISTINCT pv.size) FILTER (WHERE pv.size IS NOT NULL) AS sizes,
+      array_agg(DISTINCT pv.color_name) FILTER (WHERE pv.color_name IS NOT NULL) AS colors
+    FROM product_variants pv
+    WHERE pv.product_id = p.id
+    AND pv.is_active = true
+  ) v ON true
+  WHERE p.is_active = true
+  AND (
+    p_category IS NULL
+    OR EXISTS (
+      SELECT 1
+      FROM scope s
+      WHERE (s.parent_id IS NULL AND p.category_id = s.id)
+      OR (s.parent_id IS NOT NULL AND p.subcategory_id = s.id)
+    )
+  )
+  AND (normalize_search_text(p_query) = '' OR m.product_id IS NOT NULL);
+$$;
+
+REVOKE ALL ON FUNCTION product_listing_base(text, text) FROM PUBLIC, anon, authenticated;
+
+-- Null filter arrays mean "any"; sort is one of name, price-low,
+-- price-high, rating, newest or relevance
+CREATE OR REPLACE FUNCTION filter_products(
+  p_category text,
+  p_query text,
+  p_sizes text[],
+  p_colors text[],
+  p_subcategories text[],
+  p_price_bands text[],
+  p_sort text DEFAULT 'name',
+  p_limit integer DEFAULT 500
+)
+RETURNS TABLE (product_id uuid, total_count integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT b.product_id, (count(*) OVER ())::integer
+  FROM product_listing_base(p_category, p_query) b
+  WHERE (p_sizes IS NULL OR b.sizes && p_sizes)
+  AND (p_colors IS NULL OR b.colors && p_colors)
+  AND (p_subcategories IS NULL OR b.subcategory_slug = ANY(p_subcategories))
+  AND (p_price_bands IS NULL OR b.price_band = ANY(p_price_bands))
+  ORDER BY
+    CASE WHEN p_sort = 'price-low' THEN b.price END ASC,
+    CASE WHEN p_sort = 'price-high' THEN b.price END DESC,
+    CASE WHEN p_sort = 'rating' THEN b.rating END DESC NULLS LAST,
+    CASE WHEN p_sort = 'newest' THEN b.created_at END DESC,
+    CASE WHEN p_sort = 'relevance' THEN b.rank END DESC NULLS LAST,
+    b.name,
+    b.product_id
+  LIMIT least(greatest(p_limit, 1), 500);
+$$;
+
+REVOKE ALL ON FUNCTION filter_products(text, text, text[], text[], text[], text[], text, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION filter_products(text, text, text[], text[], text[], text[], text, integer) TO service_role;
+
+CREATE OR REPLACE FUNCTION product_facets(
+  p_category text,
+  p_query text,
+  p_sizes text[],
+  p_colors text[],
+  p_subcategories text[],
+  p_price_bands text[]
+)
+RETURNS TABLE (facet text, value text, label text, swatch text, product_count integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH base AS (
+    SELECT
+      b.*,
+      (p_sizes IS NULL OR b.sizes && p_sizes) AS size_ok,
+      (p_colors IS NULL OR b.colors && p_colors) AS color_ok,
+      (p_subcategories IS NULL OR b.subcategory_slug = ANY(p_subcategories)) AS subcategory_ok,
+      (p_price_bands IS NULL OR b.price_band = ANY(p_price_bands)) AS price_ok
+    FROM product_listing_base(p_category, p_query) b
+  )
+  SELECT 'size', s.size, s.size, NULL, count(*)::integer
+  FROM base
+  CROSS JOIN LATERAL unnest(base.sizes) AS s(size)
+  WHERE color_ok AND subcategory_ok AND price_ok
+  GROUP BY s.size
+
+  UNION ALL
+
+  SELECT
+    'color',
+    c.color,
+    c.color,
+    (
+      SELECT min(pv.color_code)
+      FROM product_variants pv
+      WHERE pv.color_name = c.color
+      AND pv.is_active = true
+    ),
+    count(*)::integer
+  FROM base
+  CROSS JOIN LATERAL unnest(base.colors) AS c(color)
+  WHERE size_ok AND subcategory_ok AND price_ok
+  GROUP BY c.color
+
+  UNION ALL
+
+  SELECT 'subcategory', subcategory_slug, min(subcategory_name), NULL, count(*)::integer
+  FROM base
+  WHERE subcategory_slug IS NOT NULL
+  AND size_ok AND color_ok AND price_ok
+  GROUP BY subcategory_slug
+
+  UNION ALL
+
+  SELECT 'price', price_band, price_band, NULL, count(*)::integer
+  FROM base
+  WHERE size_ok AND color_ok AND subcategory_ok
+  GROUP BY price_band;
+$$;
+
+REVOKE ALL ON FUNCTION product_facets(text, text, text[], text[], text[], text[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION product_facets(text, text, text[], text[], text[], text[]) TO service_role;
@@ -0,0 +1,207 @@
+/*
+  # Listing Pagination
+
+  1. Changes
+    - `product_listing_base`, `filter_products` and `product_facets` take
+      `p_on_sale`, limiting the listing to hot sale products and products
+      priced below their original price, for the Hot Sales page
+    - `filter_products` returns one page at a time (`p_limit` up to 100,
+      from `p_offset`) and sorts by `popularity`: units sold in the last
+      90 days, not counting cancelled or refunded orders
+
+  2. Indexes
+    - `order_items(product_id)` for the popularity sort
+*/
+
+CREATE INDEX IF NOT EXISTS idx_order_items_product_id ON order_items(product_id);
+
+DROP FUNCTION IF EXISTS filter_products(text, text, text[], text[], text[], text[], text, integer);
+DROP FUNCTION IF EXISTS product_facets(text, text, text[], text[], text[], text[]);
+DROP FUNCTION IF EXISTS product_listing_base(text, text);
+
+CREATE OR REPLACE FUNCTION product_listing_base(p_category text, p_query text, p_on_sale boolean)
+RETURNS TABLE (
+  product_id uuid,
+  name text,
+  price numeric,
+  rating numeric,
+  created_at timestamptz,
+  rank real,
+  subcategory_slug text,
+  subcategory_name text,
+  price_band text,
+  sizes text[],
+  colors text[]
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH scope AS (
+    SELECT c.id, c.parent_id
+    FROM categories c
+    WHERE c.slug = p_category
+  ),
+  matches AS (
+    SELECT m.product_id, m.rank
+    FROM search_products(p_query, 500) m
+  )
+  SELECT
+    p.id,
+    p.name,
+    p.price,
+    p.rating,
+    p.created_at,
+    m.rank,
+    sc.slug,
+    sc.name,
+    price_band(p.price),
+    coalesce(v.sizes, '{}'),
+    coalesce(v.colors, '{}')
+  FROM products p
+  LEFT JOIN matches m ON m.product_id = p.id
+  LEFT JOIN categories sc ON sc.id = p.subcategory_id
+  LEFT JOIN LATERAL (
+    SELECT
+      array_agg(DISTINCT pv.size) FILTER (WHERE pv.size IS NOT NULL) AS sizes,
+      array_agg(DISTINCT pv.color_name) FILTER (WHERE pv.color_name IS NOT NULL) AS colors
+    FROM product_variants pv
+    WHERE pv.product_id = p.id
+    AND pv.is_active = true
+  ) v ON true
+  WHERE p.is_active = true
+  AND (
+    p_category IS NULL
+    OR EXISTS (
+      SELECT 1
+      FROM scope s
+      WHERE (s.parent_id IS NULL AND p.category_id = s.id)
+      OR (s.parent_id IS NOT NULL AND p.subcategory_id = s.id)
+    )
+  )
+  AND (normalize_search_text(p_query) = '' OR m.product_id IS NOT NULL)
+  AND (
+    NOT coalesce(p_on_sale, false)
+    OR p.is_hot_sale = true
+    OR p.original_price > p.price
+  );
+$$;
+
+REVOKE ALL ON FUNCTION product_listing_base(text, text, boolean) FROM PUBLIC, anon, authenticated;
+
+-- Null filter arrays mean "any"; sort is one of name, price-low,
+-- price-high, rating, newest, popularity or relevance
+CREATE OR REPLACE FUNCTION filter_products(
+  p_category text,
+  p_query text,
+  p_on_sale boolean,
+  p_sizes text[],
+  p_colors text[],
+  p_subcategories text[],
+  p_price_bands text[],
+  p_sort text DEFAULT 'name',
+  p_limit integer DEFAULT 24,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (product_id uuid, total_count integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT b.product_id, (count(*) OVER ())::integer
+  FROM product_listing_base(p_category, p_query, p_on_sale) b
+  WHERE (p_sizes IS NULL OR b.sizes && p_sizes)
+  AND (p_colors IS NULL OR b.colors && p_colors)
+  AND (p_subcategories IS NULL OR b.subcategory_slug = ANY(p_subcategories))
+  AND (p_price_bands IS NULL OR b.price_band = ANY(p_price_bands))
+  ORDER BY
+    CASE WHEN p_sort = 'price-low' THEN b.price END ASC,
+    CASE WHEN p_sort = 'price-high' THEN b.price END DESC,
+    CASE WHEN p_sort = 'rating' THEN b.rating END DESC NULLS LAST,
+    CASE WHEN p_sort = 'newest' THEN b.created_at END DESC,
+    CASE WHEN p_sort = 'relevance' THEN b.rank END DESC NULLS LAST,
+    CASE WHEN p_sort = 'popularity' THEN (
+      SELECT coalesce(sum(oi.quantity), 0)
+      FROM order_items oi
+      JOIN orders o ON o.id = oi.order_id
+      WHERE oi.product_id = b.product_id
+      AND o.status NOT IN ('cancelled', 'refunded')
+      AND o.created_at > now() - interval '90 days'
+    ) END DESC,
+    b.name,
+    b.product_id
+  LIMIT least(greatest(p_limit, 1), 100)
+  OFFSET greatest(p_offset, 0);
+$$;
+
+REVOKE ALL ON FUNCTION filter_products(text, text, boolean, text[], text[], text[], text[], text, integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION filter_products(text, text, boolean, text[], text[], text[], text[], text, integer, integer) TO service_role;
+
+CREATE OR REPLACE FUNCTION product_facets(
+  p_category text,
+  p_query text,
+  p_on_sale boolean,
+  p_sizes text[],
+  p_colors text[],
+  p_subcategories text[],
+  p_price_bands text[]
+)
+RETURNS TABLE (facet text, value text, label text, swatch text, product_count integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH base AS (
+    SELECT
+      b.*,
+      (p_sizes IS NULL OR b.sizes && p_sizes) AS size_ok,
+      (p_colors IS NULL OR b.colors && p_colors) AS color_ok,
+      (p_subcategories IS NULL OR b.subcategory_slug = ANY(p_subcategories)) AS subcategory_ok,
+      (p_price_bands IS NULL OR b.price_band = ANY(p_price_bands)) AS price_ok
+    FROM product_listing_base(p_category, p_query, p_on_sale) b
+  )
+  SELECT 'size', s.size, s.size, NULL, count(*)::integer
+  FROM base
+  CROSS JOIN LATERAL unnest(base.sizes) AS s(size)
+  WHERE color_ok AND subcategory_ok AND price_ok
+  GROUP BY s.size
+
+  UNION ALL
+
+  SELECT
+    'color',
+    c.color,
+    c.color,
+    (
+      SELECT min(pv.color_code)
+      FROM product_variants pv
+      WHERE pv.color_name = c.color
+      AND pv.is_active = true
+    ),
+    count(*)::integer
+  FROM base
+  CROSS JOIN LATERAL unnest(base.colors) AS c(color)
+  WHERE size_ok AND subcategory_ok AND price_ok
+  GROUP BY c.color
+
+  UNION ALL
+
+  SELECT 'subcategory', subcategory_slug, min(subcategory_name), NULL, count(*)::integer
+  FROM base
+  WHERE subcategory_slug IS NOT NULL
+  AND size_ok AND color_ok AND price_ok
+  GROUP BY subcategory_slug
+
+  UNION ALL
+
+  SELECT 'price', price_band, price_band, NULL, count(*)::integer
+  FROM base
+  WHERE size_ok AND color_ok AND subcategory_ok
+  GROUP BY price_band;
+$$;
+
+REVOKE ALL ON FUNCTION product_facets(text, text, boolean, text[], text[], text[], text[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION product_facets(text, text, boolean, text[], text[], text[], text[]) TO service_role;
@@ -0,0 +1,219 @@
+/*
+  # Product Reviews
+
+  1. New Tables
+    - `product_reviews`
+      - `id` (uuid, primary key)
+      - `product_id` (uuid), `user_id` (uuid) - one review per customer per
+        product; reviewing again edits it
+      - `rating` (smallint) - 1 to 5 stars
+      - `title` (text), `body` (text)
+      - `size_purchased` (text, nullable)
+      - `fit` (text, nullable) - 'runs-small', 'true-to-size' or 'runs-large'
+
+  2. Functions
+    - `is_verified_purchase` - whether the customer has a delivered order
+      containing the product. Worked out when reviews are read, so a review
+      gets its badge once the order arrives and loses it on refund.
+    - `product_reviews_page` - one page of a product's reviews with the
+      reviewer's display name ("Priya S.") and badge
+    - `product_review_stats` - reviews per star rating and per fit
+    - `refresh_product_rating` - keeps `products.rating` and `review_count`
+      in step with the reviews, run by a trigger on `product_reviews`
+
+  3. Changes
+    - `products.rating` and `review_count` are recomputed from the reviews,
+      replacing the sample figures
+
+  4. Security
+    - Enable RLS; admins can manage reviews. Customers read and write them
+      through the API, which needs auth.users for reviewer names.
+*/
+
+CREATE TABLE IF NOT EXISTS product_reviews (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  rating smallint NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  title text NOT NULL CHECK (char_length(title) BETWEEN 1 AND 120),
+  body text NOT NULL CHECK (char_length(body) BETWEEN 1 AND 2000),
+  size_purchased text,
+  fit text CHECK (fit IN ('runs-small', 'true-to-size', 'runs-large')),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (product_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_reviews_product_id ON product_reviews(product_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_product_reviews_user_id ON product_reviews(user_id);
+
+ALTER TABLE product_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage product reviews"
+  ON product_reviews FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE TRIGGER update_product_reviews_updated_at
+  BEFORE UPDATE ON product_reviews
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION is_verified_purchase(p_user_id uuid, p_product_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    WHERE o.user_id = p_user_id
+    AND oi.product_id = p_product_id
+    AND o.status = 'delivered'
+  );
+$$;
+
+REVOKE ALL ON FUNCTION is_verified_purchase(uuid, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION is_verified_purchase(uuid, uuid) TO service_role;
+
+-- Sort is one of newest, oldest, highest or lowest. With p_user_id, only
+-- that customer's review.
+CREATE OR REPLACE FUNCTION product_reviews_page(
+  p_product_id uuid,
+  p_user_id uuid DEFAULT NULL,
+  p_sort text DEFAULT 'newest',
+  p_limit integer DEFAULT 10,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  rating smallint,
+  title text,
+  body text,
+  size_purchased text,
+  fit text,
+  reviewer_name text,
+  is_verified_purchase boolean,
+  created_at timestamptz,
+  updated_at timestamptz,
+  total_count integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    r.id,
+    r.rating,
+    r.title,
+    r.body,
+    r.size_purchased,
+    r.fit,
+    COALESCE(
+      NULLIF(trim(concat_ws(' ', n.first_name, left(n.last_name, 1) || '.')), ''),
+      'Customer'
+    ),
+    is_verified_purchase(r.user_id, r.product_id),
+    r.created_at,
+    r.updated_at,
+    (COUNT(*) OVER ())::integer
+  FROM product_reviews r
+  LEFT JOIN LATERAL (
+    SELECT
+      COALESCE(NULLIF(p.first_name, ''), NULLIF(up.first_name, ''), NULLIF(u.raw_user_meta_data->>'first_name', '')) AS first_name,
+      COALESCE(NULLIF(p.last_name, ''), NULLIF(up.last_name, ''), NULLIF(u.raw_user_meta_data->>'last_name', '')) AS last_name
+    FROM auth.users u
+    LEFT JOIN profiles p ON p.id = u.id
+    LEFT JOIN user_profiles up ON up.id = u.id
+    WHERE u.id = r.user_id
+  ) n ON true
+  WHERE r.product_id = p_product_id
+  AND (p_user_id IS NULL OR r.user_id = p_user_id)
+  ORDER BY
+    CASE WHEN p_sort = 'highest' THEN r.rating END DESC,
+    CASE WHEN p_sort = 'lowest' THEN r.rating END ASC,
+    CASE WHEN p_sort = 'oldest' THEN r.created_at END ASC,
+    r.created_at DESC,
+    r.id
+  LIMIT least(greatest(p_limit, 1), 50)
+  OFFSET greatest(p_offset, 0);
+$$;
+
+REVOKE ALL ON FUNCTION product_reviews_page(uuid, uuid, text, integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION product_reviews_page(uuid, uuid, text, integer, integer) TO service_role;
+
+CREATE OR REPLACE FUNCTION product_review_stats(p_product_id uuid)
+RETURNS TABLE (stat text, value text, review_count integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT 'rating', r.rating::text, count(*)::integer
+  FROM product_reviews r
+  WHERE r.product_id = p_product_id
+  GROUP BY r.rating
+
+  UNION ALL
+
+  SELECT 'fit', r.fit, count(*)::integer
+  FROM product_reviews r
+  WHERE r.product_id = p_product_id
+  AND r.fit IS NOT NULL
+  GROUP BY r.fit;
+$$;
+
+REVOKE ALL ON FUNCTION product_review_stats(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION product_review_stats(uuid) TO service_role;
+
+CREATE OR REPLACE FUNCTION refresh_product_rating(p_product_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE products p
+  SET
+    rating = COALESCE(r.average, 0),
+    review_count = r.review_count
+  FROM (
+    SELECT round(avg(pr.rating), 1) AS average, count(*)::integer AS review_count
+    FROM product_reviews pr
+    WHERE pr.product_id = p_product_id
+  ) r
+  WHERE p.id = p_product_id;
+$$;
+
+REVOKE ALL ON FUNCTION refresh_product_rating(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION product_reviews_refresh_rating()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM refresh_product_rating(NEW.product_id);
+  ELSIF TG_OP = 'DELETE' THEN
+    PERFORM refresh_product_rating(OLD.product_id);
+  ELSE
+    PERFORM refresh_product_rating(OLD.product_id);
+    IF NEW.product_id <> OLD.product_id THEN
+      PERFORM refresh_product_rating(NEW.product_id);
+    END IF;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_product_rating_on_review
+  AFTER INSERT OR UPDATE OR DELETE ON product_reviews
+  FOR EACH ROW EXECUTE FUNCTION product_reviews_refresh_rating();
+
+-- No reviews exist yet, so this clears the sample ratings
+UPDATE products SET rating = 0, review_count = 0;
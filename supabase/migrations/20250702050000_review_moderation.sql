@@ -0,0 +1,425 @@
+/*
+  # Review Moderation and Photos
+
+  1. Changes to existing tables
+    - `product_reviews`
+      - `status` (text) - 'pending', 'approved', 'rejected' or 'flagged'
+        (abusive). Only approved reviews are shown or counted in ratings.
+      - `hold_reason` (text, nullable) - why the review was held
+      - `admin_reply` (text, nullable), `admin_replied_at` - the store's
+        public reply
+      - `moderated_by` (uuid, nullable), `moderated_at`
+
+  2. New Tables
+    - `review_photos` - up to five photos per review, stored in the
+      `review-photos` bucket under the customer's user id
+      - `storage_path` (text, unique), `sort_order` (smallint)
+      - `is_approved` (boolean) - photos always wait for a moderator, even
+        on reviews whose text was published straight away
+    - `review_banned_words` - lower-case words and phrases that hold a
+      review for moderation
+
+  3. Functions
+    - `review_hold_reason` - why a review should be held: it contains a
+      link or a banned word, or its author has a flagged review
+    - `hold_suspicious_review` - trigger setting the status whenever a
+      customer writes or edits a review. Edits to rejected reviews go back
+      to the queue; flagged reviews stay flagged.
+    - `admin_product_reviews` - the moderation queue, with reviewer email
+    - `product_reviews_page`, `product_review_stats`,
+      `refresh_product_rating` - approved reviews only
+
+  4. Security
+    - New `reviews.moderate` permission, given to admins who can edit
+      products
+    - Enable RLS on the new tables; moderators manage them
+    - Customers upload photos into their own folder of the private
+      `review-photos` bucket (2MB, JPEG; the browser resizes photos to
+      1600px and re-encodes them, and the API checks them before they're
+      attached) and can view and delete them. Photos are shown
+      through short-lived signed URLs from the API, so a pending photo
+      can only be seen by its author and moderators
+*/
+
+UPDATE admin_users
+SET permissions = permissions || jsonb_build_object(
+  'reviews.moderate',
+  COALESCE(permissions->'products.write', 'false') = 'true'
+)
+WHERE NOT permissions ? 'reviews.moderate';
+
+ALTER TABLE product_reviews
+  ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'approved'
+    CHECK (status IN ('pending', 'approved', 'rejected', 'flagged')),
+  ADD COLUMN IF NOT EXISTS hold_reason text,
+  ADD COLUMN IF NOT EXISTS admin_reply text CHECK (char_length(admin_reply) BETWEEN 1 AND 2000),
+  ADD COLUMN IF NOT EXISTS admin_replied_at timestamptz,
+  ADD COLUMN IF NOT EXISTS moderated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS moderated_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_product_reviews_status ON product_reviews(status, created_at);
+
+DROP POLICY IF EXISTS "Admins can manage product reviews" ON product_reviews;
+CREATE POLICY "Moderators can manage product reviews"
+  ON product_reviews FOR ALL
+  TO authenticated
+  USING (has_permission('reviews.moderate'))
+  WITH CHECK (has_permission('reviews.moderate'));
+
+CREATE TABLE IF NOT EXISTS review_photos (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  review_id uuid NOT NULL REFERENCES product_reviews(id) ON DELETE CASCADE,
+  storage_path text NOT NULL UNIQUE,
+  sort_order smallint NOT NULL DEFAULT 0,
+  is_approved boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_photos_review_id ON review_photos(review_id, sort_order);
+
+CREATE TABLE IF NOT EXISTS review_banned_words (
+  word text PRIMARY KEY CHECK (word = lower(trim(word)) AND word <> ''),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE review_photos ENABLE ROW LEVEL SECURITY;
+ALTER TABLE review_banned_words ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Moderators can manage review photos"
+  ON review_photos FOR ALL
+  TO authenticated
+  USING (has_permission('reviews.moderate'))
+  WITH CHECK (has_permission('reviews.moderate'));
+
+CREATE POLICY "Moderators can manage banned words"
+  ON review_banned_words FOR ALL
+  TO authenticated
+  USING (has_permission('reviews.moderate'))
+  WITH CHECK (has_permission('reviews.moderate'));
+
+INSERT INTO review_banned_words (word) VALUES
+  ('casino'),
+  ('lottery'),
+  ('viagra'),
+  ('bitcoin'),
+  ('whatsapp me'),
+  ('call me on')
+ON CONFLICT (word) DO NOTHING;
+
+-- Storage
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'review-photos',
+  'review-photos',
+  false,
+  2097152,
+  ARRAY['image/jpeg']
+)
+ON CONFLICT (id) DO UPDATE SET
+  public = EXCLUDED.public,
+  file_size_limit = EXCLUDED.file_size_limit,
+  allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+DROP POLICY IF EXISTS "Customers can upload review photos" ON storage.objects;
+CREATE POLICY "Customers can upload review photos"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'review-photos'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+DROP POLICY IF EXISTS "Customers can view own review photos" ON storage.objects;
+CREATE POLICY "Customers can view own review photos"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'review-photos'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+DROP POLICY IF EXISTS "Customers can delete own review photos" ON storage.objects;
+CREATE POLICY "Customers can delete own review photos"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'review-photos'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- Null when the review can be published straight away. Single banned
+-- words match whole words only, so "scunthorpe"-style false hits don't
+-- happen; phrases match anywhere.
+CREATE OR REPLACE FUNCTION review_hold_reason(p_user_id uuid, p_title text, p_body text)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH review AS (
+    SELECT lower(COALESCE(p_title, '') || ' ' || COALESCE(p_body, '')) AS content
+  ),
+  words AS (
+    SELECT regexp_split_to_array(r.content, '[^[:alnum:]]+') AS words
+    FROM review r
+  )
+  SELECT COALESCE(
+    (
+      SELECT 'Contains a link'
+      FROM review r
+      WHERE r.content ~ '(https?://|www\.|\m[a-z0-9-]+\.(com|in|net|org|co|io|ly|me|xyz|info)\M)'
+    ),
+    (
+      SELECT 'Contains "' || b.word || '"'
+      FROM review_banned_words b, review r, words w
+      WHERE CASE
+        WHEN b.word ~ '[^[:alnum:]]' THEN position(b.word IN r.content) > 0
+        ELSE b.word = ANY(w.words)
+      END
+      ORDER BY b.word
+      LIMIT 1
+    ),
+    (
+      SELECT 'Author has a flagged review'
+      WHERE EXISTS (
+        SELECT 1 FROM product_reviews pr
+        WHERE pr.user_id = p_user_id
+        AND pr.status = 'flagged'
+      )
+    )
+  );
+$$;
+
+REVOKE ALL ON FUNCTION review_hold_reason(uuid, text, text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION hold_suspicious_review()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  reason text;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.title = OLD.title AND NEW.body = OLD.body THEN
+      RETURN NEW;
+    END IF;
+    IF OLD.status = 'flagged' THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  reason := review_hold_reason(NEW.user_id, NEW.title, NEW.body);
+  IF reason IS NULL AND TG_OP = 'UPDATE' AND OLD.status = 'rejected' THEN
+    reason := 'Edited after being rejected';
+  END IF;
+
+  NEW.status := CASE WHEN reason IS NULL THEN 'approved' ELSE 'pending' END;
+  NEW.hold_reason := reason;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS hold_suspicious_review ON product_reviews;
+CREATE TRIGGER hold_suspicious_review
+  BEFORE INSERT OR UPDATE OF title, body ON product_reviews
+  FOR EACH ROW EXECUTE FUNCTION hold_suspicious_review();
+
+CREATE OR REPLACE FUNCTION refresh_product_rating(p_product_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE products p
+  SET
+    rating = COALESCE(r.average, 0),
+    review_count = r.review_count
+  FROM (
+    SELECT round(avg(pr.rating), 1) AS average, count(*)::integer AS review_count
+    FROM product_reviews pr
+    WHERE pr.product_id = p_product_id
+    AND pr.status = 'approved'
+  ) r
+  WHERE p.id = p_product_id;
+$$;
+
+DROP FUNCTION IF EXISTS product_reviews_page(uuid, uuid, text, integer, integer);
+
+-- Sort is one of newest, oldest, highest or lowest. With p_user_id, only
+-- that customer's review, whatever its status; otherwise approved ones.
+CREATE OR REPLACE FUNCTION product_reviews_page(
+  p_product_id uuid,
+  p_user_id uuid DEFAULT NULL,
+  p_sort text DEFAULT 'newest',
+  p_limit integer DEFAULT 10,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  rating smallint,
+  title text,
+  body text,
+  size_purchased text,
+  fit text,
+  status text,
+  admin_reply text,
+  admin_replied_at timestamptz,
+  reviewer_name text,
+  is_verified_purchase boolean,
+  created_at timestamptz,
+  updated_at timestamptz,
+  total_count integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    r.id,
+    r.rating,
+    r.title,
+    r.body,
+    r.size_purchased,
+    r.fit,
+    r.status,
+    r.admin_reply,
+    r.admin_replied_at,
+    COALESCE(
+      NULLIF(trim(concat_ws(' ', n.first_name, left(n.last_name, 1) || '.')), ''),
+      'Customer'
+    ),
+    is_verified_purchase(r.user_id, r.product_id),
+    r.created_at,
+    r.updated_at,
+    (COUNT(*) OVER ())::integer
+  FROM product_reviews r
+  LEFT JOIN LATERAL (
+    SELECT
+      COALESCE(NULLIF(p.first_name, ''), NULLIF(up.first_name, ''), NULLIF(u.raw_user_meta_data->>'first_name', '')) AS first_name,
+      COALESCE(NULLIF(p.last_name, ''), NULLIF(up.last_name, ''), NULLIF(u.raw_user_meta_data->>'last_name', '')) AS last_name
+    FROM auth.users u
+    LEFT JOIN profiles p ON p.id = u.id
+    LEFT JOIN user_profiles up ON up.id = u.id
+    WHERE u.id = r.user_id
+  ) n ON true
+  WHERE r.product_id = p_product_id
+  AND (
+    (p_user_id IS NULL AND r.status = 'approved')
+    OR r.user_id = p_user_id
+  )
+  ORDER BY
+    CASE WHEN p_sort = 'highest' THEN r.rating END DESC,
+    CASE WHEN p_sort = 'lowest' THEN r.rating END ASC,
+    CASE WHEN p_sort = 'oldest' THEN r.created_at END ASC,
+    r.created_at DESC,
+    r.id
+  LIMIT least(greatest(p_limit, 1), 50)
+  OFFSET greatest(p_offset, 0);
+$$;
+
+REVOKE ALL ON FUNCTION product_reviews_page(uuid, uuid, text, integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION product_reviews_page(uuid, uuid, text, integer, integer) TO service_role;
+
+CREATE OR REPLACE FUNCTION product_review_stats(p_product_id uuid)
+RETURNS TABLE (stat text, value text, review_count integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT 'rating', r.rating::text, count(*)::integer
+  FROM product_reviews r
+  WHERE r.product_id = p_product_id
+  AND r.status = 'approved'
+  GROUP BY r.rating
+
+  UNION ALL
+
+  SELECT 'fit', r.fit, count(*)::integer
+  FROM product_reviews r
+  WHERE r.product_id = p_product_id
+  AND r.status = 'approved'
+  AND r.fit IS NOT NULL
+  GROUP BY r.fit;
+$$;
+
+-- The 'pending' queue also holds published reviews with photos waiting
+-- for approval. Pending reviews come oldest first, the rest newest first.
+CREATE OR REPLACE FUNCTION admin_product_reviews(
+  p_status text DEFAULT 'pending',
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  product_id uuid,
+  product_name text,
+  user_id uuid,
+  reviewer_email text,
+  rating smallint,
+  title text,
+  body text,
+  size_purchased text,
+  fit text,
+  status text,
+  hold_reason text,
+  admin_reply text,
+  admin_replied_at timestamptz,
+  is_verified_purchase boolean,
+  moderated_at timestamptz,
+  created_at timestamptz,
+  updated_at timestamptz,
+  total_count bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    r.id,
+    r.product_id,
+    p.name,
+    r.user_id,
+    u.email::text,
+    r.rating,
+    r.title,
+    r.body,
+    r.size_purchased,
+    r.fit,
+    r.status,
+    r.hold_reason,
+    r.admin_reply,
+    r.admin_replied_at,
+    is_verified_purchase(r.user_id, r.product_id),
+    r.moderated_at,
+    r.created_at,
+    r.updated_at,
+    COUNT(*) OVER ()
+  FROM product_reviews r
+  JOIN products p ON p.id = r.product_id
+  LEFT JOIN auth.users u ON u.id = r.user_id
+  WHERE r.status = p_status
+  OR (
+    p_status = 'pending'
+    AND r.status = 'approved'
+    AND EXISTS (
+      SELECT 1 FROM review_photos ph
+      WHERE ph.review_id = r.id
+      AND NOT ph.is_approved
+    )
+  )
+  ORDER BY
+    CASE WHEN p_status = 'pending' THEN r.created_at END ASC,
+    r.created_at DESC,
+    r.id
+  LIMIT least(greatest(p_limit, 1), 100)
+  OFFSET greatest(p_offset, 0);
+$$;
+
+REVOKE ALL ON FUNCTION admin_product_reviews(text, integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION admin_product_reviews(text, integer, integer) TO service_role;
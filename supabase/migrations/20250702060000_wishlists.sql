@@ -0,0 +1,89 @@
+/*
+  # Wishlists
+
+  1. New Tables
+    - `wishlist_items`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid), `product_id` (uuid) - a product is on a customer's
+        wishlist once; saving it again updates the chosen variant
+      - `variant_id` (uuid, nullable) - the size and colour, if one was
+        chosen. Cleared when the variant is deleted.
+    - `wishlist_shares`
+      - `user_id` (uuid, primary key) - one share link per customer
+      - `token` (text, unique) - the secret part of the share link.
+        Deleting the row turns sharing off.
+
+  2. Functions
+    - `shared_wishlist` - the entries behind a share link, with the owner's
+      first name. An empty wishlist gives one row without a product, so it
+      can be told apart from an unknown link.
+
+  3. Security
+    - Enable RLS; customers manage their own wishlist and share link.
+      Shared wishlists are read through the API.
+*/
+
+CREATE TABLE IF NOT EXISTS wishlist_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  variant_id uuid REFERENCES product_variants(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, product_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_wishlist_items_user_id ON wishlist_items(user_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS wishlist_shares (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  token text NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text, '-', ''),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE wishlist_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE wishlist_shares ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own wishlist items"
+  ON wishlist_items FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage own wishlist share"
+  ON wishlist_shares FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION shared_wishlist(p_token text)
+RETURNS TABLE (
+  owner_name text,
+  product_id uuid,
+  variant_id uuid,
+  created_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    n.first_name,
+    w.product_id,
+    w.variant_id,
+    w.created_at
+  FROM wishlist_shares s
+  LEFT JOIN wishlist_items w ON w.user_id = s.user_id
+  LEFT JOIN LATERAL (
+    SELECT COALESCE(NULLIF(p.first_name, ''), NULLIF(up.first_name, ''), NULLIF(u.raw_user_meta_data->>'first_name', '')) AS first_name
+    FROM auth.users u
+    LEFT JOIN profiles p ON p.id = u.id
+    LEFT JOIN user_profiles up ON up.id = u.id
+    WHERE u.id = s.user_id
+  ) n ON true
+  WHERE s.token = p_token
+  ORDER BY w.created_at DESC NULLS LAST;
+$$;
+
+REVOKE ALL ON FUNCTION shared_wishlist(text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION shared_wishlist(text) TO service_role;
@@ -0,0 +1,331 @@
+/*
+  # Back-in-stock and Price-drop Alerts
+
+  1. New Tables
+    - `stock_alerts` - a customer waiting for a sold-out variant
+      - `id` (uuid, primary key)
+      - `user_id` (uuid), `variant_id` (uuid)
+      - `notified_at` (timestamptz, nullable) - set when the variant comes
+        back; the row then stays as history and the customer can subscribe
+        again
+    - `notification_preferences` - one row per customer, created when the
+      first alert is sent
+      - `back_in_stock`, `price_drop` (boolean) - whether the customer
+        wants each kind of alert
+      - `unsubscribe_token` (text, unique) - lets email links unsubscribe
+        without logging in
+    - `notifications` - outbox of alerts waiting to be emailed
+      - `kind` (text) - 'back_in_stock' or 'price_drop'
+      - `data` (jsonb) - the variant or the old and new price
+      - `dedupe_key` (text, unique) - one alert per subscription and event,
+        however often the triggers fire
+      - `sent_at`, `attempts`, `last_error`, `locked_until` - delivery state
+
+  2. Changes
+    - `wishlist_items.alerted_price` - the lowest price the customer has
+      been told about. Only a drop below it sends another alert, so prices
+      moving back and forth don't flood the inbox.
+
+  3. Functions
+    - `queue_back_in_stock_alerts` - trigger on `product_variants` queuing
+      an alert for each waiting customer when stock goes from 0 to more
+    - `queue_price_drop_alerts` - trigger on `products` queuing an alert
+      for each wishlist holding the product when its price drops
+    - `claim_notifications` - hands a batch of unsent alerts to the API for
+      delivery, with the customer's email and product details
+    - `unsubscribe_notifications` - turns one kind of alert off for the
+      owner of an unsubscribe token
+
+  4. Security
+    - Enable RLS; customers manage their own stock alerts and preferences,
+      and can only subscribe to variants that are sold out. The outbox is
+      only read by the API.
+*/
+
+CREATE TABLE IF NOT EXISTS stock_alerts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  variant_id uuid NOT NULL REFERENCES product_variants(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  notified_at timestamptz
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_stock_alerts_waiting
+  ON stock_alerts(variant_id, user_id)
+  WHERE notified_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_stock_alerts_user_id ON stock_alerts(user_id);
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  back_in_stock boolean NOT NULL DEFAULT true,
+  price_drop boolean NOT NULL DEFAULT true,
+  unsubscribe_token text NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text, '-', ''),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('back_in_stock', 'price_drop')),
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  variant_id uuid REFERENCES product_variants(id) ON DELETE CASCADE,
+  data jsonb NOT NULL DEFAULT '{}',
+  dedupe_key text NOT NULL UNIQUE,
+  created_at timestamptz DEFAULT now(),
+  sent_at timestamptz,
+  attempts integer NOT NULL DEFAULT 0,
+  last_error text,
+  locked_until timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_unsent
+  ON notifications(created_at)
+  WHERE sent_at IS NULL;
+
+ALTER TABLE wishlist_items ADD COLUMN IF NOT EXISTS alerted_price decimal(10,2);
+
+ALTER TABLE stock_alerts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own stock alerts"
+  ON stock_alerts FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can subscribe to sold-out variants"
+  ON stock_alerts FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND notified_at IS NULL
+    AND EXISTS (
+      SELECT 1 FROM product_variants v
+      WHERE v.id = variant_id
+      AND v.is_active = true
+      AND v.stock_quantity <= 0
+    )
+  );
+
+CREATE POLICY "Users can delete own stock alerts"
+  ON stock_alerts FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage own notification preferences"
+  ON notification_preferences FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_notification_preferences_updated_at
+  BEFORE UPDATE ON notification_preferences
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Detectors
+
+CREATE OR REPLACE FUNCTION queue_back_in_stock_alerts()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Subscriptions that can't be sent now (inactive product, alerts paused)
+  -- keep waiting for the next restock
+  WITH due AS (
+    UPDATE stock_alerts sa
+    SET notified_at = now()
+    WHERE sa.variant_id = NEW.id
+    AND sa.notified_at IS NULL
+    AND EXISTS (
+      SELECT 1 FROM products p
+      WHERE p.id = NEW.product_id
+      AND p.is_active
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM notification_preferences np
+      WHERE np.user_id = sa.user_id
+      AND NOT np.back_in_stock
+    )
+    RETURNING sa.id, sa.user_id
+  )
+  INSERT INTO notifications (user_id, kind, product_id, variant_id, data, dedupe_key)
+  SELECT
+    d.user_id,
+    'back_in_stock',
+    NEW.product_id,
+    NEW.id,
+    jsonb_build_object('size', NEW.size, 'colorName', NEW.color_name),
+    'back_in_stock:' || d.id
+  FROM due d
+  ON CONFLICT (dedupe_key) DO NOTHING;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS queue_back_in_stock_alerts ON product_variants;
+CREATE TRIGGER queue_back_in_stock_alerts
+  AFTER UPDATE OF stock_quantity ON product_variants
+  FOR EACH ROW
+  WHEN (OLD.stock_quantity <= 0 AND NEW.stock_quantity > 0 AND NEW.is_active)
+  EXECUTE FUNCTION queue_back_in_stock_alerts();
+
+CREATE OR REPLACE FUNCTION queue_price_drop_alerts()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  WITH due AS (
+    UPDATE wishlist_items w
+    SET alerted_price = NEW.price
+    WHERE w.product_id = NEW.id
+    AND NEW.price < COALESCE(w.alerted_price, OLD.price)
+    RETURNING w.id, w.user_id
+  )
+  INSERT INTO notifications (user_id, kind, product_id, data, dedupe_key)
+  SELECT
+    d.user_id,
+    'price_drop',
+    NEW.id,
+    jsonb_build_object('oldPrice', OLD.price, 'newPrice', NEW.price),
+    'price_drop:' || d.id || ':' || NEW.price
+  FROM due d
+  WHERE NOT EXISTS (
+    SELECT 1 FROM notification_preferences np
+    WHERE np.user_id = d.user_id
+    AND NOT np.price_drop
+  )
+  ON CONFLICT (dedupe_key) DO NOTHING;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS queue_price_drop_alerts ON products;
+CREATE TRIGGER queue_price_drop_alerts
+  AFTER UPDATE OF price ON products
+  FOR EACH ROW
+  WHEN (NEW.price < OLD.price AND NEW.is_active)
+  EXECUTE FUNCTION queue_price_drop_alerts();
+
+-- Delivery
+
+CREATE OR REPLACE FUNCTION claim_notifications(p_limit integer DEFAULT 50)
+RETURNS TABLE (
+  id uuid,
+  kind text,
+  email text,
+  first_name text,
+  product_id uuid,
+  product_name text,
+  image_url text,
+  data jsonb,
+  unsubscribe_token text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_ids uuid[];
+BEGIN
+  -- Locked for ten minutes, so a batch that dies mid-way is retried and
+  -- two senders running at once don't email the same alert
+  WITH claimed AS (
+    SELECT n.id
+    FROM notifications n
+    WHERE n.sent_at IS NULL
+    AND n.attempts < 5
+    AND (n.locked_until IS NULL OR n.locked_until < now())
+    ORDER BY n.created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  ), updated AS (
+    UPDATE notifications n
+    SET attempts = n.attempts + 1,
+        locked_until = now() + interval '10 minutes'
+    FROM claimed c
+    WHERE n.id = c.id
+    RETURNING n.id
+  )
+  SELECT array_agg(updated.id) INTO v_ids FROM updated;
+
+  INSERT INTO notification_preferences (user_id)
+  SELECT DISTINCT n.user_id
+  FROM notifications n
+  WHERE n.id = ANY(v_ids)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  RETURN QUERY
+  SELECT
+    n.id,
+    n.kind,
+    u.email::text,
+    COALESCE(NULLIF(p.first_name, ''), NULLIF(up.first_name, ''), NULLIF(u.raw_user_meta_data->>'first_name', '')),
+    n.product_id,
+    pr.name,
+    (
+      SELECT pi.image_url FROM product_images pi
+      WHERE pi.product_id = n.product_id
+      ORDER BY pi.is_primary DESC, pi.sort_order
+      LIMIT 1
+    ),
+    n.data,
+    np.unsubscribe_token
+  FROM notifications n
+  JOIN auth.users u ON u.id = n.user_id
+  JOIN products pr ON pr.id = n.product_id
+  JOIN notification_preferences np ON np.user_id = n.user_id
+  LEFT JOIN profiles p ON p.id = n.user_id
+  LEFT JOIN user_profiles up ON up.id = n.user_id
+  WHERE n.id = ANY(v_ids)
+  ORDER BY n.created_at;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION unsubscribe_notifications(p_token text, p_kind text)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+BEGIN
+  UPDATE notification_preferences
+  SET back_in_stock = CASE WHEN p_kind = 'back_in_stock' THEN false ELSE back_in_stock END,
+      price_drop = CASE WHEN p_kind = 'price_drop' THEN false ELSE price_drop END
+  WHERE unsubscribe_token = p_token
+  RETURNING user_id INTO v_user_id;
+
+  IF v_user_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  -- Alerts already queued shouldn't arrive after unsubscribing
+  DELETE FROM notifications
+  WHERE user_id = v_user_id
+  AND kind = p_kind
+  AND sent_at IS NULL;
+
+  IF p_kind = 'back_in_stock' THEN
+    DELETE FROM stock_alerts
+    WHERE user_id = v_user_id
+    AND notified_at IS NULL;
+  END IF;
+
+  RETURN true;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION queue_back_in_stock_alerts() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION queue_price_drop_alerts() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION claim_notifications(integer) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION unsubscribe_notifications(text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_notifications(integer) TO service_role;
+GRANT EXECUTE ON FUNCTION unsubscribe_notifications(text, text) TO service_role;
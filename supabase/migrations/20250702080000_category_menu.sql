@@ -0,0 +1,30 @@
+/*
+  # Category Menu Sections
+
+  1. Changes to `categories`
+    - `menu_section` (text, nullable) - the header dropdown a top-level
+      category is listed under, e.g. "Men". Top-level categories without
+      one get a header entry of their own. Ignored on subcategories, which
+      are always listed under their parent.
+
+  2. Data
+    - The existing men's and women's categories go under "Men" and
+      "Women", as the header used to hard-code
+
+  3. Security
+    - Covered by the existing category policies
+*/
+
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS menu_section text;
+
+UPDATE categories
+SET menu_section = 'Men'
+WHERE parent_id IS NULL
+AND slug IN ('mens-t-shirts', 'mens-bottomwear')
+AND menu_section IS NULL;
+
+UPDATE categories
+SET menu_section = 'Women'
+WHERE parent_id IS NULL
+AND slug IN ('womens-leggings', 'womens-sarees-shapewear', 'womens-night-wear', 'womens-innerwear')
+AND menu_section IS NULL;
@@ -32,6 +32,9 @@ export default defineConfig({
         // External dependencies that should not be bundled
         "express",
         "cors",
+        // Reads its font files from node_modules at runtime
+        "pdfkit",
+        "exceljs",
       ],
       output: {
         format: "es",
@@ -1,7 +1,6 @@
-import { defineConfig, Plugin } from "vite";
+import { defineConfig, loadEnv, Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
-import { createServer } from "./server";
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
@@ -25,7 +24,19 @@ function expressPlugin(): Plugin {
   return {
     name: "express-plugin",
     apply: "serve", // Only apply during development (serve mode)
-    configureServer(server) {
+    async configureServer(server) {
+      // Expose non-VITE_ variables (e.g. SUPABASE_SERVICE_ROLE_KEY) to the API
+      Object.assign(
+        process.env,
+        loadEnv(server.config.mode, process.cwd(), ""),
+      );
+
+      // Loaded through Vite rather than imported at the top of this file:
+      // Node resolves the config's own imports and knows nothing of the
+      // @shared alias the server uses
+      const { createServer } = (await server.ssrLoadModule(
+        "/server/index.ts",
+      )) as typeof import("./server");
       const app = createServer();
 
       // Add Express app as middleware to Vite dev server